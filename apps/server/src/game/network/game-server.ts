@@ -7,9 +7,9 @@
  * @see NETWORK_ARCHITECTURE.md for full specification
  */
 
+import type { EntityTemplateRegistry } from "@rogue/game";
 import type { EventQueue } from "../ecs/core/events";
 import type { World } from "../ecs/core/world";
-import type { EntityTemplateRegistry } from "../ecs/features/templates";
 import type { PositionData } from "../ecs/game/components/spatial";
 import type { GameMap } from "../ecs/game/resources/game-map";
 import type { TurnStateManager } from "../ecs/game/resources/turn-state";
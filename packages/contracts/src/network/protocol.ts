@@ -219,6 +219,16 @@ export interface ExperienceInfo {
   next: number;
 }
 
+/**
+ * Satiety information (compact format).
+ */
+export interface SatietyInfo {
+  /** Current satiety */
+  c: number;
+  /** Maximum satiety */
+  m: number;
+}
+
 // =============================================================================
 // Client → Server Messages
 // =============================================================================
@@ -242,6 +252,43 @@ export interface AttackMessage {
   e: Entity;
 }
 
+/**
+ * Fire the equipped ranged weapon at a tile.
+ */
+export interface FireMessage {
+  t: "f";
+  /** Target tile X */
+  x: number;
+  /** Target tile Y */
+  y: number;
+}
+
+/**
+ * Throw a carried item at a tile.
+ */
+export interface ThrowMessage {
+  t: "th";
+  /** Item entity ID from inventory */
+  e: Entity;
+  /** Target tile X */
+  x: number;
+  /** Target tile Y */
+  y: number;
+}
+
+/**
+ * Cast a known ability at a tile. Self abilities ignore the tile.
+ */
+export interface CastMessage {
+  t: "cs";
+  /** Ability id, e.g. "fireball" */
+  a: string;
+  /** Target tile X */
+  x: number;
+  /** Target tile Y */
+  y: number;
+}
+
 /**
  * Pickup action message.
  */
@@ -289,6 +336,35 @@ export interface UnequipMessage {
   s: EquipmentSlot;
 }
 
+/**
+ * Buy a carried unpaid item at its asking price.
+ */
+export interface BuyMessage {
+  t: "by";
+  /** Item entity ID */
+  e: Entity;
+}
+
+/**
+ * Sell a carried item to the shop the player stands in.
+ */
+export interface SellMessage {
+  t: "sl";
+  /** Item entity ID */
+  e: Entity;
+}
+
+/**
+ * Offer gold for a carried unpaid item.
+ */
+export interface HaggleMessage {
+  t: "hg";
+  /** Item entity ID */
+  e: Entity;
+  /** Offered gold */
+  o: number;
+}
+
 /**
  * Interact action message.
  * Used for doors, stairs, containers, etc.
@@ -322,11 +398,17 @@ export interface PingMessage {
 export type ClientMessage =
   | MoveMessage
   | AttackMessage
+  | FireMessage
+  | ThrowMessage
+  | CastMessage
   | PickupMessage
   | DropMessage
   | UseItemMessage
   | EquipMessage
   | UnequipMessage
+  | BuyMessage
+  | SellMessage
+  | HaggleMessage
   | InteractMessage
   | ReadyMessage
   | PingMessage;
@@ -342,11 +424,17 @@ export type ClientMessageType = ClientMessage["t"];
 export const VALID_CLIENT_MESSAGE_TYPES: ReadonlySet<string> = new Set([
   "m",
   "a",
+  "f",
+  "th",
+  "cs",
   "p",
   "d",
   "u",
   "eq",
   "uq",
+  "by",
+  "sl",
+  "hg",
   "i",
   "ready",
   "ping",
@@ -408,6 +496,8 @@ export interface InventoryItem {
   qty: number;
   /** Is currently equipped? */
   eq?: boolean;
+  /** Asking price, while unpaid shop stock */
+  pr?: number;
 }
 
 /**
@@ -438,6 +528,10 @@ export interface FullPlayerData {
   eq: EquipmentState;
   /** Experience/level */
   xp: ExperienceInfo;
+  /** Satiety (hunger clock) */
+  sat: SatietyInfo;
+  /** Gold */
+  gold: number;
   /** FOV radius */
   fov: number;
 }
@@ -454,6 +548,8 @@ export interface PlayerDelta {
   /** Full equipment (if changed) */
   eq?: EquipmentState;
   xp?: ExperienceInfo;
+  sat?: SatietyInfo;
+  gold?: number;
 }
 
 /**
@@ -567,6 +663,8 @@ export type GameEventData =
       crit?: boolean;
     }
   | { type: "death"; ent: Entity; killer?: Entity }
+  /** Projectile flight; `path` holds packed tile coordinates (packCoord) */
+  | { type: "projectile"; src: Entity; path: number[]; tgt?: Entity }
   | { type: "heal"; ent: Entity; amt: number }
   | { type: "pickup"; ent: Entity; item: Entity; name: string }
   | { type: "drop"; ent: Entity; item: Entity; name: string }
@@ -576,6 +674,16 @@ export type GameEventData =
   | { type: "level"; level: number; direction: "down" | "up" }
   | { type: "trap"; ent: Entity; trap: Entity; dmg?: number }
   | { type: "status"; ent: Entity; status: string; applied: boolean }
+  | { type: "cast"; ent: Entity; ability: string; x: number; y: number }
+  | {
+      type: "trade";
+      ent: Entity;
+      item: Entity;
+      name: string;
+      price: number;
+      action: "buy" | "sell";
+    }
+  | { type: "theft"; ent: Entity; keeper: Entity }
   | { type: "message"; text: string; color?: string };
 
 /**
@@ -597,6 +705,9 @@ export type ErrorCode =
   | "INVALID_TARGET"
   | "TARGET_NOT_FOUND"
   | "OUT_OF_RANGE"
+  | "ON_COOLDOWN"
+  | "NOT_ENOUGH_MANA"
+  | "NOT_ENOUGH_GOLD"
   | "INVENTORY_FULL"
   | "CANNOT_EQUIP"
   | "BLOCKED"
@@ -626,6 +737,44 @@ export interface PongMessage {
   s: number;
 }
 
+/**
+ * How a run ended.
+ */
+export type RunOutcome = "death" | "victory";
+
+/**
+ * Summary of a finished run, as shown in its morgue file.
+ */
+export interface RunSummary {
+  outcome: RunOutcome;
+  /** What killed the player (deaths only) */
+  cause?: string;
+  /** Deepest level reached */
+  depth: number;
+  /** Turns the player took */
+  turns: number;
+  /** Kills by monster template */
+  kills: Record<string, number>;
+  /** Names of the items picked up, in order */
+  items: string[];
+  /** Names of the final equipment by slot */
+  equipment: Record<string, string>;
+  /** Character level */
+  level: number;
+  gold: number;
+  score: number;
+}
+
+/**
+ * Run end message, sent once when the player dies or escapes.
+ */
+export interface RunEndMessage {
+  t: "end";
+  summary: RunSummary;
+  /** Human-readable morgue file */
+  morgue: string;
+}
+
 /**
  * Union of all server message types.
  */
@@ -636,7 +785,8 @@ export type ServerMessage =
   | ResultMessage
   | EventMessage
   | ErrorMessage
-  | PongMessage;
+  | PongMessage
+  | RunEndMessage;
 
 /**
  * Server message type discriminator values.
@@ -664,9 +814,16 @@ export function isServerMessage(msg: unknown): msg is ServerMessage {
   if (typeof msg !== "object" || msg === null) return false;
   const m = msg as Record<string, unknown>;
   if (typeof m.t !== "string") return false;
-  return ["full", "state", "turn", "result", "event", "error", "pong"].includes(
-    m.t,
-  );
+  return [
+    "full",
+    "state",
+    "turn",
+    "result",
+    "event",
+    "error",
+    "pong",
+    "end",
+  ].includes(m.t);
 }
 
 /**
@@ -701,6 +858,30 @@ export function validateClientMessage(msg: unknown): string | null {
       }
       break;
 
+    case "f": // Fire
+      if (!Number.isInteger(m.x) || !Number.isInteger(m.y)) {
+        return "Invalid target tile";
+      }
+      break;
+
+    case "th": // Throw
+      if (typeof m.e !== "number") {
+        return "Missing item entity";
+      }
+      if (!Number.isInteger(m.x) || !Number.isInteger(m.y)) {
+        return "Invalid target tile";
+      }
+      break;
+
+    case "cs": // Cast
+      if (typeof m.a !== "string" || m.a === "") {
+        return "Missing ability id";
+      }
+      if (!Number.isInteger(m.x) || !Number.isInteger(m.y)) {
+        return "Invalid target tile";
+      }
+      break;
+
     case "p": // Pickup
       if (m.e !== undefined && typeof m.e !== "number") {
         return "Invalid target entity";
@@ -729,6 +910,22 @@ export function validateClientMessage(msg: unknown): string | null {
       }
       break;
 
+    case "by": // Buy
+    case "sl": // Sell
+      if (typeof m.e !== "number") {
+        return "Missing item entity";
+      }
+      break;
+
+    case "hg": // Haggle
+      if (typeof m.e !== "number") {
+        return "Missing item entity";
+      }
+      if (!Number.isInteger(m.o) || (m.o as number) < 0) {
+        return "Invalid offer";
+      }
+      break;
+
     case "i": // Interact
       if (m.d !== undefined) {
         if (typeof m.d !== "number" || !isValidDirection(m.d)) {
@@ -12,6 +12,8 @@ const ContentGenerationParamsSchema = z
     decorationChance: z.number().min(0).max(1).optional(),
     enableTreasureRooms: z.boolean().optional(),
     enableTraps: z.boolean().optional(),
+    enableShops: z.boolean().optional(),
+    goalDepth: z.number().int().min(1).max(100).optional(),
   })
   .optional();
 
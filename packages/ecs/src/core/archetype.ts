@@ -8,7 +8,9 @@ import {
   entityGeneration,
   entityIndex,
   FIELD_ARRAY_CTOR,
+  FIELD_BYTE_SIZE,
   type FieldMeta,
+  type FieldValue,
   makeEntity,
 } from "./types";
 
@@ -27,15 +29,59 @@ type TypedArray =
 
 interface Column {
   readonly field: FieldMeta;
+  /** Elements per row: 1 for scalars, the length of array fields */
+  readonly stride: number;
   data: TypedArray;
 }
 
+/**
+ * Change ticks of one component: the archetype change tick at which each
+ * row last had the component added or written.
+ */
+interface ChangeTickColumn {
+  data: Uint32Array;
+}
+
 interface ComponentColumns {
   readonly meta: ComponentMeta;
   readonly columns: Column[];
   readonly fieldIndex: Map<string, number>;
 }
 
+/**
+ * Write a field value to a row of a column. A number given for an array
+ * field sets every element; an array sets its leading elements.
+ */
+function writeColumn(col: Column, row: number, value: FieldValue): void {
+  if (Array.isArray(value)) {
+    col.data.set(
+      value.length > col.stride ? value.slice(0, col.stride) : value,
+      row * col.stride,
+    );
+  } else if (col.stride === 1) {
+    col.data[row] = value;
+  } else {
+    const start = row * col.stride;
+    col.data.fill(value, start, start + col.stride);
+  }
+}
+
+/**
+ * Allocate the storage of a column, on a SharedArrayBuffer when it must be
+ * visible to worker threads.
+ */
+function allocateColumn(
+  type: FieldMeta["type"],
+  length: number,
+  shared: boolean,
+): TypedArray {
+  const ArrayCtor = FIELD_ARRAY_CTOR[type] as new (
+    lengthOrBuffer: number | SharedArrayBuffer,
+  ) => TypedArray;
+  if (!shared) return new ArrayCtor(length);
+  return new ArrayCtor(new SharedArrayBuffer(length * FIELD_BYTE_SIZE[type]));
+}
+
 export class Archetype {
   readonly id: number;
   readonly mask: ComponentMask;
@@ -45,22 +91,43 @@ export class Archetype {
   private entityIndices: Uint32Array;
   private entityGens: Uint16Array;
   private changeFlags: Uint8Array;
-  private componentChangeFlags: BigUint64Array;
+  /**
+   * Per-component change ticks, indexed by component index. A row's
+   * component changed this tick iff its entry equals `changeTick`, so
+   * clearing them is a counter bump whatever the number of components.
+   * `changeTick` is the world tick plus one: an entry greater than a world
+   * tick means a change since the start of that tick.
+   */
+  private readonly componentChangeTicks: (ChangeTickColumn | null)[] = [];
+  private readonly changeTickColumns: ChangeTickColumn[] = [];
+  private changeTick: number;
+  private lastChangeTick = 0;
   private _count = 0;
   private _capacity: number;
 
   private _version = 0;
   private readonly columnVersions = new Map<number, number>();
-
-  constructor(id: number, componentTypes: ComponentClass[]) {
+  private sharedStorage: boolean;
+
+  constructor(
+    id: number,
+    componentTypes: ComponentClass[],
+    sharedStorage = false,
+    changeTick = 1,
+  ) {
     this.id = id;
     this.componentTypes = componentTypes;
+    this.changeTick = changeTick;
     this._capacity = INITIAL_CAPACITY;
+    this.sharedStorage = sharedStorage;
 
     const mask = new ComponentMask();
     for (const type of componentTypes) {
       const meta = getComponentMeta(type);
       mask.set(meta.id.index);
+      const changeTicks = { data: new Uint32Array(INITIAL_CAPACITY) };
+      this.componentChangeTicks[meta.id.index] = changeTicks;
+      this.changeTickColumns.push(changeTicks);
 
       if (!meta.isTag) {
         const columns: Column[] = [];
@@ -68,10 +135,15 @@ export class Archetype {
 
         for (let i = 0; i < meta.fields.length; i++) {
           const field = meta.fields[i]!;
-          const ArrayCtor = FIELD_ARRAY_CTOR[field.type]!;
+          const stride = field.length ?? 1;
           columns.push({
             field,
-            data: new ArrayCtor(INITIAL_CAPACITY) as TypedArray,
+            stride,
+            data: allocateColumn(
+              field.type,
+              INITIAL_CAPACITY * stride,
+              sharedStorage,
+            ),
           });
           fieldIndex.set(field.name, i);
         }
@@ -84,7 +156,6 @@ export class Archetype {
     this.entityIndices = new Uint32Array(INITIAL_CAPACITY);
     this.entityGens = new Uint16Array(INITIAL_CAPACITY);
     this.changeFlags = new Uint8Array(INITIAL_CAPACITY);
-    this.componentChangeFlags = new BigUint64Array(INITIAL_CAPACITY);
   }
 
   get count(): number {
@@ -99,6 +170,24 @@ export class Archetype {
     return this._version;
   }
 
+  /**
+   * Move the columns to SharedArrayBuffers so worker threads can read and
+   * write them in place. Column arrays obtained before are stale.
+   */
+  shareStorage(): void {
+    if (this.sharedStorage) return;
+    this.sharedStorage = true;
+
+    for (const cc of this.componentData) {
+      if (!cc) continue;
+      for (const col of cc.columns) {
+        const data = allocateColumn(col.field.type, col.data.length, true);
+        data.set(col.data);
+        col.data = data;
+      }
+    }
+  }
+
   getColumnVersion(componentIndex: number): number {
     return this.columnVersions.get(componentIndex) ?? 0;
   }
@@ -115,7 +204,10 @@ export class Archetype {
     this.entityGens[row] = entityGeneration(entity);
     this.changeFlags[row] = ChangeFlag.Added;
     // Mark all components as "added" for this new entity
-    this.componentChangeFlags[row] = this.mask.toBigInt();
+    for (const ticks of this.changeTickColumns) {
+      ticks.data[row] = this.changeTick;
+    }
+    this.lastChangeTick = this.changeTick;
     this._count++;
 
     return row;
@@ -131,12 +223,19 @@ export class Archetype {
       this.entityIndices[row] = this.entityIndices[lastRow]!;
       this.entityGens[row] = this.entityGens[lastRow]!;
       this.changeFlags[row] = this.changeFlags[lastRow]!;
-      this.componentChangeFlags[row] = this.componentChangeFlags[lastRow]!;
+      for (const ticks of this.changeTickColumns) {
+        ticks.data[row] = ticks.data[lastRow]!;
+      }
 
       for (const cc of this.componentData) {
         if (!cc) continue;
         for (const col of cc.columns) {
-          col.data[row] = col.data[lastRow]!;
+          if (col.stride === 1) {
+            col.data[row] = col.data[lastRow]!;
+          } else {
+            const start = lastRow * col.stride;
+            col.data.copyWithin(row * col.stride, start, start + col.stride);
+          }
         }
       }
 
@@ -158,10 +257,14 @@ export class Archetype {
     return this.entityGens;
   }
 
+  /**
+   * Write component data. A number given for an array field sets every
+   * element; an array sets its leading elements.
+   */
   setComponentData(
     row: number,
     componentIndex: number,
-    data: Record<string, number>,
+    data: Record<string, FieldValue>,
   ): void {
     const cc = this.componentData[componentIndex];
     if (!cc) return;
@@ -170,19 +273,11 @@ export class Archetype {
       const value = data[col.field.name];
       // Only update fields that are explicitly provided -> preserves existing values for partial updates
       if (value !== undefined) {
-        col.data[row] = value;
+        writeColumn(col, row, value);
       }
     }
 
-    // Mark this specific component as changed
-    this.componentChangeFlags[row]! |= 1n << BigInt(componentIndex);
-
-    if (this.changeFlags[row]! !== ChangeFlag.Added) {
-      this.changeFlags[row] = ChangeFlag.Modified;
-    }
-
-    this._version++;
-    this.columnVersions.set(componentIndex, this._version);
+    this.markChanged(row, componentIndex);
   }
 
   copyComponentDataFrom(
@@ -196,14 +291,28 @@ export class Archetype {
     if (!targetCc || !sourceCc) return;
 
     for (let i = 0; i < targetCc.columns.length; i++) {
-      targetCc.columns[i]!.data[targetRow] = sourceCc.columns[i]!.data[sourceRow]!;
+      const target = targetCc.columns[i]!;
+      const source = sourceCc.columns[i]!;
+      if (target.stride === 1) {
+        target.data[targetRow] = source.data[sourceRow]!;
+      } else {
+        const start = sourceRow * source.stride;
+        target.data.set(
+          source.data.subarray(start, start + source.stride),
+          targetRow * target.stride,
+        );
+      }
     }
   }
 
+  /**
+   * Get a scalar field value, or one element of an array field.
+   */
   getFieldValue(
     row: number,
     componentIndex: number,
     fieldName: string,
+    element = 0,
   ): number | undefined {
     const cc = this.componentData[componentIndex];
     if (!cc) return undefined;
@@ -211,14 +320,84 @@ export class Archetype {
     const colIdx = cc.fieldIndex.get(fieldName);
     if (colIdx === undefined) return undefined;
 
-    return cc.columns[colIdx]!.data[row];
+    const col = cc.columns[colIdx]!;
+    if (element < 0 || element >= col.stride) return undefined;
+    return col.data[row * col.stride + element];
   }
 
+  /**
+   * Get a copy of the data of a component: numbers for scalar fields,
+   * arrays for array fields.
+   */
+  getComponentData(
+    row: number,
+    componentIndex: number,
+  ): Record<string, FieldValue> {
+    const result: Record<string, FieldValue> = {};
+    const cc = this.componentData[componentIndex];
+    if (!cc) return result;
+
+    for (const col of cc.columns) {
+      if (col.field.length === undefined) {
+        result[col.field.name] = col.data[row]!;
+      } else {
+        const start = row * col.stride;
+        result[col.field.name] = Array.from(
+          col.data.subarray(start, start + col.stride),
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get a field value: a number, or a copy of the elements of an array field.
+   */
+  readField(
+    row: number,
+    componentIndex: number,
+    fieldName: string,
+  ): FieldValue | undefined {
+    const cc = this.componentData[componentIndex];
+    if (!cc) return undefined;
+
+    const colIdx = cc.fieldIndex.get(fieldName);
+    if (colIdx === undefined) return undefined;
+
+    const col = cc.columns[colIdx]!;
+    if (col.field.length === undefined) return col.data[row];
+    const start = row * col.stride;
+    return Array.from(col.data.subarray(start, start + col.stride));
+  }
+
+  /**
+   * Set a field value, with the semantics of setComponentData().
+   */
+  writeField(
+    row: number,
+    componentIndex: number,
+    fieldName: string,
+    value: FieldValue,
+  ): void {
+    const cc = this.componentData[componentIndex];
+    if (!cc) return;
+
+    const colIdx = cc.fieldIndex.get(fieldName);
+    if (colIdx === undefined) return;
+
+    writeColumn(cc.columns[colIdx]!, row, value);
+    this.markChanged(row, componentIndex);
+  }
+
+  /**
+   * Set a scalar field value, or one element of an array field.
+   */
   setFieldValue(
     row: number,
     componentIndex: number,
     fieldName: string,
     value: number,
+    element = 0,
   ): void {
     const cc = this.componentData[componentIndex];
     if (!cc) return;
@@ -226,10 +405,40 @@ export class Archetype {
     const colIdx = cc.fieldIndex.get(fieldName);
     if (colIdx === undefined) return;
 
-    cc.columns[colIdx]!.data[row] = value;
+    const col = cc.columns[colIdx]!;
+    if (element < 0 || element >= col.stride) return;
+    col.data[row * col.stride + element] = value;
+
+    this.markChanged(row, componentIndex);
+  }
+
+  /**
+   * Mark a component as changed on every row, for writes made directly to
+   * its columns.
+   */
+  markComponentChanged(componentIndex: number): void {
+    if (this._count === 0 || !this.mask.has(componentIndex)) return;
 
+    this.componentChangeTicks[componentIndex]!.data.fill(
+      this.changeTick,
+      0,
+      this._count,
+    );
+    this.lastChangeTick = this.changeTick;
+    for (let row = 0; row < this._count; row++) {
+      if (this.changeFlags[row]! !== ChangeFlag.Added) {
+        this.changeFlags[row] = ChangeFlag.Modified;
+      }
+    }
+
+    this._version++;
+    this.columnVersions.set(componentIndex, this._version);
+  }
+
+  private markChanged(row: number, componentIndex: number): void {
     // Mark this specific component as changed
-    this.componentChangeFlags[row]! |= 1n << BigInt(componentIndex);
+    this.componentChangeTicks[componentIndex]!.data[row] = this.changeTick;
+    this.lastChangeTick = this.changeTick;
 
     if (this.changeFlags[row]! !== ChangeFlag.Added) {
       this.changeFlags[row] = ChangeFlag.Modified;
@@ -239,6 +448,10 @@ export class Archetype {
     this.columnVersions.set(componentIndex, this._version);
   }
 
+  /**
+   * Get the storage of a field. Array fields hold `length` contiguous
+   * elements per row: element `i` of `row` is at `row * length + i`.
+   */
   column(componentIndex: number, fieldName: string): TypedArray | null {
     const cc = this.componentData[componentIndex];
     if (!cc) return null;
@@ -271,34 +484,72 @@ export class Archetype {
   }
 
   /**
-   * Get the component change flags for a specific row.
-   * Each bit represents whether that component index was modified.
+   * Check if a specific component was changed for an entity at the given row.
    */
-  getComponentChangeFlag(row: number): bigint {
-    return this.componentChangeFlags[row]!;
+  hasComponentChanged(row: number, componentIndex: number): boolean {
+    return (
+      this.componentChangeTicks[componentIndex]?.data[row] === this.changeTick
+    );
   }
 
   /**
-   * Check if a specific component was changed for an entity at the given row.
+   * Check if any of the given components were changed for an entity.
    */
-  hasComponentChanged(row: number, componentIndex: number): boolean {
-    return (
-      (this.componentChangeFlags[row]! & (1n << BigInt(componentIndex))) !== 0n
+  hasAnyComponentChanged(
+    row: number,
+    componentIndices: readonly number[],
+  ): boolean {
+    for (let i = 0; i < componentIndices.length; i++) {
+      const ticks = this.componentChangeTicks[componentIndices[i]!];
+      if (ticks?.data[row] === this.changeTick) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get the types of the components changed for an entity at the given row.
+   */
+  getChangedComponents(row: number): ComponentClass[] {
+    return this.componentTypes.filter((type) =>
+      this.hasComponentChanged(row, getComponentMeta(type).id.index),
     );
   }
 
+  /** Check if a row was added or written to since the start of a world tick. */
+  hasChangedSince(row: number, tick: number): boolean {
+    for (const ticks of this.changeTickColumns) {
+      if (ticks.data[row]! > tick) return true;
+    }
+    return false;
+  }
+
   /**
-   * Check if any of the components in the mask were changed for an entity.
+   * Get the types of the components of a row added or written to since the
+   * start of a world tick.
    */
-  hasAnyComponentChanged(row: number, componentMask: bigint): boolean {
-    return (this.componentChangeFlags[row]! & componentMask) !== 0n;
+  getComponentsChangedSince(row: number, tick: number): ComponentClass[] {
+    return this.componentTypes.filter(
+      (type) =>
+        this.componentChangeTicks[getComponentMeta(type).id.index]!.data[row]! >
+        tick,
+    );
+  }
+
+  /** Check if any row was added or written to since the start of a world tick. */
+  changedSince(tick: number): boolean {
+    return this.lastChangeTick > tick;
   }
 
+  /**
+   * Clear the change flags of every row. Per-component changes are cleared
+   * by advancing the change tick, so this does not depend on the number of
+   * components.
+   */
   clearChangeFlags(): void {
     for (let i = 0; i < this._count; i++) {
       this.changeFlags[i] = ChangeFlag.None;
-      this.componentChangeFlags[i] = 0n;
     }
+    this.changeTick++;
   }
 
   private grow(): void {
@@ -316,15 +567,20 @@ export class Archetype {
     newChangeFlags.set(this.changeFlags);
     this.changeFlags = newChangeFlags;
 
-    const newComponentChangeFlags = new BigUint64Array(newCapacity);
-    newComponentChangeFlags.set(this.componentChangeFlags);
-    this.componentChangeFlags = newComponentChangeFlags;
+    for (const ticks of this.changeTickColumns) {
+      const newTicks = new Uint32Array(newCapacity);
+      newTicks.set(ticks.data);
+      ticks.data = newTicks;
+    }
 
     for (const cc of this.componentData) {
       if (!cc) continue;
       for (const col of cc.columns) {
-        const ArrayCtor = FIELD_ARRAY_CTOR[col.field.type];
-        const newData = new ArrayCtor(newCapacity) as TypedArray;
+        const newData = allocateColumn(
+          col.field.type,
+          newCapacity * col.stride,
+          this.sharedStorage,
+        );
         newData.set(col.data);
         col.data = newData;
       }
@@ -345,11 +601,25 @@ export class ArchetypeGraph {
    * Used by QueryCache for correct invalidation (Bevy-style pattern).
    */
   private _epoch = 0;
+  private sharedStorage = false;
+  /** Change tick of the archetypes, kept for the ones created later. */
+  private changeTick = 1;
 
   get epoch(): number {
     return this._epoch;
   }
 
+  /**
+   * Keep the columns of every archetype, existing and future, on
+   * SharedArrayBuffers.
+   */
+  enableSharedStorage(): void {
+    this.sharedStorage = true;
+    for (const archetype of this.archetypes) {
+      archetype.shareStorage();
+    }
+  }
+
   getOrCreateArchetype(componentTypes: ComponentClass[]): Archetype {
     const sorted = [...componentTypes].sort((a, b) => {
       const ma = getComponentMeta(a);
@@ -361,7 +631,12 @@ export class ArchetypeGraph {
 
     let archetype = this.archetypeByMask.get(key);
     if (!archetype) {
-      archetype = new Archetype(this.archetypes.length, sorted);
+      archetype = new Archetype(
+        this.archetypes.length,
+        sorted,
+        this.sharedStorage,
+        this.changeTick,
+      );
       this.archetypes.push(archetype);
       this.archetypeByMask.set(key, archetype);
       this._epoch++; // Increment epoch on new archetype creation
@@ -444,6 +719,7 @@ export class ArchetypeGraph {
     for (const archetype of this.archetypes) {
       archetype.clearChangeFlags();
     }
+    this.changeTick++;
   }
 
   private maskToKey(mask: ComponentMask): string {
@@ -0,0 +1,97 @@
+import type { RelationType } from "../relationship/relation";
+import type { ComponentClass, Entity } from "./types";
+
+/**
+ * A structural change, with the world tick it was made on. Relation
+ * entries stand for any change to the relation: added, removed or new data.
+ */
+export type LoggedChange =
+  | { kind: "spawn" | "despawn"; tick: number; entity: Entity }
+  | {
+      kind: "add" | "remove";
+      tick: number;
+      entity: Entity;
+      component: ComponentClass;
+    }
+  | {
+      kind: "relation";
+      tick: number;
+      relation: RelationType;
+      source: Entity;
+      target: Entity;
+    }
+  | { kind: "deleteResource"; tick: number; key: string };
+
+/** Ticks of changes a world keeps by default. */
+export const DEFAULT_CHANGE_LOG_RETENTION = 1000;
+
+/**
+ * Structural changes of a world over its last ticks. Change ticks show what
+ * was written to, not what is gone: deltas read this log for despawns,
+ * removed components, relations and deleted resources.
+ *
+ * Nothing is logged until start(), called by World.trackChanges(), so
+ * worlds that never compute deltas do not pay for it. Changes older than
+ * `retention` ticks are dropped at the end of each tick, so the log does
+ * not grow with the length of a run.
+ */
+export class ChangeLog {
+  /** How many ticks of changes to keep. */
+  retention = DEFAULT_CHANGE_LOG_RETENTION;
+
+  private entries: LoggedChange[] = [];
+  private firstTick = 0;
+  private started = false;
+
+  /** Whether changes are being logged. */
+  get enabled(): boolean {
+    return this.started;
+  }
+
+  /** First tick whose changes are all still logged. */
+  get from(): number {
+    return this.firstTick;
+  }
+
+  /** Log the changes made from `tick` on, if not done yet. */
+  start(tick: number): void {
+    if (this.started) return;
+    this.started = true;
+    this.firstTick = tick;
+  }
+
+  record(change: LoggedChange): void {
+    if (this.started) this.entries.push(change);
+  }
+
+  /**
+   * Get the changes made since the start of a tick, oldest first.
+   * @throws Error if changes are not logged, or those of that tick were
+   * already dropped
+   */
+  since(tick: number): LoggedChange[] {
+    if (!this.started) {
+      throw new Error(
+        "Changes are not logged: call world.trackChanges() to start",
+      );
+    }
+    if (tick < this.firstTick) {
+      throw new Error(
+        `Changes since tick ${tick} are no longer logged: the log starts at tick ${this.firstTick}`,
+      );
+    }
+    let start = this.entries.length;
+    while (start > 0 && this.entries[start - 1]!.tick >= tick) start--;
+    return this.entries.slice(start);
+  }
+
+  /** Drop the changes older than `retention` ticks before `tick`. */
+  prune(tick: number): void {
+    const first = tick - this.retention;
+    if (!this.started || first <= this.firstTick) return;
+    this.firstTick = first;
+
+    const kept = this.entries.findIndex((change) => change.tick >= first);
+    this.entries.splice(0, kept === -1 ? this.entries.length : kept);
+  }
+}
@@ -28,8 +28,9 @@ export function component<T extends ComponentClass>(target: T): T {
         type: desc.type,
         offset,
         default: desc.default,
+        ...(desc.length !== undefined ? { length: desc.length } : {}),
       });
-      offset += FIELD_BYTE_SIZE[desc.type];
+      offset += FIELD_BYTE_SIZE[desc.type] * (desc.length ?? 1);
       isTag = false;
     }
   }
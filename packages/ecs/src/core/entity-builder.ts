@@ -1,9 +1,14 @@
-import type { ComponentClass, ComponentData, Entity } from "./types";
+import type {
+  ComponentClass,
+  ComponentData,
+  Entity,
+  FieldValue,
+} from "./types";
 import type { World } from "./world";
 
 interface PendingComponent {
   type: ComponentClass;
-  data?: Record<string, number>;
+  data?: Record<string, FieldValue>;
 }
 
 /**
@@ -37,7 +42,7 @@ export class EntityBuilder {
   ): this {
     this.toAdd.push({
       type: componentType,
-      data: data as Record<string, number>,
+      data: data as Record<string, FieldValue>,
     });
     return this;
   }
@@ -9,6 +9,15 @@ export interface FieldDescriptor {
   readonly default: number;
   /** For string fields, the original default string value */
   readonly defaultString?: string;
+  /** For array fields, the fixed number of elements */
+  readonly length?: number;
+}
+
+/**
+ * Descriptor of a fixed-length array field.
+ */
+export interface ArrayFieldDescriptor extends FieldDescriptor {
+  readonly length: number;
 }
 
 function field(type: FieldType, defaultValue: number): FieldDescriptor {
@@ -87,6 +96,61 @@ export function str(defaultValue = ""): FieldDescriptor {
   return stringField(defaultValue);
 }
 
+/**
+ * Define a fixed-length array field of a numeric element type.
+ * The elements of each entity are stored contiguously in a single column:
+ * element `i` of the entity at `row` is at `row * length + i`.
+ *
+ * @param element - Scalar field factory of the element type (e.g. `u16`)
+ * @param length - Number of elements
+ * @param defaultValue - Initial value of every element (defaults to the
+ *   element type's default)
+ *
+ * @example
+ * @component class Cooldowns {
+ *   slots = arrayOf(u16, 8);
+ * }
+ *
+ * world.set(entity, Cooldowns, { slots: [3, 0, 5] }); // Sets the first 3
+ * world.setField(entity, Cooldowns, "slots", 4, 7); // Sets slot 7
+ * const slots = world.get(entity, Cooldowns)!.slots; // number[8]
+ */
+export function arrayOf(
+  element: () => FieldDescriptor,
+  length: number,
+  defaultValue?: number,
+): ArrayFieldDescriptor {
+  const { type, default: elementDefault } = element();
+  if (type === FieldType.String || type === FieldType.Entity) {
+    throw new Error("Array fields only support numeric element types");
+  }
+  if (!Number.isInteger(length) || length < 1) {
+    throw new Error(`Invalid array field length: ${length}`);
+  }
+  return {
+    [FIELD_MARKER]: true,
+    type,
+    default: defaultValue ?? elementDefault,
+    length,
+  };
+}
+
+/** Define a 2-component vector field: `arrayOf(element, 2)`. */
+export function vec2(
+  element: () => FieldDescriptor,
+  defaultValue?: number,
+): ArrayFieldDescriptor {
+  return arrayOf(element, 2, defaultValue);
+}
+
+/** Define a 3-component vector field: `arrayOf(element, 3)`. */
+export function vec3(
+  element: () => FieldDescriptor,
+  defaultValue?: number,
+): ArrayFieldDescriptor {
+  return arrayOf(element, 3, defaultValue);
+}
+
 export function isFieldDescriptor(value: unknown): value is FieldDescriptor {
   return typeof value === "object" && value !== null && FIELD_MARKER in value;
 }
@@ -97,3 +161,12 @@ export function isFieldDescriptor(value: unknown): value is FieldDescriptor {
 export function isStringField(descriptor: FieldDescriptor): boolean {
   return descriptor.type === FieldType.String;
 }
+
+/**
+ * Check if a field descriptor is for a fixed-length array field.
+ */
+export function isArrayField(
+  descriptor: FieldDescriptor,
+): descriptor is ArrayFieldDescriptor {
+  return descriptor.length !== undefined;
+}
@@ -1,5 +1,6 @@
 export * from "./archetype";
 export * from "./bundle";
+export * from "./change-log";
 export * from "./component";
 export * from "./entity-builder";
 export * from "./field";
@@ -1,3 +1,5 @@
+import type { ArrayFieldDescriptor } from "./field";
+
 const ENTITY_BRAND: unique symbol = Symbol("Entity");
 
 export type Entity = number & { readonly [ENTITY_BRAND]: true };
@@ -85,9 +87,17 @@ export interface FieldMeta {
   readonly name: string;
   readonly type: FieldType;
   readonly offset: number;
+  /** Default value; of every element for array fields */
   readonly default: number;
+  /** Number of elements of a fixed-length array field; undefined for scalars */
+  readonly length?: number;
 }
 
+/**
+ * Value of a component field: a number, or the elements of an array field.
+ */
+export type FieldValue = number | number[];
+
 export interface ComponentId {
   readonly index: number;
   readonly name: string;
@@ -105,7 +115,7 @@ export type ComponentClass<T = unknown> = (new () => T) & {
 };
 
 export type ComponentData<T> = {
-  [K in keyof T]: number;
+  [K in keyof T]: T[K] extends ArrayFieldDescriptor ? number[] : number;
 };
 
 // =============================================================================
@@ -222,17 +232,6 @@ export class ComponentMask {
       .join(".");
   }
 
-  /**
-   * Convert to bigint for compatibility with per-row component change flags.
-   * Only supports indices 0-63.
-   */
-  toBigInt(): bigint {
-    // Only first 2 words (64 bits) can fit in bigint without losing precision
-    const low = BigInt(this.words[0]!);
-    const high = BigInt(this.words[1]!);
-    return low | (high << 32n);
-  }
-
   static fromIndex(index: number): ComponentMask {
     return new ComponentMask().set(index);
   }
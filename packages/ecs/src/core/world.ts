@@ -7,9 +7,11 @@ import { isWildcard } from "../relationship/relation";
 import { RelationStore } from "../relationship/relation-store";
 import { SystemScheduler } from "../schedule/scheduler";
 import type { System } from "../schedule/system";
+import type { ParallelOptions } from "../schedule/worker-pool";
 import { ResourceRegistry } from "../storage/resource";
 import { getStringPool, type StringPool } from "../storage/string-pool";
 import { type Archetype, ArchetypeGraph } from "./archetype";
+import { ChangeLog } from "./change-log";
 import { getComponentMeta } from "./component";
 import { EntityBuilder } from "./entity-builder";
 import {
@@ -22,6 +24,7 @@ import {
   entityGeneration,
   entityIndex,
   FieldType,
+  type FieldValue,
   MAX_ENTITIES,
   makeEntity,
   NULL_ENTITY,
@@ -42,6 +45,36 @@ interface EntityRecord {
   row: number;
 }
 
+/**
+ * Read a component's fields into a buffer, reusing the buffer's arrays
+ * for array fields so hot paths do not allocate.
+ */
+function readComponentInto(
+  archetype: Archetype,
+  row: number,
+  meta: ComponentMeta,
+  out: Record<string, FieldValue | undefined>,
+): void {
+  for (const field of meta.fields) {
+    if (field.length === undefined) {
+      const value = archetype.getFieldValue(row, meta.id.index, field.name);
+      if (value !== undefined) {
+        out[field.name] = value;
+      }
+      continue;
+    }
+
+    let elements = out[field.name];
+    if (!Array.isArray(elements) || elements.length !== field.length) {
+      elements = new Array<number>(field.length);
+      out[field.name] = elements;
+    }
+    for (let i = 0; i < field.length; i++) {
+      elements[i] = archetype.getFieldValue(row, meta.id.index, field.name, i)!;
+    }
+  }
+}
+
 export class World {
   private readonly graph = new ArchetypeGraph();
   private readonly entityRecords: EntityRecord[];
@@ -53,7 +86,13 @@ export class World {
   private entityCount = 0;
   private readonly maxEntities: number;
 
-  readonly resources = new ResourceRegistry();
+  /** Structural changes of the last ticks, once trackChanges() is called */
+  readonly changes = new ChangeLog();
+  readonly resources = new ResourceRegistry((key) => {
+    if (this.changes.enabled) {
+      this.changes.record({ kind: "deleteResource", tick: this.tick, key });
+    }
+  });
   readonly events = new EventQueue();
   readonly scheduler = new SystemScheduler();
   readonly observers = new ObserverManager();
@@ -92,15 +131,19 @@ export class World {
     archetype: Archetype,
     row: number,
     meta: ComponentMeta,
-    data?: Record<string, number>,
+    data?: Record<string, FieldValue>,
   ): void {
-    const initData: Record<string, number> = {};
+    let initData: Record<string, FieldValue> = {};
     if (!meta.isTag) {
       for (const field of meta.fields) {
         initData[field.name] = data?.[field.name] ?? field.default;
       }
       archetype.setComponentData(row, meta.id.index, initData);
       this.trackStringRefs(meta, initData);
+      // Observers see every element of array fields, not the given ones
+      if (meta.fields.some((field) => field.length !== undefined)) {
+        initData = archetype.getComponentData(row, meta.id.index);
+      }
     }
     this.observers.notifyAdd(entity, meta.id.index, initData);
   }
@@ -110,12 +153,12 @@ export class World {
    */
   private trackStringRefs(
     meta: ComponentMeta,
-    data: Record<string, number>,
+    data: Record<string, FieldValue>,
   ): void {
     for (const field of meta.fields) {
       if (field.type === FieldType.String) {
         const idx = data[field.name];
-        if (idx !== undefined && idx > 0) {
+        if (typeof idx === "number" && idx > 0) {
           this.strings.addRef(idx);
         }
       }
@@ -171,6 +214,24 @@ export class World {
     return field?.type === FieldType.Entity ? field : null;
   }
 
+  /** Log a spawn or despawn, if changes are tracked. */
+  private logEntity(kind: "spawn" | "despawn", entity: Entity): void {
+    if (this.changes.enabled) {
+      this.changes.record({ kind, tick: this.tick, entity });
+    }
+  }
+
+  /** Log a component added or removed, if changes are tracked. */
+  private logComponent(
+    kind: "add" | "remove",
+    entity: Entity,
+    component: ComponentClass,
+  ): void {
+    if (this.changes.enabled) {
+      this.changes.record({ kind, tick: this.tick, entity, component });
+    }
+  }
+
   // ==========================================================================
   // Entity Lifecycle
   // ==========================================================================
@@ -191,6 +252,7 @@ export class World {
       this.entityRecords[index] = { archetype, row };
     }
 
+    this.logEntity("spawn", entity);
     return entity;
   }
 
@@ -264,6 +326,7 @@ export class World {
       this.entityRecords[index] = { archetype: null, row: -1 };
     }
 
+    this.logEntity("spawn", entity);
     return entity;
   }
 
@@ -330,6 +393,7 @@ export class World {
       this.nullifyRefsTo(entity);
 
       this.freeEntity(entity);
+      this.logEntity("despawn", entity);
 
       // Cascade delete (after entity is fully removed)
       for (const cascadeTarget of cascadeTargets) {
@@ -418,10 +482,11 @@ export class World {
       newArchetype,
       newRow,
       meta,
-      data as Record<string, number>,
+      data as Record<string, FieldValue>,
     );
 
     this.entityRecords[index] = { archetype: newArchetype, row: newRow };
+    this.logComponent("add", entity, componentType);
     return true;
   }
 
@@ -473,6 +538,7 @@ export class World {
     // Release string references and trigger observers BEFORE removal
     this.releaseStringRefs(record.archetype, record.row, meta);
     this.observers.notifyRemove(entity, meta.id.index, componentData);
+    this.logComponent("remove", entity, componentType);
 
     const newArchetype = this.graph.getArchetypeWithRemoved(
       record.archetype,
@@ -543,23 +609,16 @@ export class World {
 
     if (meta.isTag) return {} as ComponentData<T>;
 
-    const result: Record<string, number> = {};
-    for (const field of meta.fields) {
-      const value = record.archetype.getFieldValue(
-        record.row,
-        meta.id.index,
-        field.name,
-      );
-      if (value !== undefined) {
-        result[field.name] = value;
-      }
-    }
-    return result as ComponentData<T>;
+    return record.archetype.getComponentData(
+      record.row,
+      meta.id.index,
+    ) as ComponentData<T>;
   }
 
   /**
    * Get component data into an existing buffer to avoid allocations.
-   * Useful in hot paths where get() is called frequently.
+   * Useful in hot paths where get() is called frequently. The arrays of
+   * array fields in the buffer are reused.
    *
    * @param entity - Entity to get component from
    * @param componentType - Component class to get
@@ -591,31 +650,41 @@ export class World {
     if (meta.isTag) return true;
 
     // Write directly into the provided buffer
-    for (const field of meta.fields) {
-      const value = record.archetype.getFieldValue(
-        record.row,
-        meta.id.index,
-        field.name,
-      );
-      if (value !== undefined) {
-        (out as Record<string, number>)[field.name] = value;
-      }
-    }
+    readComponentInto(
+      record.archetype,
+      record.row,
+      meta,
+      out as Record<string, FieldValue>,
+    );
     return true;
   }
 
   /**
    * Get a single field value without creating an object.
-   * Use this in hot paths where you only need one field.
+   * Use this in hot paths where you only need one field. Array fields
+   * return a copy of their elements, or a single element given its index.
    *
    * @example
    * const x = world.getField(entity, Position, "x");
+   * const slot = world.getField(entity, Cooldowns, "slots", 3);
    */
+  getField<T, K extends keyof ComponentData<T> & string>(
+    entity: Entity,
+    componentType: ComponentClass<T>,
+    fieldName: K,
+  ): ComponentData<T>[K] | null;
+  getField<T>(
+    entity: Entity,
+    componentType: ComponentClass<T>,
+    fieldName: keyof ComponentData<T> & string,
+    element: number,
+  ): number | null;
   getField<T>(
     entity: Entity,
     componentType: ComponentClass<T>,
     fieldName: keyof ComponentData<T> & string,
-  ): number | null {
+    element?: number,
+  ): FieldValue | null {
     if (!this.isAlive(entity)) return null;
 
     const index = entityIndex(entity);
@@ -626,23 +695,46 @@ export class World {
     const meta = getComponentMeta(componentType);
     if (!record.archetype.hasComponent(meta.id.index)) return null;
 
-    const value = record.archetype.getFieldValue(
-      record.row,
-      meta.id.index,
-      fieldName,
-    );
+    const value =
+      element === undefined
+        ? record.archetype.readField(record.row, meta.id.index, fieldName)
+        : record.archetype.getFieldValue(
+            record.row,
+            meta.id.index,
+            fieldName,
+            element,
+          );
     return value ?? null;
   }
 
   /**
    * Set a single field value without creating an intermediate object.
-   * Use this in hot paths where you only need to update one field.
+   * Use this in hot paths where you only need to update one field. Array
+   * fields take their elements, a number to set every element, or a
+   * single element given its index.
+   *
+   * @example
+   * world.setField(entity, Cooldowns, "slots", 5, 3); // slots[3] = 5
    */
+  setField<T, K extends keyof ComponentData<T> & string>(
+    entity: Entity,
+    componentType: ComponentClass<T>,
+    fieldName: K,
+    value: ComponentData<T>[K],
+  ): void;
   setField<T>(
     entity: Entity,
     componentType: ComponentClass<T>,
     fieldName: keyof ComponentData<T> & string,
     value: number,
+    element: number,
+  ): void;
+  setField<T>(
+    entity: Entity,
+    componentType: ComponentClass<T>,
+    fieldName: keyof ComponentData<T> & string,
+    value: FieldValue,
+    element?: number,
   ): void {
     if (!this.isAlive(entity)) return;
 
@@ -654,7 +746,17 @@ export class World {
     const meta = getComponentMeta(componentType);
     if (!record.archetype.hasComponent(meta.id.index)) return;
 
-    record.archetype.setFieldValue(record.row, meta.id.index, fieldName, value);
+    if (element === undefined) {
+      record.archetype.writeField(record.row, meta.id.index, fieldName, value);
+    } else if (!Array.isArray(value)) {
+      record.archetype.setFieldValue(
+        record.row,
+        meta.id.index,
+        fieldName,
+        value,
+        element,
+      );
+    }
   }
 
   set<T>(
@@ -684,17 +786,17 @@ export class World {
       for (const field of meta.fields) {
         if (
           field.type === FieldType.String &&
-          (data as Record<string, number>)[field.name] !== undefined
+          (data as Record<string, FieldValue>)[field.name] !== undefined
         ) {
           // Release old reference
           const oldIndex = previousData[field.name];
-          if (oldIndex !== undefined && oldIndex > 0) {
+          if (typeof oldIndex === "number" && oldIndex > 0) {
             this.strings.releaseRef(oldIndex);
           }
 
           // Add new reference
-          const newIndex = (data as Record<string, number>)[field.name];
-          if (newIndex !== undefined && newIndex > 0) {
+          const newIndex = (data as Record<string, FieldValue>)[field.name];
+          if (typeof newIndex === "number" && newIndex > 0) {
             this.strings.addRef(newIndex);
           }
         }
@@ -703,14 +805,14 @@ export class World {
       record.archetype.setComponentData(
         record.row,
         meta.id.index,
-        data as Record<string, number>,
+        data as Record<string, FieldValue>,
       );
 
       // Trigger observers after data is updated
       this.observers.notifySet(
         entity,
         meta.id.index,
-        data as Record<string, number>,
+        data as Record<string, FieldValue>,
         previousData,
       );
     }
@@ -723,17 +825,9 @@ export class World {
     archetype: Archetype,
     row: number,
     meta: ComponentMeta,
-  ): Record<string, number> {
+  ): Record<string, FieldValue> {
     if (meta.isTag) return {};
-
-    const result: Record<string, number> = {};
-    for (const field of meta.fields) {
-      const value = archetype.getFieldValue(row, meta.id.index, field.name);
-      if (value !== undefined) {
-        result[field.name] = value;
-      }
-    }
-    return result;
+    return archetype.getComponentData(row, meta.id.index);
   }
 
   // ==========================================================================
@@ -760,7 +854,7 @@ export class World {
    */
   _commitBatch(
     entity: Entity,
-    toAdd: Array<{ type: ComponentClass; data?: Record<string, number> }>,
+    toAdd: Array<{ type: ComponentClass; data?: Record<string, FieldValue> }>,
     toRemove: ComponentClass[],
   ): Entity {
     if (!this.isAlive(entity)) return entity;
@@ -778,7 +872,7 @@ export class World {
     // Build a map of components to add (last one wins if duplicates)
     const addMap = new Map<
       number,
-      { type: ComponentClass; data?: Record<string, number> }
+      { type: ComponentClass; data?: Record<string, FieldValue> }
     >();
     for (const op of toAdd) {
       const meta = getComponentMeta(op.type);
@@ -834,6 +928,16 @@ export class World {
     // Move entity to new archetype
     const oldArchetype = record.archetype;
     const oldRow = record.row;
+    for (const type of oldArchetype?.componentTypes ?? []) {
+      if (!targetArchetype.hasComponent(getComponentMeta(type).id.index)) {
+        this.logComponent("remove", entity, type);
+      }
+    }
+    for (const { type } of addMap.values()) {
+      if (!oldArchetype?.hasComponent(getComponentMeta(type).id.index)) {
+        this.logComponent("add", entity, type);
+      }
+    }
     const newRow = targetArchetype.allocateRow(entity);
 
     // Copy existing component data
@@ -1127,18 +1231,47 @@ export class World {
     this.scheduler.register(system);
   }
 
+  /**
+   * Run conflict-free batches of systems at the same time, with kernel
+   * systems on worker threads. Moves every column to shared memory.
+   *
+   * @returns Whether systems now run in parallel: false if the kernel
+   * worker module cannot be found
+   */
+  enableParallelSystems(options?: ParallelOptions): boolean {
+    this.graph.enableSharedStorage();
+    return this.scheduler.enableParallel(options);
+  }
+
+  /** Run systems one by one again. Columns stay shared. */
+  disableParallelSystems(): void {
+    this.scheduler.disableParallel();
+  }
+
   runTick(): void {
     this.scheduler.runAll(this);
     this.events.flush();
     this.graph.clearAllChangeFlags();
     this.viewPool.releaseAll();
     this.tick++;
+    this.changes.prune(this.tick);
   }
 
   getCurrentTick(): number {
     return this.tick;
   }
 
+  /**
+   * Start logging structural changes in `changes`, which deltas need, if
+   * not done yet. Call it between ticks.
+   *
+   * @returns The current tick, to compute the first delta from
+   */
+  trackChanges(): number {
+    this.changes.start(this.tick);
+    return this.tick;
+  }
+
   getEntityCount(): number {
     return this.entityCount;
   }
@@ -1147,14 +1280,28 @@ export class World {
     return this.graph.getAllArchetypes().length;
   }
 
+  getArchetypes(): readonly Archetype[] {
+    return this.graph.getAllArchetypes();
+  }
+
+  /** Get the archetype and row holding an entity's components. */
+  getEntityLocation(
+    entity: Entity,
+  ): { archetype: Archetype; row: number } | null {
+    const record = this.getRecord(entity);
+    if (!record?.archetype) return null;
+    return { archetype: record.archetype, row: record.row };
+  }
+
+  /**
+   * Get the entities spawned, given components or written to since the
+   * start of a tick. Despawns and removals are in the change log.
+   */
   getChangedEntities(sinceTick: number): Entity[] {
     const changed: Entity[] = [];
-    for (const archetype of this.graph.getAllArchetypes()) {
-      if (archetype.version <= sinceTick) continue;
-
-      const flags = archetype.getChangeFlags();
+    for (const archetype of this.getArchetypesChangedSince(sinceTick)) {
       for (let row = 0; row < archetype.count; row++) {
-        if (flags[row] !== ChangeFlag.None) {
+        if (archetype.hasChangedSince(row, sinceTick)) {
           changed.push(archetype.getEntity(row));
         }
       }
@@ -1162,10 +1309,11 @@ export class World {
     return changed;
   }
 
+  /** Get the archetypes with rows added or written to since the start of a tick. */
   getArchetypesChangedSince(sinceTick: number): Archetype[] {
     const changed: Archetype[] = [];
     for (const archetype of this.graph.getAllArchetypes()) {
-      if (archetype.version > sinceTick) {
+      if (archetype.changedSince(sinceTick)) {
         changed.push(archetype);
       }
     }
@@ -1199,6 +1347,14 @@ export class World {
     // Register relation type for cascade delete handling
     this.relations.registerRelationType(relation);
 
+    // An exclusive relation replaces the one to the previous target
+    const previous = relation.exclusive
+      ? this.relations.getTarget(source, relation)
+      : null;
+    if (previous !== null && previous !== target) {
+      this.logRelation(source, relation, previous);
+    }
+    this.logRelation(source, relation, target);
     return this.relations.add(source, relation, target, data);
   }
 
@@ -1210,7 +1366,24 @@ export class World {
     relation: RelationType<T>,
     target: Entity,
   ): boolean {
-    return this.relations.remove(source, relation, target);
+    if (!this.relations.remove(source, relation, target)) return false;
+    this.logRelation(source, relation, target);
+    return true;
+  }
+
+  private logRelation(
+    source: Entity,
+    relation: RelationType,
+    target: Entity,
+  ): void {
+    if (!this.changes.enabled) return;
+    this.changes.record({
+      kind: "relation",
+      tick: this.tick,
+      relation,
+      source,
+      target,
+    });
   }
 
   /**
@@ -1279,7 +1452,9 @@ export class World {
     target: Entity,
     data: T,
   ): boolean {
-    return this.relations.setData(source, relation, target, data);
+    if (!this.relations.setData(source, relation, target, data)) return false;
+    this.logRelation(source, relation, target);
+    return true;
   }
 
   /**
@@ -1376,15 +1551,18 @@ export class QueryBuilder {
   private readonly withMask: ComponentMask;
   private withoutMask: ComponentMask = new ComponentMask();
   private changeFilter: ChangeFlag = ChangeFlag.None;
-  // Per-component change detection: mask of component indices to check for changes
-  private changedComponentMask: bigint = 0n;
+  // Per-component change detection: indices of the components to check for changes
+  private readonly changedComponents: number[] = [];
   private readonly componentMetas: ComponentMeta[];
   private readonly filters: StoredFilter[] = [];
   private readonly relationFilters: RelationFilter[] = [];
   /** Cached query descriptor to avoid allocation on every run() */
   private _descriptor: QueryDescriptor | null = null;
   /** Reusable filter data buffers per component - avoids allocations in hot path */
-  private readonly filterBuffers = new Map<number, Record<string, number>>();
+  private readonly filterBuffers = new Map<
+    number,
+    Record<string, FieldValue>
+  >();
 
   constructor(
     readonly _graph: ArchetypeGraph,
@@ -1459,8 +1637,10 @@ export class QueryBuilder {
   changedComponent(...componentTypes: ComponentClass[]): QueryBuilder {
     this.changeFilter = ChangeFlag.Added | ChangeFlag.Modified;
     for (const type of componentTypes) {
-      const meta = getComponentMeta(type);
-      this.changedComponentMask |= 1n << BigInt(meta.id.index);
+      const index = getComponentMeta(type).id.index;
+      if (!this.changedComponents.includes(index)) {
+        this.changedComponents.push(index);
+      }
     }
     return this;
   }
@@ -1540,10 +1720,10 @@ export class QueryBuilder {
    * Get or create a reusable filter data buffer for a component.
    * Initialized once per component with default values for all fields.
    */
-  private getFilterBuffer(meta: ComponentMeta): Record<string, number> {
+  private getFilterBuffer(meta: ComponentMeta): Record<string, FieldValue> {
     let buffer = this.filterBuffers.get(meta.id.index);
     if (!buffer) {
-      buffer = Object.create(null) as Record<string, number>;
+      buffer = Object.create(null) as Record<string, FieldValue>;
       // Pre-initialize all fields with defaults
       for (const field of meta.fields) {
         buffer[field.name] = field.default;
@@ -1565,14 +1745,7 @@ export class QueryBuilder {
       const data = this.getFilterBuffer(filter.meta);
 
       // Populate with current entity's component data
-      for (const field of filter.meta.fields) {
-        const value = archetype.getFieldValue(
-          row,
-          filter.meta.id.index,
-          field.name,
-        );
-        data[field.name] = value ?? field.default;
-      }
+      readComponentInto(archetype, row, filter.meta, data);
 
       if (!filter.predicate(data)) {
         return false;
@@ -1591,8 +1764,8 @@ export class QueryBuilder {
     const entityFlag = archetype.getChangeFlag(row);
     if ((entityFlag & this.changeFilter) === 0) return false;
 
-    if (this.changedComponentMask !== 0n) {
-      return archetype.hasAnyComponentChanged(row, this.changedComponentMask);
+    if (this.changedComponents.length > 0) {
+      return archetype.hasAnyComponentChanged(row, this.changedComponents);
     }
 
     return true;
@@ -1646,7 +1819,7 @@ export class QueryBuilder {
         archetype,
         this.componentMetas,
         this.changeFilter,
-        this.changedComponentMask,
+        this.changedComponents,
         this.filters,
         this.relationFilters,
         this.relationStore,
@@ -1816,7 +1989,7 @@ export class ViewPool {
     archetype: Archetype,
     componentMetas: ComponentMeta[],
     changeFilter: ChangeFlag,
-    changedComponentMask: bigint,
+    changedComponents: readonly number[],
     filters: StoredFilter[],
     relationFilters: RelationFilter[] = [],
     relationStore?: RelationStore,
@@ -1829,7 +2002,7 @@ export class ViewPool {
         archetype,
         componentMetas,
         changeFilter,
-        changedComponentMask,
+        changedComponents,
         filters,
         relationFilters,
         relationStore,
@@ -1839,7 +2012,7 @@ export class ViewPool {
         archetype,
         componentMetas,
         changeFilter,
-        changedComponentMask,
+        changedComponents,
         filters,
         relationFilters,
         relationStore,
@@ -1878,7 +2051,7 @@ export class ArchetypeView {
   count!: number;
   private archetype!: Archetype;
   private changeFilter!: ChangeFlag;
-  private changedComponentMask!: bigint;
+  private changedComponents!: readonly number[];
   private readonly metaByClass = new Map<ComponentClass, ComponentMeta>();
   private filters!: StoredFilter[];
   private relationFilters!: RelationFilter[];
@@ -1886,13 +2059,14 @@ export class ArchetypeView {
   /** Indices of entities that pass all filters (lazily computed) */
   private _filteredIndices: number[] | null = null;
   /** Reusable buffer for filter data */
-  private readonly filterDataBuffer: Record<string, number | undefined> = {};
+  private readonly filterDataBuffer: Record<string, FieldValue | undefined> =
+    {};
 
   constructor(
     archetype: Archetype,
     _componentMetas: ComponentMeta[],
     changeFilter: ChangeFlag,
-    changedComponentMask: bigint = 0n,
+    changedComponents: readonly number[] = [],
     filters: StoredFilter[] = [],
     relationFilters: RelationFilter[] = [],
     relationStore?: RelationStore,
@@ -1901,7 +2075,7 @@ export class ArchetypeView {
       archetype,
       _componentMetas,
       changeFilter,
-      changedComponentMask,
+      changedComponents,
       filters,
       relationFilters,
       relationStore,
@@ -1916,14 +2090,14 @@ export class ArchetypeView {
     archetype: Archetype,
     _componentMetas: ComponentMeta[],
     changeFilter: ChangeFlag,
-    changedComponentMask: bigint = 0n,
+    changedComponents: readonly number[] = [],
     filters: StoredFilter[] = [],
     relationFilters: RelationFilter[] = [],
     relationStore?: RelationStore,
   ): void {
     this.archetype = archetype;
     this.changeFilter = changeFilter;
-    this.changedComponentMask = changedComponentMask;
+    this.changedComponents = changedComponents;
     this.filters = filters;
     this.relationFilters = relationFilters;
     this.relationStore = relationStore;
@@ -1958,11 +2132,8 @@ export class ArchetypeView {
     const entityFlag = this.archetype.getChangeFlag(row);
     if ((entityFlag & this.changeFilter) === 0) return false;
 
-    if (this.changedComponentMask !== 0n) {
-      return this.archetype.hasAnyComponentChanged(
-        row,
-        this.changedComponentMask,
-      );
+    if (this.changedComponents.length > 0) {
+      return this.archetype.hasAnyComponentChanged(row, this.changedComponents);
     }
 
     return true;
@@ -1978,16 +2149,12 @@ export class ArchetypeView {
       }
 
       // Populate with current entity's data
-      for (const field of filter.meta.fields) {
-        const value = this.archetype.getFieldValue(
-          row,
-          filter.meta.id.index,
-          field.name,
-        );
-        if (value !== undefined) {
-          this.filterDataBuffer[field.name] = value;
-        }
-      }
+      readComponentInto(
+        this.archetype,
+        row,
+        filter.meta,
+        this.filterDataBuffer,
+      );
 
       if (!filter.predicate(this.filterDataBuffer)) {
         return false;
@@ -2136,10 +2303,10 @@ export class ArchetypeView {
   }
 
   /**
-   * Get the per-component change flags for an entity at the given row.
+   * Get the types of the components changed for an entity at the given row.
    */
-  getComponentChangeFlag(row: number): bigint {
-    return this.archetype.getComponentChangeFlag(row);
+  getChangedComponents(row: number): ComponentClass[] {
+    return this.archetype.getChangedComponents(row);
   }
 
   /**
@@ -2158,7 +2325,7 @@ export class ArchetypeView {
   }
 
   hasComponentChangeFilter(): boolean {
-    return this.changedComponentMask !== 0n;
+    return this.changedComponents.length > 0;
   }
 
   matchesChangeFilter(row: number): boolean {
@@ -2167,11 +2334,8 @@ export class ArchetypeView {
     const entityFlag = this.archetype.getChangeFlag(row);
     if ((entityFlag & this.changeFilter) === 0) return false;
 
-    if (this.changedComponentMask !== 0n) {
-      return this.archetype.hasAnyComponentChanged(
-        row,
-        this.changedComponentMask,
-      );
+    if (this.changedComponents.length > 0) {
+      return this.archetype.hasAnyComponentChanged(row, this.changedComponents);
     }
 
     return true;
@@ -2253,7 +2417,7 @@ export class UnionQueryBuilder {
         archetype,
         availableMetas,
         ChangeFlag.None,
-        0n,
+        [],
         [],
       );
 
@@ -1,6 +1,6 @@
 import type { Archetype } from "../core/archetype";
 import { getAllComponents, getComponentMeta } from "../core/component";
-import type { ComponentClass, Entity } from "../core/types";
+import type { ComponentClass, Entity, FieldValue } from "../core/types";
 import type { World } from "../core/world";
 
 export interface EntityInfo {
@@ -12,7 +12,7 @@ export interface EntityInfo {
 export interface ComponentInfo {
   name: string;
   isTag: boolean;
-  data: Record<string, number> | null;
+  data: Record<string, FieldValue> | null;
 }
 
 export interface ArchetypeInfo {
@@ -61,7 +61,7 @@ export class WorldInspector {
         components.push({
           name: meta.id.name,
           isTag: meta.isTag,
-          data: meta.isTag ? null : (data as Record<string, number>),
+          data: meta.isTag ? null : (data as Record<string, FieldValue>),
         });
       }
     }
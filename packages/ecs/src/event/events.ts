@@ -38,6 +38,16 @@ export type GameEvent =
       readonly type: "combat.death";
       readonly entity: Entity;
       readonly killer?: Entity;
+      /** Template the dead entity was spawned from, if any */
+      readonly templateId?: string;
+    }
+  | {
+      readonly type: "combat.projectile";
+      readonly entity: Entity;
+      /** Tiles crossed after the origin, ending where the flight stopped */
+      readonly path: readonly { readonly x: number; readonly y: number }[];
+      /** Entity struck, if any */
+      readonly target?: Entity;
     }
   | {
       readonly type: "combat.heal";
@@ -88,6 +98,13 @@ export type GameEvent =
       readonly entity: Entity;
       readonly slot: string;
     }
+  | {
+      readonly type: "item.identified";
+      /** Entity that now knows what the item is */
+      readonly entity: Entity;
+      readonly item: Entity;
+      readonly itemName: string;
+    }
   | {
       readonly type: "level.entered";
       readonly level: number;
@@ -109,6 +126,29 @@ export type GameEvent =
       readonly entity: Entity;
       readonly status: string;
     }
+  | {
+      readonly type: "perception.noise";
+      readonly entity: Entity;
+      readonly x: number;
+      readonly y: number;
+      /** Volume after stealth, in tiles of walkable path */
+      readonly volume: number;
+    }
+  | {
+      readonly type: "perception.changed";
+      readonly entity: Entity;
+      readonly state: "sleeping" | "wandering" | "investigating" | "hunting";
+    }
+  | {
+      readonly type: "ability.cast";
+      readonly entity: Entity;
+      readonly ability: string;
+      /** Aimed tile */
+      readonly x: number;
+      readonly y: number;
+      /** Entities the ability affected */
+      readonly targets: readonly Entity[];
+    }
   | {
       readonly type: "interaction.door";
       readonly entity: Entity;
@@ -126,6 +166,27 @@ export type GameEvent =
       readonly entity: Entity;
       readonly container: Entity;
     }
+  | {
+      readonly type: "shop.trade";
+      /** Buyer or seller */
+      readonly entity: Entity;
+      readonly shopkeeper: Entity;
+      readonly item: Entity;
+      readonly itemName: string;
+      /** Gold paid for the whole stack */
+      readonly price: number;
+      readonly action: "buy" | "sell";
+    }
+  | {
+      readonly type: "shop.theft";
+      readonly entity: Entity;
+      readonly shopkeeper: Entity;
+    }
+  | {
+      readonly type: "run.ended";
+      readonly entity: Entity;
+      readonly outcome: "death" | "victory";
+    }
   | {
       readonly type: "message";
       readonly text: string;
@@ -1,5 +1,10 @@
 import { getComponentMeta } from "../core/component";
-import type { ComponentClass, ComponentData, Entity } from "../core/types";
+import type {
+  ComponentClass,
+  ComponentData,
+  Entity,
+  FieldValue,
+} from "../core/types";
 import type { World } from "../core/world";
 
 /**
@@ -141,7 +146,11 @@ export class ObserverManager {
    * Notify observers of a component addition.
    * @internal - Called by the hooks system
    */
-  notifyAdd(entity: Entity, componentIndex: number, data: Record<string, number>): void {
+  notifyAdd(
+    entity: Entity,
+    componentIndex: number,
+    data: Record<string, FieldValue>,
+  ): void {
     for (const observer of this.observers) {
       if (
         observer.componentIndex === componentIndex &&
@@ -156,7 +165,11 @@ export class ObserverManager {
    * Notify observers of a component removal.
    * @internal - Called by the hooks system
    */
-  notifyRemove(entity: Entity, componentIndex: number, data: Record<string, number>): void {
+  notifyRemove(
+    entity: Entity,
+    componentIndex: number,
+    data: Record<string, FieldValue>,
+  ): void {
     for (const observer of this.observers) {
       if (
         observer.componentIndex === componentIndex &&
@@ -174,8 +187,8 @@ export class ObserverManager {
   notifySet(
     entity: Entity,
     componentIndex: number,
-    newData: Record<string, number>,
-    oldData: Record<string, number>,
+    newData: Record<string, FieldValue>,
+    oldData: Record<string, FieldValue>,
   ): void {
     for (const observer of this.observers) {
       if (
@@ -0,0 +1,75 @@
+import { getComponentMeta } from "../core/component";
+import type { ComponentClass } from "../core/types";
+import type { ResourceClass } from "../storage/resource";
+
+/** Resources are keyed by string or by type, like in the ResourceRegistry. */
+export type ResourceKey = string | ResourceClass;
+
+/**
+ * Data a system declares it reads and writes. Two systems whose accesses
+ * do not conflict can run at the same time.
+ */
+export interface SystemAccess {
+  readonly reads: readonly ComponentClass[];
+  readonly writes: readonly ComponentClass[];
+  readonly readsResources: readonly ResourceKey[];
+  readonly writesResources: readonly ResourceKey[];
+}
+
+/** Data two systems conflict on: written by one, read or written by the other. */
+export interface AccessConflict {
+  readonly components: string[];
+  readonly resources: string[];
+}
+
+function resourceName(key: ResourceKey): string {
+  return typeof key === "string" ? key : key.name;
+}
+
+function conflicting<T>(
+  a: readonly T[],
+  aWrites: readonly T[],
+  b: readonly T[],
+  bWrites: readonly T[],
+): T[] {
+  const result = new Set<T>();
+  for (const item of aWrites) {
+    if (b.includes(item) || bWrites.includes(item)) result.add(item);
+  }
+  for (const item of bWrites) {
+    if (a.includes(item)) result.add(item);
+  }
+  return [...result];
+}
+
+/**
+ * Get the data two accesses conflict on, or null if they can run at the
+ * same time. An undeclared access (undefined) conflicts with everything.
+ */
+export function findAccessConflict(
+  a: SystemAccess | undefined,
+  b: SystemAccess | undefined,
+): AccessConflict | null {
+  if (!a || !b) return { components: [], resources: [] };
+
+  const components = conflicting(a.reads, a.writes, b.reads, b.writes);
+  const resources = conflicting(
+    a.readsResources,
+    a.writesResources,
+    b.readsResources,
+    b.writesResources,
+  );
+  if (components.length === 0 && resources.length === 0) return null;
+
+  return {
+    components: components.map((c) => getComponentMeta(c).id.name),
+    resources: resources.map(resourceName),
+  };
+}
+
+/** Components an access reads or writes. */
+export function accessedComponents(
+  access: SystemAccess,
+): readonly ComponentClass[] {
+  return [...new Set([...access.reads, ...access.writes])];
+}
@@ -1,4 +1,7 @@
+export * from "./access";
+export * from "./kernel";
 export * from "./run-condition";
 export * from "./scheduler";
 export * from "./system";
 export * from "./system-set";
+export * from "./worker-pool";
@@ -0,0 +1,44 @@
+/**
+ * Entry point of the threads of a WorkerPool. Kernels are found by
+ * importing their module; components register with this thread's registry
+ * as the module imports them, and are matched by name.
+ */
+
+import { type MessagePort, parentPort, workerData } from "node:worker_threads";
+import { executeKernel, type Kernel, type KernelCommand } from "./kernel";
+import type { KernelWorkerReply, KernelWorkerRequest } from "./worker-pool";
+
+const { port, signal } = workerData as {
+  port: MessagePort;
+  signal: Int32Array;
+};
+
+async function loadKernel(module: string, name: string): Promise<Kernel> {
+  const exports = (await import(module)) as Record<string, unknown>;
+  const kernel = exports[name] as Kernel | undefined;
+  if (typeof kernel?.run !== "function") {
+    throw new Error(`No kernel exported as "${name}" from ${module}`);
+  }
+  return kernel;
+}
+
+parentPort?.on("message", async (request: KernelWorkerRequest) => {
+  let reply: KernelWorkerReply;
+  let system = "";
+  try {
+    const results: KernelCommand[][] = [];
+    for (const task of request.tasks) {
+      system = task.input.system;
+      const kernel = await loadKernel(task.module, task.name);
+      results.push(executeKernel(kernel, task.input));
+    }
+    reply = { results };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    reply = { error: `System "${system}" failed on a worker: ${message}` };
+  }
+
+  port.postMessage(reply);
+  Atomics.store(signal, 0, 1);
+  Atomics.notify(signal, 0);
+});
@@ -0,0 +1,322 @@
+import type { Archetype } from "../core/archetype";
+import { getComponentByName, getComponentMeta } from "../core/component";
+import type { ComponentClass, Entity, FieldValue } from "../core/types";
+import type { World } from "../core/world";
+import type { CommandBuffer } from "../storage/command-buffer";
+import { accessedComponents, type SystemAccess } from "./access";
+
+type TypedArray =
+  | Float32Array
+  | Float64Array
+  | Int8Array
+  | Int16Array
+  | Int32Array
+  | Uint8Array
+  | Uint16Array
+  | Uint32Array;
+
+/**
+ * Structural change recorded by a kernel. Components are referred to by
+ * name so commands can cross threads.
+ */
+export type KernelCommand =
+  | { op: "spawn"; components: string[] }
+  | { op: "despawn"; entity: number }
+  | {
+      op: "add";
+      entity: number;
+      component: string;
+      data?: Record<string, FieldValue>;
+    }
+  | { op: "remove"; entity: number; component: string };
+
+/**
+ * Rows of one archetype handed to a kernel. Structured-cloneable: columns
+ * on SharedArrayBuffers are shared with the worker, not copied.
+ */
+export interface KernelChunkData {
+  /** Names of all the components of the archetype */
+  readonly components: readonly string[];
+  readonly count: number;
+  readonly entities: Uint32Array;
+  /** Columns of the components the system accesses, by component and field */
+  readonly columns: Record<string, Record<string, TypedArray>>;
+}
+
+/** Everything a kernel sees of the world. */
+export interface KernelInput {
+  readonly system: string;
+  readonly tick: number;
+  /** Names of the components the system declares */
+  readonly components: readonly string[];
+  readonly chunks: readonly KernelChunkData[];
+  /** Declared string-keyed resources read by the system */
+  readonly resources: Record<string, unknown>;
+}
+
+/** Rows of one archetype, as seen by a kernel. */
+export interface KernelChunk {
+  readonly count: number;
+  entity(row: number): Entity;
+  has(componentType: ComponentClass): boolean;
+  /**
+   * Get the storage of a field, laid out like Archetype.column(). Only
+   * components the system declares can be accessed.
+   */
+  column(componentType: ComponentClass, fieldName: string): TypedArray;
+}
+
+/** Structural changes a kernel defers to the end of its batch. */
+export interface KernelCommands {
+  spawn(...componentTypes: ComponentClass[]): void;
+  despawn(entity: Entity): void;
+  add<T>(
+    entity: Entity,
+    componentType: ComponentClass<T>,
+    data?: Record<string, FieldValue>,
+  ): void;
+  remove(entity: Entity, componentType: ComponentClass): void;
+}
+
+export interface KernelContext {
+  readonly system: string;
+  readonly tick: number;
+  /** Chunks holding all the given components, which must be declared. */
+  query(...componentTypes: ComponentClass[]): KernelChunk[];
+  /** Get a resource the system declares it reads. */
+  resource<T>(key: string): T | undefined;
+  readonly commands: KernelCommands;
+}
+
+/**
+ * A system body that can run on a worker thread. The worker finds it by
+ * importing `module` and reading its `name` export, so a kernel must be
+ * exported from the module it is defined in and only use what it imports.
+ */
+export interface Kernel {
+  readonly module: string;
+  readonly name: string;
+  readonly run: (ctx: KernelContext) => void;
+}
+
+/**
+ * Define a kernel.
+ *
+ * @example
+ * // movement.kernel.ts
+ * export const integrate = defineKernel(import.meta.url, "integrate", (ctx) => {
+ *   for (const chunk of ctx.query(Position, Velocity)) {
+ *     const x = chunk.column(Position, "x");
+ *     const dx = chunk.column(Velocity, "x");
+ *     for (let row = 0; row < chunk.count; row++) x[row]! += dx[row]!;
+ *   }
+ * });
+ */
+export function defineKernel(
+  module: string | URL,
+  name: string,
+  run: (ctx: KernelContext) => void,
+): Kernel {
+  return { module: module.toString(), name, run };
+}
+
+/** A kernel system ready to run: its input and the archetypes it covers. */
+export interface KernelTask {
+  readonly kernel: Kernel;
+  readonly access: SystemAccess;
+  readonly input: KernelInput;
+  readonly archetypes: readonly Archetype[];
+  /** Command buffer sort key, the system's position in its phase */
+  readonly sortKey: number;
+}
+
+/**
+ * Gather the archetypes holding a component a kernel system accesses.
+ */
+export function prepareKernelTask(
+  world: World,
+  system: string,
+  kernel: Kernel,
+  access: SystemAccess,
+  sortKey: number,
+): KernelTask {
+  const metas = accessedComponents(access).map(getComponentMeta);
+
+  const chunks: KernelChunkData[] = [];
+  const archetypes: Archetype[] = [];
+  for (const archetype of world.getArchetypes()) {
+    if (archetype.count === 0) continue;
+    if (!metas.some((meta) => archetype.hasComponent(meta.id.index))) continue;
+
+    const entities = new Uint32Array(archetype.count);
+    for (let row = 0; row < archetype.count; row++) {
+      entities[row] = archetype.getEntity(row) as number;
+    }
+
+    const columns: Record<string, Record<string, TypedArray>> = {};
+    for (const meta of metas) {
+      if (meta.isTag || !archetype.hasComponent(meta.id.index)) continue;
+      const fields: Record<string, TypedArray> = {};
+      for (const field of meta.fields) {
+        fields[field.name] = archetype.column(meta.id.index, field.name)!;
+      }
+      columns[meta.id.name] = fields;
+    }
+
+    chunks.push({
+      components: archetype.componentTypes.map(
+        (type) => getComponentMeta(type).id.name,
+      ),
+      count: archetype.count,
+      entities,
+      columns,
+    });
+    archetypes.push(archetype);
+  }
+
+  const resources: Record<string, unknown> = {};
+  for (const key of access.readsResources) {
+    if (typeof key === "string") resources[key] = world.resources.get(key);
+  }
+
+  return {
+    kernel,
+    access,
+    input: {
+      system,
+      tick: world.getCurrentTick(),
+      components: metas.map((meta) => meta.id.name),
+      chunks,
+      resources,
+    },
+    archetypes,
+    sortKey,
+  };
+}
+
+function createChunk(system: string, data: KernelChunkData): KernelChunk {
+  return {
+    count: data.count,
+    entity: (row) => data.entities[row] as Entity,
+    has: (type) => data.components.includes(getComponentMeta(type).id.name),
+    column(type, fieldName) {
+      const name = getComponentMeta(type).id.name;
+      const column = data.columns[name]?.[fieldName];
+      if (!column) {
+        throw new Error(
+          `System "${system}": ${name}.${fieldName} is not a field of a declared component`,
+        );
+      }
+      return column;
+    },
+  };
+}
+
+/**
+ * Run a kernel on its input, in this thread.
+ *
+ * @returns the structural changes it recorded
+ */
+export function executeKernel(
+  kernel: Kernel,
+  input: KernelInput,
+): KernelCommand[] {
+  const commands: KernelCommand[] = [];
+  const chunks = input.chunks.map((data) => createChunk(input.system, data));
+
+  kernel.run({
+    system: input.system,
+    tick: input.tick,
+    query(...types) {
+      const names = types.map((type) => getComponentMeta(type).id.name);
+      for (const name of names) {
+        if (!input.components.includes(name)) {
+          throw new Error(
+            `System "${input.system}": cannot query undeclared component ${name}`,
+          );
+        }
+      }
+      return chunks.filter((_, i) =>
+        names.every((name) => input.chunks[i]!.components.includes(name)),
+      );
+    },
+    resource: <T>(key: string) => input.resources[key] as T | undefined,
+    commands: {
+      spawn: (...types) =>
+        commands.push({
+          op: "spawn",
+          components: types.map((type) => getComponentMeta(type).id.name),
+        }),
+      despawn: (entity) => commands.push({ op: "despawn", entity }),
+      add: (entity, type, data) =>
+        commands.push({
+          op: "add",
+          entity,
+          component: getComponentMeta(type).id.name,
+          ...(data !== undefined ? { data } : {}),
+        }),
+      remove: (entity, type) =>
+        commands.push({
+          op: "remove",
+          entity,
+          component: getComponentMeta(type).id.name,
+        }),
+    },
+  });
+
+  return commands;
+}
+
+function resolveComponent(system: string, name: string): ComponentClass {
+  const type = getComponentByName(name);
+  if (!type) {
+    throw new Error(`System "${system}": unknown component "${name}"`);
+  }
+  return type;
+}
+
+/**
+ * Mark the components a kernel system writes as changed on every row it
+ * could have written, and queue its commands under its sort key. Flushing
+ * the buffer applies the commands of several kernels in system order,
+ * whatever order they finished in.
+ */
+export function completeKernelTask(
+  task: KernelTask,
+  commands: readonly KernelCommand[],
+  buffer: CommandBuffer,
+): void {
+  const system = task.input.system;
+  for (const type of task.access.writes) {
+    const index = getComponentMeta(type).id.index;
+    for (const archetype of task.archetypes) {
+      archetype.markComponentChanged(index);
+    }
+  }
+
+  buffer.setSortKey(task.sortKey);
+  for (const command of commands) {
+    switch (command.op) {
+      case "spawn":
+        buffer.spawn(
+          ...command.components.map((name) => resolveComponent(system, name)),
+        );
+        break;
+      case "despawn":
+        buffer.despawn(command.entity as Entity);
+        break;
+      case "add": {
+        const type = resolveComponent(system, command.component);
+        buffer.registerComponent(type);
+        buffer.add(command.entity as Entity, type, command.data);
+        break;
+      }
+      case "remove": {
+        const type = resolveComponent(system, command.component);
+        buffer.registerComponent(type);
+        buffer.remove(command.entity as Entity, type);
+        break;
+      }
+    }
+  }
+}
@@ -1,5 +1,17 @@
 import { Phase } from "../core/types";
 import type { World } from "../core/world";
+import { CommandBuffer } from "../storage/command-buffer";
+import {
+  type AccessConflict,
+  findAccessConflict,
+  type SystemAccess,
+} from "./access";
+import {
+  completeKernelTask,
+  executeKernel,
+  type Kernel,
+  prepareKernelTask,
+} from "./kernel";
 import type { System } from "./system";
 import type { Condition } from "./run-condition";
 import type {
@@ -10,6 +22,25 @@ import type {
 } from "./system-set";
 import { SetConfigBuilder as SetConfigBuilderImpl } from "./system-set";
 import { SetChainBuilder as SetChainBuilderImpl } from "./system-set";
+import {
+  type ParallelOptions,
+  resolveWorkerEntry,
+  WorkerPool,
+} from "./worker-pool";
+
+/** Two systems of a phase that conflict and are not ordered. */
+export interface SystemAmbiguity extends AccessConflict {
+  readonly phase: Phase;
+  /** The two systems, in the order they currently run */
+  readonly systems: readonly [string, string];
+}
+
+interface PendingKernel {
+  readonly name: string;
+  readonly kernel: Kernel;
+  readonly access: SystemAccess;
+  readonly sortKey: number;
+}
 
 function topologicalSort(systems: System[]): System[] {
   const graph = new Map<string, Set<string>>();
@@ -85,13 +116,63 @@ function topologicalSort(systems: System[]): System[] {
   return result;
 }
 
+/** Whether a before/after constraint runs `a` before `b`. */
+function orderedBefore(a: System, b: System): boolean {
+  return a.before.includes(b.name) || b.after.includes(a.name);
+}
+
+/**
+ * Group sorted systems into batches of systems that can run at the same
+ * time. A system goes in the batch after the last one holding a system it
+ * is ordered after or conflicts with, so running the batches in order
+ * gives the same result as running the systems one by one.
+ */
+function buildBatches(sorted: readonly System[]): System[][] {
+  const levels: number[] = [];
+  const batches: System[][] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const system = sorted[i]!;
+    let level = 0;
+    for (let j = 0; j < i; j++) {
+      const other = sorted[j]!;
+      if (
+        levels[j]! >= level &&
+        (orderedBefore(other, system) ||
+          findAccessConflict(other.access, system.access))
+      ) {
+        level = levels[j]! + 1;
+      }
+    }
+    levels.push(level);
+    let batch = batches[level];
+    if (!batch) {
+      batch = [];
+      batches[level] = batch;
+    }
+    batch.push(system);
+  }
+
+  return batches;
+}
+
 /** Manages system registration, ordering, and execution across phases. */
 export class SystemScheduler {
   private systemsByPhase = new Map<Phase, System[]>();
+  private batchesByPhase = new Map<Phase, System[][]>();
+  /** Position of each compiled system in its phase */
+  private readonly sortKeys = new Map<System, number>();
   private allSystems: System[] = [];
   private setConfigs = new Map<SystemSet, SetConfig>();
   private compiled = false;
 
+  /** Commands of kernels, applied in system order */
+  private readonly commands = new CommandBuffer();
+  private workers: WorkerPool | null = null;
+  /** Kernels queued by the running batch, when parallel */
+  private pendingKernels: PendingKernel[] | null = null;
+  private currentSortKey = 0;
+
   register(system: System): void {
     this.allSystems.push(system);
 
@@ -175,10 +256,16 @@ export class SystemScheduler {
       phaseSystems.push(system);
     }
 
-    // Sort systems in each phase
+    // Sort systems in each phase, then batch them
+    this.batchesByPhase.clear();
+    this.sortKeys.clear();
     for (const [phase, systems] of this.systemsByPhase.entries()) {
       const sorted = topologicalSort(systems);
       this.systemsByPhase.set(phase, sorted);
+      this.batchesByPhase.set(phase, buildBatches(sorted));
+      sorted.forEach((system, i) => {
+        this.sortKeys.set(system, i);
+      });
     }
     this.compiled = true;
   }
@@ -292,6 +379,11 @@ export class SystemScheduler {
       this.compile();
     }
 
+    if (this.workers) {
+      this.runBatches(phase, world, this.workers);
+      return;
+    }
+
     const systems = this.systemsByPhase.get(phase);
     if (!systems) return;
 
@@ -301,6 +393,144 @@ export class SystemScheduler {
     }
   }
 
+  /**
+   * Run the batches of a phase one after the other. Systems of a batch run
+   * in this thread while their kernels are queued; the queued kernels then
+   * run on the workers and their commands are applied before the next batch.
+   */
+  private runBatches(phase: Phase, world: World, workers: WorkerPool): void {
+    for (const batch of this.batchesByPhase.get(phase) ?? []) {
+      const pending: PendingKernel[] = [];
+      this.pendingKernels = pending;
+      try {
+        for (const system of batch) {
+          if (!system.enabled) continue;
+          this.currentSortKey = this.sortKeys.get(system) ?? 0;
+          system.run(world);
+        }
+      } finally {
+        this.pendingKernels = null;
+      }
+      if (pending.length === 0) continue;
+
+      const tasks = pending.map((k) =>
+        prepareKernelTask(world, k.name, k.kernel, k.access, k.sortKey),
+      );
+      const results = workers.run(tasks);
+      tasks.forEach((task, i) => {
+        completeKernelTask(task, results[i]!, this.commands);
+      });
+      this.commands.flush(world);
+    }
+  }
+
+  /**
+   * Run the kernel of a kernel system: queued for the workers while a
+   * parallel batch runs, in place otherwise.
+   */
+  runKernel(
+    name: string,
+    kernel: Kernel,
+    access: SystemAccess,
+    world: World,
+  ): void {
+    if (this.pendingKernels) {
+      this.pendingKernels.push({
+        name,
+        kernel,
+        access,
+        sortKey: this.currentSortKey,
+      });
+      return;
+    }
+
+    const task = prepareKernelTask(world, name, kernel, access, 0);
+    completeKernelTask(task, executeKernel(kernel, task.input), this.commands);
+    this.commands.flush(world);
+  }
+
+  /**
+   * Run conflict-free batches of systems at the same time, kernels on
+   * worker threads. Their columns must be shared: use
+   * World.enableParallelSystems(), which calls this.
+   *
+   * Where no worker entry can be found (see resolveWorkerEntry()), systems
+   * keep running one by one, kernels in place.
+   *
+   * @returns Whether systems now run in parallel
+   */
+  enableParallel(options: ParallelOptions = {}): boolean {
+    this.workers?.terminate();
+    this.workers = null;
+
+    const entry = resolveWorkerEntry(options.workerEntry);
+    if (entry) this.workers = new WorkerPool(entry, options);
+    return this.workers !== null;
+  }
+
+  /** Go back to running systems one by one, and stop the workers. */
+  disableParallel(): void {
+    this.workers?.terminate();
+    this.workers = null;
+  }
+
+  get isParallel(): boolean {
+    return this.workers !== null;
+  }
+
+  /** Batches of a phase, in run order. */
+  getBatches(phase: Phase): readonly (readonly System[])[] {
+    if (!this.compiled) {
+      this.compile();
+    }
+    return this.batchesByPhase.get(phase) ?? [];
+  }
+
+  /**
+   * Find the systems whose order is ambiguous: pairs of systems of a phase
+   * where one writes data the other reads or writes, and no before/after
+   * constraint, direct or transitive, orders them. They run in
+   * registration order, which then decides the result.
+   *
+   * Only systems that declare their access are checked.
+   */
+  findAmbiguities(): SystemAmbiguity[] {
+    if (!this.compiled) {
+      this.compile();
+    }
+
+    const ambiguities: SystemAmbiguity[] = [];
+    for (const [phase, systems] of this.systemsByPhase.entries()) {
+      const ancestors: Set<System>[] = [];
+      for (let i = 0; i < systems.length; i++) {
+        const system = systems[i]!;
+        const before = new Set<System>();
+        for (let j = 0; j < i; j++) {
+          const other = systems[j]!;
+          if (!orderedBefore(other, system)) continue;
+          before.add(other);
+          for (const ancestor of ancestors[j]!) before.add(ancestor);
+        }
+        ancestors.push(before);
+
+        if (!system.access) continue;
+        for (let j = 0; j < i; j++) {
+          const other = systems[j]!;
+          if (!other.access || before.has(other)) continue;
+          const conflict = findAccessConflict(other.access, system.access);
+          if (conflict) {
+            ambiguities.push({
+              phase,
+              systems: [other.name, system.name],
+              ...conflict,
+            });
+          }
+        }
+      }
+    }
+    return ambiguities;
+  }
+
   runAll(world: World): void {
     const phases = [Phase.PreUpdate, Phase.Update, Phase.PostUpdate];
 
@@ -342,6 +572,8 @@ export class SystemScheduler {
   clear(): void {
     this.allSystems = [];
     this.systemsByPhase.clear();
+    this.batchesByPhase.clear();
+    this.sortKeys.clear();
     this.compiled = false;
   }
 }
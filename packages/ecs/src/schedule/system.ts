@@ -1,5 +1,7 @@
-import type { Phase } from "../core/types";
+import type { ComponentClass, Phase } from "../core/types";
 import type { World } from "../core/world";
+import type { ResourceKey, SystemAccess } from "./access";
+import type { Kernel } from "./kernel";
 import type { Condition, RunCondition } from "./run-condition";
 import { condition } from "./run-condition";
 import type { SystemSet } from "./system-set";
@@ -16,6 +18,13 @@ export interface System {
   readonly conditions: Condition[];
   /** System sets this system belongs to */
   readonly sets: ReadonlySet<SystemSet>;
+  /**
+   * Data the system reads and writes. Systems that do not declare it have
+   * exclusive access: they never share a batch.
+   */
+  readonly access?: SystemAccess;
+  /** Body of a system that can run on a worker thread */
+  readonly kernel?: Kernel;
   /** Execute the system. Returns true if it actually ran. */
   run(world: World): boolean;
 }
@@ -29,6 +38,13 @@ interface SystemConfig {
   once: boolean;
   conditions: Condition[];
   sets: Set<SystemSet>;
+  access?: {
+    reads: ComponentClass[];
+    writes: ComponentClass[];
+    readsResources: ResourceKey[];
+    writesResources: ResourceKey[];
+  };
+  kernel?: Kernel;
   run?: (world: World) => void;
 }
 
@@ -144,11 +160,85 @@ class SystemBuilder {
     return this;
   }
 
+  /**
+   * Declare components the system reads. Declaring any access lets the
+   * scheduler batch the system with systems it does not conflict with.
+   *
+   * @example
+   * defineSystem("Movement")
+   *   .reads(Velocity)
+   *   .writes(Position)
+   *   .execute(...);
+   */
+  reads(...componentTypes: ComponentClass[]): this {
+    this.declareAccess().reads.push(...componentTypes);
+    return this;
+  }
+
+  /** Declare components the system writes, adds or removes. */
+  writes(...componentTypes: ComponentClass[]): this {
+    this.declareAccess().writes.push(...componentTypes);
+    return this;
+  }
+
+  /** Declare resources the system reads. */
+  readsResource(...keys: ResourceKey[]): this {
+    this.declareAccess().readsResources.push(...keys);
+    return this;
+  }
+
+  /** Declare resources the system writes. */
+  writesResource(...keys: ResourceKey[]): this {
+    this.declareAccess().writesResources.push(...keys);
+    return this;
+  }
+
+  private declareAccess(): NonNullable<SystemConfig["access"]> {
+    this.config.access ??= {
+      reads: [],
+      writes: [],
+      readsResources: [],
+      writesResources: [],
+    };
+    return this.config.access;
+  }
+
   execute(fn: (world: World) => void): System {
     this.config.run = fn;
     return this.build();
   }
 
+  /**
+   * Execute a kernel. When parallel execution is enabled, kernels of a
+   * batch run on worker threads; otherwise the kernel runs in place. Its
+   * commands are applied at the end of its batch, or right after it runs.
+   *
+   * Kernel systems must declare their access, and cannot write resources.
+   *
+   * @example
+   * defineSystem("Movement")
+   *   .inPhase(Phase.Update)
+   *   .reads(Velocity)
+   *   .writes(Position)
+   *   .executeKernel(integrate);
+   */
+  executeKernel(kernel: Kernel): System {
+    const { name, access } = this.config;
+    if (!access) {
+      throw new Error(`System "${name}": kernel systems must declare access`);
+    }
+    if (access.writesResources.length > 0) {
+      throw new Error(
+        `System "${name}": kernel systems cannot write resources`,
+      );
+    }
+
+    this.config.kernel = kernel;
+    this.config.run = (world) =>
+      world.scheduler.runKernel(name, kernel, access, world);
+    return this.build();
+  }
+
   private build(): System {
     if (this.config.phase === undefined) {
       throw new Error(`System "${this.config.name}": phase is required`);
@@ -172,6 +262,8 @@ class SystemBuilder {
       once: isOnce,
       conditions,
       sets: this.config.sets,
+      ...(this.config.access ? { access: this.config.access } : {}),
+      ...(this.config.kernel ? { kernel: this.config.kernel } : {}),
       run(world: World): boolean {
         // Check all conditions
         for (const cond of conditions) {
@@ -0,0 +1,200 @@
+import { existsSync } from "node:fs";
+import { availableParallelism } from "node:os";
+import { fileURLToPath } from "node:url";
+import {
+  MessageChannel,
+  type MessagePort,
+  receiveMessageOnPort,
+  Worker,
+} from "node:worker_threads";
+import type { KernelCommand, KernelInput, KernelTask } from "./kernel";
+
+export interface ParallelOptions {
+  /** Number of worker threads. Defaults to one less than the cores. */
+  workers?: number;
+  /** How long a batch may take before the workers are given up on. */
+  timeoutMs?: number;
+  /**
+   * Module the workers run. Defaults to the kernel-worker module next to
+   * this one; set it when a bundler moves it elsewhere.
+   */
+  workerEntry?: string | URL;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Find the module the workers run: kernel-worker.ts when running from
+ * source, which only Bun can load in a worker, or kernel-worker.js in the
+ * compiled output.
+ *
+ * @returns null if there is no runnable entry, e.g. once bundled
+ */
+export function resolveWorkerEntry(entry?: string | URL): URL | null {
+  let url: URL;
+  if (entry !== undefined) {
+    url = new URL(entry, import.meta.url);
+  } else {
+    const extension = /\.[cm]?[jt]s$/.exec(import.meta.url)?.[0];
+    if (!extension) return null;
+    if (extension.endsWith("ts") && !process.versions.bun) return null;
+    url = new URL(`./kernel-worker${extension}`, import.meta.url);
+  }
+
+  if (url.protocol === "file:" && !existsSync(fileURLToPath(url))) {
+    return null;
+  }
+  return url;
+}
+
+/** @internal Message sent to a kernel worker: the kernels to run, in order. */
+export interface KernelWorkerRequest {
+  tasks: { module: string; name: string; input: KernelInput }[];
+}
+
+/** @internal Reply of a kernel worker: the commands of each kernel. */
+export type KernelWorkerReply =
+  | { results: KernelCommand[][] }
+  | { error: string };
+
+interface PooledWorker {
+  readonly worker: Worker;
+  /** Reply port, read synchronously with receiveMessageOnPort() */
+  readonly port: MessagePort;
+  /** Set to 1 by the worker once its reply is posted */
+  readonly signal: Int32Array;
+}
+
+/**
+ * Worker threads running kernels. run() blocks until every worker has
+ * replied, so a tick stays synchronous: the main thread waits on a shared
+ * flag per worker instead of on the event loop.
+ */
+export class WorkerPool {
+  private readonly size: number;
+  private readonly timeoutMs: number;
+  private workers: PooledWorker[] = [];
+
+  /**
+   * @param entry - Module the workers run, from resolveWorkerEntry()
+   */
+  constructor(
+    private readonly entry: URL,
+    options: ParallelOptions = {},
+  ) {
+    this.size = Math.max(1, options.workers ?? availableParallelism() - 1);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  get workerCount(): number {
+    return this.size;
+  }
+
+  /**
+   * Run kernels, dealt to the workers in task order.
+   *
+   * @returns the commands of each task, in task order
+   * @throws if a kernel throws, a column is not shared, or the batch times out
+   */
+  run(tasks: readonly KernelTask[]): KernelCommand[][] {
+    if (tasks.length === 0) return [];
+    for (const task of tasks) assertShared(task);
+    this.start();
+
+    const assigned: number[][] = this.workers.map(() => []);
+    for (let i = 0; i < tasks.length; i++) {
+      assigned[i % this.workers.length]!.push(i);
+    }
+
+    for (let w = 0; w < this.workers.length; w++) {
+      if (assigned[w]!.length === 0) continue;
+      const { worker, signal } = this.workers[w]!;
+      const request: KernelWorkerRequest = {
+        tasks: assigned[w]!.map((i) => ({
+          module: tasks[i]!.kernel.module,
+          name: tasks[i]!.kernel.name,
+          input: tasks[i]!.input,
+        })),
+      };
+      Atomics.store(signal, 0, 0);
+      worker.postMessage(request);
+    }
+
+    // Every reply is read, even after an error, so none is left for the
+    // next run to mistake for its own
+    const results: KernelCommand[][] = new Array(tasks.length);
+    let error: string | undefined;
+    const deadline = performance.now() + this.timeoutMs;
+    for (let w = 0; w < this.workers.length; w++) {
+      if (assigned[w]!.length === 0) continue;
+      const { port, signal } = this.workers[w]!;
+
+      const remaining = Math.max(0, deadline - performance.now());
+      if (Atomics.wait(signal, 0, 0, remaining) === "timed-out") {
+        this.terminate();
+        throw new Error(
+          `Kernel workers did not finish within ${this.timeoutMs}ms`,
+        );
+      }
+
+      const reply = receiveMessageOnPort(port)?.message as
+        | KernelWorkerReply
+        | undefined;
+      if (!reply) {
+        this.terminate();
+        throw new Error("Kernel worker signalled without replying");
+      }
+      if ("error" in reply) {
+        error ??= reply.error;
+        continue;
+      }
+
+      assigned[w]!.forEach((i, k) => {
+        results[i] = reply.results[k]!;
+      });
+    }
+
+    if (error !== undefined) throw new Error(error);
+    return results;
+  }
+
+  /** Stop the workers. The next run() starts new ones. */
+  terminate(): void {
+    for (const { worker, port } of this.workers) {
+      port.close();
+      void worker.terminate();
+    }
+    this.workers = [];
+  }
+
+  private start(): void {
+    if (this.workers.length > 0) return;
+
+    for (let i = 0; i < this.size; i++) {
+      const { port1, port2 } = new MessageChannel();
+      const signal = new Int32Array(new SharedArrayBuffer(4));
+      const worker = new Worker(this.entry, {
+        workerData: { port: port2, signal },
+        transferList: [port2],
+      });
+      // Idle workers must not keep the process alive
+      worker.unref();
+      this.workers.push({ worker, port: port1, signal });
+    }
+  }
+}
+
+function assertShared(task: KernelTask): void {
+  for (const chunk of task.input.chunks) {
+    for (const fields of Object.values(chunk.columns)) {
+      for (const column of Object.values(fields)) {
+        if (!(column.buffer instanceof SharedArrayBuffer)) {
+          throw new Error(
+            `System "${task.input.system}": columns are not shared. ` +
+              `Use world.enableParallelSystems() to run kernels on workers.`,
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,801 @@
+/**
+ * Binary World Snapshots
+ *
+ * A compact alternative to the JSON WorldSnapshot for save games. A snapshot
+ * is a header followed by self-delimiting sections, each optionally deflated
+ * on its own, so it can be written and read a section at a time:
+ *
+ *   header     magic "RGSB", format version, flags, tick, snapshot version
+ *   schema     name, fields and field types of every saved component
+ *   strings    StringPool.export() of the world's pool
+ *   archetype  one per non-empty archetype: entity IDs, then each column
+ *              dumped as is from its TypedArray
+ *   relations  relations of the requested types
+ *   resources  JSON of the serializable resources
+ *   end
+ *
+ * Numbers are little-endian; columns are copied as raw bytes, which assumes
+ * a little-endian host like every platform Bun and Node run on.
+ */
+
+import { deflateSync, inflateSync } from "node:zlib";
+import type { Archetype } from "../core/archetype";
+import { getComponentByName, getComponentMeta } from "../core/component";
+import {
+  type ComponentClass,
+  type ComponentMeta,
+  type Entity,
+  FIELD_ARRAY_CTOR,
+  FIELD_BYTE_SIZE,
+  FieldType,
+  type FieldValue,
+} from "../core/types";
+import type { World } from "../core/world";
+import { getRelationByName, type RelationType } from "../relationship/relation";
+import type { StringPool } from "../storage/string-pool";
+import type {
+  SerializedEntity,
+  SerializedRelation,
+  WorldSnapshot,
+} from "./serialization";
+
+type TypedArray =
+  | Float32Array
+  | Float64Array
+  | Int8Array
+  | Int16Array
+  | Int32Array
+  | Uint8Array
+  | Uint16Array
+  | Uint32Array;
+
+/** "RGSB" */
+const MAGIC = 0x42534752;
+export const BINARY_FORMAT_VERSION = 1;
+
+const FLAG_COMPRESSED = 1;
+/** Sections smaller than this are not worth deflating */
+const MIN_COMPRESSED_SIZE = 64;
+
+export enum BinarySectionKind {
+  End = 0,
+  Schema = 1,
+  Strings = 2,
+  Archetype = 3,
+  Relations = 4,
+  Resources = 5,
+}
+
+export interface BinarySnapshotOptions {
+  /** Deflate each section. Defaults to false. */
+  compress?: boolean;
+  /** Relation types to save. Defaults to none, like WorldSerializer. */
+  relationTypes?: readonly RelationType[];
+}
+
+export interface BinarySnapshotHeader {
+  readonly formatVersion: number;
+  readonly compressed: boolean;
+  readonly tick: number;
+  /** SNAPSHOT_VERSION of the writer, what migrations start from */
+  readonly version: string;
+}
+
+/** A section, decompressed. */
+export interface BinarySection {
+  readonly kind: BinarySectionKind;
+  readonly payload: Uint8Array;
+}
+
+interface SchemaField {
+  name: string;
+  type: FieldType;
+  /** Elements per row: 1 for scalars */
+  stride: number;
+  isArray: boolean;
+}
+
+interface SchemaComponent {
+  name: string;
+  isTag: boolean;
+  fields: SchemaField[];
+}
+
+interface ArchetypeBlock {
+  /** Schema indices */
+  components: number[];
+  count: number;
+  entities: Uint32Array;
+  /** Per component, per field; empty for tags */
+  columns: TypedArray[][];
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// =============================================================================
+// Bytes
+// =============================================================================
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value, true);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  str(value: string): void {
+    const bytes = textEncoder.encode(value);
+    this.u32(bytes.length);
+    this.bytes(bytes);
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  private reserve(n: number): void {
+    if (this.length + n <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + n) capacity *= 2;
+    const buffer = new Uint8Array(capacity);
+    buffer.set(this.buffer.subarray(0, this.length));
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+}
+
+class ByteReader {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    this.check(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  str(): string {
+    return textDecoder.decode(this.take(this.u32()));
+  }
+
+  /** Read `count` elements into a new, aligned typed array. */
+  array(type: FieldType, count: number): TypedArray {
+    const bytes = this.take(count * FIELD_BYTE_SIZE[type]).slice();
+    const ArrayCtor = FIELD_ARRAY_CTOR[type] as unknown as new (
+      buffer: ArrayBuffer,
+    ) => TypedArray;
+    return new ArrayCtor(bytes.buffer);
+  }
+
+  take(n: number): Uint8Array {
+    this.check(n);
+    const bytes = this.bytes.subarray(this.offset, this.offset + n);
+    this.offset += n;
+    return bytes;
+  }
+
+  private check(n: number): void {
+    if (this.offset + n > this.bytes.length) {
+      throw new Error("Binary snapshot: unexpected end of data");
+    }
+  }
+}
+
+function columnBytes(column: TypedArray, elements: number): Uint8Array {
+  return new Uint8Array(
+    column.buffer,
+    column.byteOffset,
+    elements * column.BYTES_PER_ELEMENT,
+  );
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+function section(
+  kind: BinarySectionKind,
+  payload: Uint8Array,
+  compress: boolean,
+): Uint8Array {
+  const deflated =
+    compress && payload.length >= MIN_COMPRESSED_SIZE
+      ? deflateSync(payload)
+      : null;
+  const stored = deflated && deflated.length < payload.length ? deflated : null;
+
+  const writer = new ByteWriter();
+  writer.u8(kind);
+  writer.u8(stored ? FLAG_COMPRESSED : 0);
+  writer.u32(payload.length);
+  writer.u32((stored ?? payload).length);
+  writer.bytes(stored ?? payload);
+  return writer.finish();
+}
+
+function writeSchema(metas: readonly ComponentMeta[]): Uint8Array {
+  const writer = new ByteWriter();
+  writer.u32(metas.length);
+  for (const meta of metas) {
+    writer.str(meta.id.name);
+    writer.u8(meta.isTag ? 1 : 0);
+    writer.u16(meta.fields.length);
+    for (const field of meta.fields) {
+      writer.str(field.name);
+      writer.u8(field.type);
+      // 0 for scalars
+      writer.u32(field.length ?? 0);
+    }
+  }
+  return writer.finish();
+}
+
+function writeArchetype(
+  archetype: Archetype,
+  schemaIndex: ReadonlyMap<ComponentClass, number>,
+): Uint8Array {
+  const count = archetype.count;
+  const writer = new ByteWriter();
+
+  writer.u16(archetype.componentTypes.length);
+  for (const type of archetype.componentTypes) {
+    writer.u32(schemaIndex.get(type)!);
+  }
+
+  writer.u32(count);
+  const entities = new Uint32Array(count);
+  for (let row = 0; row < count; row++) {
+    entities[row] = archetype.getEntity(row) as number;
+  }
+  writer.bytes(columnBytes(entities, count));
+
+  for (const type of archetype.componentTypes) {
+    const meta = getComponentMeta(type);
+    for (const field of meta.fields) {
+      const column = archetype.column(meta.id.index, field.name)!;
+      writer.bytes(columnBytes(column, count * (field.length ?? 1)));
+    }
+  }
+  return writer.finish();
+}
+
+function writeRelations(
+  world: World,
+  relationTypes: readonly RelationType[],
+): Uint8Array {
+  const writer = new ByteWriter();
+  writer.u16(relationTypes.length);
+  for (const relationType of relationTypes) {
+    const relations: [Entity, Entity, unknown][] = [];
+    world.relations.forEach(relationType, (source, target, data) => {
+      relations.push([source, target, data]);
+    });
+
+    writer.str(relationType.id.name);
+    writer.u32(relations.length);
+    for (const [source, target, data] of relations) {
+      writer.u32(source as number);
+      writer.u32(target as number);
+      writer.str(data === undefined ? "" : JSON.stringify(data));
+    }
+  }
+  return writer.finish();
+}
+
+/**
+ * Write a binary snapshot of a world, one section at a time. Columns are
+ * copied straight from the archetypes' TypedArrays.
+ *
+ * @example
+ * const file = Bun.file("save.bin").writer();
+ * for (const chunk of writeBinarySnapshot(world, { compress: true })) {
+ *   file.write(chunk);
+ * }
+ * await file.end();
+ */
+export function* writeBinarySnapshot(
+  world: World,
+  version: string,
+  options: BinarySnapshotOptions = {},
+): Generator<Uint8Array> {
+  const compress = options.compress ?? false;
+  const archetypes = world.getArchetypes().filter((a) => a.count > 0);
+
+  const header = new ByteWriter();
+  header.u32(MAGIC);
+  header.u16(BINARY_FORMAT_VERSION);
+  header.u16(compress ? FLAG_COMPRESSED : 0);
+  header.u32(world.getCurrentTick());
+  header.str(version);
+  yield header.finish();
+
+  const schemaIndex = new Map<ComponentClass, number>();
+  const metas: ComponentMeta[] = [];
+  for (const archetype of archetypes) {
+    for (const type of archetype.componentTypes) {
+      if (schemaIndex.has(type)) continue;
+      schemaIndex.set(type, metas.length);
+      metas.push(getComponentMeta(type));
+    }
+  }
+  yield section(BinarySectionKind.Schema, writeSchema(metas), compress);
+
+  const strings = new ByteWriter();
+  const exported = world.strings.export();
+  strings.u32(exported.length);
+  for (const value of exported) strings.str(value);
+  yield section(BinarySectionKind.Strings, strings.finish(), compress);
+
+  for (const archetype of archetypes) {
+    yield section(
+      BinarySectionKind.Archetype,
+      writeArchetype(archetype, schemaIndex),
+      compress,
+    );
+  }
+
+  yield section(
+    BinarySectionKind.Relations,
+    writeRelations(world, options.relationTypes ?? []),
+    compress,
+  );
+
+  const resources = new ByteWriter();
+  resources.str(JSON.stringify(world.resources.toJSON()));
+  yield section(BinarySectionKind.Resources, resources.finish(), compress);
+
+  yield section(BinarySectionKind.End, new Uint8Array(0), false);
+}
+
+/** Concatenate the chunks of a binary snapshot. */
+export function encodeBinarySnapshot(
+  world: World,
+  version: string,
+  options?: BinarySnapshotOptions,
+): Uint8Array {
+  const chunks = [...writeBinarySnapshot(world, version, options)];
+  const bytes = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Pulls exact byte counts out of a sequence of chunks of any size, keeping
+ * at most one section in memory.
+ */
+class ChunkReader {
+  private readonly chunks: Iterator<Uint8Array>;
+  private pending = new Uint8Array(0);
+
+  constructor(input: Uint8Array | Iterable<Uint8Array>) {
+    this.chunks = (input instanceof Uint8Array ? [input] : input)[
+      Symbol.iterator
+    ]();
+  }
+
+  take(n: number): Uint8Array {
+    while (this.pending.length < n) {
+      const next = this.chunks.next();
+      if (next.done) {
+        throw new Error("Binary snapshot: unexpected end of data");
+      }
+      const merged = new Uint8Array(this.pending.length + next.value.length);
+      merged.set(this.pending);
+      merged.set(next.value, this.pending.length);
+      this.pending = merged;
+    }
+    const bytes = this.pending.subarray(0, n);
+    this.pending = this.pending.subarray(n);
+    return bytes;
+  }
+}
+
+function readHeader(reader: ChunkReader): BinarySnapshotHeader {
+  const fixed = new ByteReader(reader.take(12));
+  if (fixed.u32() !== MAGIC) {
+    throw new Error("Not a binary world snapshot");
+  }
+  const formatVersion = fixed.u16();
+  if (formatVersion > BINARY_FORMAT_VERSION) {
+    throw new Error(
+      `Binary snapshot format ${formatVersion} is newer than supported (${BINARY_FORMAT_VERSION})`,
+    );
+  }
+  const flags = fixed.u16();
+  const tick = fixed.u32();
+  const versionLength = new ByteReader(reader.take(4)).u32();
+  const version = textDecoder.decode(reader.take(versionLength));
+
+  return {
+    formatVersion,
+    compressed: (flags & FLAG_COMPRESSED) !== 0,
+    tick,
+    version,
+  };
+}
+
+function* readSections(reader: ChunkReader): Generator<BinarySection> {
+  for (;;) {
+    const head = new ByteReader(reader.take(10));
+    const kind = head.u8() as BinarySectionKind;
+    const flags = head.u8();
+    const rawLength = head.u32();
+    const stored = reader.take(head.u32());
+
+    const payload =
+      flags & FLAG_COMPRESSED ? new Uint8Array(inflateSync(stored)) : stored;
+    if (payload.length !== rawLength) {
+      throw new Error(`Binary snapshot: corrupt section ${kind}`);
+    }
+    if (kind === BinarySectionKind.End) return;
+    yield { kind, payload };
+  }
+}
+
+/**
+ * Read the header of a binary snapshot; its sections are read lazily, as
+ * the returned iterator is consumed.
+ */
+export function openBinarySnapshot(input: Uint8Array | Iterable<Uint8Array>): {
+  header: BinarySnapshotHeader;
+  sections: Generator<BinarySection>;
+} {
+  const reader = new ChunkReader(input);
+  const header = readHeader(reader);
+  return { header, sections: readSections(reader) };
+}
+
+function readSchema(payload: Uint8Array): SchemaComponent[] {
+  const reader = new ByteReader(payload);
+  const components: SchemaComponent[] = [];
+  const count = reader.u32();
+  for (let i = 0; i < count; i++) {
+    const name = reader.str();
+    const isTag = reader.u8() === 1;
+    const fields: SchemaField[] = [];
+    const fieldCount = reader.u16();
+    for (let f = 0; f < fieldCount; f++) {
+      const fieldName = reader.str();
+      const type = reader.u8() as FieldType;
+      const length = reader.u32();
+      fields.push({
+        name: fieldName,
+        type,
+        stride: length === 0 ? 1 : length,
+        isArray: length !== 0,
+      });
+    }
+    components.push({ name, isTag, fields });
+  }
+  return components;
+}
+
+function readStrings(payload: Uint8Array): string[] {
+  const reader = new ByteReader(payload);
+  const strings: string[] = [];
+  const count = reader.u32();
+  for (let i = 0; i < count; i++) strings.push(reader.str());
+  return strings;
+}
+
+function readArchetype(
+  payload: Uint8Array,
+  schema: readonly SchemaComponent[],
+): ArchetypeBlock {
+  const reader = new ByteReader(payload);
+  const components: number[] = [];
+  const componentCount = reader.u16();
+  for (let i = 0; i < componentCount; i++) {
+    const index = reader.u32();
+    if (!schema[index]) {
+      throw new Error(`Binary snapshot: unknown schema entry ${index}`);
+    }
+    components.push(index);
+  }
+
+  const count = reader.u32();
+  const entities = reader.array(FieldType.U32, count) as Uint32Array;
+  const columns = components.map((index) =>
+    schema[index]!.fields.map((field) =>
+      reader.array(field.type, count * field.stride),
+    ),
+  );
+  return { components, count, entities, columns };
+}
+
+interface RelationEntry {
+  type: string;
+  source: number;
+  target: number;
+  data: unknown;
+}
+
+function readRelations(payload: Uint8Array): RelationEntry[] {
+  const reader = new ByteReader(payload);
+  const relations: RelationEntry[] = [];
+  const typeCount = reader.u16();
+  for (let t = 0; t < typeCount; t++) {
+    const type = reader.str();
+    const count = reader.u32();
+    for (let i = 0; i < count; i++) {
+      const source = reader.u32();
+      const target = reader.u32();
+      const data = reader.str();
+      relations.push({
+        type,
+        source,
+        target,
+        data: data === "" ? undefined : JSON.parse(data),
+      });
+    }
+  }
+  return relations;
+}
+
+function readResources(payload: Uint8Array): Record<string, unknown> {
+  return JSON.parse(new ByteReader(payload).str()) as Record<string, unknown>;
+}
+
+/** Map string field values from snapshot pool indices to `pool` indices. */
+function remapStrings(
+  schema: readonly SchemaComponent[],
+  block: ArchetypeBlock,
+  indexMap: ReadonlyMap<number, number>,
+): void {
+  block.components.forEach((index, c) => {
+    schema[index]!.fields.forEach((field, f) => {
+      if (field.type !== FieldType.String) return;
+      const column = block.columns[c]![f]!;
+      for (let i = 0; i < column.length; i++) {
+        column[i] = indexMap.get(column[i]!) ?? 0;
+      }
+    });
+  });
+}
+
+function importStrings(
+  pool: StringPool,
+  payload: Uint8Array,
+): Map<number, number> {
+  return pool.import(readStrings(payload));
+}
+
+export interface BinaryLoadOptions {
+  skipUnknownComponents?: boolean;
+  skipUnknownRelations?: boolean;
+}
+
+/**
+ * Load the sections of a binary snapshot of the current version into an
+ * empty world. Entities keep their IDs, so entity fields and relations need
+ * no remapping; string fields are remapped to the world's pool.
+ */
+export function loadBinarySnapshot(
+  world: World,
+  sections: Iterable<BinarySection>,
+  options: BinaryLoadOptions = {},
+): void {
+  let schema: SchemaComponent[] = [];
+  let types: (ComponentClass | undefined)[] = [];
+  let strings = new Map<number, number>([[0, 0]]);
+
+  for (const { kind, payload } of sections) {
+    switch (kind) {
+      case BinarySectionKind.Schema:
+        schema = readSchema(payload);
+        types = schema.map(({ name }) => {
+          const type = getComponentByName(name);
+          if (!type && !options.skipUnknownComponents) {
+            throw new Error(`Unknown component: ${name}`);
+          }
+          return type;
+        });
+        break;
+
+      case BinarySectionKind.Strings:
+        strings = importStrings(world.strings, payload);
+        break;
+
+      case BinarySectionKind.Archetype: {
+        const block = readArchetype(payload, schema);
+        remapStrings(schema, block, strings);
+        loadArchetype(world, schema, types, block);
+        break;
+      }
+
+      case BinarySectionKind.Relations:
+        for (const relation of readRelations(payload)) {
+          const relationType = getRelationByName(relation.type);
+          if (!relationType) {
+            if (options.skipUnknownRelations) continue;
+            throw new Error(`Unknown relation type: ${relation.type}`);
+          }
+          const source = relation.source as Entity;
+          const target = relation.target as Entity;
+          if (world.isAlive(source) && world.isAlive(target)) {
+            world.relate(source, relationType, target, relation.data);
+          }
+        }
+        break;
+
+      case BinarySectionKind.Resources:
+        world.resources.fromJSON(readResources(payload));
+        break;
+    }
+  }
+}
+
+function loadArchetype(
+  world: World,
+  schema: readonly SchemaComponent[],
+  types: readonly (ComponentClass | undefined)[],
+  block: ArchetypeBlock,
+): void {
+  const known = block.components.filter((index) => types[index]);
+  if (known.length === 0 || block.count === 0) return;
+  const componentTypes = known.map((index) => types[index]!);
+
+  const rows = new Uint32Array(block.count);
+  for (let i = 0; i < block.count; i++) {
+    const entity = block.entities[i] as Entity;
+    world.spawnWithId(entity, ...componentTypes);
+    rows[i] = world.getEntityLocation(entity)!.row;
+  }
+  const archetype = world.getEntityLocation(
+    block.entities[0] as Entity,
+  )!.archetype;
+
+  const contiguous = rows[block.count - 1]! - rows[0]! === block.count - 1;
+
+  block.components.forEach((index, c) => {
+    const type = types[index];
+    if (!type) return;
+    const meta = getComponentMeta(type);
+
+    schema[index]!.fields.forEach((field, f) => {
+      const target = meta.fields.find((m) => m.name === field.name);
+      if (!target) return;
+      const source = block.columns[c]![f]!;
+      const column = archetype.column(meta.id.index, target.name)!;
+      const stride = target.length ?? 1;
+
+      if (target.type === FieldType.String) {
+        // Spawning referenced the field's default
+        for (let i = 0; i < block.count; i++) {
+          for (let e = 0; e < stride; e++) {
+            world.strings.releaseRef(column[rows[i]! * stride + e]!);
+          }
+        }
+        for (const index of source) world.strings.addRef(index);
+      }
+
+      if (stride === field.stride && contiguous) {
+        column.set(source, rows[0]! * stride);
+        return;
+      }
+      const elements = Math.min(stride, field.stride);
+      for (let i = 0; i < block.count; i++) {
+        for (let e = 0; e < elements; e++) {
+          column[rows[i]! * stride + e] = source[i * field.stride + e]!;
+        }
+      }
+    });
+  });
+}
+
+/**
+ * Convert the sections of a binary snapshot to a JSON WorldSnapshot, for
+ * snapshots MigrationRegistry must upgrade first. String fields are
+ * remapped to `pool`, which the world the snapshot is loaded into must use.
+ */
+export function binarySnapshotToJSON(
+  header: BinarySnapshotHeader,
+  sections: Iterable<BinarySection>,
+  pool: StringPool,
+): WorldSnapshot {
+  let schema: SchemaComponent[] = [];
+  let strings = new Map<number, number>([[0, 0]]);
+  const entities: SerializedEntity[] = [];
+  const relations: SerializedRelation[] = [];
+  let resources: Record<string, unknown> = {};
+
+  for (const { kind, payload } of sections) {
+    switch (kind) {
+      case BinarySectionKind.Schema:
+        schema = readSchema(payload);
+        break;
+
+      case BinarySectionKind.Strings:
+        strings = importStrings(pool, payload);
+        break;
+
+      case BinarySectionKind.Archetype: {
+        const block = readArchetype(payload, schema);
+        remapStrings(schema, block, strings);
+        for (let i = 0; i < block.count; i++) {
+          const components: Record<string, Record<string, FieldValue>> = {};
+          block.components.forEach((index, c) => {
+            const data: Record<string, FieldValue> = {};
+            schema[index]!.fields.forEach((field, f) => {
+              const column = block.columns[c]![f]!;
+              data[field.name] = field.isArray
+                ? Array.from(
+                    column.subarray(i * field.stride, (i + 1) * field.stride),
+                  )
+                : column[i]!;
+            });
+            components[schema[index]!.name] = data;
+          });
+          entities.push({ id: block.entities[i]!, components });
+        }
+        break;
+      }
+
+      case BinarySectionKind.Relations:
+        for (const { type, source, target, data } of readRelations(payload)) {
+          relations.push({ type, source, target, data });
+        }
+        break;
+
+      case BinarySectionKind.Resources:
+        resources = readResources(payload);
+        break;
+    }
+  }
+
+  return {
+    version: header.version,
+    tick: header.tick,
+    entities,
+    resources,
+    relations: relations.length > 0 ? relations : undefined,
+  };
+}
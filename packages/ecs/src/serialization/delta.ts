@@ -0,0 +1,458 @@
+import type { Archetype } from "../core/archetype";
+import { getComponentByName, getComponentMeta } from "../core/component";
+import {
+  type ComponentClass,
+  type Entity,
+  FieldType,
+  type FieldValue,
+} from "../core/types";
+import { World } from "../core/world";
+import { getRelationByName, type RelationType } from "../relationship/relation";
+import {
+  type SerializedEntity,
+  type SerializedRelation,
+  SNAPSHOT_VERSION,
+  WorldSerializer,
+  type WorldSnapshot,
+} from "./serialization";
+
+/** Field values of one component of one entity. */
+export interface ComponentDelta {
+  entity: number;
+  /** Component name */
+  component: string;
+  data: Record<string, FieldValue>;
+}
+
+/**
+ * What changed between two states of a world. Entities are identified by
+ * ID, so a delta applies to a world holding the same entities as the state
+ * it was computed from.
+ */
+export interface WorldDelta {
+  version: string;
+  fromTick: number;
+  toTick: number;
+  /** New entities, with all their components */
+  spawned: SerializedEntity[];
+  despawned: number[];
+  /** Components added to entities that already existed */
+  added: ComponentDelta[];
+  removed: { entity: number; component: string }[];
+  /** Changed fields of components present in both states */
+  changed: ComponentDelta[];
+  /** A relation whose data changed is removed, then added */
+  relations: { added: SerializedRelation[]; removed: SerializedRelation[] };
+  resources: { set: Record<string, unknown>; removed: string[] };
+  /** Values of the string pool indices held by the string fields above */
+  strings: Record<number, string>;
+}
+
+export interface DeltaOptions {
+  /** Relation types to diff. Defaults to none, like WorldSerializer. */
+  relationTypes?: RelationType[];
+}
+
+export interface ApplyDeltaOptions {
+  /** If true, skip unknown components instead of throwing. */
+  skipUnknownComponents?: boolean;
+  /** If true, skip unknown relations instead of throwing. */
+  skipUnknownRelations?: boolean;
+}
+
+function fieldEquals(a: FieldValue | undefined, b: FieldValue): boolean {
+  if (!Array.isArray(a) || !Array.isArray(b)) return a === b;
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+function relationKey(relation: SerializedRelation): string {
+  return `${relation.type}:${relation.source}:${relation.target}`;
+}
+
+function stringFields(component: string): readonly string[] {
+  const type = getComponentByName(component);
+  if (!type) return [];
+  return getComponentMeta(type)
+    .fields.filter((field) => field.type === FieldType.String)
+    .map((field) => field.name);
+}
+
+function emptyDelta(fromTick: number, toTick: number): WorldDelta {
+  return {
+    version: SNAPSHOT_VERSION,
+    fromTick,
+    toTick,
+    spawned: [],
+    despawned: [],
+    added: [],
+    removed: [],
+    changed: [],
+    relations: { added: [], removed: [] },
+    resources: { set: {}, removed: [] },
+    strings: {},
+  };
+}
+
+function componentData(
+  archetype: Archetype,
+  row: number,
+  type: ComponentClass,
+): Record<string, FieldValue> {
+  const meta = getComponentMeta(type);
+  return meta.isTag ? {} : archetype.getComponentData(row, meta.id.index);
+}
+
+/** Fill in the values of the string fields the delta sends. */
+function collectStrings(delta: WorldDelta, world: World): void {
+  const records: ComponentDelta[] = [
+    ...delta.spawned.flatMap(({ id, components }) =>
+      Object.entries(components).map(([component, data]) => ({
+        entity: id,
+        component,
+        data,
+      })),
+    ),
+    ...delta.added,
+    ...delta.changed,
+  ];
+  for (const { component, data } of records) {
+    for (const field of stringFields(component)) {
+      const index = data[field];
+      if (typeof index === "number" && index > 0) {
+        delta.strings[index] = world.strings.get(index);
+      }
+    }
+  }
+}
+
+/**
+ * Compute the delta taking `from` to `to`.
+ *
+ * `from` is a world or a snapshot of one, taken with the same relation
+ * types; both must share `to`'s string pool, as worlds do by default.
+ *
+ * @example
+ * const before = serializeWorld(world);
+ * world.runTick();
+ * const delta = diffWorlds(before, world);
+ */
+export function diffWorlds(
+  from: World | WorldSnapshot,
+  to: World,
+  options: DeltaOptions = {},
+): WorldDelta {
+  const serializer = new WorldSerializer({
+    relationTypes: options.relationTypes,
+  });
+  const before = from instanceof World ? serializer.serialize(from) : from;
+  const after = serializer.serialize(to);
+
+  const delta = emptyDelta(before.tick, after.tick);
+
+  const previous = new Map(before.entities.map((e) => [e.id, e.components]));
+  for (const entity of after.entities) {
+    const old = previous.get(entity.id);
+    previous.delete(entity.id);
+    if (!old) {
+      delta.spawned.push(entity);
+      continue;
+    }
+
+    for (const [component, data] of Object.entries(entity.components)) {
+      const oldData = old[component];
+      if (!oldData) {
+        delta.added.push({ entity: entity.id, component, data });
+        continue;
+      }
+      const fields: Record<string, FieldValue> = {};
+      for (const [field, value] of Object.entries(data)) {
+        if (!fieldEquals(oldData[field], value)) fields[field] = value;
+      }
+      if (Object.keys(fields).length > 0) {
+        delta.changed.push({ entity: entity.id, component, data: fields });
+      }
+    }
+    for (const component of Object.keys(old)) {
+      if (!(component in entity.components)) {
+        delta.removed.push({ entity: entity.id, component });
+      }
+    }
+  }
+  delta.despawned = [...previous.keys()];
+
+  const oldRelations = new Map(
+    (before.relations ?? []).map((r) => [relationKey(r), r]),
+  );
+  for (const relation of after.relations ?? []) {
+    const key = relationKey(relation);
+    const old = oldRelations.get(key);
+    oldRelations.delete(key);
+    if (old && JSON.stringify(old.data) === JSON.stringify(relation.data)) {
+      continue;
+    }
+    if (old) delta.relations.removed.push(old);
+    delta.relations.added.push(relation);
+  }
+  delta.relations.removed.push(...oldRelations.values());
+
+  for (const [key, value] of Object.entries(after.resources)) {
+    if (JSON.stringify(before.resources[key]) !== JSON.stringify(value)) {
+      delta.resources.set[key] = value;
+    }
+  }
+  delta.resources.removed = Object.keys(before.resources).filter(
+    (key) => !(key in after.resources),
+  );
+
+  collectStrings(delta, to);
+  return delta;
+}
+
+/**
+ * Compute the delta of a world since the start of a tick. Only archetypes
+ * written to since then are visited; despawns, removed components,
+ * relations and deleted resources come from the world's change log, which
+ * World.trackChanges() starts. Resources can change in place, so all of
+ * them are sent.
+ *
+ * Take deltas between ticks, and pass a delta's `toTick` as the
+ * `sinceTick` of the next one.
+ *
+ * @throws Error if the change log is off or no longer goes back to `sinceTick`
+ *
+ * @example
+ * let tick = world.trackChanges();
+ * world.runTick();
+ * const delta = createDelta(world, tick);
+ * tick = delta.toTick;
+ */
+export function createDelta(
+  world: World,
+  sinceTick: number,
+  options: DeltaOptions = {},
+): WorldDelta {
+  const changes = world.changes.since(sinceTick);
+  const delta = emptyDelta(sinceTick, world.getCurrentTick());
+
+  const spawned = new Set<Entity>();
+  // Whether each component added or removed since was there at `sinceTick`
+  const before = new Map<Entity, Map<ComponentClass, boolean>>();
+  const relationTypes = new Set(options.relationTypes);
+  const relations = new Map<
+    string,
+    { relation: RelationType; source: Entity; target: Entity }
+  >();
+  const deletedResources = new Set<string>();
+  for (const change of changes) {
+    switch (change.kind) {
+      case "spawn":
+        spawned.add(change.entity);
+        break;
+      case "despawn":
+        if (!spawned.has(change.entity)) delta.despawned.push(change.entity);
+        break;
+      case "add":
+      case "remove": {
+        let components = before.get(change.entity);
+        if (!components) {
+          components = new Map();
+          before.set(change.entity, components);
+        }
+        if (!components.has(change.component)) {
+          components.set(change.component, change.kind === "remove");
+        }
+        break;
+      }
+      case "relation":
+        if (relationTypes.has(change.relation)) {
+          const key = `${change.relation.id.name}:${change.source}:${change.target}`;
+          relations.set(key, change);
+        }
+        break;
+      case "deleteResource":
+        deletedResources.add(change.key);
+        break;
+    }
+  }
+
+  for (const entity of spawned) {
+    if (!world.isAlive(entity)) continue;
+    const location = world.getEntityLocation(entity);
+    const components: Record<string, Record<string, FieldValue>> = {};
+    for (const type of location?.archetype.componentTypes ?? []) {
+      components[getComponentMeta(type).id.name] = componentData(
+        location!.archetype,
+        location!.row,
+        type,
+      );
+    }
+    delta.spawned.push({ id: entity, components });
+  }
+
+  for (const [entity, components] of before) {
+    if (spawned.has(entity) || !world.isAlive(entity)) continue;
+    const location = world.getEntityLocation(entity);
+    for (const [type, wasThere] of components) {
+      const component = getComponentMeta(type).id.name;
+      if (!location?.archetype.componentTypes.includes(type)) {
+        if (wasThere) delta.removed.push({ entity, component });
+        continue;
+      }
+      const data = componentData(location.archetype, location.row, type);
+      // Removed and added back: send it whole
+      (wasThere ? delta.changed : delta.added).push({
+        entity,
+        component,
+        data,
+      });
+    }
+  }
+
+  for (const archetype of world.getArchetypesChangedSince(sinceTick)) {
+    for (let row = 0; row < archetype.count; row++) {
+      const entity = archetype.getEntity(row);
+      if (spawned.has(entity)) continue;
+      const listed = before.get(entity);
+      for (const type of archetype.getComponentsChangedSince(row, sinceTick)) {
+        if (getComponentMeta(type).isTag || listed?.has(type)) continue;
+        delta.changed.push({
+          entity,
+          component: getComponentMeta(type).id.name,
+          data: componentData(archetype, row, type),
+        });
+      }
+    }
+  }
+
+  for (const { relation, source, target } of relations.values()) {
+    if (!world.isAlive(source) || !world.isAlive(target)) continue;
+    const serialized = { type: relation.id.name, source, target };
+    if (!spawned.has(source) && !spawned.has(target)) {
+      delta.relations.removed.push(serialized);
+    }
+    if (world.hasRelation(source, relation, target)) {
+      delta.relations.added.push({
+        ...serialized,
+        data: world.getRelationData(source, relation, target),
+      });
+    }
+  }
+
+  delta.resources.set = world.resources.toJSON();
+  delta.resources.removed = [...deletedResources].filter(
+    (key) => !world.resources.has(key),
+  );
+
+  collectStrings(delta, world);
+  return delta;
+}
+
+/**
+ * Apply a delta to a world holding the state it was computed from.
+ * Entities are spawned with their IDs so later deltas still apply.
+ */
+export function applyDelta(
+  world: World,
+  delta: WorldDelta,
+  options: ApplyDeltaOptions = {},
+): void {
+  if (delta.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Delta version mismatch: expected ${SNAPSHOT_VERSION}, got ${delta.version}`,
+    );
+  }
+
+  const resolve = (name: string): ComponentClass | undefined => {
+    const type = getComponentByName(name);
+    if (!type && !options.skipUnknownComponents) {
+      throw new Error(`Unknown component: ${name}`);
+    }
+    return type;
+  };
+
+  // Pool indices of the delta's world to indices of this world's pool
+  const strings = new Map<number, number>();
+  for (const [index, value] of Object.entries(delta.strings)) {
+    strings.set(Number(index), world.strings.intern(value));
+  }
+  const localize = (
+    component: string,
+    data: Record<string, FieldValue>,
+  ): Record<string, FieldValue> => {
+    const fields = stringFields(component);
+    if (fields.length === 0) return data;
+    const result = { ...data };
+    for (const field of fields) {
+      const index = result[field];
+      if (typeof index === "number") result[field] = strings.get(index) ?? 0;
+    }
+    return result;
+  };
+
+  for (const entity of delta.despawned) {
+    world.despawn(entity as Entity);
+  }
+
+  for (const { id, components } of delta.spawned) {
+    const entries = Object.entries(components).flatMap(([name, data]) => {
+      const type = resolve(name);
+      return type ? [{ type, name, data }] : [];
+    });
+    const entity = id as Entity;
+    world.spawnWithId(entity, ...entries.map(({ type }) => type));
+    for (const { type, name, data } of entries) {
+      if (Object.keys(data).length > 0) {
+        world.set(entity, type, localize(name, data));
+      }
+    }
+  }
+
+  for (const { entity, component } of delta.removed) {
+    const type = resolve(component);
+    if (type) world.remove(entity as Entity, type);
+  }
+
+  for (const { entity, component, data } of delta.added) {
+    const type = resolve(component);
+    if (type) world.add(entity as Entity, type, localize(component, data));
+  }
+
+  for (const { entity, component, data } of delta.changed) {
+    const type = resolve(component);
+    if (type) world.set(entity as Entity, type, localize(component, data));
+  }
+
+  const relationType = (name: string): RelationType | undefined => {
+    const type = getRelationByName(name);
+    if (!type && !options.skipUnknownRelations) {
+      throw new Error(`Unknown relation type: ${name}`);
+    }
+    return type;
+  };
+  for (const relation of delta.relations.removed) {
+    const type = relationType(relation.type);
+    if (type) {
+      world.unrelate(
+        relation.source as Entity,
+        type,
+        relation.target as Entity,
+      );
+    }
+  }
+  for (const relation of delta.relations.added) {
+    const type = relationType(relation.type);
+    if (type) {
+      world.relate(
+        relation.source as Entity,
+        type,
+        relation.target as Entity,
+        relation.data,
+      );
+    }
+  }
+
+  for (const key of delta.resources.removed) {
+    world.resources.delete(key);
+  }
+  world.resources.fromJSON(delta.resources.set);
+}
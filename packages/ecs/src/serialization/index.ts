@@ -1,2 +1,4 @@
+export * from "./binary";
+export * from "./delta";
 export * from "./migration";
 export * from "./serialization";
@@ -1,3 +1,4 @@
+import type { FieldValue } from "../core/types";
 import type { SerializedEntity, WorldSnapshot } from "./serialization";
 
 /**
@@ -27,8 +28,8 @@ export type EntityTransformer = (entity: SerializedEntity) => SerializedEntity;
  */
 export type ComponentTransformer = (
   componentName: string,
-  data: Record<string, number>,
-) => Record<string, number> | null;
+  data: Record<string, FieldValue>,
+) => Record<string, FieldValue> | null;
 
 /**
  * Registry for managing schema migrations.
@@ -200,7 +201,7 @@ export function addFieldMigration(
   toVersion: string,
   componentName: string,
   fieldName: string,
-  defaultValue: number,
+  defaultValue: FieldValue,
   description?: string,
 ): Migration {
   return createEntityMigration(
@@ -276,7 +277,7 @@ export function renameFieldMigration(
       const component = entity.components[componentName];
       if (component && oldFieldName in component) {
         const value = component[oldFieldName]!;
-        const newComponent: Record<string, number> = {};
+        const newComponent: Record<string, FieldValue> = {};
         for (const key in component) {
           if (key !== oldFieldName) {
             newComponent[key] = component[key]!;
@@ -313,7 +314,7 @@ export function renameComponentMigration(
     (entity) => {
       const data = entity.components[oldName];
       if (data) {
-        const newComponents: Record<string, Record<string, number>> = {};
+        const newComponents: Record<string, Record<string, FieldValue>> = {};
         for (const key in entity.components) {
           if (key !== oldName) {
             newComponents[key] = entity.components[key]!;
@@ -359,6 +360,7 @@ export function removeComponentMigration(
 
 /**
  * Create a migration that transforms a field value.
+ * Array fields are transformed element by element.
  */
 export function transformFieldMigration(
   fromVersion: string,
@@ -380,7 +382,7 @@ export function transformFieldMigration(
             ...entity.components,
             [componentName]: {
               ...component,
-              [fieldName]: transform(component[fieldName]!),
+              [fieldName]: transformValue(component[fieldName]!, transform),
             },
           },
         };
@@ -391,6 +393,52 @@ export function transformFieldMigration(
   );
 }
 
+function transformValue(
+  value: FieldValue,
+  transform: (value: number) => number,
+): FieldValue {
+  return Array.isArray(value) ? value.map(transform) : transform(value);
+}
+
+/**
+ * Create a migration that changes the length of an array field, truncating
+ * it or padding it with a fill value.
+ */
+export function resizeArrayFieldMigration(
+  fromVersion: string,
+  toVersion: string,
+  componentName: string,
+  fieldName: string,
+  length: number,
+  fill = 0,
+  description?: string,
+): Migration {
+  return createEntityMigration(
+    fromVersion,
+    toVersion,
+    (entity) => {
+      const component = entity.components[componentName];
+      const value = component?.[fieldName];
+      if (component && Array.isArray(value)) {
+        const resized = value.slice(0, length);
+        while (resized.length < length) resized.push(fill);
+        return {
+          ...entity,
+          components: {
+            ...entity.components,
+            [componentName]: {
+              ...component,
+              [fieldName]: resized,
+            },
+          },
+        };
+      }
+      return entity;
+    },
+    description ?? `Resize ${componentName}.${fieldName} to ${length} elements`,
+  );
+}
+
 /**
  * Compose multiple migrations into a single migration.
  */
@@ -1,12 +1,26 @@
 import { getComponentByName, getComponentMeta } from "../core/component";
-import { assertDefined, type ComponentClass, type Entity } from "../core/types";
+import {
+  assertDefined,
+  type ComponentClass,
+  type Entity,
+  type FieldValue,
+} from "../core/types";
 import { World } from "../core/world";
 import { getRelationByName, type RelationType } from "../relationship/relation";
+import { getStringPool } from "../storage/string-pool";
+import {
+  binarySnapshotToJSON,
+  encodeBinarySnapshot,
+  loadBinarySnapshot,
+  openBinarySnapshot,
+  writeBinarySnapshot,
+} from "./binary";
 import { globalMigrations, type MigrationRegistry } from "./migration";
 
 export interface SerializedEntity {
   id: number;
-  components: Record<string, Record<string, number>>;
+  /** Field values by component name; array fields as arrays of elements */
+  components: Record<string, Record<string, FieldValue>>;
 }
 
 /**
@@ -68,25 +82,17 @@ export class WorldSerializer {
     for (const archetype of world.getArchetypesChangedSince(-1)) {
       for (let row = 0; row < archetype.count; row++) {
         const entity = archetype.getEntity(row);
-        const components: Record<string, Record<string, number>> = {};
+        const components: Record<string, Record<string, FieldValue>> = {};
 
         for (const compType of archetype.componentTypes) {
           const meta = getComponentMeta(compType);
           if (meta.isTag) {
             components[meta.id.name] = {};
           } else {
-            const data: Record<string, number> = {};
-            for (const field of meta.fields) {
-              const value = archetype.getFieldValue(
-                row,
-                meta.id.index,
-                field.name,
-              );
-              if (value !== undefined) {
-                data[field.name] = value;
-              }
-            }
-            components[meta.id.name] = data;
+            components[meta.id.name] = archetype.getComponentData(
+              row,
+              meta.id.index,
+            );
           }
         }
 
@@ -139,7 +145,7 @@ export class WorldSerializer {
       const componentTypes: ComponentClass[] = [];
       const componentData: Array<{
         meta: ReturnType<typeof getComponentMeta>;
-        data: Record<string, number>;
+        data: Record<string, FieldValue>;
       }> = [];
 
       for (const [name, data] of Object.entries(serialized.components)) {
@@ -214,6 +220,61 @@ export class WorldSerializer {
     return world;
   }
 
+  /**
+   * Serialize a world to the binary snapshot format: columns are dumped
+   * straight from the archetypes instead of entity by entity.
+   */
+  serializeBinary(
+    world: World,
+    options: { compress?: boolean } = {},
+  ): Uint8Array {
+    return encodeBinarySnapshot(world, SNAPSHOT_VERSION, {
+      compress: options.compress,
+      relationTypes: this.relationTypes,
+    });
+  }
+
+  /**
+   * Serialize a world to the binary snapshot format one section at a time,
+   * to write it out without holding the whole snapshot in memory.
+   */
+  serializeBinaryStream(
+    world: World,
+    options: { compress?: boolean } = {},
+  ): Generator<Uint8Array> {
+    return writeBinarySnapshot(world, SNAPSHOT_VERSION, {
+      compress: options.compress,
+      relationTypes: this.relationTypes,
+    });
+  }
+
+  /**
+   * Deserialize a binary snapshot, whole or as chunks of any size.
+   *
+   * Snapshots of the current version are loaded column by column and keep
+   * their entity IDs. Older ones are converted to a WorldSnapshot and go
+   * through the migrations, like deserialize().
+   */
+  deserializeBinary(
+    data: Uint8Array | Iterable<Uint8Array>,
+    maxEntities?: number,
+  ): World {
+    const { header, sections } = openBinarySnapshot(data);
+
+    if (header.version !== SNAPSHOT_VERSION) {
+      // deserialize() creates its world on the global string pool
+      const snapshot = binarySnapshotToJSON(header, sections, getStringPool());
+      return this.deserialize(snapshot, maxEntities);
+    }
+
+    const world = new World(maxEntities);
+    loadBinarySnapshot(world, sections, {
+      skipUnknownComponents: this.skipUnknownComponents,
+      skipUnknownRelations: this.skipUnknownRelations,
+    });
+    return world;
+  }
+
   /**
    * Check if a snapshot can be deserialized (either directly or via migrations).
    */
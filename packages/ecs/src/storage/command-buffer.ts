@@ -1,5 +1,10 @@
 import { getComponentMeta } from "../core/component";
-import { assertDefined, type ComponentClass, type Entity } from "../core/types";
+import {
+  assertDefined,
+  type ComponentClass,
+  type Entity,
+  type FieldValue,
+} from "../core/types";
 import type { World } from "../core/world";
 
 const INITIAL_CAPACITY = 256;
@@ -29,7 +34,7 @@ export class CommandBuffer {
   private sequenceCounter = 0;
 
   private spawnComponents: ComponentClass[][] = [];
-  private addData: (Record<string, number> | undefined)[] = [];
+  private addData: (Record<string, FieldValue> | undefined)[] = [];
 
   constructor(initialCapacity: number = INITIAL_CAPACITY) {
     this.capacity = initialCapacity;
@@ -99,7 +104,7 @@ export class CommandBuffer {
     this.sortKeys[idx] = this.currentSortKey;
     this.sequenceNumbers[idx] = this.sequenceCounter++;
 
-    this.addData.push(data as Record<string, number> | undefined);
+    this.addData.push(data as Record<string, FieldValue> | undefined);
   }
 
   remove<T>(entity: Entity, componentType: ComponentClass<T>): void {
@@ -10,6 +10,11 @@ export class ResourceRegistry {
   private readonly typedResources: Map<ResourceClass, TypedResourceEntry> =
     new Map();
 
+  /**
+   * @param onDelete - Called with each string key deleted, e.g. to log it
+   */
+  constructor(private readonly onDelete?: (key: string) => void) {}
+
   set<T>(key: string, value: T): void {
     this.stringResources.set(key, value);
   }
@@ -34,7 +39,9 @@ export class ResourceRegistry {
   }
 
   delete(key: string): boolean {
-    return this.stringResources.delete(key);
+    if (!this.stringResources.delete(key)) return false;
+    this.onDelete?.(key);
+    return true;
   }
 
   getKeys(): string[] {
@@ -74,6 +81,7 @@ export class ResourceRegistry {
   }
 
   clear(): void {
+    for (const key of this.stringResources.keys()) this.onDelete?.(key);
     this.stringResources.clear();
     this.typedResources.clear();
   }
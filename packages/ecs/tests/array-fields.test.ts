@@ -0,0 +1,248 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import {
+  arrayOf,
+  bool,
+  component,
+  f32,
+  getComponentMeta,
+  MigrationRegistry,
+  resizeArrayFieldMigration,
+  SNAPSHOT_VERSION,
+  str,
+  transformFieldMigration,
+  u16,
+  u32,
+  vec2,
+  World,
+  WorldSerializer,
+  type WorldSnapshot,
+} from "@rogue/ecs";
+
+// Test components with array fields
+@component
+class Cooldowns {
+  slots = arrayOf(u16, 4);
+  ready = u32(0);
+}
+
+@component
+class Motion {
+  velocity = vec2(f32);
+  path = arrayOf(u16, 3, 7);
+}
+
+@component
+class Latch {
+  open = bool(true);
+}
+
+describe("Array Fields", () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World(1024);
+  });
+
+  describe("Definition", () => {
+    it("records the length and stride of array fields", () => {
+      const meta = getComponentMeta(Cooldowns);
+
+      expect(meta.fields[0]).toMatchObject({ name: "slots", length: 4 });
+      expect(meta.fields[1]!.length).toBeUndefined();
+      expect(meta.stride).toBe(4 * 2 + 4);
+    });
+
+    it("rejects string elements and empty arrays", () => {
+      expect(() => arrayOf(str, 2)).toThrow();
+      expect(() => arrayOf(u16, 0)).toThrow();
+    });
+  });
+
+  describe("World access", () => {
+    it("initializes every element with the default", () => {
+      const entity = world.spawn(Cooldowns, Motion);
+
+      expect(world.get(entity, Cooldowns)).toEqual({
+        slots: [0, 0, 0, 0],
+        ready: 0,
+      });
+      expect(world.get(entity, Motion)).toEqual({
+        velocity: [0, 0],
+        path: [7, 7, 7],
+      });
+    });
+
+    it("sets whole arrays, leading elements and single elements", () => {
+      const entity = world.spawn(Cooldowns);
+
+      world.set(entity, Cooldowns, { slots: [1, 2, 3, 4, 5] });
+      expect(world.get(entity, Cooldowns)!.slots).toEqual([1, 2, 3, 4]);
+
+      world.set(entity, Cooldowns, { slots: [9] });
+      expect(world.getField(entity, Cooldowns, "slots")).toEqual([9, 2, 3, 4]);
+
+      world.setField(entity, Cooldowns, "slots", 6, 2);
+      expect(world.getField(entity, Cooldowns, "slots", 2)).toBe(6);
+      expect(world.getField(entity, Cooldowns, "slots", 4)).toBeNull();
+
+      world.setField(entity, Cooldowns, "slots", [0, 0, 0, 0]);
+      expect(world.get(entity, Cooldowns)!.slots).toEqual([0, 0, 0, 0]);
+    });
+
+    it("still writes booleans from JSON to scalar fields", () => {
+      // Saves written by hand or by other tools may hold booleans
+      const restored = new WorldSerializer().deserialize(
+        JSON.parse(`{
+          "version": "${SNAPSHOT_VERSION}",
+          "tick": 0,
+          "entities": [{ "id": 1, "components": { "Latch": { "open": false } } }],
+          "resources": {}
+        }`),
+        64,
+      );
+      const [entity] = restored.query(Latch).collect();
+
+      expect(restored.get(entity!, Latch)!.open).toBe(0);
+    });
+
+    it("returns copies from get()", () => {
+      const entity = world.spawn(Cooldowns);
+      world.get(entity, Cooldowns)!.slots[0] = 42;
+
+      expect(world.getField(entity, Cooldowns, "slots", 0)).toBe(0);
+    });
+
+    it("reuses the arrays of getInto() buffers", () => {
+      const entity = world.spawn(Cooldowns);
+      world.set(entity, Cooldowns, { slots: [1, 2, 3, 4] });
+      const buffer = { slots: [0, 0, 0, 0], ready: 0 };
+      const slots = buffer.slots;
+
+      expect(world.getInto(entity, Cooldowns, buffer)).toBe(true);
+      expect(buffer.slots).toBe(slots);
+      expect(slots).toEqual([1, 2, 3, 4]);
+    });
+
+    it("keeps elements across archetype moves and swap-removes", () => {
+      const a = world.spawn(Cooldowns);
+      const b = world.spawn(Cooldowns);
+      world.set(a, Cooldowns, { slots: [1, 2, 3, 4] });
+      world.set(b, Cooldowns, { slots: [5, 6, 7, 8] });
+
+      world.add(b, Motion, { velocity: [0.5, -1] });
+      expect(world.get(b, Cooldowns)!.slots).toEqual([5, 6, 7, 8]);
+      expect(world.get(b, Motion)!.velocity).toEqual([0.5, -1]);
+
+      world.despawn(a);
+      world.remove(b, Motion);
+      expect(world.get(b, Cooldowns)!.slots).toEqual([5, 6, 7, 8]);
+    });
+
+    it("survives archetype growth", () => {
+      const entities = [];
+      for (let i = 0; i < 200; i++) {
+        const entity = world.spawn(Cooldowns);
+        world.set(entity, Cooldowns, { slots: [i, i + 1, i + 2, i + 3] });
+        entities.push(entity);
+      }
+
+      expect(world.get(entities[0]!, Cooldowns)!.slots).toEqual([0, 1, 2, 3]);
+      expect(world.get(entities[199]!, Cooldowns)!.slots).toEqual([
+        199, 200, 201, 202,
+      ]);
+    });
+
+    it("tracks element writes as component changes", () => {
+      const entity = world.spawn(Cooldowns);
+      world.runTick();
+
+      world.setField(entity, Cooldowns, "slots", 1, 3);
+
+      expect(world.query(Cooldowns).changedComponent(Cooldowns).count()).toBe(
+        1,
+      );
+    });
+  });
+
+  describe("Queries", () => {
+    it("lays out elements contiguously in the view column", () => {
+      const a = world.spawn(Cooldowns);
+      const b = world.spawn(Cooldowns);
+      world.set(a, Cooldowns, { slots: [1, 2, 3, 4] });
+      world.set(b, Cooldowns, { slots: [5, 6, 7, 8] });
+
+      world.query(Cooldowns).run((view) => {
+        const slots = view.column(Cooldowns, "slots");
+        expect(Array.from(slots.subarray(0, 8))).toEqual([
+          1, 2, 3, 4, 5, 6, 7, 8,
+        ]);
+      });
+    });
+
+    it("passes arrays to where() filters", () => {
+      const a = world.spawn(Cooldowns);
+      world.spawn(Cooldowns);
+      world.setField(a, Cooldowns, "slots", 3, 1);
+
+      expect(
+        world
+          .query(Cooldowns)
+          .where(Cooldowns, (c) => c.slots[1] === 3)
+          .collect(),
+      ).toEqual([a]);
+    });
+  });
+
+  describe("Serialization", () => {
+    it("round-trips array fields", () => {
+      const entity = world.spawn(Cooldowns, Motion);
+      world.set(entity, Cooldowns, { slots: [1, 2, 3, 4], ready: 1 });
+      world.set(entity, Motion, { velocity: [1.5, -2] });
+
+      const serializer = new WorldSerializer();
+      const snapshot = JSON.parse(
+        JSON.stringify(serializer.serialize(world)),
+      ) as WorldSnapshot;
+      const restored = serializer.deserialize(snapshot, 1024);
+      const copy = restored.query(Cooldowns).first()!;
+
+      expect(restored.get(copy, Cooldowns)).toEqual({
+        slots: [1, 2, 3, 4],
+        ready: 1,
+      });
+      expect(restored.get(copy, Motion)).toEqual({
+        velocity: [1.5, -2],
+        path: [7, 7, 7],
+      });
+    });
+
+    it("migrates array fields", () => {
+      const registry = new MigrationRegistry();
+      registry.register(
+        resizeArrayFieldMigration("0.9.0", "0.9.1", "Cooldowns", "slots", 4, 9),
+      );
+      registry.register(
+        transformFieldMigration(
+          "0.9.1",
+          SNAPSHOT_VERSION,
+          "Cooldowns",
+          "slots",
+          (value) => value * 2,
+        ),
+      );
+
+      const oldSnapshot: WorldSnapshot = {
+        version: "0.9.0",
+        tick: 0,
+        entities: [{ id: 0, components: { Cooldowns: { slots: [1, 2] } } }],
+        resources: {},
+      };
+      const restored = new WorldSerializer({
+        migrations: registry,
+      }).deserialize(oldSnapshot, 1024);
+      const entity = restored.query(Cooldowns).first()!;
+
+      expect(restored.get(entity, Cooldowns)!.slots).toEqual([2, 4, 18, 18]);
+    });
+  });
+});
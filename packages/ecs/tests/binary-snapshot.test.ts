@@ -0,0 +1,294 @@
+import { describe, expect, it } from "bun:test";
+import {
+  arrayOf,
+  BINARY_FORMAT_VERSION,
+  component,
+  defineRelation,
+  type Entity,
+  entityRef,
+  f32,
+  f64,
+  i32,
+  MigrationRegistry,
+  openBinarySnapshot,
+  SNAPSHOT_VERSION,
+  str,
+  u8,
+  vec2,
+  World,
+  WorldSerializer,
+} from "@rogue/ecs";
+
+@component
+class BinPosition {
+  x = f32(0);
+  y = f32(0);
+}
+
+@component
+class BinStats {
+  hp = i32(10);
+  gold = f64(0);
+  slots = arrayOf(u8, 3);
+  velocity = vec2(f32);
+}
+
+@component
+class BinLabel {
+  name = str("Nobody");
+}
+
+@component
+class BinTarget {
+  entity = entityRef(0);
+}
+
+@component
+class BinFrozen {}
+
+const BinOwns = defineRelation<{ slot: string }>("BinOwns");
+
+function populate(world: World, count: number): Entity[] {
+  const entities: Entity[] = [];
+  for (let i = 0; i < count; i++) {
+    const entity =
+      i % 3 === 0
+        ? world.spawn(BinPosition, BinStats, BinLabel)
+        : world.spawn(BinPosition, BinFrozen);
+    world.set(entity, BinPosition, { x: i, y: -i / 2 });
+    if (i % 3 === 0) {
+      world.set(entity, BinStats, {
+        hp: i,
+        gold: i * 1.5,
+        slots: [i % 7, 1, 2],
+        velocity: [0.5, -i],
+      });
+      world.setString(entity, BinLabel, "name", `unit-${i}`);
+    }
+    entities.push(entity);
+  }
+  return entities;
+}
+
+function dump(world: World): unknown[] {
+  return world
+    .query(BinPosition)
+    .collect()
+    .map((entity) => ({
+      entity,
+      position: world.get(entity, BinPosition),
+      stats: world.get(entity, BinStats),
+      label: world.has(entity, BinLabel)
+        ? world.getString(entity, BinLabel, "name")
+        : null,
+      frozen: world.has(entity, BinFrozen),
+    }))
+    .sort((a, b) => a.entity - b.entity);
+}
+
+describe("Binary snapshots", () => {
+  it("writes a versioned header", () => {
+    const world = new World(64);
+    const bytes = new WorldSerializer().serializeBinary(world);
+    const { header } = openBinarySnapshot(bytes);
+
+    expect(header).toEqual({
+      formatVersion: BINARY_FORMAT_VERSION,
+      compressed: false,
+      tick: 0,
+      version: SNAPSHOT_VERSION,
+    });
+  });
+
+  it("rejects data that is not a snapshot", () => {
+    expect(() =>
+      new WorldSerializer().deserializeBinary(new Uint8Array(32)),
+    ).toThrow(/Not a binary world snapshot/);
+    const bytes = new WorldSerializer().serializeBinary(new World(64));
+    expect(() =>
+      new WorldSerializer().deserializeBinary(bytes.subarray(0, 30)),
+    ).toThrow(/unexpected end of data/);
+  });
+
+  it("round-trips components, array fields and tags with their IDs", () => {
+    const world = new World(256);
+    const entities = populate(world, 30);
+    world.despawn(entities[4]!);
+
+    const serializer = new WorldSerializer();
+    const restored = serializer.deserializeBinary(
+      serializer.serializeBinary(world),
+      256,
+    );
+
+    expect(restored.getEntityCount()).toBe(29);
+    expect(dump(restored)).toEqual(dump(world));
+    expect(restored.isAlive(entities[4]!)).toBe(false);
+  });
+
+  it("remaps string fields and counts their references", () => {
+    const world = new World(64);
+    const entity = world.spawn(BinPosition, BinLabel);
+    world.setString(entity, BinLabel, "name", "binary-only-string");
+    const bytes = new WorldSerializer().serializeBinary(world);
+
+    const restored = new WorldSerializer().deserializeBinary(bytes, 64);
+    const index = restored.get(entity, BinLabel)!.name as number;
+
+    expect(restored.getString(entity, BinLabel, "name")).toBe(
+      "binary-only-string",
+    );
+    expect(restored.strings.getRefCount(index)).toBeGreaterThan(0);
+  });
+
+  it("keeps entity references valid", () => {
+    const world = new World(64);
+    const [a, b] = [world.spawn(BinTarget), world.spawn(BinTarget)];
+    world.set(a, BinTarget, { entity: b });
+    world.set(b, BinTarget, { entity: a });
+
+    const serializer = new WorldSerializer();
+    const restored = serializer.deserializeBinary(
+      serializer.serializeBinary(world),
+      64,
+    );
+
+    expect(restored.get(a, BinTarget)!.entity).toBe(b);
+    expect(restored.get(b, BinTarget)!.entity).toBe(a);
+  });
+
+  it("restores relations and resources", () => {
+    const world = new World(64);
+    const owner = world.spawn(BinPosition);
+    const item = world.spawn(BinPosition);
+    world.relate(owner, BinOwns, item, { slot: "hand" });
+    world.resources.set("depth", 7);
+
+    const serializer = new WorldSerializer({ relationTypes: [BinOwns] });
+    const restored = serializer.deserializeBinary(
+      serializer.serializeBinary(world),
+      64,
+    );
+
+    expect(restored.hasRelation(owner, BinOwns, item)).toBe(true);
+    expect(restored.getRelationData(owner, BinOwns, item)).toEqual({
+      slot: "hand",
+    });
+    expect(restored.resources.get<number>("depth")).toBe(7);
+  });
+
+  it("compresses sections and reads the stream in chunks of any size", () => {
+    const world = new World(2048);
+    populate(world, 1500);
+    const serializer = new WorldSerializer();
+    const plain = serializer.serializeBinary(world);
+    const compressed = serializer.serializeBinary(world, { compress: true });
+
+    expect(compressed.length).toBeLessThan(plain.length);
+    expect(openBinarySnapshot(compressed).header.compressed).toBe(true);
+
+    const chunks = [...serializer.serializeBinaryStream(world)];
+    expect(chunks.length).toBeGreaterThan(3);
+
+    function* split(bytes: Uint8Array, size: number) {
+      for (let i = 0; i < bytes.length; i += size) {
+        yield bytes.subarray(i, i + size);
+      }
+    }
+    const restored = serializer.deserializeBinary(split(compressed, 7), 2048);
+    expect(dump(restored)).toEqual(dump(world));
+  });
+
+  it("runs older snapshots through the migrations", () => {
+    const world = new World(64);
+    const entity = world.spawn(BinPosition, BinLabel);
+    world.set(entity, BinPosition, { x: 3, y: 4 });
+    world.setString(entity, BinLabel, "name", "migrated-label");
+    const bytes = rewriteVersion(
+      new WorldSerializer().serializeBinary(world),
+      "1.0.0",
+    );
+
+    // 1.0.0 stored positions in tiles of 10
+    const migrations = new MigrationRegistry();
+    migrations.register({
+      fromVersion: "1.0.0",
+      toVersion: SNAPSHOT_VERSION,
+      migrate: (snapshot) => {
+        for (const { components } of snapshot.entities) {
+          const position = components.BinPosition;
+          if (position) position.x = (position.x as number) * 10;
+        }
+        return snapshot;
+      },
+    });
+
+    const restored = new WorldSerializer({ migrations }).deserializeBinary(
+      bytes,
+      64,
+    );
+    const [migrated] = restored.query(BinPosition).collect();
+
+    expect(restored.get(migrated!, BinPosition)).toEqual({ x: 30, y: 4 });
+    expect(restored.getString(migrated!, BinLabel, "name")).toBe(
+      "migrated-label",
+    );
+    expect(() =>
+      new WorldSerializer({
+        migrations: new MigrationRegistry(),
+      }).deserializeBinary(bytes),
+    ).toThrow(/No migration path/);
+  });
+});
+
+/** Replace the snapshot version string of a binary snapshot's header. */
+function rewriteVersion(bytes: Uint8Array, version: string): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const oldLength = view.getUint32(12, true);
+  const encoded = new TextEncoder().encode(version);
+  const result = new Uint8Array(bytes.length - oldLength + encoded.length);
+  result.set(bytes.subarray(0, 12));
+  new DataView(result.buffer).setUint32(12, encoded.length, true);
+  result.set(encoded, 16);
+  result.set(bytes.subarray(16 + oldLength), 16 + encoded.length);
+  return result;
+}
+
+describe("Binary snapshot benchmarks", () => {
+  it("is smaller and faster than JSON", () => {
+    const world = new World(20_000);
+    populate(world, 20_000);
+    const serializer = new WorldSerializer();
+
+    let start = performance.now();
+    const json = JSON.stringify(serializer.serialize(world));
+    const jsonWrite = performance.now() - start;
+    start = performance.now();
+    serializer.deserialize(JSON.parse(json), 20_000);
+    const jsonRead = performance.now() - start;
+
+    start = performance.now();
+    const binary = serializer.serializeBinary(world);
+    const binaryWrite = performance.now() - start;
+    start = performance.now();
+    serializer.deserializeBinary(binary, 20_000);
+    const binaryRead = performance.now() - start;
+
+    const compressed = serializer.serializeBinary(world, { compress: true });
+
+    console.log(`  20k entities, JSON: ${(json.length / 1024).toFixed(0)}KB`);
+    console.log(`  Binary: ${(binary.length / 1024).toFixed(0)}KB`);
+    console.log(
+      `  Binary deflated: ${(compressed.length / 1024).toFixed(0)}KB`,
+    );
+    console.log(
+      `  Write JSON ${jsonWrite.toFixed(2)}ms / binary ${binaryWrite.toFixed(2)}ms`,
+    );
+    console.log(
+      `  Read JSON ${jsonRead.toFixed(2)}ms / binary ${binaryRead.toFixed(2)}ms`,
+    );
+
+    expect(binary.length * 3).toBeLessThan(json.length);
+    expect(compressed.length).toBeLessThan(binary.length);
+  });
+});
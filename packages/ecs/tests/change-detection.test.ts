@@ -7,6 +7,7 @@ import {
   type Entity,
   Phase,
   defineSystem,
+  getComponentMeta,
 } from "@rogue/ecs";
 
 @component
@@ -203,6 +204,73 @@ describe("Per-Component Change Detection", () => {
     });
   });
 
+  describe("Changes since a tick", () => {
+    it("lists entities changed since the start of a tick", () => {
+      const moved = world.spawn(Position);
+      const still = world.spawn(Position);
+      world.runTick();
+      world.runTick();
+      const since = world.getCurrentTick();
+
+      world.set(moved, Position, { x: 1 });
+      world.runTick();
+      // An archetype created after a few ticks counts in ticks as well
+      const late = world.spawn(Position, Health);
+      world.runTick();
+
+      expect(world.getChangedEntities(since).sort()).toEqual(
+        [moved, late].sort(),
+      );
+      expect(world.getChangedEntities(since + 1)).toEqual([late]);
+      expect(world.getChangedEntities(world.getCurrentTick())).toEqual([]);
+      expect(world.getArchetypesChangedSince(since + 1)).toHaveLength(1);
+      expect(world.getChangedEntities(since)).not.toContain(still);
+    });
+  });
+
+  describe("Component count", () => {
+    it("tracks components registered after the 64th", () => {
+      // Register filler components until the next index is past 64
+      let index = getComponentMeta(Health).id.index;
+      while (index < 64) {
+        index = getComponentMeta(component(class Filler {})).id.index;
+      }
+
+      @component
+      class Late {
+        value = i32(0);
+      }
+
+      @component
+      class Later {
+        value = i32(0);
+      }
+
+      expect(getComponentMeta(Late).id.index).toBeGreaterThan(64);
+
+      const e1 = world.spawn(Position, Late, Later);
+      world.spawn(Position, Late, Later);
+      world.runTick();
+      expect(world.query(Late).changedComponent(Late).count()).toBe(0);
+
+      world.set(e1, Late, { value: 1 });
+
+      expect(world.query(Late).changedComponent(Late).count()).toBe(1);
+      expect(world.query(Later).changedComponent(Later).count()).toBe(0);
+      expect(world.query(Late).changedComponent(Position).count()).toBe(0);
+      world.query(Late, Later).run((view) => {
+        for (let i = 0; i < view.rawCount(); i++) {
+          const changed = view.entity(i) === e1;
+          expect(view.hasComponentChanged(i, Late)).toBe(changed);
+          expect(view.getChangedComponents(i)).toEqual(changed ? [Late] : []);
+        }
+      });
+
+      world.runTick();
+      expect(world.query(Late).changedComponent(Late).count()).toBe(0);
+    });
+  });
+
   describe("Performance", () => {
     it("10k entities, filter by specific component < 100ms", () => {
       const largeWorld = new World(20_000);
@@ -0,0 +1,73 @@
+/**
+ * Kernels for the parallel system tests. Workers import this module to find
+ * them, so it must only depend on what it imports.
+ */
+
+import { component, defineKernel, f32, u8 } from "@rogue/ecs";
+
+@component
+export class Particle {
+  x = f32(0);
+  y = f32(0);
+}
+
+@component
+export class Drift {
+  x = f32(0);
+  y = f32(0);
+}
+
+@component
+export class Heat {
+  value = f32(0);
+}
+
+@component
+export class Spark {
+  source = u8(0);
+}
+
+export const drift = defineKernel(import.meta.url, "drift", (ctx) => {
+  for (const chunk of ctx.query(Particle, Drift)) {
+    const x = chunk.column(Particle, "x");
+    const y = chunk.column(Particle, "y");
+    const dx = chunk.column(Drift, "x");
+    const dy = chunk.column(Drift, "y");
+    for (let row = 0; row < chunk.count; row++) {
+      x[row] = x[row]! + dx[row]!;
+      y[row] = y[row]! + dy[row]!;
+    }
+  }
+});
+
+export const cool = defineKernel(import.meta.url, "cool", (ctx) => {
+  const rate = ctx.resource<number>("coolingRate") ?? 0;
+  for (const chunk of ctx.query(Heat)) {
+    const value = chunk.column(Heat, "value");
+    for (let row = 0; row < chunk.count; row++) {
+      value[row] = value[row]! - rate;
+      if (value[row]! <= 0) ctx.commands.despawn(chunk.entity(row));
+    }
+  }
+});
+
+export const tag = defineKernel(import.meta.url, "tag", (ctx) => {
+  for (const chunk of ctx.query(Drift)) {
+    if (chunk.has(Spark)) continue;
+    for (let row = 0; row < chunk.count; row++) {
+      ctx.commands.add(chunk.entity(row), Spark, { source: 7 });
+    }
+  }
+});
+
+export const spawnHeat = defineKernel(import.meta.url, "spawnHeat", (ctx) => {
+  ctx.commands.spawn(Heat);
+});
+
+export const spawnSpark = defineKernel(import.meta.url, "spawnSpark", (ctx) => {
+  ctx.commands.spawn(Spark);
+});
+
+export const undeclared = defineKernel(import.meta.url, "undeclared", (ctx) => {
+  ctx.query(Spark);
+});
@@ -0,0 +1,317 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import {
+  defineSystem,
+  Phase,
+  resolveWorkerEntry,
+  type System,
+  SystemScheduler,
+  World,
+} from "@rogue/ecs";
+import {
+  cool,
+  Drift,
+  drift,
+  Heat,
+  Particle,
+  Spark,
+  spawnHeat,
+  spawnSpark,
+  tag,
+  undeclared,
+} from "./fixtures/kernels";
+
+function names(batches: readonly (readonly System[])[]): string[][] {
+  return batches.map((batch) => batch.map((system) => system.name));
+}
+
+function noop(name: string) {
+  return defineSystem(name).inPhase(Phase.Update);
+}
+
+describe("Access declarations", () => {
+  it("records what a system reads and writes", () => {
+    const system = noop("Movement")
+      .reads(Drift)
+      .writes(Particle)
+      .readsResource("coolingRate")
+      .execute(() => {});
+
+    expect(system.access).toEqual({
+      reads: [Drift],
+      writes: [Particle],
+      readsResources: ["coolingRate"],
+      writesResources: [],
+    });
+    expect(noop("Exclusive").execute(() => {}).access).toBeUndefined();
+  });
+
+  it("requires kernel systems to declare access and not write resources", () => {
+    expect(() => noop("Drift").executeKernel(drift)).toThrow(/declare access/);
+    expect(() =>
+      noop("Drift").writes(Particle).writesResource("x").executeKernel(drift),
+    ).toThrow(/cannot write resources/);
+  });
+});
+
+describe("Batching", () => {
+  it("batches systems that do not conflict", () => {
+    const scheduler = new SystemScheduler();
+    scheduler.registerBatch([
+      noop("Move")
+        .reads(Drift)
+        .writes(Particle)
+        .execute(() => {}),
+      noop("Cool")
+        .writes(Heat)
+        .execute(() => {}),
+      noop("Render")
+        .reads(Particle, Heat)
+        .execute(() => {}),
+      noop("Tag")
+        .reads(Drift)
+        .writes(Spark)
+        .execute(() => {}),
+    ]);
+
+    expect(names(scheduler.getBatches(Phase.Update))).toEqual([
+      ["Move", "Cool", "Tag"],
+      ["Render"],
+    ]);
+  });
+
+  it("keeps ordered systems in successive batches", () => {
+    const scheduler = new SystemScheduler();
+    scheduler.registerBatch([
+      noop("B")
+        .reads(Heat)
+        .after("A")
+        .execute(() => {}),
+      noop("A")
+        .reads(Heat)
+        .execute(() => {}),
+      noop("C")
+        .reads(Heat)
+        .execute(() => {}),
+    ]);
+
+    expect(names(scheduler.getBatches(Phase.Update))).toEqual([
+      ["A", "C"],
+      ["B"],
+    ]);
+  });
+
+  it("runs systems without declared access alone", () => {
+    const scheduler = new SystemScheduler();
+    scheduler.registerBatch([
+      noop("A")
+        .reads(Heat)
+        .execute(() => {}),
+      noop("Exclusive").execute(() => {}),
+      noop("B")
+        .reads(Heat)
+        .execute(() => {}),
+    ]);
+
+    expect(names(scheduler.getBatches(Phase.Update))).toEqual([
+      ["A"],
+      ["Exclusive"],
+      ["B"],
+    ]);
+  });
+});
+
+describe("Ambiguities", () => {
+  it("reports conflicting systems no constraint orders", () => {
+    const scheduler = new SystemScheduler();
+    scheduler.registerBatch([
+      noop("Heal")
+        .writes(Heat)
+        .readsResource("clock")
+        .execute(() => {}),
+      noop("Burn")
+        .writes(Heat)
+        .writesResource("clock")
+        .execute(() => {}),
+      noop("Watch")
+        .reads(Particle)
+        .execute(() => {}),
+      noop("Look")
+        .reads(Particle)
+        .execute(() => {}),
+    ]);
+
+    expect(scheduler.findAmbiguities()).toEqual([
+      {
+        phase: Phase.Update,
+        systems: ["Heal", "Burn"],
+        components: ["Heat"],
+        resources: ["clock"],
+      },
+    ]);
+  });
+
+  it("does not report systems ordered directly or transitively", () => {
+    const scheduler = new SystemScheduler();
+    scheduler.registerBatch([
+      noop("First")
+        .writes(Heat)
+        .execute(() => {}),
+      noop("Between")
+        .before("Last")
+        .after("First")
+        .execute(() => {}),
+      noop("Last")
+        .writes(Heat)
+        .execute(() => {}),
+    ]);
+
+    expect(scheduler.findAmbiguities()).toEqual([]);
+  });
+});
+
+describe("Worker entry", () => {
+  it("is the kernel-worker module next to the pool", () => {
+    expect(resolveWorkerEntry()?.pathname).toEndWith(
+      "/schedule/kernel-worker.ts",
+    );
+    expect(resolveWorkerEntry("./missing-worker.js")).toBeNull();
+  });
+});
+
+describe("Kernel systems", () => {
+  let world: World;
+
+  afterEach(() => {
+    world.disableParallelSystems();
+  });
+
+  function setup(): World {
+    world = new World(1024);
+    world.resources.set("coolingRate", 2);
+    for (let i = 0; i < 100; i++) {
+      const particle = world.spawn(Particle, Drift);
+      world.set(particle, Drift, { x: i, y: -1 });
+      const ember = world.spawn(Heat);
+      world.set(ember, Heat, { value: i % 10 });
+    }
+    world.addSystem(
+      noop("Drift").reads(Drift).writes(Particle).executeKernel(drift),
+    );
+    world.addSystem(
+      noop("Cool")
+        .writes(Heat)
+        .readsResource("coolingRate")
+        .executeKernel(cool),
+    );
+    world.addSystem(noop("Tag").reads(Drift).writes(Spark).executeKernel(tag));
+    return world;
+  }
+
+  function state(world: World): unknown {
+    return {
+      particles: world
+        .query(Particle)
+        .collect()
+        .map((e) => world.get(e, Particle)),
+      heat: world
+        .query(Heat)
+        .collect()
+        .map((e) => world.get(e, Heat)!.value),
+      sparks: world
+        .query(Spark)
+        .collect()
+        .map((e) => world.get(e, Spark)!.source),
+    };
+  }
+
+  it("run in place when parallel execution is disabled", () => {
+    setup();
+    world.runTick();
+
+    const p = world.query(Particle).collect()[3]!;
+    expect(world.get(p, Particle)).toEqual({ x: 3, y: -1 });
+    expect(world.query(Heat).count()).toBe(70);
+    expect(world.query(Spark).count()).toBe(100);
+  });
+
+  it("give the same result on workers", () => {
+    const sequential = setup();
+    for (let i = 0; i < 3; i++) sequential.runTick();
+    const expected = state(sequential);
+
+    setup().enableParallelSystems({ workers: 2 });
+    for (let i = 0; i < 3; i++) world.runTick();
+
+    expect(world.scheduler.isParallel).toBe(true);
+    expect(state(world)).toEqual(expected);
+  });
+
+  it("mark what they write as changed", () => {
+    setup().enableParallelSystems({ workers: 2 });
+    world.runTick();
+    const changed: number[] = [];
+    world.addSystem(
+      noop("Check")
+        .after("Drift")
+        .execute((w) => {
+          changed.push(
+            w.query(Particle).changedComponent(Particle).count(),
+            w.query(Drift).changedComponent(Drift).count(),
+          );
+        }),
+    );
+    world.runTick();
+
+    expect(changed).toEqual([100, 0]);
+  });
+
+  it("apply the commands of a batch in system order", () => {
+    for (const order of [
+      ["Heat", "Spark"],
+      ["Spark", "Heat"],
+    ]) {
+      world = new World(1024);
+      world.enableParallelSystems({ workers: 2 });
+      for (const name of order) {
+        world.addSystem(
+          name === "Heat"
+            ? noop("SpawnHeat").writes(Heat).executeKernel(spawnHeat)
+            : noop("SpawnSpark").writes(Spark).executeKernel(spawnSpark),
+        );
+      }
+      expect(world.scheduler.getBatches(Phase.Update)).toHaveLength(1);
+
+      world.runTick();
+
+      const heat = world.query(Heat).first()!;
+      const spark = world.query(Spark).first()!;
+      expect(heat < spark).toBe(order[0] === "Heat");
+      world.disableParallelSystems();
+    }
+  });
+
+  it("run sequentially when the worker entry cannot be found", () => {
+    const sequential = setup();
+    sequential.runTick();
+    const expected = state(sequential);
+
+    expect(
+      setup().enableParallelSystems({ workerEntry: "./missing-worker.js" }),
+    ).toBe(false);
+    world.runTick();
+
+    expect(world.scheduler.isParallel).toBe(false);
+    expect(state(world)).toEqual(expected);
+  });
+
+  it("report kernel errors from workers", () => {
+    world = new World(1024);
+    world.enableParallelSystems({ workers: 1 });
+    world.spawn(Heat);
+    world.addSystem(noop("Sneaky").reads(Heat).executeKernel(undeclared));
+
+    expect(() => world.runTick()).toThrow(
+      /"Sneaky" failed on a worker.*undeclared component Spark/,
+    );
+  });
+});
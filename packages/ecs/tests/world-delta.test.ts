@@ -0,0 +1,310 @@
+import { describe, expect, it } from "bun:test";
+import {
+  applyDelta,
+  arrayOf,
+  component,
+  createDelta,
+  defineRelation,
+  diffWorlds,
+  type Entity,
+  f32,
+  i32,
+  StringPool,
+  str,
+  u8,
+  World,
+  WorldSerializer,
+  type WorldSnapshot,
+} from "@rogue/ecs";
+
+@component
+class DeltaPosition {
+  x = f32(0);
+  y = f32(0);
+}
+
+@component
+class DeltaHealth {
+  hp = i32(10);
+  buffs = arrayOf(u8, 3);
+}
+
+@component
+class DeltaName {
+  value = str("");
+}
+
+@component
+class DeltaStunned {}
+
+const DeltaFollows = defineRelation<{ distance: number }>("DeltaFollows");
+
+const serializer = new WorldSerializer({ relationTypes: [DeltaFollows] });
+const options = { relationTypes: [DeltaFollows] };
+
+/** A snapshot, ignoring the tick and the order entities are stored in. */
+function state(world: World): Omit<WorldSnapshot, "tick"> {
+  const { tick: _, ...snapshot } = serializer.serialize(world);
+  snapshot.entities.sort((a, b) => a.id - b.id);
+  snapshot.relations?.sort(
+    (a, b) => a.source - b.source || a.target - b.target,
+  );
+  return snapshot;
+}
+
+/** A world with the same entities, IDs included. */
+function clone(world: World): World {
+  return serializer.deserializeBinary(serializer.serializeBinary(world), 256);
+}
+
+function setup(): { world: World; entities: Entity[] } {
+  const world = new World(256);
+  const entities: Entity[] = [];
+  for (let i = 0; i < 6; i++) {
+    const entity = world.spawn(DeltaPosition, DeltaHealth);
+    world.set(entity, DeltaPosition, { x: i, y: i * 2 });
+    world.set(entity, DeltaHealth, { hp: 10 + i, buffs: [i, 0, 0] });
+    entities.push(entity);
+  }
+  world.add(entities[0]!, DeltaName);
+  world.setString(entities[0]!, DeltaName, "value", "leader");
+  world.relate(entities[1]!, DeltaFollows, entities[0]!, { distance: 2 });
+  world.relate(entities[2]!, DeltaFollows, entities[0]!, { distance: 3 });
+  world.resources.set("turn", 1);
+  world.resources.set("weather", "rain");
+  return { world, entities };
+}
+
+/** Every kind of change the delta covers. */
+function mutate(world: World, entities: Entity[]): void {
+  const [e0, e1, e2, e3, e4] = entities;
+  world.set(e0!, DeltaPosition, { x: 100 });
+  world.set(e1!, DeltaHealth, { buffs: [1, 2, 3] });
+  world.setString(e0!, DeltaName, "value", "renamed-leader");
+  world.add(e3!, DeltaStunned);
+  world.add(e3!, DeltaName);
+  world.setString(e3!, DeltaName, "value", "delta-newcomer");
+  world.remove(e4!, DeltaHealth);
+  world.despawn(e2!);
+  // Reuses the slot of e2 with a new generation
+  const spawned = world.spawn(DeltaPosition, DeltaName);
+  world.set(spawned, DeltaPosition, { x: -1, y: -1 });
+  world.setString(spawned, DeltaName, "value", "delta-spawned");
+  world.relate(e1!, DeltaFollows, e0!, { distance: 5 });
+  world.relate(spawned, DeltaFollows, e1!, { distance: 1 });
+  world.resources.set("turn", 2);
+  world.resources.delete("weather");
+  world.resources.set("seed", 42);
+}
+
+describe("World deltas", () => {
+  it("lists what changed between two worlds", () => {
+    const { world: a, entities } = setup();
+    const b = clone(a);
+    mutate(b, entities);
+    const [e0, e1, e2, e3, e4] = entities as number[];
+
+    const delta = diffWorlds(a, b, options);
+
+    expect(delta.despawned).toEqual([e2!]);
+    expect(delta.spawned).toHaveLength(1);
+    expect(delta.added).toEqual([
+      {
+        entity: e3!,
+        component: "DeltaName",
+        data: { value: b.strings.indexOf("delta-newcomer") },
+      },
+      { entity: e3!, component: "DeltaStunned", data: {} },
+    ]);
+    expect(delta.removed).toEqual([{ entity: e4!, component: "DeltaHealth" }]);
+    expect(delta.changed).toContainEqual({
+      entity: e0!,
+      component: "DeltaPosition",
+      data: { x: 100 },
+    });
+    expect(delta.changed).toContainEqual({
+      entity: e1!,
+      component: "DeltaHealth",
+      data: { buffs: [1, 2, 3] },
+    });
+    expect(delta.relations.removed).toContainEqual({
+      type: "DeltaFollows",
+      source: e2!,
+      target: e0!,
+      data: { distance: 3 },
+    });
+    expect(delta.relations.added).toContainEqual({
+      type: "DeltaFollows",
+      source: e1!,
+      target: e0!,
+      data: { distance: 5 },
+    });
+    expect(delta.resources).toEqual({
+      set: { turn: 2, seed: 42 },
+      removed: ["weather"],
+    });
+    expect(Object.values(delta.strings).sort()).toEqual([
+      "delta-newcomer",
+      "delta-spawned",
+      "renamed-leader",
+    ]);
+  });
+
+  it("is empty between identical worlds", () => {
+    const { world } = setup();
+    const delta = diffWorlds(world, clone(world), options);
+
+    expect(delta.spawned).toEqual([]);
+    expect(delta.despawned).toEqual([]);
+    expect(delta.changed).toEqual([]);
+    expect(delta.relations).toEqual({ added: [], removed: [] });
+    expect(delta.resources).toEqual({ set: {}, removed: [] });
+  });
+
+  it("applying diff(A, B) to A gives B", () => {
+    const { world: a, entities } = setup();
+    const b = clone(a);
+    mutate(b, entities);
+
+    applyDelta(a, diffWorlds(a, b, options));
+
+    expect(state(a)).toEqual(state(b));
+  });
+
+  it("rolls back with the reverse delta", () => {
+    const { world, entities } = setup();
+    world.runTick();
+    const tick = world.trackChanges();
+    const original = state(world);
+    const checkpoint = clone(world);
+
+    mutate(world, entities);
+    const forward = createDelta(world, tick, options);
+    applyDelta(world, diffWorlds(world, checkpoint, options));
+    expect(state(world)).toEqual(original);
+
+    applyDelta(world, forward);
+    applyDelta(checkpoint, forward);
+    expect(state(world)).toEqual(state(checkpoint));
+  });
+
+  it("applies to a world on another string pool after a JSON round-trip", () => {
+    const { world, entities } = setup();
+    world.runTick();
+    world.trackChanges();
+    const replica = new World(256, new StringPool());
+    const initial = diffWorlds(new World(16), world, options);
+    applyDelta(replica, JSON.parse(JSON.stringify(initial)));
+
+    mutate(world, entities);
+    const delta = createDelta(world, initial.toTick, options);
+    applyDelta(replica, JSON.parse(JSON.stringify(delta)));
+
+    const [e0, , , e3] = entities;
+    expect(replica.getString(e0!, DeltaName, "value")).toBe("renamed-leader");
+    expect(replica.getString(e3!, DeltaName, "value")).toBe("delta-newcomer");
+    expect(replica.get(e0!, DeltaPosition)).toEqual({ x: 100, y: 0 });
+    expect(replica.strings.getRefCount(replica.strings.indexOf("leader"))).toBe(
+      0,
+    );
+  });
+
+  it("only lists what changed since a tick", () => {
+    const { world, entities } = setup();
+    world.runTick();
+    const tick = world.trackChanges();
+    const [e0, e1, e2, e3, e4, e5] = entities as number[];
+
+    mutate(world, entities);
+    world.runTick();
+    const delta = createDelta(world, tick, options);
+
+    expect(delta.fromTick).toBe(tick);
+    expect(delta.toTick).toBe(tick + 1);
+    expect(delta.despawned).toEqual([e2!]);
+    expect(delta.spawned).toHaveLength(1);
+    expect(delta.added.map(({ component }) => component).sort()).toEqual([
+      "DeltaName",
+      "DeltaStunned",
+    ]);
+    expect(delta.removed).toEqual([{ entity: e4!, component: "DeltaHealth" }]);
+    const changed = new Set(delta.changed.map(({ entity }) => entity));
+    expect(changed.has(e0!) && changed.has(e1!) && changed.has(e3!)).toBe(true);
+    expect(changed.has(e5!)).toBe(false);
+    expect(delta.resources.removed).toEqual(["weather"]);
+    expect(createDelta(world, world.getCurrentTick(), options).changed).toEqual(
+      [],
+    );
+  });
+
+  it("keeps a replica in step with successive deltas", () => {
+    const { world, entities } = setup();
+    world.runTick();
+    const replica = clone(world);
+    let tick = world.trackChanges();
+
+    mutate(world, entities);
+    world.runTick();
+    const first = createDelta(world, tick, options);
+    applyDelta(replica, first);
+    tick = first.toTick;
+
+    const [e0, e1, e3] = [entities[0]!, entities[1]!, entities[3]!];
+    world.remove(e3, DeltaStunned);
+    world.despawn(e0);
+    world.add(e1, DeltaStunned);
+    world.set(e1, DeltaPosition, { y: 7 });
+    world.runTick();
+    applyDelta(replica, createDelta(world, tick, options));
+
+    expect(state(replica)).toEqual(state(world));
+  });
+
+  it("logs batched component changes", () => {
+    const { world, entities } = setup();
+    world.runTick();
+    const replica = clone(world);
+    const tick = world.trackChanges();
+    const entity = entities[5]!;
+
+    world.batch(entity).remove(DeltaHealth).add(DeltaName).commit();
+    world.setString(entity, DeltaName, "value", "delta-batched");
+    world.runTick();
+    const delta = createDelta(world, tick, options);
+    applyDelta(replica, delta);
+
+    expect(delta.removed).toEqual([{ entity, component: "DeltaHealth" }]);
+    expect(delta.added.map(({ component }) => component)).toEqual([
+      "DeltaName",
+    ]);
+    expect(state(replica)).toEqual(state(world));
+  });
+
+  it("logs nothing until changes are tracked", () => {
+    const { world, entities } = setup();
+    world.despawn(entities[0]!);
+
+    expect(world.changes.enabled).toBe(false);
+    expect(() => createDelta(world, 0)).toThrow(/not logged/);
+
+    const tick = world.trackChanges();
+    expect(createDelta(world, tick).despawned).toEqual([]);
+  });
+
+  it("refuses ticks the change log no longer covers", () => {
+    const { world } = setup();
+    world.trackChanges();
+    world.changes.retention = 2;
+    for (let i = 0; i < 4; i++) world.runTick();
+
+    expect(() => createDelta(world, 0)).toThrow(/no longer logged/);
+    expect(() => createDelta(world, 2)).not.toThrow();
+  });
+
+  it("rejects deltas of another version", () => {
+    const { world } = setup();
+    const delta = { ...diffWorlds(world, world), version: "0.1.0" };
+
+    expect(() => applyDelta(world, delta)).toThrow(/Delta version mismatch/);
+  });
+});
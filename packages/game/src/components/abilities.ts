@@ -0,0 +1,50 @@
+import {
+  component,
+  entityRef,
+  i32,
+  NULL_ENTITY,
+  str,
+  u8,
+  u16,
+} from "@rogue/ecs";
+
+/**
+ * Mana spent by abilities. `regen` points come back at the end of each of
+ * the entity's turns.
+ */
+@component
+export class Mana {
+  current = u16(0);
+  max = u16(0);
+  regen = u8(1);
+}
+
+/**
+ * An ability an entity knows. Abilities are child entities of their
+ * owner (`ChildOf` relation), like statuses.
+ */
+@component
+export class Ability {
+  /** Ability id, e.g. "fireball" */
+  name = str("");
+  /** Owner turns left before it can be cast again */
+  cooldown = u16(0);
+}
+
+/**
+ * Pending cast of a known ability at tile (x, y).
+ */
+@component
+export class CastRequest {
+  ability = entityRef(NULL_ENTITY);
+  x = i32(0);
+  y = i32(0);
+}
+
+/**
+ * Creature brought in by a summoning ability.
+ */
+@component
+export class Summoned {
+  owner = entityRef(NULL_ENTITY);
+}
@@ -0,0 +1,36 @@
+import { component, i32, u8 } from "@rogue/ecs";
+
+/**
+ * Primary behaviour of an AI-controlled actor.
+ *
+ * - Wander: random walk; fights back only when cornered (adjacent)
+ * - Chase: hunts players within `aggroRange`
+ * - KeepDistance: holds `preferredRange` tiles from its target (ranged)
+ * - Guard: chases intruders near its post, otherwise returns to it
+ *
+ * Any behaviour switches to fleeing below `fleeThreshold` percent HP.
+ */
+export const AIBehavior = {
+  Wander: 0,
+  Chase: 1,
+  KeepDistance: 2,
+  Guard: 3,
+} as const;
+
+export type AIBehavior = (typeof AIBehavior)[keyof typeof AIBehavior];
+
+@component
+export class AI {
+  behavior = u8(AIBehavior.Chase);
+  /** Path distance at which players are noticed */
+  aggroRange = u8(10);
+  /** Flee below this percentage of max HP (0 = never) */
+  fleeThreshold = u8(0);
+  /** Desired distance for KeepDistance */
+  preferredRange = u8(4);
+  /** Guard post */
+  homeX = i32(0);
+  homeY = i32(0);
+  /** Distance from the post within which a guard engages */
+  guardRadius = u8(5);
+}
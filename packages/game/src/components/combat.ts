@@ -0,0 +1,56 @@
+import { component, entityRef, i32, NULL_ENTITY, u8, u32 } from "@rogue/ecs";
+
+@component
+export class Health {
+  current = i32(10);
+  max = i32(10);
+}
+
+/**
+ * Base combat stats. Equipment and statuses modify these at resolution
+ * time; the stored values are never rewritten by modifiers.
+ *
+ * - `attack`: maximum damage roll
+ * - `accuracy` / `defense`: opposed to-hit bonus and evasion
+ * - `armor`: flat damage reduction
+ * - `critChance`: percent chance of a critical hit
+ */
+@component
+export class CombatStats {
+  attack = i32(2);
+  defense = i32(0);
+  accuracy = i32(0);
+  armor = i32(0);
+  critChance = u8(5);
+}
+
+/**
+ * Fights on the players' side: hostile to enemies, never to players.
+ */
+@component
+export class Ally {}
+
+/**
+ * Pending melee attack, consumed by the combat system on the attacker's turn.
+ */
+@component
+export class AttackRequest {
+  target = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Most recent damage source, used to attribute kills from damage over time.
+ */
+@component
+export class LastDamagedBy {
+  entity = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Remains left behind by a slain creature.
+ */
+@component
+export class Corpse {
+  /** Game tick of death */
+  tick = u32(0);
+}
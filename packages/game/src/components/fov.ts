@@ -0,0 +1,43 @@
+import { bool, component, u8, u32 } from "@rogue/ecs";
+
+/** Default sight radius in tiles. */
+export const DEFAULT_FOV_RADIUS = 8;
+
+/**
+ * Sight parameters. Set `dirty` to force a recompute when the view can
+ * change without the viewer moving (a door opening, a wall collapsing).
+ */
+@component
+export class FOV {
+  radius = u8(DEFAULT_FOV_RADIUS);
+  dirty = bool(true);
+}
+
+/**
+ * Marks an entity whose visible cells are tracked. The packed cell list
+ * itself lives in the VisibilityStore resource; `count` mirrors its length.
+ */
+@component
+export class VisibleCells {
+  count = u32(0);
+}
+
+/**
+ * Visible cells of one viewer, as packed map coordinates.
+ */
+export interface VisibleCellsData {
+  readonly cells: Uint32Array;
+  readonly count: number;
+}
+
+/**
+ * Pack map coordinates into one integer: `(y << 16) | x`.
+ * Same layout as procgen region points.
+ */
+export function packCoords(x: number, y: number): number {
+  return ((y << 16) | x) >>> 0;
+}
+
+export function unpackCoords(packed: number): { x: number; y: number } {
+  return { x: packed & 0xffff, y: packed >>> 16 };
+}
@@ -0,0 +1,12 @@
+import { component, u8, u16 } from "@rogue/ecs";
+
+/**
+ * How fed an entity is. `rate` points are lost at the end of each of the
+ * entity's turns; food restores them, up to `max`.
+ */
+@component
+export class Satiety {
+  current = u16(0);
+  max = u16(0);
+  rate = u8(1);
+}
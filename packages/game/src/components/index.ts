@@ -1,29 +1,83 @@
 /**
  * Game Components
  *
- * Define all ECS components here. Components are pure data.
- *
- * @example
- * ```typescript
- * import { component, i32, f32, str, entityRef } from "@rogue/ecs";
- *
- * @component
- * export class Position {
- *   x = i32(0);
- *   y = i32(0);
- * }
- *
- * @component
- * export class Health {
- *   current = i32(100);
- *   max = i32(100);
- * }
- *
- * @component
- * export class Name {
- *   value = str("Unknown");
- * }
- * ```
+ * All ECS components used by the game. Components are pure data;
+ * each file groups the components of one gameplay module.
  */
 
-export {};
+export { Ability, CastRequest, Mana, Summoned } from "./abilities";
+export { AI, AIBehavior } from "./ai";
+export {
+  Ally,
+  AttackRequest,
+  CombatStats,
+  Corpse,
+  Health,
+  LastDamagedBy,
+} from "./combat";
+export {
+  DEFAULT_FOV_RADIUS,
+  FOV,
+  packCoords,
+  unpackCoords,
+  VisibleCells,
+  type VisibleCellsData,
+} from "./fov";
+export { Satiety } from "./hunger";
+export {
+  Container,
+  Door,
+  InteractRequest,
+  Key,
+  Stairs,
+  Trap,
+} from "./interaction";
+export {
+  Consumable,
+  DEFAULT_INVENTORY_CAPACITY,
+  DropRequest,
+  EQUIPMENT_SLOTS,
+  Equipment,
+  Equippable,
+  EquipRequest,
+  GoalItem,
+  Inventory,
+  Item,
+  ItemEffect,
+  PickupRequest,
+  StatModifiers,
+  UnequipRequest,
+  Unidentified,
+  UseItemRequest,
+} from "./inventory";
+export { Awareness, AwarenessState, Stealth } from "./perception";
+export { Position } from "./position";
+export {
+  Brawler,
+  Evasion,
+  Experience,
+  ExperienceReward,
+  KeenEyes,
+  PerkPoints,
+  Precision,
+  Swiftness,
+  Toughness,
+} from "./progression";
+export {
+  Ammunition,
+  FireRequest,
+  RangedWeapon,
+  Throwable,
+  ThrowRequest,
+} from "./ranged";
+export {
+  BuyRequest,
+  ForSale,
+  Gold,
+  HaggleRequest,
+  SellRequest,
+  Shopkeeper,
+} from "./shop";
+export { Status } from "./status";
+export { Template } from "./template";
+export { ENERGY_PER_ACTION, Energy, NORMAL_SPEED } from "./turn";
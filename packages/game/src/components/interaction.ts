@@ -0,0 +1,74 @@
+import {
+  bool,
+  component,
+  entityRef,
+  i32,
+  NULL_ENTITY,
+  str,
+  u8,
+  u16,
+} from "@rogue/ecs";
+
+/**
+ * Door entity standing on a DOOR cell. The GameMap keeps the matching
+ * open/locked tile state used for sight and pathing.
+ */
+@component
+export class Door {
+  open = bool(false);
+  locked = bool(false);
+  /** `Key.keyId` that unlocks the door */
+  keyId = str("");
+}
+
+/**
+ * Item that unlocks doors with the same `keyId`.
+ */
+@component
+export class Key {
+  keyId = str("");
+}
+
+/**
+ * Trap triggered by creatures stepping on its tile. Hidden traps are
+ * revealed when triggered or detected.
+ */
+@component
+export class Trap {
+  damage = u16(4);
+  /** Status applied to the victim, if any */
+  status = str("");
+  duration = u8(0);
+  hidden = bool(true);
+  /** Percent chance per turn for an adjacent player to spot it */
+  detectChance = u8(20);
+}
+
+/**
+ * Lootable furniture; its contents are linked with the `Contains`
+ * relation, like an inventory.
+ */
+@component
+export class Container {
+  opened = bool(false);
+}
+
+/**
+ * Staircase to the next (down) or previous (up) depth. Procgen entrances
+ * become up stairs and exits down stairs.
+ */
+@component
+export class Stairs {
+  down = bool(true);
+}
+
+/**
+ * Pending interaction, resolved on the actor's turn. A null target
+ * interacts with whatever is on tile (x, y).
+ */
+@component
+export class InteractRequest {
+  target = entityRef(NULL_ENTITY);
+  x = i32(0);
+  y = i32(0);
+}
@@ -0,0 +1,156 @@
+import type { EquipmentSlot } from "@rogue/contracts";
+import {
+  bool,
+  component,
+  entityRef,
+  i32,
+  NULL_ENTITY,
+  str,
+  u8,
+  u16,
+} from "@rogue/ecs";
+
+export const DEFAULT_INVENTORY_CAPACITY = 20;
+
+/**
+ * Equipment slots in storage order; `Equippable.slot` and
+ * `UnequipRequest.slot` index into this list.
+ */
+export const EQUIPMENT_SLOTS: readonly EquipmentSlot[] = [
+  "weapon",
+  "armor",
+  "helmet",
+  "accessory",
+];
+
+/**
+ * An item entity. Items on the floor have a Position; carried items are
+ * linked to their owner with the `Contains` relation instead.
+ *
+ * Stacking: items with the same non-empty `kind` merge up to `maxStack`.
+ */
+@component
+export class Item {
+  name = str("");
+  glyph = str("?");
+  /** Stack key, usually the template id */
+  kind = str("");
+  quantity = u16(1);
+  maxStack = u16(1);
+  /** Base price of one unit in gold; shops ignore worthless items */
+  value = u16(0);
+}
+
+/**
+ * Entity that can carry items. Capacity counts stacks, not quantity.
+ */
+@component
+export class Inventory {
+  capacity = u8(DEFAULT_INVENTORY_CAPACITY);
+}
+
+@component
+export class Equippable {
+  /** Index into EQUIPMENT_SLOTS */
+  slot = u8(0);
+}
+
+/**
+ * Items currently worn by an entity, one per slot. Equipped items stay in
+ * the owner's inventory.
+ */
+@component
+export class Equipment {
+  weapon = entityRef(NULL_ENTITY);
+  armor = entityRef(NULL_ENTITY);
+  helmet = entityRef(NULL_ENTITY);
+  accessory = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Flat bonuses added to the wearer's CombatStats while equipped.
+ */
+@component
+export class StatModifiers {
+  attack = i32(0);
+  defense = i32(0);
+  accuracy = i32(0);
+  armor = i32(0);
+  critChance = i32(0);
+}
+
+/**
+ * Item that is used up. Stacks spend quantity first, single items spend
+ * charges.
+ */
+@component
+export class Consumable {
+  charges = u8(1);
+}
+
+/**
+ * Effect triggered when the item is used; `effect` is an id in the
+ * ItemEffectRegistry.
+ */
+@component
+export class ItemEffect {
+  effect = str("");
+}
+
+/**
+ * Item whose true nature is not yet known to its owner.
+ */
+@component
+export class Unidentified {}
+
+/**
+ * The item a run is won by: climbing out of the dungeon carrying it.
+ */
+@component
+export class GoalItem {}
+
+/**
+ * Pending pickup, resolved on the actor's turn. A null or invalid item
+ * picks up the first item on the actor's tile.
+ */
+@component
+export class PickupRequest {
+  item = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Pending item use, resolved on the actor's turn. Targeted effects aim at
+ * (x, y); untargeted uses aim at the user's own tile.
+ */
+@component
+export class UseItemRequest {
+  item = entityRef(NULL_ENTITY);
+  targeted = bool(false);
+  x = i32(0);
+  y = i32(0);
+}
+
+/**
+ * Pending drop; free action, resolved on the next tick.
+ */
+@component
+export class DropRequest {
+  item = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Pending equip; free action, resolved on the next tick.
+ */
+@component
+export class EquipRequest {
+  item = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Pending unequip; free action, resolved on the next tick.
+ */
+@component
+export class UnequipRequest {
+  /** Index into EQUIPMENT_SLOTS */
+  slot = u8(0);
+}
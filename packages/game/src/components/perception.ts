@@ -0,0 +1,44 @@
+import { component, i32, u8 } from "@rogue/ecs";
+
+/**
+ * What an AI actor is aware of.
+ *
+ * - Sleeping: ignores everything but loud noises
+ * - Wandering: roams (guards keep to their post) until it hears or sees
+ *   something
+ * - Investigating: heads for the last noise or sighting
+ * - Hunting: sees a hostile and runs its AI behaviour against it
+ */
+export const AwarenessState = {
+  Sleeping: 0,
+  Wandering: 1,
+  Investigating: 2,
+  Hunting: 3,
+} as const;
+
+export type AwarenessState =
+  (typeof AwarenessState)[keyof typeof AwarenessState];
+
+/**
+ * Perception of an AI actor. Actors without it always know where
+ * players are.
+ */
+@component
+export class Awareness {
+  state = u8(AwarenessState.Wandering);
+  /** Distance at which hostiles in line of sight are noticed */
+  sight = u8(8);
+  /** Tile being investigated, or where the hunted hostile was last seen */
+  targetX = i32(0);
+  targetY = i32(0);
+  /** Turns left investigating before giving up */
+  patience = u8(0);
+}
+
+/**
+ * Lowers the volume of every noise the entity makes.
+ */
+@component
+export class Stealth {
+  value = u8(0);
+}
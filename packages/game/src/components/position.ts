@@ -0,0 +1,10 @@
+import { component, i32 } from "@rogue/ecs";
+
+/**
+ * Tile coordinates of an entity on the current level.
+ */
+@component
+export class Position {
+  x = i32(0);
+  y = i32(0);
+}
@@ -0,0 +1,71 @@
+import { component, u8, u16, u32 } from "@rogue/ecs";
+
+/**
+ * Experience of an entity that grows by killing. `current` counts XP
+ * earned toward the next level, `toNextLevel` how much that level needs.
+ */
+@component
+export class Experience {
+  level = u16(1);
+  current = u32(0);
+  toNextLevel = u32(100);
+}
+
+/**
+ * XP granted to whoever kills the entity.
+ */
+@component
+export class ExperienceReward {
+  amount = u32(10);
+}
+
+/**
+ * Perk choices earned by levelling up and not spent yet.
+ */
+@component
+export class PerkPoints {
+  available = u8(0);
+}
+
+// =============================================================================
+// Perks
+//
+// One component per perk, holding how many times it was taken. Bonuses are
+// applied to base stats when the perk is chosen; see the PerkRegistry.
+// =============================================================================
+
+/** More maximum health. */
+@component
+export class Toughness {
+  rank = u8(1);
+}
+
+/** Harder hits. */
+@component
+export class Brawler {
+  rank = u8(1);
+}
+
+/** Harder to hit. */
+@component
+export class Evasion {
+  rank = u8(1);
+}
+
+/** Better aim and more critical hits. */
+@component
+export class Precision {
+  rank = u8(1);
+}
+
+/** Acts more often. */
+@component
+export class Swiftness {
+  rank = u8(1);
+}
+
+/** Sees further. */
+@component
+export class KeenEyes {
+  rank = u8(1);
+}
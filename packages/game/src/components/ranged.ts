@@ -0,0 +1,49 @@
+import { component, entityRef, i32, NULL_ENTITY, str, u8 } from "@rogue/ecs";
+
+/**
+ * Weapon that shoots carried Ammunition with the same `ammo` id.
+ */
+@component
+export class RangedWeapon {
+  range = u8(8);
+  /** Ammunition id, e.g. "arrow" */
+  ammo = str("");
+}
+
+/**
+ * Item spent by ranged weapons; `damage` is added to the shot's attack.
+ */
+@component
+export class Ammunition {
+  ammo = str("");
+  damage = u8(0);
+}
+
+/**
+ * Item that can be thrown. Its `damage` replaces the thrower's attack;
+ * it lands where its flight ends.
+ */
+@component
+export class Throwable {
+  damage = u8(2);
+  range = u8(6);
+}
+
+/**
+ * Pending shot at tile (x, y), resolved on the shooter's turn.
+ */
+@component
+export class FireRequest {
+  x = i32(0);
+  y = i32(0);
+}
+
+/**
+ * Pending throw of a carried item at tile (x, y).
+ */
+@component
+export class ThrowRequest {
+  item = entityRef(NULL_ENTITY);
+  x = i32(0);
+  y = i32(0);
+}
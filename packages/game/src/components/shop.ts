@@ -0,0 +1,69 @@
+import {
+  component,
+  entityRef,
+  i32,
+  NULL_ENTITY,
+  u8,
+  u16,
+  u32,
+} from "@rogue/ecs";
+
+/**
+ * Gold carried by an entity.
+ */
+@component
+export class Gold {
+  amount = u32(0);
+}
+
+/**
+ * Keeper of the shop filling the room rectangle (x, y, width, height).
+ * Neutral until robbed or attacked, when it turns Enemy.
+ */
+@component
+export class Shopkeeper {
+  x = i32(0);
+  y = i32(0);
+  width = u16(0);
+  height = u16(0);
+  /** Content depth its prices are scaled for */
+  depth = u8(1);
+  /** Refused haggles it puts up with before it stops haggling */
+  patience = u8(3);
+}
+
+/**
+ * Shop stock, owned by `shopkeeper` until paid for. Stays on the item
+ * when it is picked up, so carried items can be unpaid.
+ */
+@component
+export class ForSale {
+  /** Price of one unit */
+  price = u32(0);
+  shopkeeper = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Pending purchase of a carried unpaid item.
+ */
+@component
+export class BuyRequest {
+  item = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Pending sale of a carried item to the shop the seller stands in.
+ */
+@component
+export class SellRequest {
+  item = entityRef(NULL_ENTITY);
+}
+
+/**
+ * Pending offer of `offer` gold for a carried unpaid item.
+ */
+@component
+export class HaggleRequest {
+  item = entityRef(NULL_ENTITY);
+  offer = u32(0);
+}
@@ -0,0 +1,14 @@
+import { component, entityRef, NULL_ENTITY, str, u16 } from "@rogue/ecs";
+
+/**
+ * A status effect. Statuses are child entities of the affected entity
+ * (`ChildOf` relation), so they are removed along with it.
+ */
+@component
+export class Status {
+  /** Status id, e.g. "poison" */
+  name = str("");
+  /** Remaining turns of the affected entity */
+  duration = u16(0);
+  source = entityRef(NULL_ENTITY);
+}
@@ -0,0 +1,10 @@
+import { component, str } from "@rogue/ecs";
+
+/**
+ * Id of the entity template an entity was instantiated from, e.g.
+ * `"goblin"`.
+ */
+@component
+export class Template {
+  id = str("");
+}
@@ -0,0 +1,17 @@
+import { component, i32 } from "@rogue/ecs";
+
+/** Energy an actor must accumulate before it may act. */
+export const ENERGY_PER_ACTION = 100;
+
+/** Energy gained per game tick by an actor of normal speed. */
+export const NORMAL_SPEED = 10;
+
+/**
+ * Energy pool for the turn scheduler. Every game tick an actor gains
+ * `speed` energy; once it reaches {@link ENERGY_PER_ACTION} it takes a turn.
+ */
+@component
+export class Energy {
+  current = i32(0);
+  speed = i32(NORMAL_SPEED);
+}
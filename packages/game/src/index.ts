@@ -1,9 +1,12 @@
 // World setup
-export { createGameWorld } from "./world";
+export { createGameWorld, type GameWorldOptions } from "./world";
 
 // Components
 export * from "./components";
 
+// Resources
+export * from "./resources";
+
 // Systems
 export * from "./systems";
 
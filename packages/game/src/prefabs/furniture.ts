@@ -0,0 +1,47 @@
+/**
+ * Furniture Templates
+ *
+ * Chests and traps. Doors and stairs come from the level layout and are
+ * spawned by the interaction and level systems instead.
+ */
+
+import { Interactable } from "@rogue/ecs";
+import { Container, Trap } from "../components/interaction";
+import { Position } from "../components/position";
+import { type EntityTemplate, template } from "./registry";
+
+export const FURNITURE_TEMPLATES: readonly EntityTemplate[] = [
+  template("furniture").with(Position).tags("furniture").build(),
+
+  template("chest")
+    .extends("furniture")
+    .with(Container)
+    .tag(Interactable)
+    .tags("container")
+    .weight(5)
+    .build(),
+
+  template("trap").extends("furniture").with(Trap).tags("trap").build(),
+
+  template("spike_trap")
+    .extends("trap")
+    .with(Trap, { damage: 5 })
+    .weight(6)
+    .build(),
+
+  template("poison_needle_trap")
+    .extends("trap")
+    .with(Trap, { damage: 1, duration: 5, detectChance: 15 })
+    .strings(Trap, { status: "poison" })
+    .weight(3)
+    .depth(2)
+    .build(),
+
+  template("paralysis_trap")
+    .extends("trap")
+    .with(Trap, { damage: 0, duration: 3, detectChance: 10 })
+    .strings(Trap, { status: "paralysis" })
+    .weight(2)
+    .depth(4)
+    .build(),
+];
@@ -1,24 +1,53 @@
 /**
  * Game Prefabs
  *
- * Define entity templates (prefabs) here.
+ * Entity templates: player classes, the monster bestiary, NPCs, item
+ * families and furniture, registered in an EntityTemplateRegistry.
  *
  * @example
  * ```typescript
- * import { definePrefab } from "@rogue/ecs";
- * import { Position, Health, Name, AI } from "../components";
- *
- * export const PlayerPrefab = definePrefab("Player")
- *   .with(Position, { x: 0, y: 0 })
- *   .with(Health, { current: 100, max: 100 })
- *   .with(Name, { value: "Hero" });
- *
- * export const GoblinPrefab = definePrefab("Goblin")
- *   .with(Position)
- *   .with(Health, { current: 30, max: 30 })
- *   .with(AI, { behavior: "aggressive" })
- *   .with(Name, { value: "Goblin" });
+ * const templates = world.resources.require<EntityTemplateRegistry>(
+ *   TEMPLATES_RESOURCE,
+ * );
+ * const name = templates.pick(random.get("population"), {
+ *   depth: 3,
+ *   tags: { monster: 1 },
+ * });
+ * const goblin = templates.instantiate(world, name, {
+ *   Position: { x: 4, y: 7 },
+ * });
  * ```
  */
 
-export {};
+import { FURNITURE_TEMPLATES } from "./furniture";
+import { ITEM_TEMPLATES } from "./items";
+import { MONSTER_TEMPLATES } from "./monsters";
+import { NPC_TEMPLATES } from "./npcs";
+import { PLAYER_TEMPLATES } from "./players";
+import type { EntityTemplate } from "./registry";
+
+export { FURNITURE_TEMPLATES } from "./furniture";
+export { ITEM_TEMPLATES } from "./items";
+export { MONSTER_TEMPLATES } from "./monsters";
+export { NPC_TEMPLATES } from "./npcs";
+export { PLAYER_TEMPLATES } from "./players";
+export {
+  type EntityTemplate,
+  EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+  TemplateBuilder,
+  type TemplateCandidate,
+  type TemplateOverrides,
+  type TemplateQuery,
+  type TemplateStrings,
+  template,
+} from "./registry";
+
+/** Every built-in template, parents before children. */
+export const DEFAULT_TEMPLATES: readonly EntityTemplate[] = [
+  ...PLAYER_TEMPLATES,
+  ...MONSTER_TEMPLATES,
+  ...NPC_TEMPLATES,
+  ...ITEM_TEMPLATES,
+  ...FURNITURE_TEMPLATES,
+];
@@ -0,0 +1,276 @@
+/**
+ * Item Templates
+ *
+ * Item families (potions, scrolls, wands, food, weapons, ammunition,
+ * armour, accessories) and the items in each, plus the run's goal item.
+ * Item templates have no Position: population adds one when placing an
+ * item on the floor, while items handed to an inventory never need it.
+ *
+ * `Item.kind` is the template id, so copies of one item stack.
+ * `Item.value`, the base shop price, is set per family.
+ */
+
+import {
+  Consumable,
+  EQUIPMENT_SLOTS,
+  Equippable,
+  GoalItem,
+  Item,
+  ItemEffect,
+  StatModifiers,
+  Unidentified,
+} from "../components/inventory";
+import { Ammunition, RangedWeapon, Throwable } from "../components/ranged";
+import {
+  type EntityTemplate,
+  type TemplateBuilder,
+  template,
+} from "./registry";
+
+const WEAPON = EQUIPMENT_SLOTS.indexOf("weapon");
+const ARMOR = EQUIPMENT_SLOTS.indexOf("armor");
+const HELMET = EQUIPMENT_SLOTS.indexOf("helmet");
+const ACCESSORY = EQUIPMENT_SLOTS.indexOf("accessory");
+
+function item(id: string, family: string, name: string): TemplateBuilder {
+  return template(id).extends(family).strings(Item, { name, kind: id });
+}
+
+export const ITEM_TEMPLATES: readonly EntityTemplate[] = [
+  template("item").with(Item).tags("item").build(),
+
+  // Families
+  template("potion")
+    .extends("item")
+    .with(Item, { maxStack: 10, value: 40 })
+    .with(Consumable)
+    .with(ItemEffect)
+    .tag(Unidentified)
+    .strings(Item, { glyph: "!" })
+    .tags("potion", "consumable")
+    .build(),
+
+  template("scroll")
+    .extends("item")
+    .with(Item, { maxStack: 10, value: 30 })
+    .with(Consumable)
+    .with(ItemEffect)
+    .tag(Unidentified)
+    .strings(Item, { glyph: "?" })
+    .tags("scroll", "consumable")
+    .build(),
+
+  template("wand")
+    .extends("item")
+    .with(Item, { value: 100 })
+    .with(Consumable, { charges: 5 })
+    .with(ItemEffect)
+    .tag(Unidentified)
+    .strings(Item, { glyph: "/" })
+    .tags("wand")
+    .build(),
+
+  template("food")
+    .extends("item")
+    .with(Item, { maxStack: 10, value: 10 })
+    .with(Consumable)
+    .with(ItemEffect)
+    .strings(Item, { glyph: "%" })
+    .tags("food", "consumable")
+    .build(),
+
+  template("weapon")
+    .extends("item")
+    .with(Item, { value: 25 })
+    .with(Equippable, { slot: WEAPON })
+    .with(StatModifiers)
+    .strings(Item, { glyph: ")" })
+    .tags("weapon", "equipment")
+    .build(),
+
+  template("ammunition")
+    .extends("item")
+    .with(Item, { maxStack: 50, value: 1 })
+    .with(Ammunition)
+    .strings(Item, { glyph: "(" })
+    .tags("ammunition")
+    .build(),
+
+  template("body_armor")
+    .extends("item")
+    .with(Item, { value: 40 })
+    .with(Equippable, { slot: ARMOR })
+    .with(StatModifiers)
+    .strings(Item, { glyph: "[" })
+    .tags("armor", "equipment")
+    .build(),
+
+  template("helmet")
+    .extends("item")
+    .with(Item, { value: 20 })
+    .with(Equippable, { slot: HELMET })
+    .with(StatModifiers)
+    .strings(Item, { glyph: "^" })
+    .tags("armor", "equipment")
+    .build(),
+
+  template("ring")
+    .extends("item")
+    .with(Item, { value: 80 })
+    .with(Equippable, { slot: ACCESSORY })
+    .with(StatModifiers)
+    .strings(Item, { glyph: "=" })
+    .tags("ring", "equipment")
+    .build(),
+
+  // Potions
+  item("potion_of_healing", "potion", "potion of healing")
+    .strings(ItemEffect, { effect: "healing" })
+    .weight(10)
+    .build(),
+
+  item("potion_of_poison", "potion", "potion of poison")
+    .strings(ItemEffect, { effect: "poison" })
+    .weight(4)
+    .build(),
+
+  // Scrolls
+  item("scroll_of_teleportation", "scroll", "scroll of teleportation")
+    .strings(ItemEffect, { effect: "teleportation" })
+    .weight(5)
+    .build(),
+
+  item("scroll_of_magic_mapping", "scroll", "scroll of magic mapping")
+    .strings(ItemEffect, { effect: "magic_mapping" })
+    .weight(4)
+    .depth(2)
+    .build(),
+
+  item("scroll_of_identify", "scroll", "scroll of identify")
+    .strings(ItemEffect, { effect: "identify" })
+    .weight(6)
+    .build(),
+
+  item("scroll_of_fireball", "scroll", "scroll of fireball")
+    .strings(ItemEffect, { effect: "fireball" })
+    .weight(3)
+    .depth(3)
+    .build(),
+
+  // Wands
+  item("wand_of_lightning", "wand", "wand of lightning")
+    .strings(ItemEffect, { effect: "lightning" })
+    .weight(2)
+    .depth(4)
+    .build(),
+
+  item("wand_of_slowness", "wand", "wand of slowness")
+    .strings(ItemEffect, { effect: "slowness" })
+    .weight(3)
+    .depth(2)
+    .build(),
+
+  item("wand_of_paralysis", "wand", "wand of paralysis")
+    .with(Consumable, { charges: 3 })
+    .strings(ItemEffect, { effect: "paralysis" })
+    .weight(2)
+    .depth(5)
+    .build(),
+
+  // Food
+  item("ration", "food", "food ration")
+    .strings(ItemEffect, { effect: "ration" })
+    .weight(8)
+    .build(),
+
+  item("apple", "food", "apple")
+    .strings(ItemEffect, { effect: "apple" })
+    .weight(5)
+    .build(),
+
+  // Weapons
+  item("dagger", "weapon", "dagger")
+    .with(StatModifiers, { attack: 1, critChance: 5 })
+    .weight(6)
+    .depth(1, 5)
+    .build(),
+
+  item("short_sword", "weapon", "short sword")
+    .with(StatModifiers, { attack: 2, accuracy: 1 })
+    .weight(5)
+    .depth(1, 8)
+    .build(),
+
+  item("battle_axe", "weapon", "battle axe")
+    .with(StatModifiers, { attack: 4, accuracy: -1 })
+    .weight(3)
+    .depth(4)
+    .build(),
+
+  item("war_hammer", "weapon", "war hammer")
+    .with(StatModifiers, { attack: 6, accuracy: -2 })
+    .weight(2)
+    .depth(8)
+    .build(),
+
+  item("shortbow", "weapon", "shortbow")
+    .with(RangedWeapon, { range: 8 })
+    .strings(RangedWeapon, { ammo: "arrow" })
+    .weight(3)
+    .depth(2)
+    .build(),
+
+  item("throwing_knife", "weapon", "throwing knife")
+    .with(Item, { maxStack: 10, value: 5 })
+    .with(Throwable, { damage: 4, range: 6 })
+    .weight(3)
+    .depth(1, 8)
+    .build(),
+
+  // Ammunition
+  item("arrow", "ammunition", "arrow")
+    .strings(Ammunition, { ammo: "arrow" })
+    .weight(4)
+    .depth(2)
+    .build(),
+
+  // Armour
+  item("leather_armor", "body_armor", "leather armor")
+    .with(StatModifiers, { armor: 1 })
+    .weight(5)
+    .depth(1, 6)
+    .build(),
+
+  item("chain_mail", "body_armor", "chain mail")
+    .with(StatModifiers, { armor: 3, defense: -1 })
+    .weight(3)
+    .depth(4)
+    .build(),
+
+  item("iron_helm", "helmet", "iron helm")
+    .with(StatModifiers, { armor: 1 })
+    .weight(4)
+    .depth(2)
+    .build(),
+
+  // Accessories
+  item("ring_of_accuracy", "ring", "ring of accuracy")
+    .with(StatModifiers, { accuracy: 2 })
+    .weight(2)
+    .depth(3)
+    .build(),
+
+  item("ring_of_protection", "ring", "ring of protection")
+    .with(StatModifiers, { defense: 2 })
+    .weight(2)
+    .depth(3)
+    .build(),
+
+  // The goal of a run, placed by population rather than picked
+  template("amulet")
+    .extends("item")
+    .tag(GoalItem)
+    .strings(Item, { name: "Amulet of the Deep", kind: "amulet", glyph: '"' })
+    .tags("goal")
+    .build(),
+];
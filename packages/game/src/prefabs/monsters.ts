@@ -0,0 +1,148 @@
+/**
+ * Monster Templates
+ *
+ * The bestiary. Every monster extends "monster" and is tagged with its
+ * family; weights and depth ranges drive content population.
+ */
+
+import { Enemy } from "@rogue/ecs";
+import { AI, AIBehavior } from "../components/ai";
+import { CombatStats, Health } from "../components/combat";
+import { Awareness } from "../components/perception";
+import { Position } from "../components/position";
+import { ExperienceReward } from "../components/progression";
+import { Energy, NORMAL_SPEED } from "../components/turn";
+import { type EntityTemplate, template } from "./registry";
+
+export const MONSTER_TEMPLATES: readonly EntityTemplate[] = [
+  template("monster")
+    .with(Position)
+    .with(Energy, { speed: NORMAL_SPEED })
+    .with(Health)
+    .with(CombatStats)
+    .with(AI)
+    .with(Awareness)
+    .with(ExperienceReward)
+    .tag(Enemy)
+    .tags("monster")
+    .build(),
+
+  // Beasts
+  template("rat")
+    .extends("monster")
+    .with(Health, { current: 4, max: 4 })
+    .with(CombatStats, { attack: 1, accuracy: 0 })
+    .with(AI, { behavior: AIBehavior.Wander, aggroRange: 4 })
+    .with(ExperienceReward, { amount: 3 })
+    .tags("beast")
+    .weight(10)
+    .depth(1, 4)
+    .build(),
+
+  template("giant_spider")
+    .extends("monster")
+    .with(Health, { current: 14, max: 14 })
+    .with(CombatStats, { attack: 4, defense: 2, accuracy: 2 })
+    .with(Energy, { speed: NORMAL_SPEED + 3 })
+    .with(ExperienceReward, { amount: 25 })
+    .tags("beast")
+    .weight(5)
+    .depth(4, 10)
+    .build(),
+
+  // Humanoids
+  template("kobold")
+    .extends("monster")
+    .with(Health, { current: 6, max: 6 })
+    .with(CombatStats, { attack: 2, accuracy: 1 })
+    .with(AI, { fleeThreshold: 25 })
+    .with(ExperienceReward, { amount: 6 })
+    .tags("humanoid")
+    .weight(8)
+    .depth(1, 5)
+    .build(),
+
+  template("goblin")
+    .extends("monster")
+    .with(Health, { current: 9, max: 9 })
+    .with(CombatStats, { attack: 3, defense: 1, accuracy: 1 })
+    .with(ExperienceReward, { amount: 10 })
+    .tags("humanoid")
+    .weight(8)
+    .depth(1, 7)
+    .build(),
+
+  template("goblin_archer")
+    .extends("goblin")
+    .with(Health, { current: 7, max: 7 })
+    .with(AI, { behavior: AIBehavior.KeepDistance, preferredRange: 4 })
+    .with(ExperienceReward, { amount: 12 })
+    .weight(4)
+    .depth(2, 8)
+    .build(),
+
+  template("orc")
+    .extends("monster")
+    .with(Health, { current: 18, max: 18 })
+    .with(CombatStats, { attack: 6, defense: 2, accuracy: 2, armor: 1 })
+    .with(ExperienceReward, { amount: 30 })
+    .tags("humanoid")
+    .weight(6)
+    .depth(3, 12)
+    .build(),
+
+  template("orc_warden")
+    .extends("orc")
+    .with(AI, { behavior: AIBehavior.Guard, guardRadius: 4 })
+    .with(CombatStats, { attack: 7, defense: 3, accuracy: 3, armor: 2 })
+    .with(ExperienceReward, { amount: 40 })
+    .weight(2)
+    .depth(5, 14)
+    .build(),
+
+  // Undead
+  template("zombie")
+    .extends("monster")
+    .with(Health, { current: 20, max: 20 })
+    .with(CombatStats, { attack: 4, defense: 0, accuracy: 0 })
+    .with(Energy, { speed: NORMAL_SPEED - 4 })
+    .with(ExperienceReward, { amount: 20 })
+    .tags("undead")
+    .weight(5)
+    .depth(3, 10)
+    .build(),
+
+  template("skeleton")
+    .extends("monster")
+    .with(Health, { current: 15, max: 15 })
+    .with(CombatStats, { attack: 5, defense: 3, accuracy: 2, armor: 2 })
+    .with(ExperienceReward, { amount: 28 })
+    .tags("undead")
+    .weight(5)
+    .depth(4, 14)
+    .build(),
+
+  template("wraith")
+    .extends("monster")
+    .with(Health, { current: 24, max: 24 })
+    .with(CombatStats, { attack: 8, defense: 5, accuracy: 4, critChance: 10 })
+    .with(Energy, { speed: NORMAL_SPEED + 4 })
+    .with(ExperienceReward, { amount: 60 })
+    .tags("undead")
+    .weight(3)
+    .depth(8)
+    .build(),
+
+  // Giants
+  template("troll")
+    .extends("monster")
+    .with(Health, { current: 45, max: 45 })
+    .with(CombatStats, { attack: 10, defense: 3, accuracy: 3, armor: 3 })
+    .with(Energy, { speed: NORMAL_SPEED - 2 })
+    .with(AI, { fleeThreshold: 15 })
+    .with(ExperienceReward, { amount: 90 })
+    .tags("giant")
+    .weight(3)
+    .depth(8)
+    .build(),
+];
@@ -0,0 +1,35 @@
+/**
+ * NPC Templates
+ *
+ * Characters that are nobody's enemy until provoked. They are placed by
+ * content population for the room they belong to, never picked at random.
+ */
+
+import { AI, AIBehavior } from "../components/ai";
+import { CombatStats, Health } from "../components/combat";
+import { Awareness } from "../components/perception";
+import { Position } from "../components/position";
+import { Gold, Shopkeeper } from "../components/shop";
+import { Energy, NORMAL_SPEED } from "../components/turn";
+import { type EntityTemplate, template } from "./registry";
+
+export const NPC_TEMPLATES: readonly EntityTemplate[] = [
+  template("npc")
+    .with(Position)
+    .with(Energy, { speed: NORMAL_SPEED })
+    .with(Health)
+    .with(CombatStats)
+    .with(AI, { behavior: AIBehavior.Guard })
+    .with(Awareness)
+    .tags("npc")
+    .build(),
+
+  template("shopkeeper")
+    .extends("npc")
+    .with(Health, { current: 60, max: 60 })
+    .with(CombatStats, { attack: 8, defense: 6, accuracy: 4, armor: 2 })
+    .with(Energy, { speed: NORMAL_SPEED + 4 })
+    .with(Shopkeeper)
+    .with(Gold, { amount: 300 })
+    .build(),
+];
@@ -0,0 +1,74 @@
+/**
+ * Player Templates
+ *
+ * The base "player" template and the classes built on it. Classes shift
+ * starting stats and may start out knowing abilities; everything else is
+ * shared.
+ */
+
+import { Player } from "@rogue/ecs";
+import { Mana } from "../components/abilities";
+import { CombatStats, Health } from "../components/combat";
+import { FOV, VisibleCells } from "../components/fov";
+import { Satiety } from "../components/hunger";
+import { Equipment, Inventory } from "../components/inventory";
+import { Stealth } from "../components/perception";
+import { Position } from "../components/position";
+import { Experience } from "../components/progression";
+import { Gold } from "../components/shop";
+import { Energy, NORMAL_SPEED } from "../components/turn";
+import { type EntityTemplate, template } from "./registry";
+
+export const PLAYER_TEMPLATES: readonly EntityTemplate[] = [
+  template("player")
+    .with(Position)
+    .with(Energy, { speed: NORMAL_SPEED })
+    .with(Health, { current: 30, max: 30 })
+    .with(CombatStats, { attack: 3, defense: 1, accuracy: 1 })
+    .with(FOV)
+    .with(VisibleCells)
+    .with(Inventory)
+    .with(Equipment)
+    .with(Experience)
+    .with(Satiety, { current: 1500, max: 2000 })
+    .with(Gold, { amount: 50 })
+    .tag(Player)
+    .build(),
+
+  template("warrior")
+    .extends("player")
+    .with(Health, { current: 40, max: 40 })
+    .with(CombatStats, { attack: 5, defense: 2, accuracy: 1, armor: 1 })
+    .tags("class")
+    .weight(1)
+    .build(),
+
+  template("rogue")
+    .extends("player")
+    .with(Health, { current: 26, max: 26 })
+    .with(CombatStats, { attack: 3, defense: 3, accuracy: 2, critChance: 15 })
+    .with(Energy, { speed: NORMAL_SPEED + 2 })
+    .with(Stealth, { value: 3 })
+    .tags("class")
+    .weight(1)
+    .build(),
+
+  template("ranger")
+    .extends("player")
+    .with(Health, { current: 28, max: 28 })
+    .with(CombatStats, { attack: 3, defense: 1, accuracy: 4 })
+    .with(FOV, { radius: 10 })
+    .tags("class")
+    .weight(1)
+    .build(),
+
+  template("mage")
+    .extends("player")
+    .with(Health, { current: 22, max: 22 })
+    .with(CombatStats, { attack: 2, defense: 1, accuracy: 2 })
+    .with(Mana, { current: 20, max: 20, regen: 1 })
+    .abilities("fireball", "blink")
+    .tags("class")
+    .weight(1)
+    .build(),
+];
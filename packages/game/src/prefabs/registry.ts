@@ -0,0 +1,319 @@
+/**
+ * Entity Template Registry
+ *
+ * Game entity templates on top of the ECS PrefabRegistry. A template is a
+ * prefab (components with typed defaults, inherited through `extends`)
+ * plus what content population needs to choose it: tags, a spawn weight
+ * and the depths it may appear at. String fields, which prefab component
+ * data cannot carry, are declared separately and applied on spawn, as are
+ * the abilities the entity starts out knowing.
+ */
+
+import type { SeededRandom } from "@rogue/contracts";
+import {
+  ChildOf,
+  type ComponentClass,
+  type ComponentData,
+  type Entity,
+  getComponentMeta,
+  PrefabBuilder,
+  type PrefabDef,
+  PrefabRegistry,
+  type World,
+} from "@rogue/ecs";
+import { Ability } from "../components/abilities";
+import { Template } from "../components/template";
+
+/** Resource key under which the EntityTemplateRegistry is stored. */
+export const TEMPLATES_RESOURCE = "templates";
+
+/**
+ * String field values for one component of a template.
+ */
+export interface TemplateStrings {
+  readonly type: ComponentClass;
+  readonly values: Readonly<Record<string, string>>;
+}
+
+export interface EntityTemplate extends PrefabDef {
+  /** Selection tags, e.g. "monster", "undead"; inherited from the parent */
+  readonly tags?: readonly string[];
+  /** Relative spawn frequency; templates without a weight are never picked */
+  readonly weight?: number;
+  /** Shallowest depth the template appears at (default 1) */
+  readonly minDepth?: number;
+  /** Deepest depth the template appears at (default unbounded) */
+  readonly maxDepth?: number;
+  /** String field defaults, applied after the parent's */
+  readonly strings?: readonly TemplateStrings[];
+  /** Ability ids known on spawn, added to the parent's */
+  readonly abilities?: readonly string[];
+}
+
+/**
+ * Numeric component data keyed by component name, as sent over the
+ * network layer: `{ Position: { x: 3, y: 4 } }`.
+ */
+export type TemplateOverrides = Readonly<
+  Record<string, Readonly<Record<string, number>>>
+>;
+
+export interface TemplateQuery {
+  /** Depth being populated */
+  readonly depth: number;
+  /**
+   * Tag weights. A template qualifies if it has any of these tags; its
+   * chance is its own weight times the sum of its matching tag weights.
+   */
+  readonly tags: Readonly<Record<string, number>>;
+}
+
+export interface TemplateCandidate {
+  readonly name: string;
+  readonly weight: number;
+}
+
+/**
+ * Fluent builder for entity templates.
+ *
+ * @example
+ * template("potion_of_healing")
+ *   .extends("potion")
+ *   .strings(Item, { name: "potion of healing", kind: "potion_of_healing" })
+ *   .strings(ItemEffect, { effect: "healing" })
+ *   .weight(10)
+ *   .depth(1, 8)
+ *   .build();
+ */
+export class TemplateBuilder extends PrefabBuilder {
+  private readonly tagList: string[] = [];
+  private readonly stringList: TemplateStrings[] = [];
+  private readonly abilityList: string[] = [];
+  private spawnWeight: number | undefined;
+  private minDepth: number | undefined;
+  private maxDepth: number | undefined;
+
+  tags(...tags: string[]): this {
+    this.tagList.push(...tags);
+    return this;
+  }
+
+  weight(weight: number): this {
+    this.spawnWeight = weight;
+    return this;
+  }
+
+  depth(min: number, max?: number): this {
+    this.minDepth = min;
+    this.maxDepth = max;
+    return this;
+  }
+
+  abilities(...ids: string[]): this {
+    this.abilityList.push(...ids);
+    return this;
+  }
+
+  /**
+   * Set string fields of a component the template has.
+   */
+  strings<T>(
+    type: ComponentClass<T>,
+    values: Partial<Record<keyof T & string, string>>,
+  ): this {
+    this.stringList.push({
+      type,
+      values: values as Record<string, string>,
+    });
+    return this;
+  }
+
+  override build(): EntityTemplate {
+    return {
+      ...super.build(),
+      tags: this.tagList,
+      strings: this.stringList,
+      abilities: this.abilityList,
+      ...(this.spawnWeight !== undefined ? { weight: this.spawnWeight } : {}),
+      ...(this.minDepth !== undefined ? { minDepth: this.minDepth } : {}),
+      ...(this.maxDepth !== undefined ? { maxDepth: this.maxDepth } : {}),
+    };
+  }
+}
+
+/**
+ * Start building an entity template.
+ */
+export function template(name: string): TemplateBuilder {
+  return new TemplateBuilder(name);
+}
+
+function setStrings<T>(
+  world: World,
+  entity: Entity,
+  type: ComponentClass<T>,
+  values: Readonly<Record<string, string>>,
+): void {
+  for (const [field, value] of Object.entries(values)) {
+    world.setString(
+      entity,
+      type,
+      field as keyof ComponentData<T> & string,
+      value,
+    );
+  }
+}
+
+/**
+ * Registry of entity templates. Entities instantiated from it carry a
+ * Template component naming their template.
+ */
+export class EntityTemplateRegistry extends PrefabRegistry {
+  constructor(templates: readonly EntityTemplate[] = []) {
+    super();
+    for (const def of templates) {
+      this.define(def);
+    }
+  }
+
+  /**
+   * Template definitions from the root parent down to `name`.
+   */
+  private chain(name: string): EntityTemplate[] {
+    const chain: EntityTemplate[] = [];
+    let def = this.get(name) as EntityTemplate | undefined;
+    if (!def) {
+      throw new Error(`Template "${name}" not found`);
+    }
+    while (def) {
+      chain.unshift(def);
+      def = def.extends
+        ? (this.get(def.extends) as EntityTemplate | undefined)
+        : undefined;
+    }
+    return chain;
+  }
+
+  /**
+   * Tags of a template, including inherited ones.
+   */
+  tagsOf(name: string): Set<string> {
+    return new Set(this.chain(name).flatMap((def) => def.tags ?? []));
+  }
+
+  /**
+   * Whether a template or one of its parents adds a component.
+   */
+  hasComponent(name: string, type: ComponentClass): boolean {
+    return this.chain(name).some((def) =>
+      def.components.some((c) => c.type === type),
+    );
+  }
+
+  /**
+   * String field value a template spawns with, including inherited ones.
+   */
+  stringOf(
+    name: string,
+    type: ComponentClass,
+    field: string,
+  ): string | undefined {
+    let value: string | undefined;
+    for (const def of this.chain(name)) {
+      for (const strings of def.strings ?? []) {
+        if (strings.type === type && field in strings.values) {
+          value = strings.values[field];
+        }
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Spawn an entity from a template.
+   *
+   * @param overrides - component data by component name; every named
+   *   component must be part of the template
+   */
+  instantiate(
+    world: World,
+    name: string,
+    overrides: TemplateOverrides = {},
+  ): Entity {
+    const chain = this.chain(name);
+
+    const types = new Map<string, ComponentClass>();
+    for (const def of chain) {
+      for (const { type } of def.components) {
+        types.set(getComponentMeta(type).id.name, type);
+      }
+    }
+
+    const data = new Map<ComponentClass, Record<string, number>>();
+    for (const [component, values] of Object.entries(overrides)) {
+      const type = types.get(component);
+      if (!type) {
+        throw new Error(`Template "${name}" has no ${component} component`);
+      }
+      data.set(type, { ...values });
+    }
+
+    const entity = this.spawn(world, name, data);
+    for (const def of chain) {
+      for (const { type, values } of def.strings ?? []) {
+        setStrings(world, entity, type, values);
+      }
+    }
+
+    for (const id of new Set(chain.flatMap((def) => def.abilities ?? []))) {
+      const ability = world.spawn(Ability);
+      world.setString(ability, Ability, "name", id);
+      world.relate(ability, ChildOf, entity);
+    }
+
+    world.add(entity, Template);
+    world.setString(entity, Template, "id", name);
+    return entity;
+  }
+
+  /**
+   * Templates that may appear for a query, with their selection weights.
+   */
+  candidates(query: TemplateQuery): TemplateCandidate[] {
+    const candidates: TemplateCandidate[] = [];
+
+    for (const name of this.names()) {
+      const def = this.get(name) as EntityTemplate;
+      if (!def.weight || def.weight <= 0) continue;
+      if (query.depth < (def.minDepth ?? 1)) continue;
+      if (query.depth > (def.maxDepth ?? Number.POSITIVE_INFINITY)) continue;
+
+      let tagWeight = 0;
+      for (const tag of this.tagsOf(name)) {
+        tagWeight += query.tags[tag] ?? 0;
+      }
+      if (tagWeight > 0) {
+        candidates.push({ name, weight: def.weight * tagWeight });
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Pick a template for a query, weighted by `candidates()`.
+   *
+   * @returns template name, or null if nothing qualifies
+   */
+  pick(rng: SeededRandom, query: TemplateQuery): string | null {
+    const candidates = this.candidates(query);
+    const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+    if (total <= 0) return null;
+
+    let roll = rng.next() * total;
+    for (const candidate of candidates) {
+      roll -= candidate.weight;
+      if (roll < 0) return candidate.name;
+    }
+    return candidates[candidates.length - 1]!.name;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Ability Registry Resource
+ *
+ * Data-driven definitions of class abilities and spells. Entities know an
+ * ability through an `Ability` child entity naming its definition; the
+ * definition gives its cost, cooldown, range, area shape and effect.
+ */
+
+/** Resource key under which the AbilityRegistry is stored. */
+export const ABILITIES_RESOURCE = "abilities";
+
+/**
+ * Tiles an ability covers.
+ *
+ * - self: the caster's tile
+ * - single: the aimed tile
+ * - circle: tiles within `radius` of the aimed tile
+ * - cone: tiles within `radius` of the caster, at most 45° off the aim
+ * - line: tiles from the caster to the aimed tile, until a wall
+ *
+ * Every shape except self needs line of sight to the aimed tile, and area
+ * tiles need line of sight from the area's origin.
+ */
+export type AbilityShape = "self" | "single" | "circle" | "cone" | "line";
+
+/**
+ * What an ability does.
+ *
+ * - damage / heal / status: applied to each creature in the area
+ * - blink: moves the caster to the aimed tile
+ * - summon: spawns the `summon` template on the aimed tile, on the
+ *   caster's side
+ */
+export type AbilityKind = "damage" | "heal" | "status" | "blink" | "summon";
+
+/**
+ * Creatures in the area an ability affects, relative to the caster.
+ */
+export type AbilityTargets = "hostile" | "friendly" | "any";
+
+export interface AbilityDefinition {
+  /** Unique id referenced by Ability components */
+  readonly id: string;
+  /** Display name */
+  readonly name: string;
+  readonly kind: AbilityKind;
+  readonly shape: AbilityShape;
+  /** Mana spent per cast */
+  readonly cost: number;
+  /** Caster turns before the ability can be cast again */
+  readonly cooldown: number;
+  /** Max distance to the aimed tile */
+  readonly range: number;
+  /** Circle radius, or cone length (defaults to `range`) */
+  readonly radius?: number;
+  /** Creatures affected (default "any") */
+  readonly targets?: AbilityTargets;
+  /** HP dealt (damage) or restored (heal) */
+  readonly power?: number;
+  /** Status id applied by status abilities */
+  readonly status?: string;
+  /** Status duration in turns */
+  readonly duration?: number;
+  /** Template spawned by summon abilities */
+  readonly summon?: string;
+  /** Message shown when the ability resolves */
+  readonly message?: string;
+}
+
+export const DEFAULT_ABILITIES: readonly AbilityDefinition[] = [
+  {
+    id: "fireball",
+    name: "Fireball",
+    kind: "damage",
+    shape: "circle",
+    cost: 8,
+    cooldown: 5,
+    range: 7,
+    radius: 1,
+    power: 8,
+    message: "A ball of fire explodes!",
+  },
+  {
+    id: "frost_cone",
+    name: "Cone of Frost",
+    kind: "status",
+    shape: "cone",
+    cost: 6,
+    cooldown: 6,
+    range: 4,
+    targets: "hostile",
+    status: "slow",
+    duration: 5,
+    message: "A blast of frost fans out.",
+  },
+  {
+    id: "lightning_bolt",
+    name: "Lightning Bolt",
+    kind: "damage",
+    shape: "line",
+    cost: 6,
+    cooldown: 3,
+    range: 8,
+    targets: "hostile",
+    power: 6,
+    message: "Lightning arcs from your hands.",
+  },
+  {
+    id: "blink",
+    name: "Blink",
+    kind: "blink",
+    shape: "single",
+    cost: 4,
+    cooldown: 8,
+    range: 5,
+  },
+  {
+    id: "heal_ally",
+    name: "Heal Ally",
+    kind: "heal",
+    shape: "single",
+    cost: 5,
+    cooldown: 3,
+    range: 4,
+    targets: "friendly",
+    power: 10,
+  },
+  {
+    id: "summon_skeleton",
+    name: "Raise Skeleton",
+    kind: "summon",
+    shape: "single",
+    cost: 10,
+    cooldown: 20,
+    range: 2,
+    summon: "skeleton",
+    message: "Bones knit together and rise.",
+  },
+];
+
+/**
+ * Registry of ability definitions, preloaded with the defaults.
+ *
+ * @example
+ * const abilities = world.resources.require<AbilityRegistry>(
+ *   ABILITIES_RESOURCE,
+ * );
+ * abilities.define({ id: "poison_cloud", name: "Poison Cloud",
+ *   kind: "status", shape: "circle", cost: 6, cooldown: 8, range: 6,
+ *   radius: 2, status: "poison", duration: 4 });
+ */
+export class AbilityRegistry {
+  private readonly abilities = new Map<string, AbilityDefinition>();
+
+  constructor(abilities: readonly AbilityDefinition[] = DEFAULT_ABILITIES) {
+    for (const ability of abilities) {
+      this.define(ability);
+    }
+  }
+
+  define(ability: AbilityDefinition): void {
+    if (this.abilities.has(ability.id)) {
+      throw new Error(`Ability "${ability.id}" is already defined`);
+    }
+    this.abilities.set(ability.id, ability);
+  }
+
+  has(id: string): boolean {
+    return this.abilities.has(id);
+  }
+
+  get(id: string): AbilityDefinition | undefined {
+    return this.abilities.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.abilities.keys()];
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * AI Maps Resource
+ *
+ * Dijkstra maps shared by every AI actor. One chase map (distance to the
+ * nearest player) and its flee map are enough for all monsters, so they
+ * are computed once per player move instead of once per monster.
+ */
+
+import type { Entity } from "@rogue/ecs";
+import {
+  computeDijkstraMap,
+  computeFleeMap,
+  type DijkstraMap,
+} from "@rogue/procgen/core";
+import type { GameMap } from "./game-map";
+import { WALKABLE_CELLS } from "./game-map";
+
+/** Resource key under which the AIMaps are stored. */
+export const AI_MAPS_RESOURCE = "aiMaps";
+
+export class AIMaps {
+  private chase: DijkstraMap | null = null;
+  private flee: DijkstraMap | null = null;
+  private goals: readonly Entity[] = [];
+  private version = 0;
+
+  /** Distance to the nearest player; null until first computed. */
+  getChaseMap(): DijkstraMap | null {
+    return this.chase;
+  }
+
+  /** Gradient leading away from players. */
+  getFleeMap(): DijkstraMap | null {
+    return this.flee;
+  }
+
+  /** Players the maps were computed for. */
+  getGoals(): readonly Entity[] {
+    return this.goals;
+  }
+
+  /** Incremented on every recompute. */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Recompute both maps for the given player positions.
+   */
+  recompute(
+    map: GameMap,
+    players: readonly { entity: Entity; x: number; y: number }[],
+  ): void {
+    this.goals = players.map((p) => p.entity);
+    this.version++;
+
+    if (players.length === 0) {
+      this.chase = null;
+      this.flee = null;
+      return;
+    }
+
+    this.chase = computeDijkstraMap(
+      map.toGrid(),
+      players.map(({ x, y }) => ({ x, y })),
+      { walkable: WALKABLE_CELLS },
+    );
+    this.flee = computeFleeMap(this.chase);
+  }
+
+  clear(): void {
+    this.chase = null;
+    this.flee = null;
+    this.goals = [];
+  }
+}
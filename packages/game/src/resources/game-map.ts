@@ -0,0 +1,308 @@
+/**
+ * Game Map Resource
+ *
+ * Runtime view over a generated dungeon. Terrain is read straight from the
+ * procgen artifact; the map only adds per-tile exploration/visibility state
+ * and an index of which entities occupy which tile.
+ */
+
+import type { TileType } from "@rogue/contracts";
+import type { Entity } from "@rogue/ecs";
+import { BitGrid, CellType, type DungeonArtifact, Grid } from "@rogue/procgen";
+
+/** Resource key under which the active GameMap is stored. */
+export const GAME_MAP_RESOURCE = "gameMap";
+
+export type { TileType };
+
+/**
+ * Procgen cell values mapped to wire tile types (indexed by CellType).
+ */
+const CELL_TO_TILE: readonly TileType[] = [
+  1, // FLOOR -> Floor
+  0, // WALL -> Wall
+  2, // DOOR -> Door
+  3, // WATER -> Water
+  4, // LAVA -> Lava
+];
+
+/** Cell types that can be stood on; matches {@link GameMap.isWalkable}. */
+export const WALKABLE_CELLS: readonly CellType[] = [
+  CellType.FLOOR,
+  CellType.DOOR,
+  CellType.WATER,
+];
+
+const EMPTY: readonly Entity[] = [];
+
+/**
+ * Tile grid, fog-of-war state and spatial occupancy for one dungeon level.
+ *
+ * The artifact's `terrain` buffer is shared, not copied: tile mutations made
+ * through {@link setCell} are visible to anyone holding the artifact.
+ *
+ * @example
+ * const map = new GameMap(result.artifact);
+ * world.resources.set(GAME_MAP_RESOURCE, map);
+ *
+ * map.addEntity(x, y, player);
+ * if (map.isWalkable(x + 1, y) && !map.hasBlocker(x + 1, y)) { ... }
+ */
+export class GameMap {
+  readonly width: number;
+  readonly height: number;
+  readonly artifact: DungeonArtifact;
+
+  private readonly terrain: Uint8Array;
+  private readonly explored: BitGrid;
+  private readonly visible: BitGrid;
+  private readonly openDoors: BitGrid;
+  private readonly lockedDoors: BitGrid;
+  private readonly occupancy = new Map<number, Entity[]>();
+  private readonly blockers = new Set<Entity>();
+
+  constructor(artifact: DungeonArtifact) {
+    if (artifact.terrain.length !== artifact.width * artifact.height) {
+      throw new Error(
+        `Terrain size ${artifact.terrain.length} does not match ` +
+          `${artifact.width}x${artifact.height} dungeon`,
+      );
+    }
+
+    this.artifact = artifact;
+    this.width = artifact.width;
+    this.height = artifact.height;
+    this.terrain = artifact.terrain;
+    this.explored = new BitGrid(this.width, this.height);
+    this.visible = new BitGrid(this.width, this.height);
+    this.openDoors = new BitGrid(this.width, this.height);
+    this.lockedDoors = new BitGrid(this.width, this.height);
+  }
+
+  // ===========================================================================
+  // Terrain
+  // ===========================================================================
+
+  isInBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+
+  /**
+   * Raw procgen cell at a position. Out-of-bounds reads return WALL.
+   */
+  getCell(x: number, y: number): CellType {
+    if (!this.isInBounds(x, y)) return CellType.WALL;
+    return this.terrain[y * this.width + x] as CellType;
+  }
+
+  /**
+   * Overwrite a cell in place (e.g. a wall dug out or a door destroyed).
+   */
+  setCell(x: number, y: number, cell: CellType): void {
+    if (!this.isInBounds(x, y)) return;
+    this.terrain[y * this.width + x] = cell;
+  }
+
+  /**
+   * Wire tile type at a position, as sent to clients.
+   */
+  getTile(x: number, y: number): TileType {
+    return CELL_TO_TILE[this.getCell(x, y)] ?? 0;
+  }
+
+  /**
+   * Whether the terrain allows standing on the tile.
+   * Closed doors count as walkable: stepping into one opens it. Locked
+   * doors do not.
+   */
+  isWalkable(x: number, y: number): boolean {
+    return (
+      WALKABLE_CELLS.includes(this.getCell(x, y)) && !this.isDoorLocked(x, y)
+    );
+  }
+
+  /**
+   * Whether the tile blocks line of sight (walls and closed doors).
+   */
+  isOpaque(x: number, y: number): boolean {
+    const cell = this.getCell(x, y);
+    if (cell === CellType.WALL) return true;
+    if (cell === CellType.DOOR) return !this.openDoors.get(x, y);
+    return false;
+  }
+
+  /**
+   * Copy the terrain into a procgen Grid, e.g. for Dijkstra maps. Locked
+   * doors are copied as walls.
+   */
+  toGrid(): Grid {
+    const grid = Grid.fromTerrain(this.width, this.height, this.terrain);
+    if (this.lockedDoors.count() > 0) {
+      for (let y = 0; y < this.height; y++) {
+        for (let x = 0; x < this.width; x++) {
+          if (this.isDoorLocked(x, y)) grid.set(x, y, CellType.WALL);
+        }
+      }
+    }
+    return grid;
+  }
+
+  isDoor(x: number, y: number): boolean {
+    return this.getCell(x, y) === CellType.DOOR;
+  }
+
+  isDoorOpen(x: number, y: number): boolean {
+    return this.isDoor(x, y) && this.openDoors.get(x, y);
+  }
+
+  setDoorOpen(x: number, y: number, open: boolean): void {
+    if (!this.isDoor(x, y)) return;
+    this.openDoors.set(x, y, open);
+  }
+
+  isDoorLocked(x: number, y: number): boolean {
+    return this.isDoor(x, y) && this.lockedDoors.get(x, y);
+  }
+
+  setDoorLocked(x: number, y: number, locked: boolean): void {
+    if (!this.isDoor(x, y)) return;
+    this.lockedDoors.set(x, y, locked);
+  }
+
+  // ===========================================================================
+  // Fog of war
+  // ===========================================================================
+
+  isExplored(x: number, y: number): boolean {
+    return this.explored.get(x, y);
+  }
+
+  setExplored(x: number, y: number): void {
+    if (!this.isInBounds(x, y)) return;
+    this.explored.set(x, y, true);
+  }
+
+  isVisible(x: number, y: number): boolean {
+    return this.visible.get(x, y);
+  }
+
+  /**
+   * Mark a tile as currently visible. Visible tiles are always explored.
+   */
+  setVisible(x: number, y: number): void {
+    if (!this.isInBounds(x, y)) return;
+    this.visible.set(x, y, true);
+    this.explored.set(x, y, true);
+  }
+
+  clearVisible(): void {
+    this.visible.clear();
+  }
+
+  exploredCount(): number {
+    return this.explored.count();
+  }
+
+  // ===========================================================================
+  // Occupancy
+  // ===========================================================================
+
+  /**
+   * Entities on a tile, in insertion order. The returned array is live;
+   * copy it before mutating occupancy while iterating.
+   */
+  getEntitiesAt(x: number, y: number): readonly Entity[] {
+    if (!this.isInBounds(x, y)) return EMPTY;
+    return this.occupancy.get(y * this.width + x) ?? EMPTY;
+  }
+
+  hasEntities(x: number, y: number): boolean {
+    return this.getEntitiesAt(x, y).length > 0;
+  }
+
+  /**
+   * Register an entity on a tile. Blocking entities (actors, closed
+   * furniture) prevent other blockers from entering the tile.
+   */
+  addEntity(x: number, y: number, entity: Entity, blocking = false): void {
+    if (!this.isInBounds(x, y)) {
+      throw new Error(`Position (${x}, ${y}) is outside the map`);
+    }
+
+    const key = y * this.width + x;
+    let list = this.occupancy.get(key);
+    if (!list) {
+      list = [];
+      this.occupancy.set(key, list);
+    }
+    if (!list.includes(entity)) {
+      list.push(entity);
+    }
+    if (blocking) {
+      this.blockers.add(entity);
+    }
+  }
+
+  removeEntity(x: number, y: number, entity: Entity): boolean {
+    if (!this.isInBounds(x, y)) return false;
+
+    const key = y * this.width + x;
+    const list = this.occupancy.get(key);
+    if (!list) return false;
+
+    const index = list.indexOf(entity);
+    if (index === -1) return false;
+
+    list.splice(index, 1);
+    if (list.length === 0) {
+      this.occupancy.delete(key);
+    }
+    this.blockers.delete(entity);
+    return true;
+  }
+
+  /**
+   * Move an entity between tiles, preserving its blocking flag.
+   */
+  moveEntity(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    entity: Entity,
+  ): void {
+    const blocking = this.blockers.has(entity);
+    this.removeEntity(fromX, fromY, entity);
+    this.addEntity(toX, toY, entity, blocking);
+  }
+
+  /**
+   * First blocking entity on a tile, or null.
+   */
+  getBlocker(x: number, y: number): Entity | null {
+    for (const entity of this.getEntitiesAt(x, y)) {
+      if (this.blockers.has(entity)) return entity;
+    }
+    return null;
+  }
+
+  isBlocking(entity: Entity): boolean {
+    return this.blockers.has(entity);
+  }
+
+  hasBlocker(x: number, y: number): boolean {
+    return this.getBlocker(x, y) !== null;
+  }
+
+  /**
+   * Whether a blocking entity may step onto the tile.
+   */
+  isPassable(x: number, y: number): boolean {
+    return this.isWalkable(x, y) && !this.hasBlocker(x, y);
+  }
+
+  clearEntities(): void {
+    this.occupancy.clear();
+    this.blockers.clear();
+  }
+}
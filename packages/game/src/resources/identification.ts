@@ -0,0 +1,120 @@
+/**
+ * Identification Resource
+ *
+ * What each player knows about unidentified item kinds, and the random
+ * appearance every such kind wears until identified ("murky red potion").
+ * Appearances are shuffled once per run from the run seed; knowledge is
+ * kept per player entity, so one player learning a kind tells nobody else.
+ */
+
+import type { Entity } from "@rogue/ecs";
+
+/** Resource key under which the IdentificationStore is stored. */
+export const IDENTIFICATION_RESOURCE = "identification";
+
+/**
+ * Appearance pool of an item family: the words shuffled between its kinds
+ * and how a word reads as a name.
+ */
+export interface AppearancePool {
+  readonly words: readonly string[];
+  readonly format: (word: string) => string;
+}
+
+/** Appearance pools by item family tag */
+export const APPEARANCE_POOLS: Readonly<Record<string, AppearancePool>> = {
+  potion: {
+    words: [
+      "murky red",
+      "bubbling green",
+      "cloudy white",
+      "fizzy blue",
+      "smoky black",
+      "glowing amber",
+      "oily purple",
+      "sparkling pink",
+      "milky grey",
+      "golden",
+    ],
+    format: (word) => `${word} potion`,
+  },
+  scroll: {
+    words: [
+      "ZELGO MER",
+      "ELBIB YLOH",
+      "FOOBIE BLETCH",
+      "TEMOV",
+      "GARVEN DEH",
+      "READ ME",
+      "VENZAR BORGAVVE",
+      "PRATYAVAYAH",
+      "DAIYEN FOOELS",
+      "KIRJE",
+    ],
+    format: (word) => `scroll labelled ${word}`,
+  },
+  wand: {
+    words: [
+      "oak",
+      "ebony",
+      "glass",
+      "copper",
+      "bone",
+      "iron",
+      "crystal",
+      "silver",
+      "marble",
+      "runed",
+    ],
+    format: (word) => `${word} wand`,
+  },
+};
+
+export class IdentificationStore {
+  private readonly known = new Map<Entity, Set<string>>();
+
+  /**
+   * @param appearances - appearance of each unidentified item kind
+   */
+  constructor(
+    private readonly appearances: ReadonlyMap<string, string> = new Map(),
+  ) {}
+
+  /**
+   * Appearance of an item kind, if it has one.
+   */
+  appearance(kind: string): string | undefined {
+    return this.appearances.get(kind);
+  }
+
+  isKnown(viewer: Entity, kind: string): boolean {
+    return this.known.get(viewer)?.has(kind) ?? false;
+  }
+
+  /**
+   * Record that a viewer knows an item kind.
+   *
+   * @returns false if it already did
+   */
+  learn(viewer: Entity, kind: string): boolean {
+    let kinds = this.known.get(viewer);
+    if (!kinds) {
+      kinds = new Set();
+      this.known.set(viewer, kinds);
+    }
+    if (kinds.has(kind)) return false;
+    kinds.add(kind);
+    return true;
+  }
+
+  /**
+   * Item kinds a viewer has identified.
+   */
+  knownKinds(viewer: Entity): string[] {
+    return [...(this.known.get(viewer) ?? [])];
+  }
+
+  forget(viewer: Entity): boolean {
+    return this.known.delete(viewer);
+  }
+}
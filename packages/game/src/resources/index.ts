@@ -0,0 +1,90 @@
+/**
+ * Game Resources
+ *
+ * World-level singletons shared by systems (map, turn state, ...).
+ */
+
+export {
+  ABILITIES_RESOURCE,
+  type AbilityDefinition,
+  type AbilityKind,
+  AbilityRegistry,
+  type AbilityShape,
+  type AbilityTargets,
+  DEFAULT_ABILITIES,
+} from "./abilities";
+export { AI_MAPS_RESOURCE, AIMaps } from "./ai-maps";
+export {
+  GAME_MAP_RESOURCE,
+  GameMap,
+  type TileType,
+  WALKABLE_CELLS,
+} from "./game-map";
+export {
+  APPEARANCE_POOLS,
+  type AppearancePool,
+  IDENTIFICATION_RESOURCE,
+  IdentificationStore,
+} from "./identification";
+export {
+  DEFAULT_EFFECT_RANGE,
+  DEFAULT_ITEM_EFFECTS,
+  ITEM_EFFECTS_RESOURCE,
+  type ItemEffectDefinition,
+  type ItemEffectKind,
+  ItemEffectRegistry,
+  type TargetingMode,
+} from "./item-effects";
+export {
+  type ContentOptions,
+  DEFAULT_LEVEL_HEIGHT,
+  DEFAULT_LEVEL_WIDTH,
+  deriveLevelSeed,
+  LEVELS_RESOURCE,
+  type Level,
+  LevelManager,
+  type LevelOptions,
+  type LevelStash,
+  type StashedComponent,
+  type StashedEntity,
+  type StashedRelation,
+  type TravelDirection,
+} from "./levels";
+export {
+  DEFAULT_PERKS,
+  PERKS_RESOURCE,
+  type PerkComponent,
+  type PerkDefinition,
+  PerkRegistry,
+} from "./perks";
+export {
+  DEFAULT_MAX_LEVEL,
+  DEFAULT_PERK_INTERVAL,
+  DEFAULT_STAT_GROWTH,
+  geometricCurve,
+  type LevelCurve,
+  PROGRESSION_RESOURCE,
+  type ProgressionOptions,
+  ProgressionRules,
+  type StatBonus,
+} from "./progression";
+export { RANDOM_RESOURCE, RandomStreams } from "./random";
+export { RUN_RESOURCE, type RunProgress, RunRecords } from "./run";
+export {
+  type ModifiedStat,
+  STATUSES_RESOURCE,
+  type StackingPolicy,
+  type StatModifierSet,
+  type StatusDefinition,
+  type StatusHook,
+  type StatusHookContext,
+  StatusRegistry,
+} from "./statuses";
+export {
+  type ActionType,
+  TURN_STATE_RESOURCE,
+  type TurnPhase,
+  type TurnState,
+  TurnStateManager,
+} from "./turn-state";
+export { VISIBILITY_RESOURCE, VisibilityStore } from "./visibility";
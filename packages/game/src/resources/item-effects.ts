@@ -0,0 +1,170 @@
+/**
+ * Item Effect Registry Resource
+ *
+ * Data-driven definitions of what using an item does. Items point at a
+ * definition through `ItemEffect.effect`; the definition says how the
+ * effect is aimed and what it does to each target.
+ */
+
+/** Resource key under which the ItemEffectRegistry is stored. */
+export const ITEM_EFFECTS_RESOURCE = "itemEffects";
+
+/**
+ * How an effect picks its targets.
+ *
+ * - self: the user
+ * - adjacent: the creature on an adjacent aimed tile
+ * - line: the first creature along a line toward the aimed tile
+ * - area: every creature within `radius` of the aimed tile
+ */
+export type TargetingMode = "self" | "adjacent" | "line" | "area";
+
+export type ItemEffectKind =
+  | "heal"
+  | "damage"
+  | "status"
+  | "teleport"
+  | "mapping"
+  | "identify"
+  | "feed";
+
+export interface ItemEffectDefinition {
+  /** Unique id referenced by items */
+  readonly id: string;
+  readonly kind: ItemEffectKind;
+  readonly targeting: TargetingMode;
+  /** Max distance to the aimed tile for line and area effects */
+  readonly range?: number;
+  /** Area radius around the aimed tile */
+  readonly radius?: number;
+  /** HP restored (heal) or dealt (damage), satiety restored (feed) */
+  readonly power?: number;
+  /** Status id applied by status effects */
+  readonly status?: string;
+  /** Status duration in turns */
+  readonly duration?: number;
+  /** Message shown to the user when the effect resolves */
+  readonly message?: string;
+}
+
+export const DEFAULT_EFFECT_RANGE = 8;
+
+export const DEFAULT_ITEM_EFFECTS: readonly ItemEffectDefinition[] = [
+  {
+    id: "healing",
+    kind: "heal",
+    targeting: "self",
+    power: 10,
+    message: "You feel better.",
+  },
+  {
+    id: "teleportation",
+    kind: "teleport",
+    targeting: "self",
+    message: "Space folds around you.",
+  },
+  {
+    id: "fireball",
+    kind: "damage",
+    targeting: "area",
+    range: 8,
+    radius: 1,
+    power: 8,
+    message: "A ball of fire explodes!",
+  },
+  {
+    id: "lightning",
+    kind: "damage",
+    targeting: "line",
+    range: 8,
+    power: 12,
+    message: "A bolt of lightning crackles.",
+  },
+  {
+    id: "poison",
+    kind: "status",
+    targeting: "self",
+    status: "poison",
+    duration: 5,
+    message: "You feel sick.",
+  },
+  {
+    id: "slowness",
+    kind: "status",
+    targeting: "line",
+    range: 8,
+    status: "slow",
+    duration: 10,
+  },
+  {
+    id: "paralysis",
+    kind: "status",
+    targeting: "adjacent",
+    status: "paralysis",
+    duration: 3,
+  },
+  {
+    id: "magic_mapping",
+    kind: "mapping",
+    targeting: "self",
+    message: "An image of your surroundings forms in your mind.",
+  },
+  {
+    id: "identify",
+    kind: "identify",
+    targeting: "self",
+  },
+  {
+    id: "ration",
+    kind: "feed",
+    targeting: "self",
+    power: 800,
+    message: "That food really hit the spot!",
+  },
+  {
+    id: "apple",
+    kind: "feed",
+    targeting: "self",
+    power: 200,
+    message: "Crunchy.",
+  },
+];
+
+/**
+ * Registry of item effect definitions, preloaded with the defaults.
+ *
+ * @example
+ * const effects = world.resources.require<ItemEffectRegistry>(
+ *   ITEM_EFFECTS_RESOURCE,
+ * );
+ * effects.define({ id: "frost", kind: "status", targeting: "area",
+ *   radius: 2, status: "slow", duration: 4 });
+ */
+export class ItemEffectRegistry {
+  private readonly effects = new Map<string, ItemEffectDefinition>();
+
+  constructor(effects: readonly ItemEffectDefinition[] = DEFAULT_ITEM_EFFECTS) {
+    for (const effect of effects) {
+      this.define(effect);
+    }
+  }
+
+  define(effect: ItemEffectDefinition): void {
+    if (this.effects.has(effect.id)) {
+      throw new Error(`Item effect "${effect.id}" is already defined`);
+    }
+    this.effects.set(effect.id, effect);
+  }
+
+  has(id: string): boolean {
+    return this.effects.has(id);
+  }
+
+  get(id: string): ItemEffectDefinition | undefined {
+    return this.effects.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.effects.keys()];
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Level Manager Resource
+ *
+ * The dungeon as a stack of levels. Each depth's seed is derived from the
+ * run seed, so a run always produces the same floors; floors are only
+ * generated when first visited. Levels the players left keep their map
+ * state and a stash of their entities until the players come back.
+ */
+
+import type { DungeonConfig, DungeonSeed } from "@rogue/contracts";
+import type { ComponentClass, Entity, RelationType } from "@rogue/ecs";
+import {
+  createSeed,
+  type DungeonArtifact,
+  type GenerationConfig,
+  generate,
+} from "@rogue/procgen";
+import { GameMap } from "./game-map";
+
+/** Resource key under which the LevelManager is stored. */
+export const LEVELS_RESOURCE = "levels";
+
+export const DEFAULT_LEVEL_WIDTH = 80;
+export const DEFAULT_LEVEL_HEIGHT = 50;
+
+export type TravelDirection = "down" | "up";
+
+/**
+ * Content settings of a dungeon config (`DungeonConfig.content`): how
+ * dangerous and how full levels are once populated.
+ */
+export type ContentOptions = NonNullable<DungeonConfig["content"]>;
+
+export interface LevelOptions {
+  readonly width?: number;
+  readonly height?: number;
+  readonly algorithm?: GenerationConfig["algorithm"];
+  /** Monsters, items and traps placed on each new level */
+  readonly content?: ContentOptions;
+}
+
+/**
+ * One component of a stashed entity. String fields are stored by value
+ * and entity references by id, to be remapped on restore.
+ */
+export interface StashedComponent {
+  readonly type: ComponentClass;
+  readonly data: Record<string, number>;
+  readonly strings: Record<string, string>;
+  readonly refs: Record<string, Entity | null>;
+}
+
+export interface StashedEntity {
+  /** Id the entity had when it was stashed */
+  readonly id: Entity;
+  readonly components: readonly StashedComponent[];
+  /** Whether it blocked its tile */
+  readonly blocking: boolean;
+}
+
+export interface StashedRelation {
+  readonly relation: RelationType;
+  readonly source: Entity;
+  readonly target: Entity;
+}
+
+/**
+ * Entities of a level nobody is on.
+ */
+export interface LevelStash {
+  readonly entities: readonly StashedEntity[];
+  readonly relations: readonly StashedRelation[];
+}
+
+export interface Level {
+  readonly depth: number;
+  readonly artifact: DungeonArtifact;
+  readonly map: GameMap;
+  /** Entities left behind, or null if the level was never populated */
+  stash: LevelStash | null;
+}
+
+/**
+ * Mix the run seed with a depth into the primary seed of that floor.
+ */
+export function deriveLevelSeed(seed: number, depth: number): number {
+  let hash = (seed ^ Math.imul(depth, 0x9e3779b9)) >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * Levels of the current run, indexed by depth (1 = first floor).
+ *
+ * @example
+ * const levels = new LevelManager(runSeed);
+ * const level = levels.getLevel(3); // generated on first access
+ */
+export class LevelManager {
+  private readonly levels = new Map<number, Level>();
+  private readonly options: LevelOptions;
+  private current = 0;
+  private deepestDepth = 0;
+  private pending: TravelDirection | null = null;
+
+  constructor(
+    readonly seed: number,
+    options: LevelOptions = {},
+  ) {
+    this.options = options;
+  }
+
+  /** Content settings used to populate new levels. */
+  get content(): ContentOptions {
+    return this.options.content ?? {};
+  }
+
+  /** Depth of the level being played; 0 before the first level loads. */
+  get depth(): number {
+    return this.current;
+  }
+
+  /** Deepest depth entered so far. */
+  get deepest(): number {
+    return this.deepestDepth;
+  }
+
+  /** @internal Called by the level system once a level is entered. */
+  setDepth(depth: number): void {
+    this.current = depth;
+    this.deepestDepth = Math.max(this.deepestDepth, depth);
+  }
+
+  getSeed(depth: number): DungeonSeed {
+    return createSeed(deriveLevelSeed(this.seed, depth));
+  }
+
+  hasLevel(depth: number): boolean {
+    return this.levels.has(depth);
+  }
+
+  /**
+   * Use a prebuilt dungeon for a depth instead of generating it.
+   */
+  addLevel(depth: number, artifact: DungeonArtifact): Level {
+    if (this.levels.has(depth)) {
+      throw new Error(`Level ${depth} already exists`);
+    }
+    const level: Level = {
+      depth,
+      artifact,
+      map: new GameMap(artifact),
+      stash: null,
+    };
+    this.levels.set(depth, level);
+    return level;
+  }
+
+  /**
+   * Get a level, generating it on first access.
+   */
+  getLevel(depth: number): Level {
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error(`Invalid depth: ${depth}`);
+    }
+
+    const existing = this.levels.get(depth);
+    if (existing) return existing;
+
+    const result = generate({
+      width: this.options.width ?? DEFAULT_LEVEL_WIDTH,
+      height: this.options.height ?? DEFAULT_LEVEL_HEIGHT,
+      seed: this.getSeed(depth),
+      ...(this.options.algorithm ? { algorithm: this.options.algorithm } : {}),
+    });
+    if (!result.success) {
+      throw new Error(
+        `Failed to generate level ${depth}: ${result.error.message}`,
+      );
+    }
+    return this.addLevel(depth, result.artifact);
+  }
+
+  /**
+   * Queue a move to the next or previous depth, applied at the end of
+   * the current tick.
+   */
+  requestTravel(direction: TravelDirection): void {
+    this.pending = direction;
+  }
+
+  /** @internal Take the queued travel direction, if any. */
+  takeTravel(): TravelDirection | null {
+    const direction = this.pending;
+    this.pending = null;
+    return direction;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Perk Registry Resource
+ *
+ * Perks an entity can pick with its perk points. Each perk is backed by a
+ * component holding its rank, so choices are saved with the entity.
+ */
+
+import type { ComponentClass } from "@rogue/ecs";
+import {
+  Brawler,
+  Evasion,
+  KeenEyes,
+  Precision,
+  Swiftness,
+  Toughness,
+} from "../components/progression";
+import type { StatBonus } from "./progression";
+
+/** Resource key under which the PerkRegistry is stored. */
+export const PERKS_RESOURCE = "perks";
+
+/**
+ * Perk component shape: every perk has a `rank` field recording how many
+ * times it was taken.
+ */
+export interface PerkComponent {
+  rank: unknown;
+}
+
+export interface PerkDefinition {
+  /** Unique id, e.g. "toughness" */
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly component: ComponentClass<PerkComponent>;
+  readonly maxRank: number;
+  /** Added to base stats each time the perk is taken */
+  readonly bonus: StatBonus;
+}
+
+export const DEFAULT_PERKS: readonly PerkDefinition[] = [
+  {
+    id: "toughness",
+    name: "Toughness",
+    description: "+5 maximum health.",
+    component: Toughness,
+    maxRank: 3,
+    bonus: { maxHealth: 5 },
+  },
+  {
+    id: "brawler",
+    name: "Brawler",
+    description: "+1 attack.",
+    component: Brawler,
+    maxRank: 3,
+    bonus: { attack: 1 },
+  },
+  {
+    id: "evasion",
+    name: "Evasion",
+    description: "+1 defense.",
+    component: Evasion,
+    maxRank: 3,
+    bonus: { defense: 1 },
+  },
+  {
+    id: "precision",
+    name: "Precision",
+    description: "+1 accuracy and +3% critical chance.",
+    component: Precision,
+    maxRank: 2,
+    bonus: { accuracy: 1, critChance: 3 },
+  },
+  {
+    id: "swiftness",
+    name: "Swiftness",
+    description: "Act 20% more often.",
+    component: Swiftness,
+    maxRank: 1,
+    bonus: { speed: 2 },
+  },
+  {
+    id: "keen_eyes",
+    name: "Keen Eyes",
+    description: "+2 sight radius.",
+    component: KeenEyes,
+    maxRank: 1,
+    bonus: { fovRadius: 2 },
+  },
+];
+
+/**
+ * Registry of perk definitions, preloaded with the defaults.
+ */
+export class PerkRegistry {
+  private readonly perks = new Map<string, PerkDefinition>();
+
+  constructor(perks: readonly PerkDefinition[] = DEFAULT_PERKS) {
+    for (const perk of perks) {
+      this.define(perk);
+    }
+  }
+
+  define(perk: PerkDefinition): void {
+    if (this.perks.has(perk.id)) {
+      throw new Error(`Perk "${perk.id}" is already defined`);
+    }
+    this.perks.set(perk.id, perk);
+  }
+
+  has(id: string): boolean {
+    return this.perks.has(id);
+  }
+
+  get(id: string): PerkDefinition | undefined {
+    return this.perks.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.perks.keys()];
+  }
+}
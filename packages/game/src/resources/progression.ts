@@ -0,0 +1,90 @@
+/**
+ * Progression Rules Resource
+ *
+ * How much experience each level costs, how stats grow on level-up and
+ * how often a perk can be chosen.
+ */
+
+/** Resource key under which the ProgressionRules are stored. */
+export const PROGRESSION_RESOURCE = "progression";
+
+/**
+ * Flat increases to base stats, used for level-up growth and perks.
+ */
+export interface StatBonus {
+  readonly maxHealth?: number;
+  readonly attack?: number;
+  readonly defense?: number;
+  readonly accuracy?: number;
+  readonly armor?: number;
+  readonly critChance?: number;
+  /** Energy gained per tick */
+  readonly speed?: number;
+  /** Field of view radius */
+  readonly fovRadius?: number;
+}
+
+/**
+ * XP needed to advance from `level` to `level + 1`.
+ */
+export type LevelCurve = (level: number) => number;
+
+export interface ProgressionOptions {
+  readonly curve?: LevelCurve;
+  /** Highest reachable level; XP stops accumulating there */
+  readonly maxLevel?: number;
+  /** Stat growth applied on every level-up */
+  readonly growth?: StatBonus;
+  /** A perk point is granted every `perkInterval` levels */
+  readonly perkInterval?: number;
+}
+
+export const DEFAULT_MAX_LEVEL = 30;
+export const DEFAULT_PERK_INTERVAL = 2;
+
+export const DEFAULT_STAT_GROWTH: StatBonus = {
+  maxHealth: 4,
+  attack: 1,
+  accuracy: 1,
+};
+
+/**
+ * Curve where each level costs `factor` times the previous one.
+ */
+export function geometricCurve(base = 100, factor = 1.5): LevelCurve {
+  return (level) => Math.round(base * factor ** (level - 1));
+}
+
+/**
+ * @example
+ * world.resources.set(
+ *   PROGRESSION_RESOURCE,
+ *   new ProgressionRules({ curve: (level) => level * 50, maxLevel: 10 }),
+ * );
+ */
+export class ProgressionRules {
+  readonly maxLevel: number;
+  readonly growth: StatBonus;
+  readonly perkInterval: number;
+  private readonly curve: LevelCurve;
+
+  constructor(options: ProgressionOptions = {}) {
+    this.curve = options.curve ?? geometricCurve();
+    this.maxLevel = options.maxLevel ?? DEFAULT_MAX_LEVEL;
+    this.growth = options.growth ?? DEFAULT_STAT_GROWTH;
+    this.perkInterval = options.perkInterval ?? DEFAULT_PERK_INTERVAL;
+  }
+
+  /**
+   * XP needed to leave `level`; 0 at the maximum level.
+   */
+  xpToNext(level: number): number {
+    if (level >= this.maxLevel) return 0;
+    return Math.max(1, Math.round(this.curve(level)));
+  }
+
+  /** Whether reaching `level` grants a perk point. */
+  grantsPerk(level: number): boolean {
+    return this.perkInterval > 0 && level % this.perkInterval === 0;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Random Streams Resource
+ *
+ * Named, independently seeded RNG streams derived from one run seed.
+ * Each gameplay module draws from its own stream so that, for example,
+ * an extra AI roll never shifts the outcome of the next combat roll.
+ */
+
+import { type RngState, SeededRandom } from "@rogue/contracts";
+
+/** Resource key under which the RandomStreams are stored. */
+export const RANDOM_RESOURCE = "random";
+
+/**
+ * FNV-1a over the stream name, mixed with the run seed.
+ */
+function deriveSeed(seed: number, name: string): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class RandomStreams {
+  private readonly streams = new Map<string, SeededRandom>();
+
+  constructor(readonly seed: number) {}
+
+  /**
+   * Get (or lazily create) the stream for a module, e.g. `"combat"`.
+   */
+  get(name: string): SeededRandom {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new SeededRandom(deriveSeed(this.seed, name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Capture the state of every stream created so far.
+   */
+  getState(): Record<string, RngState> {
+    const state: Record<string, RngState> = {};
+    for (const [name, stream] of this.streams) {
+      state[name] = stream.getState();
+    }
+    return state;
+  }
+
+  setState(state: Record<string, RngState>): void {
+    for (const [name, value] of Object.entries(state)) {
+      this.get(name).setState(value);
+    }
+  }
+}
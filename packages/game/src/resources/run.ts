@@ -0,0 +1,64 @@
+/**
+ * Run Resource
+ *
+ * Summaries of the runs that have ended, by player entity. A summary is
+ * built once, when its run ends, and kept for the server to send and for
+ * morgue files to be written from. Until then, the progress of each run
+ * is counted as the player acts.
+ */
+
+import type { RunSummary } from "@rogue/contracts";
+import type { Entity } from "@rogue/ecs";
+
+/** Resource key under which the RunRecords are stored. */
+export const RUN_RESOURCE = "runs";
+
+/** What a player has done so far in its run. */
+export interface RunProgress {
+  turns: number;
+  /** Kills by template id */
+  kills: Record<string, number>;
+  /** Names of the items picked up, in order */
+  items: string[];
+}
+
+export class RunRecords {
+  private readonly summaries = new Map<Entity, RunSummary>();
+  private readonly progress = new Map<Entity, RunProgress>();
+
+  /** Progress of a player's run, started on first use. */
+  getProgress(player: Entity): RunProgress {
+    let progress = this.progress.get(player);
+    if (!progress) {
+      progress = { turns: 0, kills: {}, items: [] };
+      this.progress.set(player, progress);
+    }
+    return progress;
+  }
+
+  /**
+   * Record how a player's run ended.
+   *
+   * @throws if the run already ended
+   */
+  record(player: Entity, summary: RunSummary): void {
+    if (this.summaries.has(player)) {
+      throw new Error(`Run of entity ${player} already ended`);
+    }
+    this.summaries.set(player, summary);
+    this.progress.delete(player);
+  }
+
+  get(player: Entity): RunSummary | undefined {
+    return this.summaries.get(player);
+  }
+
+  hasEnded(player: Entity): boolean {
+    return this.summaries.has(player);
+  }
+
+  forget(player: Entity): boolean {
+    this.progress.delete(player);
+    return this.summaries.delete(player);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Status Registry Resource
+ *
+ * Definitions of the status effects an entity can suffer: how repeated
+ * applications stack, which stats they modify while active and which
+ * hooks run on the affected entity's turns.
+ */
+
+import type { Entity, World } from "@rogue/ecs";
+import type { TurnStateManager } from "./turn-state";
+
+/** Resource key under which the StatusRegistry is stored. */
+export const STATUSES_RESOURCE = "statuses";
+
+/**
+ * What re-applying an active status does to its remaining duration.
+ *
+ * - refresh: reset to the new duration
+ * - add: extend by the new duration (up to `maxDuration`)
+ * - max: keep the longer of the two
+ */
+export type StackingPolicy = "refresh" | "add" | "max";
+
+/**
+ * Flat stat changes while a status is active.
+ */
+export interface StatModifierSet {
+  readonly attack?: number;
+  readonly defense?: number;
+  readonly accuracy?: number;
+  readonly armor?: number;
+  readonly critChance?: number;
+  /** Energy gained per tick */
+  readonly speed?: number;
+  /** Field of view radius */
+  readonly fovRadius?: number;
+}
+
+export type ModifiedStat = keyof StatModifierSet;
+
+export interface StatusHookContext {
+  readonly world: World;
+  /** Affected entity */
+  readonly entity: Entity;
+  /** The status entity */
+  readonly status: Entity;
+  /** Whoever applied the status, if still alive */
+  readonly source: Entity | null;
+  readonly turn: TurnStateManager;
+}
+
+export type StatusHook = (ctx: StatusHookContext) => void;
+
+export interface StatusDefinition {
+  /** Unique id, e.g. "poison" */
+  readonly id: string;
+  readonly stacking: StackingPolicy;
+  /** Cap on the remaining duration */
+  readonly maxDuration?: number;
+  readonly modifiers?: StatModifierSet;
+  /**
+   * Runs when the affected entity is scheduled to act, before it chooses
+   * an action. Committing an action here takes the turn away from it.
+   */
+  readonly onTurnStart?: StatusHook;
+  /** Runs after the affected entity's action resolved */
+  readonly onTurnEnd?: StatusHook;
+}
+
+/**
+ * Registry of status definitions. Statuses applied without a definition
+ * behave as plain timers with the "max" stacking policy.
+ */
+export class StatusRegistry {
+  private readonly statuses = new Map<string, StatusDefinition>();
+
+  constructor(statuses: readonly StatusDefinition[] = []) {
+    for (const status of statuses) {
+      this.define(status);
+    }
+  }
+
+  define(status: StatusDefinition): void {
+    if (this.statuses.has(status.id)) {
+      throw new Error(`Status "${status.id}" is already defined`);
+    }
+    this.statuses.set(status.id, status);
+  }
+
+  has(id: string): boolean {
+    return this.statuses.has(id);
+  }
+
+  get(id: string): StatusDefinition | undefined {
+    return this.statuses.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.statuses.keys()];
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Turn State Resource
+ *
+ * Bookkeeping for the energy-based turn scheduler: game time, which actors
+ * are acting this tick, and the actions they have committed to.
+ */
+
+import type { Entity } from "@rogue/ecs";
+
+/** Resource key under which the TurnStateManager is stored. */
+export const TURN_STATE_RESOURCE = "turnState";
+
+/**
+ * Action types an actor can commit to for its turn.
+ */
+export type ActionType =
+  | "wait"
+  | "move"
+  | "attack"
+  | "fire"
+  | "throw"
+  | "cast"
+  | "interact"
+  | "use_item";
+
+/**
+ * An action submitted by a player or chosen by AI.
+ * `data` is interpreted by the system that resolves the action type.
+ */
+export interface ActionRequest {
+  readonly type: ActionType;
+  readonly data?: Readonly<Record<string, number>>;
+}
+
+/**
+ * - `idle`: nobody is acting; the next tick will schedule actors.
+ * - `acting`: actors are scheduled and at least one player must submit.
+ * - `resolving`: every scheduled actor has an action; systems apply them.
+ */
+export type TurnPhase = "idle" | "acting" | "resolving";
+
+export interface TurnState {
+  readonly activeEntity: Entity | null;
+  readonly turnPhase: TurnPhase;
+  readonly currentTick: number;
+}
+
+/**
+ * Tracks the scheduler's view of game time.
+ *
+ * `currentTick` counts game ticks (energy grants), which may advance by
+ * many per world tick when the scheduler fast-forwards idle time.
+ */
+export class TurnStateManager {
+  private currentTick = 0;
+  private round = 0;
+  private phase: TurnPhase = "idle";
+  private activeEntity: Entity | null = null;
+  private actors: Entity[] = [];
+  private readonly players = new Set<Entity>();
+  private readonly actions = new Map<Entity, ActionRequest>();
+
+  getCurrentTick(): number {
+    return this.currentTick;
+  }
+
+  /**
+   * Number of scheduling rounds started so far.
+   */
+  getRound(): number {
+    return this.round;
+  }
+
+  getState(): TurnState {
+    return {
+      activeEntity: this.activeEntity,
+      turnPhase: this.phase,
+      currentTick: this.currentTick,
+    };
+  }
+
+  getPhase(): TurnPhase {
+    return this.phase;
+  }
+
+  isResolving(): boolean {
+    return this.phase === "resolving";
+  }
+
+  /**
+   * Actors scheduled for the current tick, in acting order.
+   */
+  getActors(): readonly Entity[] {
+    return this.actors;
+  }
+
+  isActing(entity: Entity): boolean {
+    return this.actors.includes(entity);
+  }
+
+  getAction(entity: Entity): ActionRequest | undefined {
+    return this.actions.get(entity);
+  }
+
+  /**
+   * Commit an action for a scheduled actor.
+   * @returns false if the entity is not acting or already committed
+   */
+  setAction(entity: Entity, action: ActionRequest): boolean {
+    if (this.phase === "idle" || !this.isActing(entity)) return false;
+    if (this.actions.has(entity)) return false;
+    this.actions.set(entity, action);
+    return true;
+  }
+
+  /**
+   * Replace an actor's committed action (e.g. a move redirected into
+   * an attack). Only valid while resolving.
+   */
+  replaceAction(entity: Entity, action: ActionRequest): void {
+    if (this.phase !== "resolving" || !this.isActing(entity)) return;
+    this.actions.set(entity, action);
+  }
+
+  /**
+   * First scheduled player that still has to submit an action, or null.
+   */
+  nextAwaitingInput(): Entity | null {
+    for (const entity of this.actors) {
+      if (this.players.has(entity) && !this.actions.has(entity)) {
+        return entity;
+      }
+    }
+    return null;
+  }
+
+  /** @internal Called by the turn system when game time advances. */
+  advance(ticks: number): void {
+    this.currentTick += ticks;
+  }
+
+  /** @internal Called by the turn system when actors become ready. */
+  begin(actors: readonly Entity[], players: readonly Entity[]): void {
+    this.actors = [...actors];
+    this.players.clear();
+    for (const player of players) {
+      this.players.add(player);
+    }
+    this.actions.clear();
+    this.round++;
+    this.phase = "acting";
+    this.activeEntity = this.actors[0] ?? null;
+  }
+
+  /** @internal Called by the turn system to block on a player. */
+  awaitInput(entity: Entity): void {
+    this.phase = "acting";
+    this.activeEntity = entity;
+  }
+
+  /** @internal Called by the turn system once all actions are known. */
+  resolve(): void {
+    this.phase = "resolving";
+    this.activeEntity = this.actors[0] ?? null;
+  }
+
+  /** @internal Called by the turn system after actions were applied. */
+  finish(): void {
+    this.actors = [];
+    this.players.clear();
+    this.actions.clear();
+    this.phase = "idle";
+    this.activeEntity = null;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Visibility Store Resource
+ *
+ * Per-viewer visible cell lists produced by the FOV system. Cell lists
+ * are variable-length, so they live here rather than in component columns.
+ */
+
+import type { Entity } from "@rogue/ecs";
+import type { VisibleCellsData } from "../components/fov";
+
+/** Resource key under which the VisibilityStore is stored. */
+export const VISIBILITY_RESOURCE = "visibility";
+
+const EMPTY = new Uint32Array(0);
+
+export class VisibilityStore {
+  private readonly cells = new Map<Entity, Uint32Array>();
+  private readonly lookup = new Map<Entity, Set<number>>();
+
+  /**
+   * Visible cells of a viewer; empty if it has not been computed yet.
+   */
+  get(entity: Entity): VisibleCellsData {
+    const cells = this.cells.get(entity) ?? EMPTY;
+    return { cells, count: cells.length };
+  }
+
+  set(entity: Entity, cells: Uint32Array): void {
+    this.cells.set(entity, cells);
+    this.lookup.delete(entity);
+  }
+
+  has(entity: Entity): boolean {
+    return this.cells.has(entity);
+  }
+
+  /**
+   * Whether a packed cell is visible to a viewer. Builds a lookup set
+   * lazily on first query after each recompute.
+   */
+  canSee(entity: Entity, packed: number): boolean {
+    let set = this.lookup.get(entity);
+    if (!set) {
+      const cells = this.cells.get(entity);
+      if (!cells) return false;
+      set = new Set(cells);
+      this.lookup.set(entity, set);
+    }
+    return set.has(packed);
+  }
+
+  delete(entity: Entity): boolean {
+    this.lookup.delete(entity);
+    return this.cells.delete(entity);
+  }
+
+  viewers(): IterableIterator<Entity> {
+    return this.cells.keys();
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.lookup.clear();
+  }
+}
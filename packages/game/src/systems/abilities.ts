@@ -0,0 +1,523 @@
+/**
+ * Abilities
+ *
+ * Casting the class abilities and spells of the AbilityRegistry. Known
+ * abilities are `ChildOf` children of their owner holding the ability id
+ * and its cooldown, so they go away with the owner.
+ *
+ * A cast is validated before anything is spent: the ability must be
+ * ready, affordable, in range and in line of sight, and single-target
+ * abilities need something to target. Clients get the same checks up
+ * front through `validateCast`. The area is then resolved against the
+ * GameMap and its occupancy: walls block every shape, and area tiles need
+ * line of sight from the area's origin.
+ *
+ * Mana regenerates and cooldowns count down at the end of each of the
+ * owner's turns, so an ability with a cooldown of N can be cast again N
+ * turns later.
+ */
+
+import {
+  ChildOf,
+  Dead,
+  defineSystem,
+  Enemy,
+  type Entity,
+  Phase,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import { bresenhamLine } from "@rogue/procgen/core";
+import { Ability, CastRequest, Mana, Summoned } from "../components/abilities";
+import { Ally, Health } from "../components/combat";
+import { Position } from "../components/position";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../prefabs/registry";
+import {
+  ABILITIES_RESOURCE,
+  type AbilityDefinition,
+  type AbilityRegistry,
+} from "../resources/abilities";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { applyDamage, heal, isFriendly, isHostile } from "./combat";
+import { invalidateFov } from "./fov";
+import { applyStatus } from "./status";
+import { turnResolving } from "./turn";
+
+/** Cosine of the cone half-angle (45°) */
+const CONE_SPREAD = Math.SQRT1_2;
+
+/**
+ * Why a cast was refused.
+ */
+export type CastError =
+  | "unknown_ability"
+  | "on_cooldown"
+  | "not_enough_mana"
+  | "out_of_range"
+  | "no_line_of_sight"
+  | "invalid_target";
+
+export interface CastFailure {
+  readonly error: CastError;
+  /** Message for the caster */
+  readonly message: string;
+}
+
+interface Tile {
+  readonly x: number;
+  readonly y: number;
+}
+
+function getDefinition(
+  world: World,
+  ability: Entity,
+): AbilityDefinition | undefined {
+  const id = world.getString(ability, Ability, "name") ?? "";
+  return world.resources.get<AbilityRegistry>(ABILITIES_RESOURCE)?.get(id);
+}
+
+/**
+ * Ability entities known by an entity.
+ */
+export function getAbilities(world: World, entity: Entity): Entity[] {
+  return world.getSources(entity, ChildOf).filter((e) => world.has(e, Ability));
+}
+
+export function findAbility(
+  world: World,
+  entity: Entity,
+  id: string,
+): Entity | null {
+  for (const ability of getAbilities(world, entity)) {
+    if (world.getString(ability, Ability, "name") === id) return ability;
+  }
+  return null;
+}
+
+/**
+ * Teach an entity an ability. Learning a known ability does nothing.
+ *
+ * @returns the ability entity
+ */
+export function learnAbility(world: World, entity: Entity, id: string): Entity {
+  const known = findAbility(world, entity, id);
+  if (known !== null) return known;
+
+  const ability = world.spawn(Ability);
+  world.setString(ability, Ability, "name", id);
+  world.relate(ability, ChildOf, entity);
+  return ability;
+}
+
+function distance(a: Tile, b: Tile): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+/**
+ * Whether nothing opaque lies strictly between two tiles.
+ */
+function hasLineOfSight(map: GameMap, from: Tile, to: Tile): boolean {
+  const line = bresenhamLine(from, to);
+  for (let i = 1; i < line.length - 1; i++) {
+    if (map.isOpaque(line[i]!.x, line[i]!.y)) return false;
+  }
+  return true;
+}
+
+function isOpen(map: GameMap, tile: Tile): boolean {
+  return map.isInBounds(tile.x, tile.y) && !map.isOpaque(tile.x, tile.y);
+}
+
+/**
+ * Tiles around `origin` within Euclidean `radius` that pass `accept` and
+ * can be seen from the origin.
+ */
+function tilesAround(
+  map: GameMap,
+  origin: Tile,
+  radius: number,
+  accept: (dx: number, dy: number) => boolean,
+): Tile[] {
+  const tiles: Tile[] = [];
+  const limit = radius * (radius + 1);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const tile = { x: origin.x + dx, y: origin.y + dy };
+      if (dx * dx + dy * dy > limit || !accept(dx, dy)) continue;
+      if (isOpen(map, tile) && hasLineOfSight(map, origin, tile)) {
+        tiles.push(tile);
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Tiles an ability cast from `from` at `aim` covers, in row-major order
+ * for areas and in flight order for lines.
+ */
+export function getAbilityArea(
+  map: GameMap,
+  definition: AbilityDefinition,
+  from: Tile,
+  aim: Tile,
+): Tile[] {
+  switch (definition.shape) {
+    case "self":
+      return [{ x: from.x, y: from.y }];
+
+    case "single":
+      return [{ x: aim.x, y: aim.y }];
+
+    case "circle":
+      return tilesAround(map, aim, definition.radius ?? 1, () => true);
+
+    case "line": {
+      const tiles: Tile[] = [];
+      for (const point of bresenhamLine(from, aim).slice(1)) {
+        if (!isOpen(map, point)) break;
+        tiles.push({ x: point.x, y: point.y });
+      }
+      return tiles;
+    }
+
+    case "cone": {
+      const ax = aim.x - from.x;
+      const ay = aim.y - from.y;
+      const length = Math.hypot(ax, ay);
+      return tilesAround(
+        map,
+        from,
+        definition.radius ?? definition.range,
+        (dx, dy) =>
+          (dx !== 0 || dy !== 0) &&
+          (dx * ax + dy * ay) / (Math.hypot(dx, dy) * length) >= CONE_SPREAD,
+      );
+    }
+  }
+}
+
+function isTarget(
+  world: World,
+  caster: Entity,
+  definition: AbilityDefinition,
+  entity: Entity,
+): boolean {
+  if (!world.has(entity, Health) || world.has(entity, Dead)) return false;
+  switch (definition.targets ?? "any") {
+    case "hostile":
+      return isHostile(world, caster, entity);
+    case "friendly":
+      return entity === caster || isFriendly(world, caster, entity);
+    case "any":
+      return true;
+  }
+}
+
+/**
+ * Creatures an ability cast at `aim` would affect.
+ */
+export function resolveAbilityTargets(
+  world: World,
+  caster: Entity,
+  definition: AbilityDefinition,
+  aim: Tile,
+): Entity[] {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(caster, Position);
+  if (!map || !pos) return [];
+
+  const targets: Entity[] = [];
+  for (const tile of getAbilityArea(map, definition, pos, aim)) {
+    for (const entity of map.getEntitiesAt(tile.x, tile.y)) {
+      if (isTarget(world, caster, definition, entity)) targets.push(entity);
+    }
+  }
+  return targets;
+}
+
+function fail(error: CastError, message: string): CastFailure {
+  return { error, message };
+}
+
+/**
+ * Check whether `caster` may cast `ability` at tile (x, y) right now.
+ *
+ * @returns null if the cast is valid
+ */
+export function validateCast(
+  world: World,
+  caster: Entity,
+  ability: Entity,
+  x: number,
+  y: number,
+): CastFailure | null {
+  const definition = getAbilities(world, caster).includes(ability)
+    ? getDefinition(world, ability)
+    : undefined;
+  if (!definition) {
+    return fail("unknown_ability", "You don't know that ability.");
+  }
+
+  const cooldown = world.get(ability, Ability)!.cooldown;
+  if (cooldown > 0) {
+    return fail(
+      "on_cooldown",
+      `${definition.name} will be ready in ${cooldown} turns.`,
+    );
+  }
+  if (definition.cost > (world.get(caster, Mana)?.current ?? 0)) {
+    return fail("not_enough_mana", "You don't have enough mana.");
+  }
+  if (definition.shape === "self") return null;
+
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(caster, Position);
+  const aim = { x, y };
+  if (!map || !pos || !map.isInBounds(x, y)) {
+    return fail("invalid_target", "That is not a valid target.");
+  }
+  if (distance(pos, aim) > definition.range) {
+    return fail("out_of_range", "That is out of range.");
+  }
+
+  const directional =
+    definition.shape === "line" || definition.shape === "cone";
+  if (directional && distance(pos, aim) === 0) {
+    return fail("invalid_target", "That is not a valid target.");
+  }
+  if ((!directional && map.isOpaque(x, y)) || !hasLineOfSight(map, pos, aim)) {
+    return fail("no_line_of_sight", "You can't see there.");
+  }
+
+  if (definition.kind === "blink" || definition.kind === "summon") {
+    return map.isPassable(x, y)
+      ? null
+      : fail("invalid_target", "There is no room there.");
+  }
+  if (
+    definition.shape === "single" &&
+    resolveAbilityTargets(world, caster, definition, aim).length === 0
+  ) {
+    return fail("invalid_target", "There is nothing to target there.");
+  }
+  return null;
+}
+
+function blink(world: World, caster: Entity, to: Tile): void {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(caster, Position);
+  if (!map || !pos) return;
+
+  map.moveEntity(pos.x, pos.y, to.x, to.y, caster);
+  world.set(caster, Position, { x: to.x, y: to.y });
+  invalidateFov(world);
+  world.emit({
+    type: "movement.moved",
+    entity: caster,
+    fromX: pos.x,
+    fromY: pos.y,
+    toX: to.x,
+    toY: to.y,
+  });
+}
+
+/**
+ * Spawn a summoned creature on the caster's side.
+ */
+function summon(
+  world: World,
+  caster: Entity,
+  name: string,
+  at: Tile,
+): Entity | null {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const templates =
+    world.resources.get<EntityTemplateRegistry>(TEMPLATES_RESOURCE);
+  if (!map || !templates) return null;
+
+  const creature = templates.instantiate(world, name);
+  if (world.has(creature, Position)) {
+    world.set(creature, Position, at);
+  } else {
+    world.add(creature, Position, at);
+  }
+  map.addEntity(at.x, at.y, creature, true);
+
+  if (world.has(caster, Player) || world.has(caster, Ally)) {
+    if (world.has(creature, Enemy)) world.remove(creature, Enemy);
+    world.add(creature, Ally);
+  } else if (world.has(caster, Enemy) && !world.has(creature, Enemy)) {
+    world.add(creature, Enemy);
+  }
+  world.add(creature, Summoned);
+  world.setEntityRef(creature, Summoned, "owner", caster);
+  return creature;
+}
+
+/**
+ * Cast a known ability at tile (x, y), spending its mana and starting its
+ * cooldown. Self abilities ignore the aim.
+ *
+ * @returns false if the cast was refused (see `validateCast`)
+ */
+export function castAbility(
+  world: World,
+  caster: Entity,
+  ability: Entity,
+  x: number,
+  y: number,
+): boolean {
+  const failure = validateCast(world, caster, ability, x, y);
+  if (failure) {
+    world.emit({ type: "message", text: failure.message });
+    return false;
+  }
+
+  const definition = getDefinition(world, ability)!;
+  const mana = world.get(caster, Mana);
+  if (mana && definition.cost > 0) {
+    world.set(caster, Mana, { current: mana.current - definition.cost });
+  }
+  world.set(ability, Ability, { cooldown: definition.cooldown });
+
+  if (definition.message) {
+    world.emit({ type: "message", text: definition.message });
+  }
+
+  const aim = { x, y };
+  let targets: Entity[] = [];
+  switch (definition.kind) {
+    case "damage":
+      targets = resolveAbilityTargets(world, caster, definition, aim);
+      for (const target of targets) {
+        applyDamage(world, target, definition.power ?? 0, caster);
+      }
+      break;
+
+    case "heal":
+      targets = resolveAbilityTargets(world, caster, definition, aim);
+      for (const target of targets) {
+        heal(world, target, definition.power ?? 0, caster);
+      }
+      break;
+
+    case "status":
+      targets = resolveAbilityTargets(world, caster, definition, aim);
+      if (!definition.status) break;
+      for (const target of targets) {
+        applyStatus(
+          world,
+          target,
+          definition.status,
+          definition.duration ?? 1,
+          caster,
+        );
+      }
+      break;
+
+    case "blink":
+      blink(world, caster, aim);
+      targets = [caster];
+      break;
+
+    case "summon": {
+      const creature =
+        definition.summon !== undefined
+          ? summon(world, caster, definition.summon, aim)
+          : null;
+      if (creature !== null) targets = [creature];
+      break;
+    }
+  }
+
+  world.emit({
+    type: "ability.cast",
+    entity: caster,
+    ability: definition.id,
+    x,
+    y,
+    targets,
+  });
+  return true;
+}
+
+/**
+ * Regenerate mana and count down cooldowns. Called by the turn system
+ * once the entity's action resolved.
+ */
+export function endAbilityTurn(world: World, entity: Entity): void {
+  const mana = world.get(entity, Mana);
+  if (mana && mana.current < mana.max) {
+    world.set(entity, Mana, {
+      current: Math.min(mana.max, mana.current + mana.regen),
+    });
+  }
+
+  for (const ability of getAbilities(world, entity)) {
+    const cooldown = world.get(ability, Ability)!.cooldown;
+    if (cooldown > 0) {
+      world.set(ability, Ability, { cooldown: cooldown - 1 });
+    }
+  }
+}
+
+/**
+ * Queue a cast of a known ability at tile (x, y) for the entity's next
+ * turn.
+ */
+export function requestCast(
+  world: World,
+  entity: Entity,
+  ability: Entity,
+  x: number,
+  y: number,
+): void {
+  if (!world.has(entity, CastRequest)) {
+    world.add(entity, CastRequest);
+  }
+  world.set(entity, CastRequest, { x, y });
+  world.setEntityRef(entity, CastRequest, "ability", ability);
+}
+
+/**
+ * Resolves queued and committed casts of this round's actors.
+ */
+export const AbilitySystem = defineSystem("Ability")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .before("Movement")
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    for (const caster of turn.getActors()) {
+      if (!world.isAlive(caster) || world.has(caster, Dead)) continue;
+
+      if (world.has(caster, CastRequest)) {
+        const { x, y } = world.get(caster, CastRequest)!;
+        const ability = world.getEntityRef(caster, CastRequest, "ability");
+        world.remove(caster, CastRequest);
+        if (ability !== null) castAbility(world, caster, ability, x, y);
+        continue;
+      }
+
+      const action = turn.getAction(caster);
+      const data = action?.data;
+      if (
+        action?.type === "cast" &&
+        data?.ability !== undefined &&
+        data.x !== undefined &&
+        data.y !== undefined
+      ) {
+        castAbility(world, caster, data.ability as Entity, data.x, data.y);
+      }
+    }
+  });
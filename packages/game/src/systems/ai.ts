@@ -0,0 +1,345 @@
+/**
+ * AI System
+ *
+ * Chooses actions for non-player actors with an {@link AI} component.
+ * Pathing comes from the shared chase/flee Dijkstra maps in {@link AIMaps}:
+ * chasing walks downhill on the chase map, fleeing walks downhill on the
+ * flee map. The maps are rebuilt in PostUpdate only when a player moved
+ * (or a player joined or died), so a turn with fifty monsters costs one
+ * Dijkstra pass at most.
+ *
+ * Actors with an Awareness component only run their behaviour while
+ * hunting; otherwise they sleep, investigate or wander (see perception.ts).
+ *
+ * Decisions are committed as ordinary `move`/`attack`/`wait` actions and
+ * resolved by the same systems as player input. Random choices draw from
+ * the "ai" stream.
+ */
+
+import {
+  Dead,
+  defineSystem,
+  type Entity,
+  Phase,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import type { DijkstraMap } from "@rogue/procgen/core";
+import { AI, AIBehavior } from "../components/ai";
+import { Health } from "../components/combat";
+import { Awareness, AwarenessState } from "../components/perception";
+import { Position } from "../components/position";
+import { AI_MAPS_RESOURCE, type AIMaps } from "../resources/ai-maps";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import { RANDOM_RESOURCE, type RandomStreams } from "../resources/random";
+import {
+  type ActionRequest,
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { canBeAttacked, isHostile } from "./combat";
+import { commitAction, turnResolving } from "./turn";
+
+/** Step order; fixed so equal-cost choices are deterministic. */
+const DIRECTIONS: readonly (readonly [number, number])[] = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+  [-1, -1],
+];
+
+const WAIT: ActionRequest = { type: "wait" };
+
+interface Target {
+  readonly entity: Entity;
+  readonly x: number;
+  readonly y: number;
+}
+
+function livingPlayers(world: World): Target[] {
+  const players: Target[] = [];
+  for (const entity of world
+    .query(Position, Player)
+    .not(Dead)
+    .iterDeterministic()) {
+    const pos = world.get(entity, Position)!;
+    players.push({ entity, x: pos.x, y: pos.y });
+  }
+  return players;
+}
+
+/**
+ * Rebuild the shared maps if any player moved, appeared or died since the
+ * last computation.
+ *
+ * @returns true if the maps were recomputed
+ */
+export function updateAIMaps(world: World, force = false): boolean {
+  const aiMaps = world.resources.get<AIMaps>(AI_MAPS_RESOURCE);
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!aiMaps || !map) return false;
+
+  const players = livingPlayers(world);
+  const goals = aiMaps.getGoals();
+  const stale =
+    force ||
+    aiMaps.getVersion() === 0 ||
+    goals.length !== players.length ||
+    players.some((p, i) => p.entity !== goals[i]) ||
+    world.query(Position, Player).changedComponent(Position).first() !== null;
+
+  if (!stale) return false;
+  aiMaps.recompute(map, players);
+  return true;
+}
+
+/**
+ * Passable neighbour with the lowest value on `dmap`, if lower than the
+ * current tile. Unlike `getDownhillDirection` this routes around other
+ * actors blocking the ideal step.
+ */
+function stepDownhill(
+  map: GameMap,
+  dmap: DijkstraMap,
+  x: number,
+  y: number,
+): ActionRequest | null {
+  let best = dmap.get(x, y);
+  let action: ActionRequest | null = null;
+
+  for (const [dx, dy] of DIRECTIONS) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (!map.isPassable(nx, ny)) continue;
+    const value = dmap.get(nx, ny);
+    if (value < best) {
+      best = value;
+      action = { type: "move", data: { dx, dy } };
+    }
+  }
+  return action;
+}
+
+/**
+ * Passable neighbour closest to a point, if closer than the current tile.
+ */
+function stepToward(
+  map: GameMap,
+  x: number,
+  y: number,
+  tx: number,
+  ty: number,
+): ActionRequest | null {
+  const distance = (ax: number, ay: number) =>
+    Math.max(Math.abs(ax - tx), Math.abs(ay - ty)) * 2 +
+    (ax !== tx && ay !== ty ? 1 : 0);
+
+  let best = distance(x, y);
+  let action: ActionRequest | null = null;
+  for (const [dx, dy] of DIRECTIONS) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (!map.isPassable(nx, ny)) continue;
+    const d = distance(nx, ny);
+    if (d < best) {
+      best = d;
+      action = { type: "move", data: { dx, dy } };
+    }
+  }
+  return action;
+}
+
+/**
+ * Hostile neighbour to attack, preferring players over other creatures
+ * (summoned allies, or enemies for allies).
+ */
+function adjacentHostile(
+  world: World,
+  map: GameMap,
+  entity: Entity,
+  x: number,
+  y: number,
+  players: readonly Target[],
+): Entity | null {
+  for (const p of players) {
+    if (Math.max(Math.abs(p.x - x), Math.abs(p.y - y)) !== 1) continue;
+    if (isHostile(world, entity, p.entity) && canBeAttacked(world, p.entity)) {
+      return p.entity;
+    }
+  }
+  for (const [dx, dy] of DIRECTIONS) {
+    const other = map.getBlocker(x + dx, y + dy);
+    if (
+      other !== null &&
+      isHostile(world, entity, other) &&
+      canBeAttacked(world, other)
+    ) {
+      return other;
+    }
+  }
+  return null;
+}
+
+function isFleeing(world: World, entity: Entity, threshold: number): boolean {
+  if (threshold === 0) return false;
+  const health = world.get(entity, Health);
+  if (!health || health.max <= 0) return false;
+  return (health.current * 100) / health.max < threshold;
+}
+
+/**
+ * Pick an action for one AI actor. Pure with respect to the world apart
+ * from "ai" stream draws.
+ */
+export function decideAction(world: World, entity: Entity): ActionRequest {
+  const ai = world.get(entity, AI);
+  const pos = world.get(entity, Position);
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const aiMaps = world.resources.get<AIMaps>(AI_MAPS_RESOURCE);
+  if (!ai || !pos || !map || !aiMaps) return WAIT;
+
+  const awareness = world.get(entity, Awareness);
+  if (awareness && awareness.state !== AwarenessState.Hunting) {
+    return unawareAction(world, map, ai, awareness, pos.x, pos.y);
+  }
+
+  const chase = aiMaps.getChaseMap();
+  const flee = aiMaps.getFleeMap();
+  const players = livingPlayers(world);
+  const adjacent = adjacentHostile(world, map, entity, pos.x, pos.y, players);
+  const attack = (target: Entity): ActionRequest => ({
+    type: "attack",
+    data: { target },
+  });
+
+  // Low health overrides every behaviour; cornered fleers fight back
+  if (isFleeing(world, entity, ai.fleeThreshold)) {
+    const step = flee && stepDownhill(map, flee, pos.x, pos.y);
+    if (step) return step;
+    return adjacent !== null ? attack(adjacent) : WAIT;
+  }
+
+  const distance = chase?.get(pos.x, pos.y) ?? Number.POSITIVE_INFINITY;
+
+  switch (ai.behavior) {
+    case AIBehavior.Chase: {
+      if (adjacent !== null) return attack(adjacent);
+      if (distance > ai.aggroRange) return WAIT;
+      return (chase && stepDownhill(map, chase, pos.x, pos.y)) ?? WAIT;
+    }
+
+    case AIBehavior.KeepDistance: {
+      if (distance < ai.preferredRange) {
+        const step = flee && stepDownhill(map, flee, pos.x, pos.y);
+        if (step) return step;
+        return adjacent !== null ? attack(adjacent) : WAIT;
+      }
+      if (distance > ai.preferredRange && distance <= ai.aggroRange) {
+        return (chase && stepDownhill(map, chase, pos.x, pos.y)) ?? WAIT;
+      }
+      return WAIT;
+    }
+
+    case AIBehavior.Guard: {
+      if (adjacent !== null) return attack(adjacent);
+      const intruder = players.some(
+        (p) =>
+          Math.max(Math.abs(p.x - ai.homeX), Math.abs(p.y - ai.homeY)) <=
+          ai.guardRadius,
+      );
+      if (intruder && distance <= ai.aggroRange) {
+        return (chase && stepDownhill(map, chase, pos.x, pos.y)) ?? WAIT;
+      }
+      return stepToward(map, pos.x, pos.y, ai.homeX, ai.homeY) ?? WAIT;
+    }
+
+    default: {
+      if (adjacent !== null) return attack(adjacent);
+      return randomStep(world, map, pos.x, pos.y);
+    }
+  }
+}
+
+/**
+ * Step onto a random passable neighbour.
+ */
+function randomStep(
+  world: World,
+  map: GameMap,
+  x: number,
+  y: number,
+): ActionRequest {
+  const rng = world.resources.require<RandomStreams>(RANDOM_RESOURCE).get("ai");
+  for (const [dx, dy] of rng.shuffle([...DIRECTIONS])) {
+    if (map.isPassable(x + dx, y + dy)) {
+      return { type: "move", data: { dx, dy } };
+    }
+  }
+  return WAIT;
+}
+
+/**
+ * Action of an actor that is not hunting: sleep, investigate, or wander
+ * (guards return to their post instead).
+ */
+function unawareAction(
+  world: World,
+  map: GameMap,
+  ai: { behavior: number; homeX: number; homeY: number },
+  awareness: { state: number; targetX: number; targetY: number },
+  x: number,
+  y: number,
+): ActionRequest {
+  switch (awareness.state) {
+    case AwarenessState.Sleeping:
+      return WAIT;
+
+    case AwarenessState.Investigating:
+      return (
+        stepToward(map, x, y, awareness.targetX, awareness.targetY) ?? WAIT
+      );
+
+    default:
+      if (ai.behavior === AIBehavior.Guard) {
+        return stepToward(map, x, y, ai.homeX, ai.homeY) ?? WAIT;
+      }
+      return randomStep(world, map, x, y);
+  }
+}
+
+/**
+ * Commits an action for every scheduled AI actor that has none yet.
+ */
+export const AISystem = defineSystem("AI")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .before("Combat")
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    // Maps are normally refreshed in PostUpdate; build them on first use
+    if (world.resources.get<AIMaps>(AI_MAPS_RESOURCE)?.getVersion() === 0) {
+      updateAIMaps(world);
+    }
+
+    for (const entity of turn.getActors()) {
+      if (turn.getAction(entity) !== undefined) continue;
+      if (!world.has(entity, AI) || world.has(entity, Player)) continue;
+      if (!world.isAlive(entity) || world.has(entity, Dead)) continue;
+      commitAction(world, entity, decideAction(world, entity));
+    }
+  });
+
+/**
+ * Keeps the shared chase/flee maps in step with player positions.
+ */
+export const AIMapSystem = defineSystem("AIMaps")
+  .inPhase(Phase.PostUpdate)
+  .execute((world) => {
+    updateAIMaps(world);
+  });
@@ -0,0 +1,393 @@
+/**
+ * Combat System
+ *
+ * Attack resolution, damage and death. Ranged attacks (see ranged.ts)
+ * reuse the same rolls.
+ *
+ * Attack roll: hit chance is BASE_HIT_CHANCE + (accuracy - defense) *
+ * HIT_PER_POINT, clamped to [MIN_HIT_CHANCE, MAX_HIT_CHANCE]. Damage rolls
+ * between half and full attack; criticals multiply it by CRIT_MULTIPLIER
+ * before armor is subtracted. A hit always deals at least 1 damage.
+ * All rolls come from the "combat" random stream.
+ *
+ * Dying entities are marked Dead immediately (so handlers of combat.death
+ * can still read them) and cleaned up at the start of the next tick:
+ * carried items drop to the floor and a corpse is left behind. A player's
+ * death ends its run (see run.ts).
+ */
+
+import {
+  Contains,
+  Dead,
+  defineSystem,
+  Enemy,
+  type Entity,
+  PendingDespawn,
+  Phase,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  Ally,
+  AttackRequest,
+  CombatStats,
+  Corpse,
+  Health,
+  LastDamagedBy,
+} from "../components/combat";
+import { StatModifiers } from "../components/inventory";
+import { Position } from "../components/position";
+import { Template } from "../components/template";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import { RANDOM_RESOURCE, type RandomStreams } from "../resources/random";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { getEquippedItems } from "./inventory";
+import { makeNoise, NOISE_VOLUME } from "./perception";
+import { awardKillExperience } from "./progression";
+import { endRun, trackKill } from "./run";
+import { angerShopkeeper } from "./shop";
+import { getStatusModifier } from "./status";
+import { turnResolving } from "./turn";
+
+export const BASE_HIT_CHANCE = 80;
+export const HIT_PER_POINT = 5;
+export const MIN_HIT_CHANCE = 5;
+export const MAX_HIT_CHANCE = 95;
+export const CRIT_MULTIPLIER = 2;
+
+/**
+ * Effective combat stats of an entity.
+ */
+export interface CombatStatsData {
+  attack: number;
+  defense: number;
+  accuracy: number;
+  armor: number;
+  critChance: number;
+}
+
+export interface AttackOutcome {
+  readonly hit: boolean;
+  readonly critical: boolean;
+  readonly damage: number;
+  readonly killed: boolean;
+}
+
+const MISS: AttackOutcome = {
+  hit: false,
+  critical: false,
+  damage: 0,
+  killed: false,
+};
+
+const UNARMED: CombatStatsData = {
+  attack: 1,
+  defense: 0,
+  accuracy: 0,
+  armor: 0,
+  critChance: 0,
+};
+
+/**
+ * Effective stats used for resolution: base CombatStats plus the
+ * StatModifiers of every equipped item and the modifiers of active
+ * statuses. Entities without CombatStats fight unarmed.
+ */
+export function getCombatStats(world: World, entity: Entity): CombatStatsData {
+  const base = world.get(entity, CombatStats);
+  const stats = base ? { ...base } : { ...UNARMED };
+
+  for (const item of getEquippedItems(world, entity)) {
+    const mod = world.get(item, StatModifiers);
+    if (!mod) continue;
+    stats.attack += mod.attack;
+    stats.defense += mod.defense;
+    stats.accuracy += mod.accuracy;
+    stats.armor += mod.armor;
+    stats.critChance += mod.critChance;
+  }
+
+  stats.attack += getStatusModifier(world, entity, "attack");
+  stats.defense += getStatusModifier(world, entity, "defense");
+  stats.accuracy += getStatusModifier(world, entity, "accuracy");
+  stats.armor += getStatusModifier(world, entity, "armor");
+  stats.critChance += getStatusModifier(world, entity, "critChance");
+  return stats;
+}
+
+export function hitChance(
+  attacker: CombatStatsData,
+  defender: CombatStatsData,
+): number {
+  const chance =
+    BASE_HIT_CHANCE + (attacker.accuracy - defender.defense) * HIT_PER_POINT;
+  return Math.min(MAX_HIT_CHANCE, Math.max(MIN_HIT_CHANCE, chance));
+}
+
+function faction(world: World, entity: Entity): "players" | "enemies" | null {
+  if (world.has(entity, Player) || world.has(entity, Ally)) return "players";
+  return world.has(entity, Enemy) ? "enemies" : null;
+}
+
+/**
+ * Factions that fight each other on contact. Allies side with players.
+ */
+export function isHostile(world: World, a: Entity, b: Entity): boolean {
+  const fa = faction(world, a);
+  const fb = faction(world, b);
+  return fa !== null && fb !== null && fa !== fb;
+}
+
+/**
+ * Entities of the same faction.
+ */
+export function isFriendly(world: World, a: Entity, b: Entity): boolean {
+  const fa = faction(world, a);
+  return fa !== null && fa === faction(world, b);
+}
+
+export function canBeAttacked(world: World, entity: Entity): boolean {
+  return (
+    world.isAlive(entity) &&
+    world.has(entity, Health) &&
+    !world.has(entity, Dead)
+  );
+}
+
+/**
+ * Mark an entity dead and announce it. Removal happens on the next tick.
+ */
+export function killEntity(
+  world: World,
+  entity: Entity,
+  killer?: Entity,
+): void {
+  if (!world.isAlive(entity) || world.has(entity, Dead)) return;
+
+  world.add(entity, Dead);
+  if (!world.has(entity, Player)) {
+    world.add(entity, PendingDespawn);
+  }
+
+  // The body no longer blocks movement
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(entity, Position);
+  if (map && pos) {
+    map.removeEntity(pos.x, pos.y, entity);
+  }
+
+  const templateId = world.getString(entity, Template, "id");
+  world.emit({
+    type: "combat.death",
+    entity,
+    ...(killer !== undefined ? { killer } : {}),
+    ...(templateId ? { templateId } : {}),
+  });
+  if (killer !== undefined) trackKill(world, killer, templateId);
+  awardKillExperience(world, entity, killer);
+  if (world.has(entity, Player)) endRun(world, entity, "death", killer);
+}
+
+/**
+ * Apply damage to an entity, attributing it to `source`.
+ * Emits combat.damage and kills the target at 0 HP. Shopkeepers turn on
+ * whoever hurts them.
+ *
+ * @returns true if the damage killed the target
+ */
+export function applyDamage(
+  world: World,
+  target: Entity,
+  amount: number,
+  source?: Entity,
+  isCritical?: boolean,
+): boolean {
+  const health = world.get(target, Health);
+  if (!health || world.has(target, Dead) || amount <= 0) return false;
+
+  const current = health.current - amount;
+  world.set(target, Health, { current });
+
+  if (source !== undefined && world.isAlive(source)) {
+    if (!world.has(target, LastDamagedBy)) {
+      world.add(target, LastDamagedBy);
+    }
+    world.setEntityRef(target, LastDamagedBy, "entity", source);
+    angerShopkeeper(world, target, source);
+  }
+
+  world.emit({
+    type: "combat.damage",
+    attacker: source ?? target,
+    target,
+    damage: amount,
+    ...(isCritical ? { isCritical } : {}),
+  });
+
+  if (current > 0) return false;
+
+  const killer =
+    source ?? world.getEntityRef(target, LastDamagedBy, "entity") ?? undefined;
+  killEntity(world, target, killer);
+  return true;
+}
+
+/**
+ * Restore health up to the maximum. Emits combat.heal with the amount
+ * actually restored.
+ *
+ * @returns HP restored
+ */
+export function heal(
+  world: World,
+  target: Entity,
+  amount: number,
+  source?: Entity,
+): number {
+  const health = world.get(target, Health);
+  if (!health || world.has(target, Dead) || amount <= 0) return 0;
+
+  const restored = Math.min(amount, health.max - health.current);
+  if (restored <= 0) return 0;
+
+  world.set(target, Health, { current: health.current + restored });
+  world.emit(
+    source !== undefined
+      ? { type: "combat.heal", entity: target, amount: restored, source }
+      : { type: "combat.heal", entity: target, amount: restored },
+  );
+  return restored;
+}
+
+/**
+ * Roll and apply an attack. Melee uses the attacker's effective stats;
+ * ranged attacks pass the stats of the shot or throw as `offense`.
+ */
+export function resolveAttack(
+  world: World,
+  attacker: Entity,
+  target: Entity,
+  offense: CombatStatsData = getCombatStats(world, attacker),
+): AttackOutcome {
+  if (!canBeAttacked(world, target)) return MISS;
+  makeNoise(world, attacker, NOISE_VOLUME.combat);
+
+  const rng = world.resources
+    .require<RandomStreams>(RANDOM_RESOURCE)
+    .get("combat");
+  const defense = getCombatStats(world, target);
+
+  if (!rng.probability(hitChance(offense, defense) / 100)) {
+    return MISS;
+  }
+
+  const maxDamage = Math.max(1, offense.attack);
+  let damage = rng.range(Math.ceil(maxDamage / 2), maxDamage);
+  const critical = rng.probability(offense.critChance / 100);
+  if (critical) {
+    damage *= CRIT_MULTIPLIER;
+  }
+  damage = Math.max(1, damage - defense.armor);
+
+  const killed = applyDamage(world, target, damage, attacker, critical);
+  return { hit: true, critical, damage, killed };
+}
+
+/**
+ * Queue a melee attack for the attacker's next resolved turn.
+ *
+ * @returns false if either entity is dead or the target cannot be attacked
+ */
+export function requestAttack(
+  world: World,
+  attacker: Entity,
+  target: Entity,
+): boolean {
+  if (!world.isAlive(attacker) || !canBeAttacked(world, target)) return false;
+
+  if (!world.has(attacker, AttackRequest)) {
+    world.add(attacker, AttackRequest);
+  }
+  world.setEntityRef(attacker, AttackRequest, "target", target);
+  return true;
+}
+
+function isAdjacent(world: World, a: Entity, b: Entity): boolean {
+  const pa = world.get(a, Position);
+  const pb = world.get(b, Position);
+  if (!pa || !pb) return false;
+  return Math.max(Math.abs(pa.x - pb.x), Math.abs(pa.y - pb.y)) <= 1;
+}
+
+/**
+ * Resolves queued and committed melee attacks of this round's actors.
+ */
+export const CombatSystem = defineSystem("Combat")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .before("Movement")
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    for (const attacker of turn.getActors()) {
+      if (!world.isAlive(attacker) || world.has(attacker, Dead)) continue;
+
+      let target: Entity | null = null;
+      if (world.has(attacker, AttackRequest)) {
+        target = world.getEntityRef(attacker, AttackRequest, "target");
+        world.remove(attacker, AttackRequest);
+      } else {
+        const action = turn.getAction(attacker);
+        if (action?.type === "attack" && action.data?.target !== undefined) {
+          target = action.data.target as Entity;
+        }
+      }
+
+      if (target === null || !isAdjacent(world, attacker, target)) continue;
+      resolveAttack(world, attacker, target);
+    }
+  });
+
+/**
+ * Removes entities that died last tick: drops their carried items,
+ * leaves a corpse and despawns them.
+ */
+export const DeathSystem = defineSystem("Death")
+  .inPhase(Phase.PreUpdate)
+  .before("Turn")
+  .execute((world) => {
+    const dying = world.query(Dead, PendingDespawn).collect();
+    if (dying.length === 0) return;
+
+    const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+
+    for (const entity of dying) {
+      const pos = world.get(entity, Position);
+
+      if (pos) {
+        for (const item of world.getTargets(entity, Contains)) {
+          world.unrelate(entity, Contains, item);
+          if (world.has(item, Position)) {
+            world.set(item, Position, { x: pos.x, y: pos.y });
+          } else {
+            world.add(item, Position, { x: pos.x, y: pos.y });
+          }
+          map?.addEntity(pos.x, pos.y, item);
+        }
+
+        if (world.has(entity, Health)) {
+          const corpse = world.spawn(Position, Corpse);
+          world.set(corpse, Position, { x: pos.x, y: pos.y });
+          world.set(corpse, Corpse, { tick: turn?.getCurrentTick() ?? 0 });
+          map?.addEntity(pos.x, pos.y, corpse);
+        }
+      }
+
+      world.despawn(entity);
+    }
+  });
@@ -0,0 +1,235 @@
+/**
+ * FOV System
+ *
+ * Symmetric recursive shadowcasting (after Albert Ford's formulation).
+ * Every tile visible from A sees A back, and walls bounding a lit area are
+ * lit themselves. Slopes are kept as integer fractions so results do not
+ * depend on floating-point rounding.
+ *
+ * Only viewers whose Position changed this tick (or whose FOV is dirty)
+ * are recomputed. Player viewers also update the GameMap's visible and
+ * explored bitsets.
+ */
+
+import {
+  defineSystem,
+  type Entity,
+  Phase,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import { FOV, packCoords, unpackCoords, VisibleCells } from "../components/fov";
+import { Position } from "../components/position";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  VISIBILITY_RESOURCE,
+  type VisibilityStore,
+} from "../resources/visibility";
+import { getStatusModifier } from "./status";
+
+/**
+ * Scan row of one octant pair. Slopes are `num / den` with den > 0.
+ */
+interface Row {
+  depth: number;
+  startNum: number;
+  startDen: number;
+  endNum: number;
+  endDen: number;
+}
+
+/** Quadrant transforms: (depth, col) -> (dx, dy). */
+const QUADRANTS: readonly (readonly [number, number, number, number])[] = [
+  // [dx per col, dx per depth, dy per col, dy per depth]
+  [1, 0, 0, -1], // north
+  [1, 0, 0, 1], // south
+  [0, 1, 1, 0], // east
+  [0, -1, 1, 0], // west
+];
+
+/**
+ * Compute visible tiles from an origin.
+ *
+ * @param isOpaque - Whether a tile blocks sight (out-of-bounds should be opaque)
+ * @param reveal - Called once per visible tile (may repeat across quadrant seams)
+ */
+export function computeFov(
+  originX: number,
+  originY: number,
+  radius: number,
+  isOpaque: (x: number, y: number) => boolean,
+  reveal: (x: number, y: number) => void,
+): void {
+  reveal(originX, originY);
+  const radiusSq = radius * radius + radius;
+
+  for (const [cx, dx, cy, dy] of QUADRANTS) {
+    const toX = (depth: number, col: number) => originX + col * cx + depth * dx;
+    const toY = (depth: number, col: number) => originY + col * cy + depth * dy;
+
+    const scan = (row: Row): void => {
+      if (row.depth > radius) return;
+
+      const depth = row.depth;
+      // round_ties_up(depth * start), round_ties_down(depth * end)
+      const minCol = Math.floor(
+        (2 * depth * row.startNum + row.startDen) / (2 * row.startDen),
+      );
+      const maxCol = Math.ceil(
+        (2 * depth * row.endNum - row.endDen) / (2 * row.endDen),
+      );
+
+      let prevWall: boolean | null = null;
+      for (let col = minCol; col <= maxCol; col++) {
+        const x = toX(depth, col);
+        const y = toY(depth, col);
+        const wall = isOpaque(x, y);
+        const inRange = col * col + depth * depth <= radiusSq;
+        const symmetric =
+          col * row.startDen >= depth * row.startNum &&
+          col * row.endDen <= depth * row.endNum;
+
+        if (inRange && (wall || symmetric)) {
+          reveal(x, y);
+        }
+
+        // Tile slope: (2 * col - 1) / (2 * depth)
+        if (prevWall === true && !wall) {
+          row.startNum = 2 * col - 1;
+          row.startDen = 2 * depth;
+        }
+        if (prevWall === false && wall) {
+          scan({
+            depth: depth + 1,
+            startNum: row.startNum,
+            startDen: row.startDen,
+            endNum: 2 * col - 1,
+            endDen: 2 * depth,
+          });
+        }
+        prevWall = wall;
+      }
+
+      if (prevWall === false) {
+        scan({ ...row, depth: depth + 1 });
+      }
+    };
+
+    scan({ depth: 1, startNum: -1, startDen: 1, endNum: 1, endDen: 1 });
+  }
+}
+
+/**
+ * Compute the packed visible cell list of a viewer on the map.
+ */
+export function computeVisibleCells(
+  map: GameMap,
+  x: number,
+  y: number,
+  radius: number,
+): Uint32Array {
+  const seen = new Set<number>();
+  computeFov(
+    x,
+    y,
+    radius,
+    (tx, ty) => map.isOpaque(tx, ty),
+    (tx, ty) => {
+      if (map.isInBounds(tx, ty)) seen.add(packCoords(tx, ty));
+    },
+  );
+  return Uint32Array.from(seen).sort();
+}
+
+function refreshMapVisibility(
+  world: World,
+  map: GameMap,
+  store: VisibilityStore,
+): void {
+  map.clearVisible();
+  for (const viewer of store.viewers()) {
+    if (!world.has(viewer, Player)) continue;
+    const { cells } = store.get(viewer);
+    for (const packed of cells) {
+      const { x, y } = unpackCoords(packed);
+      map.setVisible(x, y);
+    }
+  }
+}
+
+export const FOVSystem = defineSystem("FOV")
+  .inPhase(Phase.PostUpdate)
+  .execute((world) => {
+    const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+    const store = world.resources.get<VisibilityStore>(VISIBILITY_RESOURCE);
+    if (!map || !store) return;
+
+    const viewers = new Set<Entity>();
+    for (const entity of world
+      .query(Position, FOV, VisibleCells)
+      .changedComponent(Position)
+      .iterDeterministic()) {
+      viewers.add(entity);
+    }
+    for (const entity of world
+      .query(Position, FOV, VisibleCells)
+      .where(FOV, (fov) => fov.dirty !== 0)
+      .iterDeterministic()) {
+      viewers.add(entity);
+    }
+
+    for (const viewer of [...store.viewers()]) {
+      if (!world.isAlive(viewer) || !world.has(viewer, VisibleCells)) {
+        store.delete(viewer);
+      }
+    }
+
+    if (viewers.size === 0) return;
+
+    let playerMoved = false;
+    for (const entity of viewers) {
+      const pos = world.get(entity, Position)!;
+      const fov = world.get(entity, FOV)!;
+      const radius = getFovRadius(world, entity);
+      const cells = computeVisibleCells(map, pos.x, pos.y, radius);
+
+      store.set(entity, cells);
+      world.set(entity, VisibleCells, { count: cells.length });
+      if (fov.dirty) {
+        world.set(entity, FOV, { dirty: 0 });
+      }
+      if (world.has(entity, Player)) {
+        playerMoved = true;
+      }
+
+      world.emit({
+        type: "fov.updated",
+        entity,
+        visibleCount: cells.length,
+      });
+    }
+
+    if (playerMoved) {
+      refreshMapVisibility(world, map, store);
+    }
+  });
+
+/**
+ * Sight radius after status modifiers. Statuses can shrink it down to
+ * the adjacent tiles but never below the base radius when that is
+ * smaller.
+ */
+export function getFovRadius(world: World, entity: Entity): number {
+  const base = world.get(entity, FOV)?.radius ?? 0;
+  const modified = base + getStatusModifier(world, entity, "fovRadius");
+  return Math.max(Math.min(base, 1), modified);
+}
+
+/**
+ * Flag every viewer for recompute (e.g. after a door opens or closes).
+ */
+export function invalidateFov(world: World): void {
+  for (const entity of world.query(FOV).collect()) {
+    world.set(entity, FOV, { dirty: 1 });
+  }
+}
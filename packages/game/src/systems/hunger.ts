@@ -0,0 +1,100 @@
+/**
+ * Hunger
+ *
+ * Entities with {@link Satiety} get hungrier with every turn they take,
+ * so a run cannot be stalled by resting forever. Food restores satiety
+ * through the "feed" item effect.
+ *
+ * Satiety maps to a hunger level. Below WEAK_SATIETY the entity suffers
+ * the "weak" status, below FAINTING_SATIETY also "fainting"; both last as
+ * long as the hunger does and are lifted as soon as the entity eats. At
+ * zero satiety it starves, losing STARVATION_DAMAGE HP every turn.
+ */
+
+import type { Entity, World } from "@rogue/ecs";
+import { Satiety } from "../components/hunger";
+import { applyDamage } from "./combat";
+import { applyStatus, hasStatus, removeStatus } from "./status";
+
+export const HUNGRY_SATIETY = 300;
+export const WEAK_SATIETY = 150;
+export const FAINTING_SATIETY = 50;
+export const STARVATION_DAMAGE = 1;
+
+/** Hunger statuses are lifted by eating, not by running out */
+const HUNGER_STATUS_DURATION = 0xffff;
+
+export type HungerLevel = "fed" | "hungry" | "weak" | "fainting" | "starving";
+
+/** Announced when hunger gets worse */
+const LEVEL_MESSAGES: Partial<Record<HungerLevel, string>> = {
+  hungry: "You are getting hungry.",
+  weak: "You feel weak from hunger.",
+  fainting: "You are fainting from hunger!",
+  starving: "You are starving to death!",
+};
+
+export function getHungerLevel(satiety: number): HungerLevel {
+  if (satiety <= 0) return "starving";
+  if (satiety < FAINTING_SATIETY) return "fainting";
+  if (satiety < WEAK_SATIETY) return "weak";
+  if (satiety < HUNGRY_SATIETY) return "hungry";
+  return "fed";
+}
+
+function setHungerStatus(
+  world: World,
+  entity: Entity,
+  name: string,
+  active: boolean,
+): void {
+  if (active && !hasStatus(world, entity, name)) {
+    applyStatus(world, entity, name, HUNGER_STATUS_DURATION);
+  } else if (!active) {
+    removeStatus(world, entity, name);
+  }
+}
+
+function setSatiety(world: World, entity: Entity, current: number): void {
+  const satiety = world.get(entity, Satiety)!;
+  const before = getHungerLevel(satiety.current);
+  const after = getHungerLevel(current);
+
+  world.set(entity, Satiety, { current });
+  const message = LEVEL_MESSAGES[after];
+  if (message && after !== before && current < satiety.current) {
+    world.emit({ type: "message", text: message });
+  }
+
+  const weak = after === "weak" || after === "fainting" || after === "starving";
+  setHungerStatus(world, entity, "weak", weak);
+  setHungerStatus(world, entity, "fainting", weak && after !== "weak");
+}
+
+/**
+ * Restore satiety, up to the entity's maximum.
+ *
+ * @returns false if the entity does not eat
+ */
+export function feed(world: World, entity: Entity, amount: number): boolean {
+  const satiety = world.get(entity, Satiety);
+  if (!satiety) return false;
+
+  setSatiety(world, entity, Math.min(satiety.max, satiety.current + amount));
+  return true;
+}
+
+/**
+ * Burn satiety and starve. Called by the turn system once the entity's
+ * action resolved.
+ */
+export function endHungerTurn(world: World, entity: Entity): void {
+  const satiety = world.get(entity, Satiety);
+  if (!satiety) return;
+
+  const current = Math.max(0, satiety.current - satiety.rate);
+  setSatiety(world, entity, current);
+  if (current === 0) {
+    applyDamage(world, entity, STARVATION_DAMAGE);
+  }
+}
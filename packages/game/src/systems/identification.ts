@@ -0,0 +1,136 @@
+/**
+ * Identification
+ *
+ * Items tagged Unidentified show their kind's random appearance instead
+ * of their name until the viewing player identifies the kind, through the
+ * IdentificationStore. A kind is identified by using an item of it,
+ * reading a scroll of identify or having a shop identify it; from then on
+ * every item of that kind shows its true name to that player.
+ *
+ * Items without a kind have no shared appearance and are identified one
+ * by one: identifying such an item removes its Unidentified tag.
+ *
+ * Names that reach clients (wire inventories, item events) go through
+ * `getItemName` so true names never leak before identification.
+ */
+
+import type { SeededRandom } from "@rogue/contracts";
+import type { CommandBuffer, Entity, World } from "@rogue/ecs";
+import { Item, Unidentified } from "../components/inventory";
+import type { EntityTemplateRegistry } from "../prefabs/registry";
+import {
+  APPEARANCE_POOLS,
+  IDENTIFICATION_RESOURCE,
+  type IdentificationStore,
+} from "../resources/identification";
+
+/** Shown for unidentified items whose kind has no appearance */
+export const UNKNOWN_ITEM_NAME = "unidentified item";
+
+/**
+ * Shuffle appearances between the unidentified item kinds of each
+ * family. Kinds are visited in sorted order, so the result depends only
+ * on the templates and the stream's seed.
+ *
+ * @returns appearance by item kind
+ */
+export function assignAppearances(
+  templates: EntityTemplateRegistry,
+  rng: SeededRandom,
+): Map<string, string> {
+  const appearances = new Map<string, string>();
+
+  for (const [family, pool] of Object.entries(APPEARANCE_POOLS)) {
+    const kinds = new Set<string>();
+    for (const name of templates.names()) {
+      if (!templates.hasComponent(name, Unidentified)) continue;
+      if (!templates.tagsOf(name).has(family)) continue;
+      const kind = templates.stringOf(name, Item, "kind");
+      if (kind) kinds.add(kind);
+    }
+
+    const words = rng.shuffle(pool.words);
+    [...kinds].sort().forEach((kind, i) => {
+      const word = words[i];
+      if (word !== undefined) appearances.set(kind, pool.format(word));
+    });
+  }
+  return appearances;
+}
+
+function itemKind(world: World, item: Entity): string {
+  return world.getString(item, Item, "kind") ?? "";
+}
+
+/**
+ * Whether a viewer knows what an item is.
+ */
+export function isIdentified(
+  world: World,
+  viewer: Entity,
+  item: Entity,
+): boolean {
+  if (!world.has(item, Unidentified)) return true;
+
+  const kind = itemKind(world, item);
+  return (
+    kind !== "" &&
+    (world.resources
+      .get<IdentificationStore>(IDENTIFICATION_RESOURCE)
+      ?.isKnown(viewer, kind) ??
+      false)
+  );
+}
+
+/**
+ * Name of an item as a viewer knows it: its true name once identified,
+ * its kind's appearance before.
+ */
+export function getItemName(
+  world: World,
+  viewer: Entity,
+  item: Entity,
+): string {
+  if (isIdentified(world, viewer, item)) {
+    return world.getString(item, Item, "name") ?? "";
+  }
+  return (
+    world.resources
+      .get<IdentificationStore>(IDENTIFICATION_RESOURCE)
+      ?.appearance(itemKind(world, item)) ?? UNKNOWN_ITEM_NAME
+  );
+}
+
+/**
+ * Identify an item for a viewer: its whole kind, or the item itself if it
+ * has no kind.
+ *
+ * @param commands - defers removing the item's Unidentified tag, for
+ *   callers in the middle of resolving an item use
+ * @returns false if the viewer already knew what it is
+ */
+export function identifyItem(
+  world: World,
+  viewer: Entity,
+  item: Entity,
+  commands?: CommandBuffer,
+): boolean {
+  if (isIdentified(world, viewer, item)) return false;
+
+  const kind = itemKind(world, item);
+  const store = world.resources.get<IdentificationStore>(
+    IDENTIFICATION_RESOURCE,
+  );
+  if (kind !== "" && store) {
+    store.learn(viewer, kind);
+  } else if (commands) {
+    commands.remove(item, Unidentified);
+  } else {
+    world.remove(item, Unidentified);
+  }
+
+  const name = world.getString(item, Item, "name") ?? "";
+  world.emit({ type: "item.identified", entity: viewer, item, itemName: name });
+  world.emit({ type: "message", text: `This is ${name}.` });
+  return true;
+}
@@ -1,29 +1,242 @@
 /**
  * Game Systems
  *
- * Define all ECS systems here. Systems contain game logic.
- *
- * @example
- * ```typescript
- * import { defineSystem, Phase } from "@rogue/ecs";
- * import { Position, Velocity } from "../components";
- *
- * export const MovementSystem = defineSystem("Movement")
- *   .inPhase(Phase.Update)
- *   .execute((world) => {
- *     world.query(Position, Velocity).run((view) => {
- *       const x = view.column(Position, "x");
- *       const y = view.column(Position, "y");
- *       const vx = view.column(Velocity, "vx");
- *       const vy = view.column(Velocity, "vy");
- *
- *       for (let i = 0; i < view.count; i++) {
- *         x[i] += vx[i];
- *         y[i] += vy[i];
- *       }
- *     });
- *   });
- * ```
+ * All ECS systems and the request/action helpers that feed them.
+ * Systems contain game logic; resolution systems run in Phase.Update
+ * while the turn scheduler is resolving a round.
  */
 
-export {};
+export {
+  AbilitySystem,
+  type CastError,
+  type CastFailure,
+  castAbility,
+  endAbilityTurn,
+  findAbility,
+  getAbilities,
+  getAbilityArea,
+  learnAbility,
+  requestCast,
+  resolveAbilityTargets,
+  validateCast,
+} from "./abilities";
+export { AIMapSystem, AISystem, decideAction, updateAIMaps } from "./ai";
+export {
+  type AttackOutcome,
+  applyDamage,
+  BASE_HIT_CHANCE,
+  type CombatStatsData,
+  CombatSystem,
+  CRIT_MULTIPLIER,
+  canBeAttacked,
+  DeathSystem,
+  getCombatStats,
+  HIT_PER_POINT,
+  heal,
+  hitChance,
+  isFriendly,
+  isHostile,
+  killEntity,
+  MAX_HIT_CHANCE,
+  MIN_HIT_CHANCE,
+  requestAttack,
+  resolveAttack,
+} from "./combat";
+export {
+  computeFov,
+  computeVisibleCells,
+  FOVSystem,
+  getFovRadius,
+  invalidateFov,
+} from "./fov";
+export {
+  endHungerTurn,
+  FAINTING_SATIETY,
+  feed,
+  getHungerLevel,
+  HUNGRY_SATIETY,
+  type HungerLevel,
+  STARVATION_DAMAGE,
+  WEAK_SATIETY,
+} from "./hunger";
+export {
+  assignAppearances,
+  getItemName,
+  identifyItem,
+  isIdentified,
+  UNKNOWN_ITEM_NAME,
+} from "./identification";
+export {
+  closeDoor,
+  detectTraps,
+  getContainerContents,
+  getDoorAt,
+  InteractionSystem,
+  interactAt,
+  interactWith,
+  lootContainer,
+  openDoor,
+  requestInteract,
+  requestInteractWith,
+  searchForTraps,
+  setDoorLocked,
+  spawnContainer,
+  spawnDoors,
+  spawnTrap,
+  TRAP_DETECTION_RADIUS,
+  type TrapOptions,
+  takeStairs,
+  triggerTrap,
+  triggerTrapsAt,
+} from "./interaction";
+export {
+  addToInventory,
+  consumeItem,
+  dropItem,
+  equipItem,
+  getCarriedItems,
+  getEquipmentState,
+  getEquippedItem,
+  getEquippedItems,
+  getInventoryItems,
+  InventorySystem,
+  ItemActionSystem,
+  isCarriedBy,
+  isEquipped,
+  isItem,
+  pickupItem,
+  requestDrop,
+  requestEquip,
+  requestPickup,
+  requestUnequip,
+  requestUseItem,
+  takeOne,
+  unequipItem,
+  useItem,
+} from "./inventory";
+export {
+  applyItemEffect,
+  createEffectCommands,
+  type EffectAim,
+  type EffectContext,
+  resolveEffectTargets,
+} from "./item-effects";
+export {
+  enterLevel,
+  LevelSystem,
+  restoreLevel,
+  spawnStairs,
+  stashLevel,
+} from "./levels";
+export { MovementSystem, tryMove } from "./movement";
+export {
+  findVisibleHostile,
+  INVESTIGATE_PATIENCE,
+  makeNoise,
+  NOISE_VOLUME,
+  PerceptionSystem,
+  propagateNoise,
+  setAwareness,
+  updateAwareness,
+  WAKE_LOUDNESS,
+} from "./perception";
+export {
+  ASLEEP_CHANCE,
+  contentDepth,
+  DEFAULT_DIFFICULTY,
+  DEFAULT_ENEMY_DENSITY,
+  DEFAULT_GOAL_DEPTH,
+  DEFAULT_ITEM_DENSITY,
+  DEFAULT_TRAP_CHANCE,
+  type PopulationResult,
+  populateLevel,
+  SHOP_CHANCE,
+} from "./population";
+export {
+  awardKillExperience,
+  choosePerk,
+  getAvailablePerks,
+  getExperience,
+  getPerkRank,
+  grantExperience,
+} from "./progression";
+export {
+  findAmmunition,
+  fire,
+  type LineOfFire,
+  RangedSystem,
+  requestFire,
+  requestThrow,
+  throwItem,
+  traceLineOfFire,
+} from "./ranged";
+export {
+  carriesGoal,
+  computeScore,
+  endRun,
+  formatMorgue,
+  formatMorgueJson,
+  getRunSummary,
+  SCORE_PER_DEPTH,
+  SCORE_PER_KILL,
+  SCORE_PER_LEVEL,
+  summarizeRun,
+  trackKill,
+  trackPickup,
+  trackTurn,
+  VICTORY_BONUS,
+} from "./run";
+export {
+  angerShopkeeper,
+  buyItem,
+  checkTheft,
+  DEPTH_PRICE_SCALE,
+  findShopkeeper,
+  getGold,
+  getPrice,
+  getSellPrice,
+  getShopkeeperOf,
+  HAGGLE_FLOOR,
+  haggle,
+  isUnpaid,
+  requestBuy,
+  requestHaggle,
+  requestSell,
+  SELL_RATIO,
+  ShopSystem,
+  sellItem,
+  shopPrice,
+  type TradeError,
+  type TradeFailure,
+  validateBuy,
+  validateSell,
+} from "./shop";
+export {
+  applyStatus,
+  endStatusTurn,
+  findStatus,
+  getStatuses,
+  getStatusModifier,
+  hasStatus,
+  removeStatus,
+  startStatusTurn,
+} from "./status";
+export {
+  CONFUSION_STUMBLE_CHANCE,
+  DEFAULT_STATUSES,
+  FAINT_CHANCE,
+  HASTE_SPEED_BONUS,
+  POISON_DAMAGE,
+  REGENERATION_HEAL,
+  WEAKNESS_PENALTY,
+} from "./status-definitions";
+export {
+  type ActionRequest,
+  commitAction,
+  getSpeed,
+  runUntilPlayerTurn,
+  submitAction,
+  TurnEndSystem,
+  TurnSystem,
+  turnResolving,
+} from "./turn";
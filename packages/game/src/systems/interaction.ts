@@ -0,0 +1,644 @@
+/**
+ * Interaction System
+ *
+ * Doors, traps and containers placed on the map as entities.
+ *
+ * Doors are spawned from the DOOR cells of the level and mirror their
+ * state into the GameMap, which answers sight and walkability queries.
+ * Walking into a closed door opens it (unlocking it first if the walker
+ * carries the matching key); interacting toggles it.
+ *
+ * Taking stairs queues travel to the next or previous depth; the level
+ * system applies it at the end of the tick. Climbing out of the first
+ * level is only possible with the goal item, and wins the run.
+ *
+ * Traps fire on whoever steps on their tile. Hidden traps are revealed
+ * when they fire, when a player standing next to one spots it (a per-turn
+ * roll on the "traps" stream), or when a player searches by interacting
+ * with their own tile.
+ *
+ * Interacting costs a turn and resolves on the actor's turn.
+ */
+
+import { DIRECTION_TO_DELTA, isValidDirection } from "@rogue/contracts";
+import {
+  type ComponentClass,
+  Contains,
+  Dead,
+  defineSystem,
+  type Entity,
+  Interactable,
+  NULL_ENTITY,
+  Phase,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import { Health } from "../components/combat";
+import {
+  Container,
+  Door,
+  InteractRequest,
+  Key,
+  Stairs,
+  Trap,
+} from "../components/interaction";
+import { Item } from "../components/inventory";
+import { Position } from "../components/position";
+import { AI_MAPS_RESOURCE, type AIMaps } from "../resources/ai-maps";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import { LEVELS_RESOURCE, type LevelManager } from "../resources/levels";
+import { RANDOM_RESOURCE, type RandomStreams } from "../resources/random";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { applyDamage } from "./combat";
+import { invalidateFov } from "./fov";
+import { getItemName } from "./identification";
+import { addToInventory, getCarriedItems } from "./inventory";
+import { makeNoise, NOISE_VOLUME } from "./perception";
+import { carriesGoal, endRun, trackPickup } from "./run";
+import { applyStatus } from "./status";
+import { turnResolving } from "./turn";
+
+/** Distance within which players can spot hidden traps. */
+export const TRAP_DETECTION_RADIUS = 1;
+
+// =============================================================================
+// Spawning
+// =============================================================================
+
+function place(world: World, entity: Entity, x: number, y: number): void {
+  world.set(entity, Position, { x, y });
+  world.resources.get<GameMap>(GAME_MAP_RESOURCE)?.addEntity(x, y, entity);
+}
+
+/**
+ * Spawn a door entity on every DOOR cell of the current map.
+ *
+ * @returns the spawned doors, in row-major order
+ */
+export function spawnDoors(world: World): Entity[] {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!map) return [];
+
+  const doors: Entity[] = [];
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      if (!map.isDoor(x, y)) continue;
+      const door = world.spawn(Position, Door, Interactable);
+      world.set(door, Door, {
+        open: map.isDoorOpen(x, y) ? 1 : 0,
+        locked: map.isDoorLocked(x, y) ? 1 : 0,
+      });
+      place(world, door, x, y);
+      doors.push(door);
+    }
+  }
+  return doors;
+}
+
+export interface TrapOptions {
+  readonly damage?: number;
+  readonly status?: string;
+  readonly duration?: number;
+  readonly hidden?: boolean;
+  readonly detectChance?: number;
+}
+
+export function spawnTrap(
+  world: World,
+  x: number,
+  y: number,
+  options: TrapOptions = {},
+): Entity {
+  const trap = world.spawn(Position, Trap, Interactable);
+  const { status, hidden, ...stats } = options;
+  world.set(trap, Trap, {
+    ...stats,
+    ...(hidden !== undefined ? { hidden: hidden ? 1 : 0 } : {}),
+  });
+  if (status) world.setString(trap, Trap, "status", status);
+  place(world, trap, x, y);
+  return trap;
+}
+
+/**
+ * Spawn a container holding `contents`. The items must not be on the map.
+ */
+export function spawnContainer(
+  world: World,
+  x: number,
+  y: number,
+  contents: readonly Entity[] = [],
+): Entity {
+  const container = world.spawn(Position, Container, Interactable);
+  place(world, container, x, y);
+  for (const item of contents) {
+    world.relate(container, Contains, item);
+  }
+  return container;
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+function findAt(
+  world: World,
+  x: number,
+  y: number,
+  component: ComponentClass,
+): Entity | null {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!map) return null;
+  return map.getEntitiesAt(x, y).find((e) => world.has(e, component)) ?? null;
+}
+
+export function getDoorAt(world: World, x: number, y: number): Entity | null {
+  return findAt(world, x, y, Door);
+}
+
+export function getContainerContents(
+  world: World,
+  container: Entity,
+): Entity[] {
+  return world
+    .getTargets(container, Contains)
+    .filter((e) => world.has(e, Item));
+}
+
+function hasKey(world: World, entity: Entity, keyId: string): boolean {
+  return getCarriedItems(world, entity).some(
+    (item) =>
+      world.has(item, Key) && world.getString(item, Key, "keyId") === keyId,
+  );
+}
+
+// =============================================================================
+// Doors
+// =============================================================================
+
+/**
+ * Open or close the door on (x, y), keeping the door entity, the map and
+ * every field of view in sync.
+ */
+function setDoorOpen(
+  world: World,
+  entity: Entity,
+  x: number,
+  y: number,
+  open: boolean,
+): void {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!map) return;
+
+  map.setDoorOpen(x, y, open);
+  const door = getDoorAt(world, x, y);
+  if (door !== null) {
+    world.set(door, Door, { open: open ? 1 : 0 });
+  }
+  invalidateFov(world);
+  makeNoise(world, entity, NOISE_VOLUME.door, { x, y });
+  world.emit({
+    type: "interaction.door",
+    entity,
+    door: door ?? NULL_ENTITY,
+    opened: open,
+  });
+}
+
+/**
+ * Lock or unlock a door. Locked doors are not walkable and count as walls
+ * for AI pathing.
+ */
+export function setDoorLocked(
+  world: World,
+  door: Entity,
+  locked: boolean,
+  keyId?: string,
+): boolean {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(door, Position);
+  if (!map || !pos || !world.has(door, Door)) return false;
+
+  world.set(door, Door, locked ? { locked: 1, open: 0 } : { locked: 0 });
+  if (keyId !== undefined) world.setString(door, Door, "keyId", keyId);
+  map.setDoorLocked(pos.x, pos.y, locked);
+  if (locked) map.setDoorOpen(pos.x, pos.y, false);
+  world.resources.get<AIMaps>(AI_MAPS_RESOURCE)?.clear();
+  return true;
+}
+
+/**
+ * Open the closed door on (x, y), unlocking it first if `entity` carries
+ * its key.
+ *
+ * @returns true if the door is open afterwards
+ */
+export function openDoor(
+  world: World,
+  entity: Entity,
+  x: number,
+  y: number,
+): boolean {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!map || !map.isDoor(x, y)) return false;
+  if (map.isDoorOpen(x, y)) return true;
+
+  if (map.isDoorLocked(x, y)) {
+    const door = getDoorAt(world, x, y);
+    const keyId = door !== null ? world.getString(door, Door, "keyId") : null;
+    if (door === null || !keyId || !hasKey(world, entity, keyId)) {
+      world.emit({ type: "message", text: "The door is locked." });
+      return false;
+    }
+    setDoorLocked(world, door, false);
+    world.emit({ type: "message", text: "You unlock the door." });
+  }
+
+  setDoorOpen(world, entity, x, y, true);
+  return true;
+}
+
+/**
+ * Close the open door on (x, y). Fails while anything else stands in the
+ * doorway.
+ *
+ * @returns true if the door is closed afterwards
+ */
+export function closeDoor(
+  world: World,
+  entity: Entity,
+  x: number,
+  y: number,
+): boolean {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!map || !map.isDoor(x, y)) return false;
+  if (!map.isDoorOpen(x, y)) return true;
+
+  const blocked = map
+    .getEntitiesAt(x, y)
+    .some((e) => !world.has(e, Door) && !world.has(e, Trap));
+  if (blocked) {
+    world.emit({ type: "message", text: "Something is in the way." });
+    return false;
+  }
+
+  setDoorOpen(world, entity, x, y, false);
+  return true;
+}
+
+// =============================================================================
+// Traps
+// =============================================================================
+
+function revealTrap(world: World, trap: Entity): void {
+  if (!world.get(trap, Trap)?.hidden) return;
+  world.set(trap, Trap, { hidden: 0 });
+  world.emit({ type: "message", text: "You find a trap!" });
+}
+
+/**
+ * Fire a trap on `victim`, revealing it.
+ */
+export function triggerTrap(world: World, victim: Entity, trap: Entity): void {
+  const data = world.get(trap, Trap);
+  if (!data || world.has(victim, Dead)) return;
+
+  world.set(trap, Trap, { hidden: 0 });
+  world.emit({
+    type: "interaction.trap",
+    entity: victim,
+    trap,
+    damage: data.damage,
+  });
+
+  applyDamage(world, victim, data.damage);
+  const status = world.getString(trap, Trap, "status");
+  if (status && data.duration > 0 && !world.has(victim, Dead)) {
+    applyStatus(world, victim, status, data.duration);
+  }
+}
+
+/**
+ * Fire every trap on (x, y) on a creature that just entered the tile.
+ */
+export function triggerTrapsAt(
+  world: World,
+  victim: Entity,
+  x: number,
+  y: number,
+): void {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!map || !world.has(victim, Health)) return;
+
+  for (const entity of [...map.getEntitiesAt(x, y)]) {
+    if (world.has(entity, Trap)) triggerTrap(world, victim, entity);
+  }
+}
+
+function hiddenTrapsNear(world: World, entity: Entity): Entity[] {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(entity, Position);
+  if (!map || !pos) return [];
+
+  const traps: Entity[] = [];
+  const r = TRAP_DETECTION_RADIUS;
+  for (let y = pos.y - r; y <= pos.y + r; y++) {
+    for (let x = pos.x - r; x <= pos.x + r; x++) {
+      for (const e of map.getEntitiesAt(x, y)) {
+        if (world.get(e, Trap)?.hidden) traps.push(e);
+      }
+    }
+  }
+  return traps;
+}
+
+/**
+ * Roll to spot each hidden trap around `entity`.
+ *
+ * @returns number of traps revealed
+ */
+export function detectTraps(world: World, entity: Entity): number {
+  const rng = world.resources
+    .require<RandomStreams>(RANDOM_RESOURCE)
+    .get("traps");
+
+  let found = 0;
+  for (const trap of hiddenTrapsNear(world, entity)) {
+    if (rng.probability(world.get(trap, Trap)!.detectChance / 100)) {
+      revealTrap(world, trap);
+      found++;
+    }
+  }
+  return found;
+}
+
+/**
+ * Search the surroundings, revealing every hidden trap around `entity`.
+ *
+ * @returns number of traps revealed
+ */
+export function searchForTraps(world: World, entity: Entity): number {
+  const traps = hiddenTrapsNear(world, entity);
+  for (const trap of traps) {
+    revealTrap(world, trap);
+  }
+  if (traps.length === 0) {
+    world.emit({ type: "message", text: "You find nothing unusual." });
+  }
+  return traps.length;
+}
+
+// =============================================================================
+// Containers
+// =============================================================================
+
+/**
+ * Move a container's contents into `entity`'s inventory. Whatever does not
+ * fit stays inside.
+ *
+ * @returns number of items taken
+ */
+export function lootContainer(
+  world: World,
+  entity: Entity,
+  container: Entity,
+): number {
+  if (!world.has(container, Container)) return 0;
+
+  world.set(container, Container, { opened: 1 });
+  world.emit({ type: "interaction.container", entity, container });
+
+  const contents = getContainerContents(world, container);
+  if (contents.length === 0) {
+    world.emit({ type: "message", text: "It is empty." });
+    return 0;
+  }
+
+  let taken = 0;
+  for (const item of contents) {
+    const name = getItemName(world, entity, item);
+    const quantity = world.get(item, Item)!.quantity;
+
+    world.unrelate(container, Contains, item);
+    const left = addToInventory(world, entity, item);
+    if (left < quantity) {
+      trackPickup(world, entity, name);
+      world.emit({ type: "item.pickup", entity, item, itemName: name });
+      taken++;
+    }
+    if (left > 0) {
+      world.relate(container, Contains, item);
+      world.emit({ type: "message", text: "Your pack is full." });
+      break;
+    }
+  }
+  return taken;
+}
+
+// =============================================================================
+// Stairs
+// =============================================================================
+
+/**
+ * Take the stairs `entity` stands on. Travel happens at the end of the
+ * tick.
+ *
+ * @returns true if travel was queued or the run was won
+ */
+export function takeStairs(
+  world: World,
+  entity: Entity,
+  stairs: Entity,
+): boolean {
+  const levels = world.resources.get<LevelManager>(LEVELS_RESOURCE);
+  const pos = world.get(entity, Position);
+  const at = world.get(stairs, Position);
+  const data = world.get(stairs, Stairs);
+  if (!levels || !pos || !at || !data) return false;
+
+  if (pos.x !== at.x || pos.y !== at.y) {
+    world.emit({ type: "message", text: "You need to stand on the stairs." });
+    return false;
+  }
+  if (!data.down && levels.depth <= 1) {
+    if (carriesGoal(world, entity)) {
+      return endRun(world, entity, "victory") !== null;
+    }
+    world.emit({ type: "message", text: "The way up is sealed." });
+    return false;
+  }
+
+  levels.requestTravel(data.down ? "down" : "up");
+  return true;
+}
+
+// =============================================================================
+// Interaction
+// =============================================================================
+
+/**
+ * Interact with a door, container or trap entity.
+ *
+ * @returns true if something happened
+ */
+export function interactWith(
+  world: World,
+  entity: Entity,
+  target: Entity,
+): boolean {
+  const pos = world.get(entity, Position);
+  const at = world.get(target, Position);
+  if (!pos || !at || !world.has(target, Interactable)) return false;
+
+  if (Math.max(Math.abs(at.x - pos.x), Math.abs(at.y - pos.y)) > 1) {
+    world.emit({ type: "message", text: "That is too far away." });
+    return false;
+  }
+
+  if (world.has(target, Door)) {
+    return world.get(target, Door)!.open
+      ? closeDoor(world, entity, at.x, at.y)
+      : openDoor(world, entity, at.x, at.y);
+  }
+  if (world.has(target, Container)) {
+    lootContainer(world, entity, target);
+    return true;
+  }
+  if (world.has(target, Stairs)) {
+    return takeStairs(world, entity, target);
+  }
+  if (world.has(target, Trap) && !world.get(target, Trap)!.hidden) {
+    world.emit({ type: "message", text: "You carefully avoid the trap." });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Interact with whatever is on (x, y): a door, a container, then stairs.
+ * With nothing there, interacting with one's own tile searches for traps.
+ */
+export function interactAt(
+  world: World,
+  entity: Entity,
+  x: number,
+  y: number,
+): boolean {
+  const target =
+    findAt(world, x, y, Door) ??
+    findAt(world, x, y, Container) ??
+    findAt(world, x, y, Stairs);
+  if (target !== null) return interactWith(world, entity, target);
+
+  const pos = world.get(entity, Position);
+  if (pos && pos.x === x && pos.y === y) {
+    searchForTraps(world, entity);
+    return true;
+  }
+
+  world.emit({ type: "message", text: "There is nothing there." });
+  return false;
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+function setInteractRequest(
+  world: World,
+  entity: Entity,
+  data: { x: number; y: number },
+  target: Entity,
+): void {
+  if (!world.has(entity, InteractRequest)) {
+    world.add(entity, InteractRequest);
+  }
+  world.set(entity, InteractRequest, data);
+  world.setEntityRef(entity, InteractRequest, "target", target);
+}
+
+/**
+ * Queue an interaction with the tile in `direction` (numpad layout,
+ * 0 = the actor's own tile) for the entity's next turn.
+ */
+export function requestInteract(
+  world: World,
+  entity: Entity,
+  direction: number,
+): boolean {
+  const pos = world.get(entity, Position);
+  if (!pos || !isValidDirection(direction)) return false;
+
+  const { dx, dy } = DIRECTION_TO_DELTA[direction];
+  setInteractRequest(
+    world,
+    entity,
+    { x: pos.x + dx, y: pos.y + dy },
+    NULL_ENTITY,
+  );
+  return true;
+}
+
+/**
+ * Queue an interaction with a specific interactable entity.
+ */
+export function requestInteractWith(
+  world: World,
+  entity: Entity,
+  target: Entity,
+): boolean {
+  if (!world.isAlive(entity) || !world.isAlive(target)) return false;
+  if (!world.has(target, Interactable)) return false;
+
+  setInteractRequest(world, entity, { x: 0, y: 0 }, target);
+  return true;
+}
+
+// =============================================================================
+// Systems
+// =============================================================================
+
+/**
+ * Resolves interactions for this round's actors, then gives players a
+ * chance to spot nearby hidden traps.
+ */
+export const InteractionSystem = defineSystem("Interaction")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    for (const entity of turn.getActors()) {
+      if (!world.isAlive(entity) || world.has(entity, Dead)) continue;
+
+      if (world.has(entity, InteractRequest)) {
+        const { x, y } = world.get(entity, InteractRequest)!;
+        const target = world.getEntityRef(entity, InteractRequest, "target");
+        world.remove(entity, InteractRequest);
+        if (target !== null) {
+          interactWith(world, entity, target);
+        } else {
+          interactAt(world, entity, x, y);
+        }
+      } else {
+        const action = turn.getAction(entity);
+        const target = action?.data?.target as Entity | undefined;
+        if (
+          action?.type === "interact" &&
+          target !== undefined &&
+          world.isAlive(target) &&
+          world.has(target, Interactable)
+        ) {
+          interactWith(world, entity, target);
+        }
+      }
+
+      if (world.has(entity, Player) && !world.has(entity, Dead)) {
+        detectTraps(world, entity);
+      }
+    }
+  });
@@ -0,0 +1,618 @@
+/**
+ * Inventory System
+ *
+ * Carrying, stacking, dropping, using and equipping items.
+ *
+ * Items are entities. On the floor they have a Position and sit in the
+ * GameMap occupancy index; once carried they lose their Position and are
+ * linked from their owner with the `Contains` relation. Equipped items stay
+ * in the inventory and are referenced from the owner's {@link Equipment}.
+ *
+ * Picking up and using an item cost a turn and resolve on the actor's turn.
+ * Dropping, equipping and unequipping are free actions resolved on the
+ * next world tick.
+ */
+
+import {
+  type EquipmentSlot,
+  type EquipmentState,
+  type InventoryItem,
+  toWireEntity,
+  VALID_EQUIPMENT_SLOTS,
+} from "@rogue/contracts";
+import {
+  type CommandBuffer,
+  type ComponentClass,
+  Contains,
+  Dead,
+  defineSystem,
+  type Entity,
+  getAllComponents,
+  NULL_ENTITY,
+  Phase,
+  type World,
+} from "@rogue/ecs";
+import {
+  Consumable,
+  DropRequest,
+  EQUIPMENT_SLOTS,
+  Equipment,
+  Equippable,
+  EquipRequest,
+  Inventory,
+  Item,
+  ItemEffect,
+  PickupRequest,
+  UnequipRequest,
+  UseItemRequest,
+} from "../components/inventory";
+import { Position } from "../components/position";
+import { ForSale } from "../components/shop";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  ITEM_EFFECTS_RESOURCE,
+  type ItemEffectRegistry,
+} from "../resources/item-effects";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { getItemName, identifyItem } from "./identification";
+import {
+  applyItemEffect,
+  createEffectCommands,
+  type EffectAim,
+  resolveEffectTargets,
+} from "./item-effects";
+import { trackPickup } from "./run";
+import { getPrice, isUnpaid } from "./shop";
+import { turnResolving } from "./turn";
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+export function isItem(world: World, entity: Entity): boolean {
+  return world.isAlive(entity) && world.has(entity, Item);
+}
+
+/**
+ * Items carried by an entity (one entry per stack).
+ */
+export function getCarriedItems(world: World, owner: Entity): Entity[] {
+  return world.getTargets(owner, Contains).filter((e) => world.has(e, Item));
+}
+
+export function isCarriedBy(
+  world: World,
+  owner: Entity,
+  item: Entity,
+): boolean {
+  return world.hasRelation(owner, Contains, item);
+}
+
+/**
+ * Item worn in a slot, or null.
+ */
+export function getEquippedItem(
+  world: World,
+  owner: Entity,
+  slot: EquipmentSlot,
+): Entity | null {
+  if (!world.has(owner, Equipment)) return null;
+  return world.getEntityRef(owner, Equipment, slot);
+}
+
+/**
+ * Everything an entity has equipped, in slot order.
+ */
+export function getEquippedItems(world: World, owner: Entity): Entity[] {
+  const items: Entity[] = [];
+  for (const slot of EQUIPMENT_SLOTS) {
+    const item = getEquippedItem(world, owner, slot);
+    if (item !== null) items.push(item);
+  }
+  return items;
+}
+
+export function getEquipmentState(world: World, owner: Entity): EquipmentState {
+  const state: EquipmentState = {};
+  for (const slot of EQUIPMENT_SLOTS) {
+    const item = getEquippedItem(world, owner, slot);
+    if (item !== null) state[slot] = toWireEntity(item);
+  }
+  return state;
+}
+
+function equippedSlot(
+  world: World,
+  owner: Entity,
+  item: Entity,
+): EquipmentSlot | null {
+  for (const slot of EQUIPMENT_SLOTS) {
+    if (getEquippedItem(world, owner, slot) === item) return slot;
+  }
+  return null;
+}
+
+export function isEquipped(world: World, owner: Entity, item: Entity): boolean {
+  return equippedSlot(world, owner, item) !== null;
+}
+
+/**
+ * Inventory contents in wire format, named as the owner knows them.
+ */
+export function getInventoryItems(
+  world: World,
+  owner: Entity,
+): InventoryItem[] {
+  return getCarriedItems(world, owner).map((id) => {
+    const entry: InventoryItem = {
+      id: toWireEntity(id),
+      g: world.getString(id, Item, "glyph") ?? "?",
+      n: getItemName(world, owner, id),
+      qty: world.get(id, Item)?.quantity ?? 1,
+    };
+    if (isEquipped(world, owner, id)) entry.eq = true;
+    if (isUnpaid(world, id)) entry.pr = getPrice(world, id);
+    return entry;
+  });
+}
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+/**
+ * Put an item into an entity's inventory, merging it into existing stacks
+ * of the same kind first. The item must not be on the map (see
+ * {@link pickupItem}). Fully merged items are despawned.
+ *
+ * @returns quantity that did not fit (0 if everything was stored)
+ */
+export function addToInventory(
+  world: World,
+  owner: Entity,
+  item: Entity,
+): number {
+  const inventory = world.get(owner, Inventory);
+  const data = world.get(item, Item);
+  if (!inventory || !data || !world.isAlive(item)) return data?.quantity ?? 0;
+
+  let remaining = data.quantity;
+  const carried = getCarriedItems(world, owner);
+  const kind = world.getString(item, Item, "kind") ?? "";
+
+  if (kind !== "" && data.maxStack > 1) {
+    for (const stack of carried) {
+      if (remaining === 0) break;
+      if (world.getString(stack, Item, "kind") !== kind) continue;
+      // Unpaid shop stock only stacks with stock of the same shop
+      if (
+        world.getEntityRef(stack, ForSale, "shopkeeper") !==
+        world.getEntityRef(item, ForSale, "shopkeeper")
+      ) {
+        continue;
+      }
+
+      const stackData = world.get(stack, Item)!;
+      const moved = Math.min(
+        remaining,
+        stackData.maxStack - stackData.quantity,
+      );
+      if (moved <= 0) continue;
+
+      world.set(stack, Item, { quantity: stackData.quantity + moved });
+      remaining -= moved;
+    }
+  }
+
+  if (remaining === 0) {
+    world.despawn(item);
+    return 0;
+  }
+
+  world.set(item, Item, { quantity: remaining });
+  if (carried.length >= inventory.capacity) return remaining;
+
+  world.relate(owner, Contains, item);
+  return 0;
+}
+
+/**
+ * Pick an item up from the owner's tile. With no valid `item`, the first
+ * item on the tile is taken.
+ *
+ * @returns true if at least part of the item was picked up
+ */
+export function pickupItem(
+  world: World,
+  owner: Entity,
+  item: Entity = NULL_ENTITY,
+): boolean {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(owner, Position);
+  if (!map || !pos || !world.has(owner, Inventory)) return false;
+
+  const here = map.getEntitiesAt(pos.x, pos.y);
+  const target =
+    here.includes(item) && isItem(world, item)
+      ? item
+      : here.find((e) => isItem(world, e));
+  if (target === undefined) {
+    world.emit({ type: "message", text: "There is nothing here to pick up." });
+    return false;
+  }
+
+  const name = getItemName(world, owner, target);
+  const quantity = world.get(target, Item)!.quantity;
+
+  // Take it off the map first; a partial pickup puts the rest back
+  map.removeEntity(pos.x, pos.y, target);
+  world.remove(target, Position);
+
+  const left = addToInventory(world, owner, target);
+  if (left > 0) {
+    world.add(target, Position, { x: pos.x, y: pos.y });
+    map.addEntity(pos.x, pos.y, target);
+    world.emit({ type: "message", text: "Your pack is full." });
+    if (left === quantity) return false;
+  }
+
+  trackPickup(world, owner, name);
+  world.emit({
+    type: "item.pickup",
+    entity: owner,
+    item: target,
+    itemName: name,
+  });
+  return true;
+}
+
+/**
+ * Drop a carried item onto the owner's tile, unequipping it first.
+ */
+export function dropItem(world: World, owner: Entity, item: Entity): boolean {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(owner, Position);
+  if (!pos || !isCarriedBy(world, owner, item)) return false;
+
+  const slot = equippedSlot(world, owner, item);
+  if (slot !== null) unequipItem(world, owner, slot);
+
+  world.unrelate(owner, Contains, item);
+  world.add(item, Position, { x: pos.x, y: pos.y });
+  map?.addEntity(pos.x, pos.y, item);
+
+  world.emit({
+    type: "item.drop",
+    entity: owner,
+    item,
+    itemName: getItemName(world, owner, item),
+  });
+  return true;
+}
+
+/**
+ * Equip a carried item in its slot, swapping out whatever was there.
+ * `slot`, when given, must be a valid slot matching the item's own.
+ */
+export function equipItem(
+  world: World,
+  owner: Entity,
+  item: Entity,
+  slot?: string,
+): boolean {
+  if (!isCarriedBy(world, owner, item)) return false;
+  const equippable = world.get(item, Equippable);
+  const itemSlot = equippable && EQUIPMENT_SLOTS[equippable.slot];
+  if (!itemSlot) return false;
+  if (slot !== undefined && slot !== itemSlot) return false;
+
+  const current = getEquippedItem(world, owner, itemSlot);
+  if (current === item) return true;
+  if (current !== null) unequipItem(world, owner, itemSlot);
+
+  if (!world.has(owner, Equipment)) {
+    world.add(owner, Equipment);
+  }
+  world.setEntityRef(owner, Equipment, itemSlot, item);
+  world.emit({ type: "item.equip", entity: owner, item, slot: itemSlot });
+  return true;
+}
+
+export function unequipItem(
+  world: World,
+  owner: Entity,
+  slot: EquipmentSlot,
+): boolean {
+  if (getEquippedItem(world, owner, slot) === null) return false;
+
+  world.setEntityRef(owner, Equipment, slot, NULL_ENTITY);
+  world.emit({ type: "item.unequip", entity: owner, slot });
+  return true;
+}
+
+/**
+ * Spend one use of an item: one item of a stack, otherwise one charge of
+ * a consumable. The item is destroyed when nothing is left; with
+ * `commands` the despawn is deferred to the buffer's flush.
+ */
+export function consumeItem(
+  world: World,
+  owner: Entity,
+  item: Entity,
+  commands?: CommandBuffer,
+): void {
+  const data = world.get(item, Item);
+  const consumable = world.get(item, Consumable);
+  if (!data) return;
+
+  if (data.quantity > 1) {
+    world.set(item, Item, { quantity: data.quantity - 1 });
+    return;
+  }
+  if (consumable && consumable.charges > 1) {
+    world.set(item, Consumable, { charges: consumable.charges - 1 });
+    return;
+  }
+
+  const slot = equippedSlot(world, owner, item);
+  if (slot !== null) unequipItem(world, owner, slot);
+  world.unrelate(owner, Contains, item);
+  if (commands) {
+    commands.despawn(item);
+  } else {
+    world.despawn(item);
+  }
+}
+
+/**
+ * Take a single item out of the owner's inventory: the item itself, or a
+ * copy split off its stack. The returned item is no longer carried and
+ * has no Position.
+ *
+ * @returns null if the owner does not carry the item
+ */
+export function takeOne(
+  world: World,
+  owner: Entity,
+  item: Entity,
+): Entity | null {
+  const data = world.get(item, Item);
+  if (!data || !isCarriedBy(world, owner, item)) return null;
+
+  if (data.quantity <= 1) {
+    const slot = equippedSlot(world, owner, item);
+    if (slot !== null) unequipItem(world, owner, slot);
+    world.unrelate(owner, Contains, item);
+    return item;
+  }
+
+  const types = getAllComponents().filter((type) => world.has(item, type));
+  const single = world.spawn(...types);
+  for (const type of types) {
+    const values = world.get(item, type);
+    if (values && Object.keys(values).length > 0) {
+      world.set(single, type, values);
+    }
+  }
+  world.set(single, Item, { quantity: 1 });
+  world.set(item, Item, { quantity: data.quantity - 1 });
+  return single;
+}
+
+/**
+ * Use a carried consumable, resolving its ItemEffect (if any) against
+ * `aim`. Untargeted uses aim at the user's own tile. Using an item
+ * identifies its kind for the owner.
+ *
+ * @returns false if the item cannot be used or the aim is invalid for
+ * its effect; nothing is consumed in that case
+ */
+export function useItem(
+  world: World,
+  owner: Entity,
+  item: Entity,
+  aim?: EffectAim,
+): boolean {
+  if (!isCarriedBy(world, owner, item) || !world.has(item, Consumable)) {
+    return false;
+  }
+
+  const effectId = world.getString(item, ItemEffect, "effect");
+  const effect = effectId
+    ? world.resources
+        .get<ItemEffectRegistry>(ITEM_EFFECTS_RESOURCE)
+        ?.get(effectId)
+    : undefined;
+
+  let targets: Entity[] | null = [];
+  if (effect) {
+    const pos = world.get(owner, Position) ?? undefined;
+    targets = resolveEffectTargets(world, owner, effect, aim ?? pos);
+    if (targets === null) {
+      world.emit({ type: "message", text: "That is not a valid target." });
+      return false;
+    }
+  }
+
+  world.emit({
+    type: "item.use",
+    entity: owner,
+    item,
+    itemName: getItemName(world, owner, item),
+  });
+
+  const commands = createEffectCommands();
+  if (effect && targets) {
+    applyItemEffect({ world, user: owner, item, effect, commands }, targets);
+  }
+  identifyItem(world, owner, item, commands);
+  consumeItem(world, owner, item, commands);
+  commands.flush(world);
+  return true;
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+function setRequest<T>(
+  world: World,
+  entity: Entity,
+  request: ComponentClass<T>,
+  field: keyof T & string,
+  target: Entity,
+): void {
+  if (!world.has(entity, request)) {
+    world.add(entity, request);
+  }
+  world.setEntityRef(entity, request, field, target);
+}
+
+/**
+ * Queue a pickup for the entity's next turn. Pass no item (or an entity
+ * that is not an item on the tile) to take the first item underfoot.
+ */
+export function requestPickup(
+  world: World,
+  entity: Entity,
+  item: Entity = NULL_ENTITY,
+): boolean {
+  if (!world.isAlive(entity) || !world.has(entity, Inventory)) return false;
+  setRequest(world, entity, PickupRequest, "item", item);
+  return true;
+}
+
+export function requestDrop(
+  world: World,
+  entity: Entity,
+  item: Entity,
+): boolean {
+  if (!isCarriedBy(world, entity, item)) return false;
+  setRequest(world, entity, DropRequest, "item", item);
+  return true;
+}
+
+/**
+ * Queue an item use for the entity's next turn, optionally aimed at a
+ * tile for targeted effects.
+ */
+export function requestUseItem(
+  world: World,
+  entity: Entity,
+  item: Entity,
+  aim?: EffectAim,
+): boolean {
+  if (!isCarriedBy(world, entity, item) || !world.has(item, Consumable)) {
+    return false;
+  }
+  setRequest(world, entity, UseItemRequest, "item", item);
+  world.set(
+    entity,
+    UseItemRequest,
+    aim ? { targeted: 1, x: aim.x, y: aim.y } : { targeted: 0 },
+  );
+  return true;
+}
+
+export function requestEquip(
+  world: World,
+  entity: Entity,
+  item: Entity,
+): boolean {
+  if (!isCarriedBy(world, entity, item) || !world.has(item, Equippable)) {
+    return false;
+  }
+  setRequest(world, entity, EquipRequest, "item", item);
+  return true;
+}
+
+/**
+ * Queue removal of the item in `slot`.
+ *
+ * @returns false for slots outside VALID_EQUIPMENT_SLOTS
+ */
+export function requestUnequip(
+  world: World,
+  entity: Entity,
+  slot: string,
+): boolean {
+  if (!world.isAlive(entity) || !VALID_EQUIPMENT_SLOTS.has(slot)) return false;
+
+  const index = EQUIPMENT_SLOTS.indexOf(slot as EquipmentSlot);
+  if (world.has(entity, UnequipRequest)) {
+    world.set(entity, UnequipRequest, { slot: index });
+  } else {
+    world.add(entity, UnequipRequest, { slot: index });
+  }
+  return true;
+}
+
+// =============================================================================
+// Systems
+// =============================================================================
+
+/**
+ * Resolves free inventory actions: drop, equip and unequip.
+ */
+export const InventorySystem = defineSystem("Inventory")
+  .inPhase(Phase.Update)
+  .execute((world) => {
+    for (const entity of world.query(DropRequest).not(Dead).collect()) {
+      const item = world.getEntityRef(entity, DropRequest, "item");
+      world.remove(entity, DropRequest);
+      if (item !== null) dropItem(world, entity, item);
+    }
+
+    for (const entity of world.query(EquipRequest).not(Dead).collect()) {
+      const item = world.getEntityRef(entity, EquipRequest, "item");
+      world.remove(entity, EquipRequest);
+      if (item !== null) equipItem(world, entity, item);
+    }
+
+    for (const entity of world.query(UnequipRequest).not(Dead).collect()) {
+      const slot = EQUIPMENT_SLOTS[world.get(entity, UnequipRequest)!.slot];
+      world.remove(entity, UnequipRequest);
+      if (slot) unequipItem(world, entity, slot);
+    }
+  });
+
+/**
+ * Resolves pickups and item use for this round's actors.
+ */
+export const ItemActionSystem = defineSystem("ItemAction")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    for (const entity of turn.getActors()) {
+      if (!world.isAlive(entity) || world.has(entity, Dead)) continue;
+
+      if (world.has(entity, PickupRequest)) {
+        const item = world.getEntityRefRaw(entity, PickupRequest, "item");
+        world.remove(entity, PickupRequest);
+        pickupItem(world, entity, item ?? NULL_ENTITY);
+      }
+
+      let item: Entity | null = null;
+      let aim: EffectAim | undefined;
+      if (world.has(entity, UseItemRequest)) {
+        const request = world.get(entity, UseItemRequest)!;
+        item = world.getEntityRef(entity, UseItemRequest, "item");
+        if (request.targeted) aim = { x: request.x, y: request.y };
+        world.remove(entity, UseItemRequest);
+      } else {
+        const action = turn.getAction(entity);
+        if (action?.type === "use_item" && action.data?.item !== undefined) {
+          item = action.data.item as Entity;
+          const { x, y } = action.data;
+          if (x !== undefined && y !== undefined) aim = { x, y };
+        }
+      }
+      if (item !== null) useItem(world, entity, item, aim);
+    }
+  });
@@ -0,0 +1,252 @@
+/**
+ * Item Effects
+ *
+ * Resolves the ItemEffectRegistry definition attached to a used item:
+ * targets are picked according to the effect's targeting mode, then the
+ * effect is applied to each of them in a fixed order (line order, or
+ * row-major tile order for areas).
+ *
+ * Health changes go through the combat helpers so they emit the usual
+ * `combat.heal`/`combat.damage`/`combat.death` events. Structural changes
+ * (identification, the consumed item itself) are recorded in a
+ * CommandBuffer and flushed once the whole use has resolved, so a target
+ * list computed up front is never invalidated halfway through. Random
+ * choices draw from the "items" stream.
+ */
+
+import {
+  CommandBuffer,
+  Contains,
+  Dead,
+  type Entity,
+  type World,
+} from "@rogue/ecs";
+import { bresenhamLine } from "@rogue/procgen/core";
+import { Health } from "../components/combat";
+import { Unidentified } from "../components/inventory";
+import { Position } from "../components/position";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  DEFAULT_EFFECT_RANGE,
+  type ItemEffectDefinition,
+} from "../resources/item-effects";
+import { RANDOM_RESOURCE, type RandomStreams } from "../resources/random";
+import { applyDamage, heal } from "./combat";
+import { invalidateFov } from "./fov";
+import { feed } from "./hunger";
+import { identifyItem, isIdentified } from "./identification";
+import { applyStatus } from "./status";
+
+/**
+ * Tile an effect is aimed at.
+ */
+export interface EffectAim {
+  readonly x: number;
+  readonly y: number;
+}
+
+export interface EffectContext {
+  readonly world: World;
+  readonly user: Entity;
+  readonly item: Entity;
+  readonly effect: ItemEffectDefinition;
+  /** Deferred structural changes, flushed after the use resolves */
+  readonly commands: CommandBuffer;
+}
+
+/**
+ * Command buffer for one item use, with every component effects may add
+ * or remove registered.
+ */
+export function createEffectCommands(): CommandBuffer {
+  const commands = new CommandBuffer(16);
+  commands.registerComponents(Unidentified);
+  return commands;
+}
+
+function isCreature(world: World, entity: Entity): boolean {
+  return world.has(entity, Health) && !world.has(entity, Dead);
+}
+
+function creaturesAt(map: GameMap, world: World, x: number, y: number) {
+  return map.getEntitiesAt(x, y).filter((e) => isCreature(world, e));
+}
+
+/**
+ * Entities affected by an effect aimed at `aim`.
+ *
+ * @returns null if the aim is invalid for the targeting mode (out of
+ * range, or nothing to touch for adjacent effects); an empty list if the
+ * effect is valid but hits nobody
+ */
+export function resolveEffectTargets(
+  world: World,
+  user: Entity,
+  effect: ItemEffectDefinition,
+  aim?: EffectAim,
+): Entity[] | null {
+  if (effect.targeting === "self") return [user];
+
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(user, Position);
+  if (!map || !pos || !aim || !map.isInBounds(aim.x, aim.y)) return null;
+
+  const distance = Math.max(Math.abs(aim.x - pos.x), Math.abs(aim.y - pos.y));
+
+  switch (effect.targeting) {
+    case "adjacent": {
+      if (distance !== 1) return null;
+      const target = creaturesAt(map, world, aim.x, aim.y)[0];
+      return target !== undefined ? [target] : null;
+    }
+
+    case "line": {
+      if (distance === 0 || distance > (effect.range ?? DEFAULT_EFFECT_RANGE)) {
+        return null;
+      }
+      for (const point of bresenhamLine(pos, aim).slice(1)) {
+        if (map.isOpaque(point.x, point.y)) break;
+        const target = creaturesAt(map, world, point.x, point.y)[0];
+        if (target !== undefined) return [target];
+      }
+      return [];
+    }
+
+    case "area": {
+      if (distance > (effect.range ?? DEFAULT_EFFECT_RANGE)) return null;
+      if (map.isOpaque(aim.x, aim.y)) return null;
+
+      const radius = effect.radius ?? 1;
+      const targets: Entity[] = [];
+      for (let y = aim.y - radius; y <= aim.y + radius; y++) {
+        for (let x = aim.x - radius; x <= aim.x + radius; x++) {
+          targets.push(...creaturesAt(map, world, x, y));
+        }
+      }
+      return targets;
+    }
+  }
+}
+
+function teleport(world: World, entity: Entity): void {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(entity, Position);
+  if (!map || !pos) return;
+
+  const free: EffectAim[] = [];
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      if ((x !== pos.x || y !== pos.y) && map.isPassable(x, y)) {
+        free.push({ x, y });
+      }
+    }
+  }
+  const rng = world.resources
+    .require<RandomStreams>(RANDOM_RESOURCE)
+    .get("items");
+  const to = rng.choice(free);
+  if (!to) return;
+
+  map.moveEntity(pos.x, pos.y, to.x, to.y, entity);
+  world.set(entity, Position, { x: to.x, y: to.y });
+  invalidateFov(world);
+  world.emit({
+    type: "movement.moved",
+    entity,
+    fromX: pos.x,
+    fromY: pos.y,
+    toX: to.x,
+    toY: to.y,
+  });
+}
+
+/**
+ * Reveal every floor tile of the level and the walls bordering it.
+ */
+function revealMap(world: World): void {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (!map) return;
+
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      if (!map.isWalkable(x, y)) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          map.setExplored(x + dx, y + dy);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Identify the first carried item the user does not know.
+ */
+function identifyOne(ctx: EffectContext): void {
+  const { world, user } = ctx;
+  const item = world
+    .getTargets(user, Contains)
+    .find((e) => e !== ctx.item && !isIdentified(world, user, e));
+
+  if (item === undefined) {
+    world.emit({ type: "message", text: "You have nothing to identify." });
+    return;
+  }
+
+  identifyItem(world, user, item, ctx.commands);
+}
+
+/**
+ * Apply a resolved effect to its targets.
+ */
+export function applyItemEffect(
+  ctx: EffectContext,
+  targets: readonly Entity[],
+): void {
+  const { world, user, effect } = ctx;
+
+  if (effect.message) {
+    world.emit({ type: "message", text: effect.message });
+  }
+
+  switch (effect.kind) {
+    case "heal":
+      for (const target of targets) {
+        heal(world, target, effect.power ?? 0, user);
+      }
+      break;
+
+    case "damage":
+      for (const target of targets) {
+        applyDamage(world, target, effect.power ?? 0, user);
+      }
+      break;
+
+    case "status":
+      if (!effect.status) break;
+      for (const target of targets) {
+        applyStatus(world, target, effect.status, effect.duration ?? 1, user);
+      }
+      break;
+
+    case "teleport":
+      for (const target of targets) {
+        teleport(world, target);
+      }
+      break;
+
+    case "mapping":
+      revealMap(world);
+      break;
+
+    case "identify":
+      identifyOne(ctx);
+      break;
+
+    case "feed":
+      for (const target of targets) {
+        feed(world, target, effect.power ?? 0);
+      }
+      break;
+  }
+}
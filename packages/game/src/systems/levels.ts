@@ -0,0 +1,334 @@
+/**
+ * Level System
+ *
+ * Moves the party between depths. Taking stairs queues a travel on the
+ * LevelManager; at the end of the tick every player leaves the current
+ * level and arrives on the matching stairs of the next one (up stairs
+ * when descending, down stairs when climbing).
+ *
+ * New levels are populated on first entry (see population.ts).
+ *
+ * The level being left is stashed: every entity on its map, along with
+ * their statuses (`ChildOf` children) and anything they hold (`Contains`
+ * targets), is copied into the level record and despawned. Coming back
+ * respawns them under new ids, with references between them remapped.
+ * Players and what they carry are never stashed.
+ */
+
+import {
+  ChildOf,
+  type ComponentClass,
+  type ComponentData,
+  Contains,
+  defineSystem,
+  type Entity,
+  FieldType,
+  getAllComponents,
+  getComponentMeta,
+  Interactable,
+  NULL_ENTITY,
+  PendingDespawn,
+  Phase,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import { Stairs } from "../components/interaction";
+import { Position } from "../components/position";
+import { AI_MAPS_RESOURCE, type AIMaps } from "../resources/ai-maps";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  LEVELS_RESOURCE,
+  type Level,
+  type LevelManager,
+  type LevelStash,
+  type StashedComponent,
+  type StashedEntity,
+  type StashedRelation,
+  type TravelDirection,
+} from "../resources/levels";
+import {
+  VISIBILITY_RESOURCE,
+  type VisibilityStore,
+} from "../resources/visibility";
+import { invalidateFov } from "./fov";
+import { spawnDoors } from "./interaction";
+import { populateLevel } from "./population";
+
+// =============================================================================
+// Stashing
+// =============================================================================
+
+/**
+ * Entities belonging to the current level, in discovery order.
+ */
+function levelEntities(world: World): Entity[] {
+  const found = new Set<Entity>();
+  const pending = world
+    .query(Position)
+    .not(Player)
+    .not(PendingDespawn)
+    .collect();
+
+  while (pending.length > 0) {
+    const entity = pending.shift()!;
+    if (found.has(entity)) continue;
+    found.add(entity);
+    pending.push(...world.getSources(entity, ChildOf));
+    pending.push(...world.getTargets(entity, Contains));
+  }
+  return [...found];
+}
+
+function stashComponent<T>(
+  world: World,
+  entity: Entity,
+  type: ComponentClass<T>,
+): StashedComponent {
+  const data: Record<string, number> = {};
+  const strings: Record<string, string> = {};
+  const refs: Record<string, Entity | null> = {};
+  const values = world.get(entity, type) as Record<string, number>;
+
+  for (const field of getComponentMeta(type).fields) {
+    const name = field.name as keyof ComponentData<T> & string;
+    if (field.type === FieldType.String) {
+      strings[field.name] = world.getString(entity, type, name) ?? "";
+    } else if (field.type === FieldType.Entity) {
+      refs[field.name] = world.getEntityRef(entity, type, name);
+    } else if (values[field.name] !== undefined) {
+      data[field.name] = values[field.name]!;
+    }
+  }
+  return { type, data, strings, refs };
+}
+
+/** Write back the string and entity fields of a stashed component. */
+function restoreFields<T>(
+  world: World,
+  entity: Entity,
+  type: ComponentClass<T>,
+  strings: Record<string, string>,
+  refs: Record<string, Entity | null>,
+  remap: (id: Entity | null) => Entity,
+): void {
+  type Field = keyof ComponentData<T> & string;
+  for (const [field, value] of Object.entries(strings)) {
+    world.setString(entity, type, field as Field, value);
+  }
+  for (const [field, ref] of Object.entries(refs)) {
+    world.setEntityRef(entity, type, field as Field, remap(ref));
+  }
+}
+
+/**
+ * Copy the current level's entities into a stash and despawn them.
+ */
+export function stashLevel(world: World): LevelStash {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const visibility = world.resources.get<VisibilityStore>(VISIBILITY_RESOURCE);
+  const components = getAllComponents();
+
+  const ids = levelEntities(world);
+  const members = new Set(ids);
+
+  const entities: StashedEntity[] = ids.map((id) => ({
+    id,
+    components: components
+      .filter((type) => world.has(id, type))
+      .map((type) => stashComponent(world, id, type)),
+    blocking: map?.isBlocking(id) ?? false,
+  }));
+
+  const relations: StashedRelation[] = [];
+  for (const source of ids) {
+    const parent = world.getTarget(source, ChildOf);
+    if (parent !== null) {
+      relations.push({ relation: ChildOf, source, target: parent });
+    }
+    for (const target of world.getTargets(source, Contains)) {
+      if (members.has(target)) {
+        relations.push({ relation: Contains, source, target });
+      }
+    }
+  }
+
+  for (const id of ids) {
+    visibility?.delete(id);
+    world.despawn(id);
+  }
+  for (const entity of world.query(PendingDespawn).not(Player).collect()) {
+    world.despawn(entity);
+  }
+  map?.clearEntities();
+
+  return { entities, relations };
+}
+
+/**
+ * Respawn stashed entities and put those with a Position back on the map.
+ *
+ * @returns map from stashed ids to the new entities
+ */
+export function restoreLevel(
+  world: World,
+  stash: LevelStash,
+): Map<Entity, Entity> {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const ids = new Map<Entity, Entity>();
+
+  for (const stashed of stash.entities) {
+    const entity = world.spawn(...stashed.components.map((c) => c.type));
+    ids.set(stashed.id, entity);
+  }
+
+  const remap = (id: Entity | null): Entity =>
+    id === null
+      ? NULL_ENTITY
+      : (ids.get(id) ?? (world.isAlive(id) ? id : NULL_ENTITY));
+
+  for (const stashed of stash.entities) {
+    const entity = ids.get(stashed.id)!;
+    for (const { type, data, strings, refs } of stashed.components) {
+      if (Object.keys(data).length > 0) world.set(entity, type, data);
+      restoreFields(world, entity, type, strings, refs, remap);
+    }
+
+    const pos = world.get(entity, Position);
+    if (pos && map) map.addEntity(pos.x, pos.y, entity, stashed.blocking);
+  }
+
+  for (const { relation, source, target } of stash.relations) {
+    const from = remap(source);
+    const to = remap(target);
+    if (from !== NULL_ENTITY && to !== NULL_ENTITY) {
+      world.relate(from, relation, to);
+    }
+  }
+
+  return ids;
+}
+
+// =============================================================================
+// Travel
+// =============================================================================
+
+/**
+ * Spawn stairs on the artifact's entrance (up) and exit (down) points.
+ */
+export function spawnStairs(world: World, level: Level): Entity[] {
+  const stairs: Entity[] = [];
+  for (const spawn of level.artifact.spawns) {
+    const entity = world.spawn(Position, Stairs, Interactable);
+    world.set(entity, Position, spawn.position);
+    world.set(entity, Stairs, { down: spawn.type === "exit" ? 1 : 0 });
+    level.map.addEntity(spawn.position.x, spawn.position.y, entity);
+    stairs.push(entity);
+  }
+  return stairs;
+}
+
+/**
+ * Where players arriving from `direction` appear: the stairs leading back
+ * the way they came, or the first walkable tile if there are none.
+ */
+function arrivalPoint(
+  world: World,
+  map: GameMap,
+  direction: TravelDirection,
+): { x: number; y: number } {
+  const down = direction === "up" ? 1 : 0;
+  for (const entity of world.query(Stairs, Position).collect()) {
+    if (world.get(entity, Stairs)!.down === down) {
+      return world.get(entity, Position)!;
+    }
+  }
+
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      if (map.isWalkable(x, y)) return { x, y };
+    }
+  }
+  return { x: 0, y: 0 };
+}
+
+/**
+ * Nearest free tile to (x, y), searching outward in square rings.
+ */
+function freeTileNear(
+  map: GameMap,
+  x: number,
+  y: number,
+): { x: number; y: number } | null {
+  const maxRadius = Math.max(map.width, map.height);
+  for (let r = 0; r <= maxRadius; r++) {
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+        if (map.isPassable(x + dx, y + dy)) return { x: x + dx, y: y + dy };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Leave the current level (if any) and enter `depth`, bringing every
+ * player along. The level is generated and populated on first visit and
+ * restored from its stash afterwards.
+ */
+export function enterLevel(
+  world: World,
+  depth: number,
+  direction: TravelDirection = "down",
+): Level {
+  const levels = world.resources.require<LevelManager>(LEVELS_RESOURCE);
+  const level = levels.getLevel(depth);
+  const players = world.query(Player, Position).collect();
+
+  const previous = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  if (levels.depth > 0 && previous) {
+    for (const player of players) {
+      const pos = world.get(player, Position)!;
+      previous.removeEntity(pos.x, pos.y, player);
+    }
+    levels.getLevel(levels.depth).stash = stashLevel(world);
+  }
+
+  level.map.clearEntities();
+  world.resources.set(GAME_MAP_RESOURCE, level.map);
+  if (level.stash) {
+    restoreLevel(world, level.stash);
+    level.stash = null;
+  } else {
+    spawnDoors(world);
+    spawnStairs(world, level);
+    populateLevel(world, level, levels.content);
+  }
+  levels.setDepth(depth);
+
+  const arrival = arrivalPoint(world, level.map, direction);
+  for (const player of players) {
+    const tile = freeTileNear(level.map, arrival.x, arrival.y) ?? arrival;
+    world.set(player, Position, tile);
+    level.map.addEntity(tile.x, tile.y, player, true);
+  }
+
+  world.resources.get<AIMaps>(AI_MAPS_RESOURCE)?.clear();
+  invalidateFov(world);
+  world.emit({ type: "level.entered", level: depth, direction });
+  return level;
+}
+
+/**
+ * Applies travel queued during the tick.
+ */
+export const LevelSystem = defineSystem("Level")
+  .inPhase(Phase.PostUpdate)
+  .execute((world) => {
+    const levels = world.resources.get<LevelManager>(LEVELS_RESOURCE);
+    const direction = levels?.takeTravel();
+    if (!levels || !direction) return;
+
+    const depth = levels.depth + (direction === "down" ? 1 : -1);
+    enterLevel(world, depth, direction);
+  });
@@ -0,0 +1,87 @@
+/**
+ * Movement System
+ *
+ * Applies `move` actions committed for the current turn. Destinations must
+ * be walkable and free of blocking entities; closed doors are opened by
+ * walking into them, and moving into a hostile blocker attacks it.
+ * Moving makes noise, and entering a tile fires any trap on it.
+ */
+
+import { defineSystem, type Entity, Phase, type World } from "@rogue/ecs";
+import { Position } from "../components/position";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { isHostile, resolveAttack } from "./combat";
+import { openDoor, triggerTrapsAt } from "./interaction";
+import { makeNoise, NOISE_VOLUME } from "./perception";
+import { turnResolving } from "./turn";
+
+/**
+ * Move an entity by one step, keeping the GameMap occupancy index in sync.
+ *
+ * @returns true if the entity moved
+ */
+export function tryMove(
+  world: World,
+  entity: Entity,
+  dx: number,
+  dy: number,
+): boolean {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(entity, Position);
+  if (!map || !pos) return false;
+
+  if (Math.abs(dx) > 1 || Math.abs(dy) > 1 || (dx === 0 && dy === 0)) {
+    return false;
+  }
+
+  const toX = pos.x + dx;
+  const toY = pos.y + dy;
+
+  const blocker = map.getBlocker(toX, toY);
+  if (blocker !== null && isHostile(world, entity, blocker)) {
+    resolveAttack(world, entity, blocker);
+    return false;
+  }
+
+  if (
+    blocker !== null ||
+    (map.isDoor(toX, toY)
+      ? !openDoor(world, entity, toX, toY)
+      : !map.isWalkable(toX, toY))
+  ) {
+    world.emit({ type: "movement.blocked", entity, x: toX, y: toY });
+    return false;
+  }
+
+  map.moveEntity(pos.x, pos.y, toX, toY, entity);
+  world.set(entity, Position, { x: toX, y: toY });
+  world.emit({
+    type: "movement.moved",
+    entity,
+    fromX: pos.x,
+    fromY: pos.y,
+    toX,
+    toY,
+  });
+  makeNoise(world, entity, NOISE_VOLUME.move);
+  triggerTrapsAt(world, entity, toX, toY);
+  return true;
+}
+
+export const MovementSystem = defineSystem("Movement")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    for (const entity of turn.getActors()) {
+      const action = turn.getAction(entity);
+      if (action?.type !== "move") continue;
+      tryMove(world, entity, action.data?.dx ?? 0, action.data?.dy ?? 0);
+    }
+  });
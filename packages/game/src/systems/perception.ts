@@ -0,0 +1,286 @@
+/**
+ * Perception
+ *
+ * How AI actors with an {@link Awareness} component notice hostiles.
+ *
+ * Noise: moving, opening doors and fighting make noise at the actor's
+ * tile. It spreads breadth-first over walkable tiles, losing one point of
+ * volume per step, so walls and locked doors stop it while corridors carry
+ * it around corners. The actor's Stealth is taken off the volume first.
+ * Hostile listeners that hear it go investigate its origin; sleeping ones
+ * only wake for noises still at least WAKE_LOUDNESS loud when they arrive.
+ *
+ * Sight: on its turn an awake actor that has a hostile within its sight
+ * range and line of sight starts (or keeps) hunting it. Losing sight of
+ * the hunted hostile sends it to investigate where it was last seen; an
+ * investigation ends on arrival or after INVESTIGATE_PATIENCE turns.
+ *
+ * Only hunting actors run their AI behaviour; see `decideAction`.
+ */
+
+import { Dead, defineSystem, type Entity, Phase, type World } from "@rogue/ecs";
+import { bresenhamLine, FastQueue } from "@rogue/procgen/core";
+import { Health } from "../components/combat";
+import { Awareness, AwarenessState, Stealth } from "../components/perception";
+import { Position } from "../components/position";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { isHostile } from "./combat";
+import { turnResolving } from "./turn";
+
+/** Base volume of the noises actions make, before stealth */
+export const NOISE_VOLUME = {
+  move: 4,
+  door: 6,
+  combat: 10,
+} as const;
+
+/** Volume a noise must still have to wake a sleeping listener */
+export const WAKE_LOUDNESS = 4;
+
+/** Turns an actor investigates before going back to wandering */
+export const INVESTIGATE_PATIENCE = 10;
+
+const STATE_NAMES = [
+  "sleeping",
+  "wandering",
+  "investigating",
+  "hunting",
+] as const;
+
+const NEIGHBOURS: readonly (readonly [number, number])[] = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+  [-1, -1],
+];
+
+/**
+ * Change an actor's awareness, announcing state changes.
+ */
+export function setAwareness(
+  world: World,
+  entity: Entity,
+  state: AwarenessState,
+  target?: { x: number; y: number },
+): void {
+  const previous = world.get(entity, Awareness)?.state;
+  if (previous === undefined) return;
+
+  world.set(entity, Awareness, {
+    state,
+    patience: INVESTIGATE_PATIENCE,
+    ...(target ? { targetX: target.x, targetY: target.y } : {}),
+  });
+  if (previous !== state) {
+    world.emit({
+      type: "perception.changed",
+      entity,
+      state: STATE_NAMES[state],
+    });
+  }
+}
+
+/**
+ * Volume left at every tile a noise reaches, keyed by `y * width + x`.
+ */
+export function propagateNoise(
+  map: GameMap,
+  x: number,
+  y: number,
+  volume: number,
+): Map<number, number> {
+  const heard = new Map<number, number>();
+  if (volume <= 0 || !map.isInBounds(x, y)) return heard;
+
+  const queue = new FastQueue<number>();
+  heard.set(y * map.width + x, volume);
+  queue.enqueue(y * map.width + x);
+
+  while (!queue.isEmpty) {
+    const index = queue.dequeue()!;
+    const loudness = heard.get(index)! - 1;
+    if (loudness <= 0) continue;
+
+    const cx = index % map.width;
+    const cy = Math.floor(index / map.width);
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      const next = ny * map.width + nx;
+      if (heard.has(next) || !map.isWalkable(nx, ny)) continue;
+      heard.set(next, loudness);
+      queue.enqueue(next);
+    }
+  }
+  return heard;
+}
+
+/**
+ * Make a noise at `at` (default: the source's tile). Its volume is
+ * reduced by the source's Stealth.
+ *
+ * @returns listeners that heard it and reacted
+ */
+export function makeNoise(
+  world: World,
+  source: Entity,
+  baseVolume: number,
+  at?: { x: number; y: number },
+): Entity[] {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const origin = at ?? world.get(source, Position);
+  if (!map || !origin) return [];
+
+  const volume = baseVolume - (world.get(source, Stealth)?.value ?? 0);
+  if (volume <= 0) return [];
+  world.emit({
+    type: "perception.noise",
+    entity: source,
+    x: origin.x,
+    y: origin.y,
+    volume,
+  });
+
+  // Only spread the noise if someone could react to it
+  const listeners = world
+    .query(Awareness, Position)
+    .not(Dead)
+    .collect()
+    .filter((listener) => {
+      const pos = world.get(listener, Position)!;
+      return (
+        Math.max(Math.abs(pos.x - origin.x), Math.abs(pos.y - origin.y)) <
+          volume && isHostile(world, listener, source)
+      );
+    });
+  if (listeners.length === 0) return [];
+
+  const heard = propagateNoise(map, origin.x, origin.y, volume);
+  const reacted: Entity[] = [];
+  for (const listener of listeners) {
+    const pos = world.get(listener, Position)!;
+    const loudness = heard.get(pos.y * map.width + pos.x) ?? 0;
+    const { state } = world.get(listener, Awareness)!;
+
+    if (loudness <= 0 || state === AwarenessState.Hunting) continue;
+    if (state === AwarenessState.Sleeping && loudness < WAKE_LOUDNESS) {
+      continue;
+    }
+    setAwareness(world, listener, AwarenessState.Investigating, origin);
+    reacted.push(listener);
+  }
+  return reacted;
+}
+
+function hasLineOfSight(
+  map: GameMap,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+): boolean {
+  const line = bresenhamLine(from, to);
+  for (let i = 1; i < line.length - 1; i++) {
+    if (map.isOpaque(line[i]!.x, line[i]!.y)) return false;
+  }
+  return true;
+}
+
+/**
+ * Nearest hostile the actor can see, if any.
+ */
+export function findVisibleHostile(
+  world: World,
+  entity: Entity,
+): Entity | null {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const pos = world.get(entity, Position);
+  const awareness = world.get(entity, Awareness);
+  if (!map || !pos || !awareness) return null;
+
+  let nearest: Entity | null = null;
+  let nearestDistance = Number.POSITIVE_INFINITY;
+  for (const other of world
+    .query(Position, Health)
+    .not(Dead)
+    .iterDeterministic()) {
+    if (!isHostile(world, entity, other)) continue;
+    const target = world.get(other, Position)!;
+    const distance = Math.max(
+      Math.abs(target.x - pos.x),
+      Math.abs(target.y - pos.y),
+    );
+    if (distance > awareness.sight || distance >= nearestDistance) continue;
+    if (hasLineOfSight(map, pos, target)) {
+      nearest = other;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Update an actor's awareness from what it sees at the start of its
+ * turn.
+ */
+export function updateAwareness(world: World, entity: Entity): void {
+  const awareness = world.get(entity, Awareness);
+  const pos = world.get(entity, Position);
+  if (!awareness || !pos || awareness.state === AwarenessState.Sleeping) {
+    return;
+  }
+
+  const seen = findVisibleHostile(world, entity);
+  if (seen !== null) {
+    setAwareness(
+      world,
+      entity,
+      AwarenessState.Hunting,
+      world.get(seen, Position)!,
+    );
+    return;
+  }
+
+  switch (awareness.state) {
+    case AwarenessState.Hunting:
+      // Lost sight: go where the hostile was last seen
+      setAwareness(world, entity, AwarenessState.Investigating);
+      break;
+
+    case AwarenessState.Investigating: {
+      const arrived =
+        pos.x === awareness.targetX && pos.y === awareness.targetY;
+      if (arrived || awareness.patience <= 1) {
+        setAwareness(world, entity, AwarenessState.Wandering);
+      } else {
+        world.set(entity, Awareness, { patience: awareness.patience - 1 });
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Updates the awareness of AI actors about to decide their action.
+ */
+export const PerceptionSystem = defineSystem("Perception")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .before("AI")
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    for (const entity of turn.getActors()) {
+      if (turn.getAction(entity) !== undefined) continue;
+      if (!world.has(entity, Awareness)) continue;
+      if (!world.isAlive(entity) || world.has(entity, Dead)) continue;
+      updateAwareness(world, entity);
+    }
+  });
@@ -0,0 +1,310 @@
+/**
+ * Population
+ *
+ * Fills a newly generated level with monsters, items and traps drawn from
+ * the EntityTemplateRegistry. Procgen only emits entrance and exit spawn
+ * points, so placement works from room metadata instead:
+ *
+ * - the entrance room never gets monsters or traps
+ * - rooms farther from the entrance hold more monsters, half of them
+ *   asleep
+ * - dead ends are likelier to be trapped and, with treasure rooms
+ *   enabled, hold a chest
+ * - with shops enabled, one dead end may instead be a shop: a
+ *   shopkeeper and its priced stock, and nothing else
+ * - the goal item lies in the room farthest from the entrance of the goal
+ *   depth
+ *
+ * Templates are chosen for a content depth: the level depth shifted by
+ * the difficulty. Every roll comes from an RNG seeded with the level's
+ * `details` seed, so a level is always populated the same way.
+ */
+
+import { SeededRandom } from "@rogue/contracts";
+import { Contains, type Entity, type World } from "@rogue/ecs";
+import { CellType, type Room } from "@rogue/procgen";
+import { AI } from "../components/ai";
+import { Item } from "../components/inventory";
+import { Awareness, AwarenessState } from "../components/perception";
+import { Position } from "../components/position";
+import { ForSale, Shopkeeper } from "../components/shop";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../prefabs/registry";
+import type { GameMap } from "../resources/game-map";
+import type { ContentOptions, Level } from "../resources/levels";
+import { shopPrice } from "./shop";
+
+export const DEFAULT_DIFFICULTY = 5;
+export const DEFAULT_ENEMY_DENSITY = 0.5;
+export const DEFAULT_ITEM_DENSITY = 0.3;
+export const DEFAULT_TRAP_CHANCE = 0.15;
+/** Chance a placed monster starts out asleep */
+export const ASLEEP_CHANCE = 0.5;
+/** Chance a level with a suitable dead end gets a shop */
+export const SHOP_CHANCE = 0.25;
+/** Level depth the goal item is found on */
+export const DEFAULT_GOAL_DEPTH = 10;
+
+/** Floor tiles per monster at full enemy density */
+const TILES_PER_MONSTER = 12;
+/** Floor tiles per item at full item density */
+const TILES_PER_ITEM = 20;
+/** Extra monsters per content depth below the first, as a fraction */
+const MONSTERS_PER_DEPTH = 0.1;
+/** Smallest floor area a shop fits in */
+const MIN_SHOP_TILES = 6;
+/** Most items a shop is stocked with */
+const MAX_SHOP_STOCK = 8;
+
+const MONSTER_TAGS = { monster: 1 };
+const ITEM_TAGS = { consumable: 3, wand: 1, equipment: 1, ammunition: 1 };
+const TREASURE_TAGS = { equipment: 2, wand: 1, consumable: 1 };
+const CONTAINER_TAGS = { container: 1 };
+const TRAP_TAGS = { trap: 1 };
+const SHOP_TAGS = { consumable: 2, wand: 1, equipment: 2 };
+
+/**
+ * Entities placed by a population pass.
+ */
+export interface PopulationResult {
+  readonly monsters: Entity[];
+  readonly items: Entity[];
+  readonly containers: Entity[];
+  readonly traps: Entity[];
+  readonly shopkeepers: Entity[];
+}
+
+/**
+ * Depth used to pick templates: each two points of difficulty away from
+ * the default shift content one level deeper or shallower.
+ */
+export function contentDepth(
+  depth: number,
+  difficulty = DEFAULT_DIFFICULTY,
+): number {
+  return Math.max(1, depth + Math.round((difficulty - DEFAULT_DIFFICULTY) / 2));
+}
+
+/**
+ * Turn an expected count into a whole one, rounding up with probability
+ * equal to the fraction.
+ */
+function rollCount(rng: SeededRandom, expected: number): number {
+  const whole = Math.floor(expected);
+  return whole + (rng.next() < expected - whole ? 1 : 0);
+}
+
+function floorTiles(map: GameMap, room: Room): { x: number; y: number }[] {
+  const tiles: { x: number; y: number }[] = [];
+  for (let y = room.y; y < room.y + room.height; y++) {
+    for (let x = room.x; x < room.x + room.width; x++) {
+      if (map.isInBounds(x, y) && map.getCell(x, y) === CellType.FLOOR) {
+        tiles.push({ x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Random floor tile of the room nothing stands on yet.
+ */
+function freeTile(
+  rng: SeededRandom,
+  map: GameMap,
+  tiles: readonly { x: number; y: number }[],
+): { x: number; y: number } | null {
+  const free = tiles.filter((t) => !map.hasEntities(t.x, t.y));
+  return free.length > 0 ? free[Math.floor(rng.next() * free.length)]! : null;
+}
+
+/**
+ * Populate a level's rooms. Expects the level to be the current one, with
+ * its doors and stairs already spawned.
+ */
+export function populateLevel(
+  world: World,
+  level: Level,
+  content: ContentOptions = {},
+): PopulationResult {
+  const result: PopulationResult = {
+    monsters: [],
+    items: [],
+    containers: [],
+    traps: [],
+    shopkeepers: [],
+  };
+  const templates =
+    world.resources.get<EntityTemplateRegistry>(TEMPLATES_RESOURCE);
+  if (!templates) return result;
+
+  const { map, artifact } = level;
+  const rng = new SeededRandom(artifact.seed.details);
+  const depth = contentDepth(level.depth, content.difficulty);
+  const enemyDensity = content.enemyDensity ?? DEFAULT_ENEMY_DENSITY;
+  const itemDensity = content.itemDensity ?? DEFAULT_ITEM_DENSITY;
+  const trapChance =
+    content.enableTraps === false
+      ? 0
+      : (content.trapChance ?? DEFAULT_TRAP_CHANCE);
+  const treasureRooms = content.enableTreasureRooms !== false;
+  const shops = content.enableShops !== false;
+
+  const entrance = artifact.spawns.find((s) => s.type === "entrance");
+  const maxDistance = Math.max(
+    0,
+    ...artifact.rooms.map((r) => r.distanceFromEntrance ?? 0),
+  );
+
+  const shopCandidates = artifact.rooms.filter(
+    (room) =>
+      room.isDeadEnd &&
+      room.id !== entrance?.roomId &&
+      floorTiles(map, room).length >= MIN_SHOP_TILES,
+  );
+  const shopRoom =
+    shops && shopCandidates.length > 0 && rng.next() < SHOP_CHANCE
+      ? shopCandidates[Math.floor(rng.next() * shopCandidates.length)]!
+      : null;
+
+  const place = (
+    name: string | null,
+    tile: { x: number; y: number } | null,
+    blocking = false,
+  ): Entity | null => {
+    if (name === null || tile === null) return null;
+    const entity = templates.instantiate(world, name);
+    if (world.has(entity, Position)) {
+      world.set(entity, Position, tile);
+    } else {
+      world.add(entity, Position, tile);
+    }
+    map.addEntity(tile.x, tile.y, entity, blocking);
+    return entity;
+  };
+
+  for (const room of artifact.rooms) {
+    const tiles = floorTiles(map, room);
+    if (tiles.length === 0) continue;
+
+    if (room === shopRoom) {
+      const keeper = place(
+        templates.has("shopkeeper") ? "shopkeeper" : null,
+        freeTile(rng, map, tiles),
+        true,
+      );
+      if (keeper === null) continue;
+      const home = world.get(keeper, Position)!;
+      world.set(keeper, AI, { homeX: home.x, homeY: home.y });
+      world.set(keeper, Shopkeeper, {
+        x: room.x,
+        y: room.y,
+        width: room.width,
+        height: room.height,
+        depth,
+      });
+      result.shopkeepers.push(keeper);
+
+      const stock = Math.min(MAX_SHOP_STOCK, Math.floor(tiles.length / 2));
+      for (let i = 0; i < stock; i++) {
+        const name = templates.pick(rng, { depth, tags: SHOP_TAGS });
+        const item = place(name, freeTile(rng, map, tiles));
+        if (item === null) break;
+        world.add(item, ForSale, {
+          price: shopPrice(world.get(item, Item)?.value ?? 0, depth),
+        });
+        world.setEntityRef(item, ForSale, "shopkeeper", keeper);
+        result.items.push(item);
+      }
+      continue;
+    }
+
+    const isEntrance = entrance?.roomId === room.id;
+    const distance =
+      maxDistance > 0 ? (room.distanceFromEntrance ?? 0) / maxDistance : 0.5;
+
+    // Monsters
+    if (!isEntrance) {
+      const expected =
+        (tiles.length / TILES_PER_MONSTER) *
+        enemyDensity *
+        (1 + (depth - 1) * MONSTERS_PER_DEPTH) *
+        (0.5 + distance);
+      for (let i = rollCount(rng, expected); i > 0; i--) {
+        const name = templates.pick(rng, { depth, tags: MONSTER_TAGS });
+        const tile = freeTile(rng, map, tiles);
+        const monster = place(name, tile, true);
+        if (monster === null || tile === null) break;
+        // Guards defend the spot they were placed on
+        world.set(monster, AI, { homeX: tile.x, homeY: tile.y });
+        if (world.has(monster, Awareness) && rng.next() < ASLEEP_CHANCE) {
+          world.set(monster, Awareness, { state: AwarenessState.Sleeping });
+        }
+        result.monsters.push(monster);
+      }
+    }
+
+    // Floor items
+    const items = rollCount(rng, (tiles.length / TILES_PER_ITEM) * itemDensity);
+    for (let i = 0; i < items; i++) {
+      const name = templates.pick(rng, { depth, tags: ITEM_TAGS });
+      const item = place(name, freeTile(rng, map, tiles));
+      if (item === null) break;
+      result.items.push(item);
+    }
+
+    // Treasure
+    if (treasureRooms && room.isDeadEnd && !isEntrance) {
+      const chest = place(
+        templates.pick(rng, { depth, tags: CONTAINER_TAGS }),
+        freeTile(rng, map, tiles),
+      );
+      if (chest !== null) {
+        for (let i = 1 + Math.floor(rng.next() * 3); i > 0; i--) {
+          const name = templates.pick(rng, {
+            depth: depth + 1,
+            tags: TREASURE_TAGS,
+          });
+          if (name === null) break;
+          world.relate(chest, Contains, templates.instantiate(world, name));
+        }
+        result.containers.push(chest);
+      }
+    }
+
+    // Traps
+    const chance = room.isDeadEnd ? trapChance * 2 : trapChance;
+    if (!isEntrance && rng.next() < chance) {
+      const trap = place(
+        templates.pick(rng, { depth, tags: TRAP_TAGS }),
+        freeTile(rng, map, tiles),
+      );
+      if (trap !== null) result.traps.push(trap);
+    }
+  }
+
+  // Goal
+  if (level.depth === (content.goalDepth ?? DEFAULT_GOAL_DEPTH)) {
+    const room = artifact.rooms
+      .filter((r) => r !== shopRoom && floorTiles(map, r).length > 0)
+      .reduce<Room | null>(
+        (far, r) =>
+          far === null ||
+          (r.distanceFromEntrance ?? 0) > (far.distanceFromEntrance ?? 0)
+            ? r
+            : far,
+        null,
+      );
+    const goal =
+      room &&
+      place(
+        templates.has("amulet") ? "amulet" : null,
+        freeTile(rng, map, floorTiles(map, room)),
+      );
+    if (goal) result.items.push(goal);
+  }
+
+  return result;
+}
@@ -0,0 +1,212 @@
+/**
+ * Progression
+ *
+ * Experience, levelling and perks. Kills award the victim's
+ * ExperienceReward to the killer named by combat.death attribution; each
+ * level gained applies the ProgressionRules stat growth and may grant a
+ * perk point. Perk bonuses are folded into base stats when chosen.
+ *
+ * Level-ups are announced through `message` events.
+ */
+
+import type { ExperienceInfo } from "@rogue/contracts";
+import { Dead, type Entity, type World } from "@rogue/ecs";
+import { CombatStats, Health } from "../components/combat";
+import { FOV } from "../components/fov";
+import {
+  Experience,
+  ExperienceReward,
+  PerkPoints,
+} from "../components/progression";
+import { Energy } from "../components/turn";
+import {
+  PERKS_RESOURCE,
+  type PerkDefinition,
+  type PerkRegistry,
+} from "../resources/perks";
+import {
+  PROGRESSION_RESOURCE,
+  ProgressionRules,
+  type StatBonus,
+} from "../resources/progression";
+import { invalidateFov } from "./fov";
+
+const DEFAULT_RULES = new ProgressionRules();
+
+function getRules(world: World): ProgressionRules {
+  return (
+    world.resources.get<ProgressionRules>(PROGRESSION_RESOURCE) ?? DEFAULT_RULES
+  );
+}
+
+/**
+ * Experience in wire format; entities without Experience read as a fresh
+ * level 1.
+ */
+export function getExperience(world: World, entity: Entity): ExperienceInfo {
+  const xp = world.get(entity, Experience);
+  if (!xp) {
+    return { lv: 1, cur: 0, next: getRules(world).xpToNext(1) };
+  }
+  return { lv: xp.level, cur: xp.current, next: xp.toNextLevel };
+}
+
+/**
+ * Add a bonus to an entity's base stats. Missing components are skipped.
+ */
+function applyStatBonus(world: World, entity: Entity, bonus: StatBonus): void {
+  const health = world.get(entity, Health);
+  if (health && bonus.maxHealth) {
+    world.set(entity, Health, {
+      max: health.max + bonus.maxHealth,
+      current: health.current + bonus.maxHealth,
+    });
+  }
+
+  const stats = world.get(entity, CombatStats);
+  if (stats) {
+    world.set(entity, CombatStats, {
+      attack: stats.attack + (bonus.attack ?? 0),
+      defense: stats.defense + (bonus.defense ?? 0),
+      accuracy: stats.accuracy + (bonus.accuracy ?? 0),
+      armor: stats.armor + (bonus.armor ?? 0),
+      critChance: stats.critChance + (bonus.critChance ?? 0),
+    });
+  }
+
+  const energy = world.get(entity, Energy);
+  if (energy && bonus.speed) {
+    world.set(entity, Energy, { speed: energy.speed + bonus.speed });
+  }
+
+  const fov = world.get(entity, FOV);
+  if (fov && bonus.fovRadius) {
+    world.set(entity, FOV, { radius: fov.radius + bonus.fovRadius });
+    invalidateFov(world);
+  }
+}
+
+/**
+ * Give XP to an entity with Experience, levelling it up as many times as
+ * the amount allows.
+ *
+ * @returns number of levels gained
+ */
+export function grantExperience(
+  world: World,
+  entity: Entity,
+  amount: number,
+): number {
+  const xp = world.get(entity, Experience);
+  if (!xp || amount <= 0 || world.has(entity, Dead)) return 0;
+
+  const rules = getRules(world);
+  let { level, current } = xp;
+  let toNextLevel = rules.xpToNext(level);
+  let gained = 0;
+  let perks = 0;
+
+  current += amount;
+  while (toNextLevel > 0 && current >= toNextLevel) {
+    current -= toNextLevel;
+    level++;
+    gained++;
+    toNextLevel = rules.xpToNext(level);
+    applyStatBonus(world, entity, rules.growth);
+    if (rules.grantsPerk(level)) perks++;
+  }
+  if (toNextLevel === 0) current = 0;
+
+  world.set(entity, Experience, { level, current, toNextLevel });
+
+  if (perks > 0) {
+    const available = world.get(entity, PerkPoints)?.available ?? 0;
+    if (!world.has(entity, PerkPoints)) world.add(entity, PerkPoints);
+    world.set(entity, PerkPoints, { available: available + perks });
+  }
+
+  if (gained > 0) {
+    world.emit({
+      type: "message",
+      text: `Welcome to level ${level}!`,
+      color: "yellow",
+    });
+    if (perks > 0) {
+      world.emit({ type: "message", text: "You may choose a new perk." });
+    }
+  }
+  return gained;
+}
+
+/**
+ * Award the victim's ExperienceReward to its killer. Called when an
+ * entity dies.
+ */
+export function awardKillExperience(
+  world: World,
+  victim: Entity,
+  killer?: Entity,
+): void {
+  if (killer === undefined || killer === victim) return;
+  if (!world.isAlive(killer) || !world.has(killer, Experience)) return;
+
+  const reward = world.get(victim, ExperienceReward)?.amount ?? 0;
+  grantExperience(world, killer, reward);
+}
+
+// =============================================================================
+// Perks
+// =============================================================================
+
+export function getPerkRank(
+  world: World,
+  entity: Entity,
+  perk: PerkDefinition,
+): number {
+  return world.get(entity, perk.component)?.rank ?? 0;
+}
+
+/**
+ * Perks the entity could take right now (ignores perk points).
+ */
+export function getAvailablePerks(
+  world: World,
+  entity: Entity,
+): PerkDefinition[] {
+  const registry = world.resources.get<PerkRegistry>(PERKS_RESOURCE);
+  if (!registry) return [];
+
+  return registry
+    .ids()
+    .map((id) => registry.get(id)!)
+    .filter((perk) => getPerkRank(world, entity, perk) < perk.maxRank);
+}
+
+/**
+ * Spend a perk point on a perk, raising its rank and applying its bonus.
+ *
+ * @returns false without points, for unknown perks or perks at max rank
+ */
+export function choosePerk(
+  world: World,
+  entity: Entity,
+  perkId: string,
+): boolean {
+  const perk = world.resources.get<PerkRegistry>(PERKS_RESOURCE)?.get(perkId);
+  const points = world.get(entity, PerkPoints)?.available ?? 0;
+  if (!perk || points <= 0 || !world.isAlive(entity)) return false;
+
+  const rank = getPerkRank(world, entity, perk);
+  if (rank >= perk.maxRank) return false;
+
+  if (rank === 0) {
+    world.add(entity, perk.component);
+  } else {
+    world.set(entity, perk.component, { rank: rank + 1 });
+  }
+  world.set(entity, PerkPoints, { available: points - 1 });
+  applyStatBonus(world, entity, perk.bonus);
+
+  world.emit({ type: "message", text: `You gain ${perk.name}.` });
+  return true;
+}
@@ -0,0 +1,289 @@
+/**
+ * Ranged System
+ *
+ * Firing ranged weapons and throwing items at a tile.
+ *
+ * Line of fire follows the Bresenham line from the shooter to the aimed
+ * tile, up to the weapon's range. The projectile stops at the first
+ * opaque tile (walls, closed doors) or blocking entity; attackable
+ * entities are struck using the regular attack rolls. Every shot emits a
+ * `combat.projectile` event with its path so clients can animate it.
+ *
+ * Firing spends one carried Ammunition matching the weapon. Thrown items
+ * leave the inventory one at a time and land where their flight ends.
+ */
+
+import { Dead, defineSystem, type Entity, Phase, type World } from "@rogue/ecs";
+import { bresenhamLine } from "@rogue/procgen/core";
+import { Position } from "../components/position";
+import {
+  Ammunition,
+  FireRequest,
+  RangedWeapon,
+  Throwable,
+  ThrowRequest,
+} from "../components/ranged";
+import { GAME_MAP_RESOURCE, type GameMap } from "../resources/game-map";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { canBeAttacked, getCombatStats, resolveAttack } from "./combat";
+import {
+  consumeItem,
+  getCarriedItems,
+  getEquippedItem,
+  isCarriedBy,
+  takeOne,
+} from "./inventory";
+import { turnResolving } from "./turn";
+
+export interface LineOfFire {
+  /** Tiles crossed after the origin, ending where the projectile stopped */
+  readonly path: { x: number; y: number }[];
+  /** Attackable entity struck, or null */
+  readonly target: Entity | null;
+}
+
+/**
+ * Trace a projectile from `from` toward `to`, at most `range` tiles.
+ */
+export function traceLineOfFire(
+  world: World,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  range: number,
+): LineOfFire {
+  const map = world.resources.get<GameMap>(GAME_MAP_RESOURCE);
+  const path: { x: number; y: number }[] = [];
+  if (!map) return { path, target: null };
+
+  for (const point of bresenhamLine(from, to).slice(1, range + 1)) {
+    if (!map.isInBounds(point.x, point.y) || map.isOpaque(point.x, point.y)) {
+      break;
+    }
+    path.push({ x: point.x, y: point.y });
+
+    const blocker = map.getBlocker(point.x, point.y);
+    if (blocker !== null) {
+      return {
+        path,
+        target: canBeAttacked(world, blocker) ? blocker : null,
+      };
+    }
+  }
+  return { path, target: null };
+}
+
+function distance(a: { x: number; y: number }, x: number, y: number): number {
+  return Math.max(Math.abs(a.x - x), Math.abs(a.y - y));
+}
+
+/**
+ * Check an aim from `pos`, telling the actor what is wrong with it.
+ */
+function isValidAim(
+  world: World,
+  pos: { x: number; y: number },
+  x: number,
+  y: number,
+  range: number,
+): boolean {
+  const dist = distance(pos, x, y);
+  if (dist === 0) {
+    world.emit({ type: "message", text: "That is not a valid target." });
+    return false;
+  }
+  if (dist > range) {
+    world.emit({ type: "message", text: "That is out of range." });
+    return false;
+  }
+  return true;
+}
+
+function emitProjectile(world: World, entity: Entity, shot: LineOfFire): void {
+  world.emit(
+    shot.target !== null
+      ? {
+          type: "combat.projectile",
+          entity,
+          path: shot.path,
+          target: shot.target,
+        }
+      : { type: "combat.projectile", entity, path: shot.path },
+  );
+}
+
+/**
+ * Carried ammunition the entity's equipped ranged weapon can fire.
+ */
+export function findAmmunition(world: World, entity: Entity): Entity | null {
+  const weapon = getEquippedItem(world, entity, "weapon");
+  if (weapon === null || !world.has(weapon, RangedWeapon)) return null;
+
+  const ammo = world.getString(weapon, RangedWeapon, "ammo") ?? "";
+  return (
+    getCarriedItems(world, entity).find(
+      (item) =>
+        world.has(item, Ammunition) &&
+        world.getString(item, Ammunition, "ammo") === ammo,
+    ) ?? null
+  );
+}
+
+/**
+ * Fire the equipped ranged weapon at tile (x, y), spending one ammunition.
+ *
+ * @returns false if nothing was fired (no ranged weapon, no ammunition,
+ * or an invalid aim)
+ */
+export function fire(
+  world: World,
+  shooter: Entity,
+  x: number,
+  y: number,
+): boolean {
+  const pos = world.get(shooter, Position);
+  const weapon = getEquippedItem(world, shooter, "weapon");
+  const ranged = weapon !== null ? world.get(weapon, RangedWeapon) : null;
+  if (!pos || !ranged) {
+    world.emit({ type: "message", text: "You have nothing to fire." });
+    return false;
+  }
+
+  const ammo = findAmmunition(world, shooter);
+  if (ammo === null) {
+    world.emit({ type: "message", text: "You are out of ammunition." });
+    return false;
+  }
+  if (!isValidAim(world, pos, x, y, ranged.range)) return false;
+
+  const bonus = world.get(ammo, Ammunition)!.damage;
+  consumeItem(world, shooter, ammo);
+
+  const shot = traceLineOfFire(world, pos, { x, y }, ranged.range);
+  emitProjectile(world, shooter, shot);
+  if (shot.target !== null) {
+    const offense = getCombatStats(world, shooter);
+    resolveAttack(world, shooter, shot.target, {
+      ...offense,
+      attack: offense.attack + bonus,
+    });
+  }
+  return true;
+}
+
+/**
+ * Throw one carried Throwable item at tile (x, y). The item lands on the
+ * last tile of its flight.
+ *
+ * @returns false if the item cannot be thrown or the aim is invalid
+ */
+export function throwItem(
+  world: World,
+  thrower: Entity,
+  item: Entity,
+  x: number,
+  y: number,
+): boolean {
+  const pos = world.get(thrower, Position);
+  const throwable = world.get(item, Throwable);
+  if (!pos || !throwable || !isCarriedBy(world, thrower, item)) {
+    world.emit({ type: "message", text: "You cannot throw that." });
+    return false;
+  }
+  if (!isValidAim(world, pos, x, y, throwable.range)) return false;
+
+  const thrown = takeOne(world, thrower, item)!;
+  const shot = traceLineOfFire(world, pos, { x, y }, throwable.range);
+  emitProjectile(world, thrower, shot);
+  if (shot.target !== null) {
+    resolveAttack(world, thrower, shot.target, {
+      ...getCombatStats(world, thrower),
+      attack: throwable.damage,
+    });
+  }
+
+  const landing = shot.path[shot.path.length - 1] ?? pos;
+  world.add(thrown, Position, { x: landing.x, y: landing.y });
+  world.resources
+    .get<GameMap>(GAME_MAP_RESOURCE)
+    ?.addEntity(landing.x, landing.y, thrown);
+  return true;
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * Queue a shot at tile (x, y) for the entity's next turn.
+ */
+export function requestFire(
+  world: World,
+  entity: Entity,
+  x: number,
+  y: number,
+): void {
+  if (!world.has(entity, FireRequest)) {
+    world.add(entity, FireRequest);
+  }
+  world.set(entity, FireRequest, { x, y });
+}
+
+/**
+ * Queue a throw of a carried item at tile (x, y) for the entity's next
+ * turn.
+ */
+export function requestThrow(
+  world: World,
+  entity: Entity,
+  item: Entity,
+  x: number,
+  y: number,
+): void {
+  if (!world.has(entity, ThrowRequest)) {
+    world.add(entity, ThrowRequest);
+  }
+  world.set(entity, ThrowRequest, { x, y });
+  world.setEntityRef(entity, ThrowRequest, "item", item);
+}
+
+/**
+ * Resolves queued and committed shots and throws of this round's actors.
+ */
+export const RangedSystem = defineSystem("Ranged")
+  .inPhase(Phase.Update)
+  .runIf(turnResolving)
+  .before("Movement")
+  .execute((world) => {
+    const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+    if (!turn) return;
+
+    for (const entity of turn.getActors()) {
+      if (!world.isAlive(entity) || world.has(entity, Dead)) continue;
+
+      if (world.has(entity, FireRequest)) {
+        const { x, y } = world.get(entity, FireRequest)!;
+        world.remove(entity, FireRequest);
+        fire(world, entity, x, y);
+        continue;
+      }
+      if (world.has(entity, ThrowRequest)) {
+        const { x, y } = world.get(entity, ThrowRequest)!;
+        const item = world.getEntityRef(entity, ThrowRequest, "item");
+        world.remove(entity, ThrowRequest);
+        if (item !== null) throwItem(world, entity, item, x, y);
+        continue;
+      }
+
+      const action = turn.getAction(entity);
+      const data = action?.data;
+      if (data?.x === undefined || data.y === undefined) continue;
+      if (action?.type === "fire") {
+        fire(world, entity, data.x, data.y);
+      } else if (action?.type === "throw" && data.item !== undefined) {
+        throwItem(world, entity, data.item as Entity, data.x, data.y);
+      }
+    }
+  });
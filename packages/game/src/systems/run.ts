@@ -0,0 +1,235 @@
+/**
+ * Run Lifecycle
+ *
+ * A player's run ends when it dies or climbs out of the first level
+ * carrying the goal item. Turns, kills and pickups are counted in the
+ * RunRecords as they happen; its RunSummary is then built from them and
+ * the player's final state, and kept in the RunRecords; "run.ended" tells
+ * listeners it is ready. Summaries render as
+ * a human-readable morgue file or as JSON.
+ *
+ * Score: SCORE_PER_DEPTH per level of the deepest depth reached,
+ * SCORE_PER_KILL per kill, SCORE_PER_LEVEL per character level, one point
+ * per gold piece, and VICTORY_BONUS for escaping.
+ */
+
+import type { RunOutcome, RunSummary } from "@rogue/contracts";
+import { type Entity, Player, type World } from "@rogue/ecs";
+import { Satiety } from "../components/hunger";
+import { EQUIPMENT_SLOTS, GoalItem } from "../components/inventory";
+import { Template } from "../components/template";
+import { LEVELS_RESOURCE, type LevelManager } from "../resources/levels";
+import {
+  RUN_RESOURCE,
+  type RunProgress,
+  type RunRecords,
+} from "../resources/run";
+import { getItemName } from "./identification";
+import { getCarriedItems, getEquippedItem } from "./inventory";
+import { getExperience } from "./progression";
+import { getGold } from "./shop";
+
+export const SCORE_PER_DEPTH = 100;
+export const SCORE_PER_KILL = 10;
+export const SCORE_PER_LEVEL = 50;
+export const VICTORY_BONUS = 5000;
+
+/**
+ * Readable name of a template id: "giant_spider" reads "giant spider".
+ */
+function templateName(id: string): string {
+  return id.replaceAll("_", " ");
+}
+
+export function computeScore(summary: Omit<RunSummary, "score">): number {
+  const kills = Object.values(summary.kills).reduce((sum, n) => sum + n, 0);
+  return (
+    summary.depth * SCORE_PER_DEPTH +
+    kills * SCORE_PER_KILL +
+    summary.level * SCORE_PER_LEVEL +
+    summary.gold +
+    (summary.outcome === "victory" ? VICTORY_BONUS : 0)
+  );
+}
+
+export function carriesGoal(world: World, entity: Entity): boolean {
+  return getCarriedItems(world, entity).some((item) =>
+    world.has(item, GoalItem),
+  );
+}
+
+function causeOfDeath(world: World, player: Entity, killer?: Entity): string {
+  const id =
+    killer !== undefined && killer !== player
+      ? world.getString(killer, Template, "id")
+      : null;
+  if (id) return `killed by a ${templateName(id)}`;
+  if (world.get(player, Satiety)?.current === 0) return "starved to death";
+  return "died";
+}
+
+/**
+ * Progress of the ongoing run of a player; undefined for other entities
+ * and for runs that have ended.
+ */
+function runProgress(world: World, entity: Entity): RunProgress | undefined {
+  if (!world.has(entity, Player)) return undefined;
+  const runs = world.resources.get<RunRecords>(RUN_RESOURCE);
+  if (!runs || runs.hasEnded(entity)) return undefined;
+  return runs.getProgress(entity);
+}
+
+/** Count a turn an entity has taken, if it is a player. */
+export function trackTurn(world: World, entity: Entity): void {
+  const progress = runProgress(world, entity);
+  if (progress) progress.turns++;
+}
+
+/** Count a kill, if the killer is a player. */
+export function trackKill(
+  world: World,
+  killer: Entity,
+  templateId: string | null,
+): void {
+  const progress = runProgress(world, killer);
+  if (!progress) return;
+  const id = templateId || "unknown";
+  progress.kills[id] = (progress.kills[id] ?? 0) + 1;
+}
+
+/** Count an item picked up, if by a player. */
+export function trackPickup(
+  world: World,
+  entity: Entity,
+  itemName: string,
+): void {
+  runProgress(world, entity)?.items.push(itemName);
+}
+
+/**
+ * Build a player's run summary from its progress and current state.
+ */
+export function summarizeRun(
+  world: World,
+  player: Entity,
+  outcome: RunOutcome,
+  killer?: Entity,
+): RunSummary {
+  const depth = Math.max(
+    world.resources.get<LevelManager>(LEVELS_RESOURCE)?.deepest ?? 1,
+    1,
+  );
+  const progress = runProgress(world, player);
+
+  const equipment: Record<string, string> = {};
+  for (const slot of EQUIPMENT_SLOTS) {
+    const item = getEquippedItem(world, player, slot);
+    if (item !== null) equipment[slot] = getItemName(world, player, item);
+  }
+
+  const summary: Omit<RunSummary, "score"> = {
+    outcome,
+    ...(outcome === "death"
+      ? { cause: causeOfDeath(world, player, killer) }
+      : {}),
+    depth,
+    turns: progress?.turns ?? 0,
+    kills: { ...progress?.kills },
+    items: [...(progress?.items ?? [])],
+    equipment,
+    level: getExperience(world, player).lv,
+    gold: getGold(world, player),
+  };
+  return { ...summary, score: computeScore(summary) };
+}
+
+/**
+ * End a player's run, recording its summary.
+ *
+ * @param killer - Who killed the player, for deaths
+ * @returns the summary, or null if the run had already ended
+ */
+export function endRun(
+  world: World,
+  player: Entity,
+  outcome: RunOutcome,
+  killer?: Entity,
+): RunSummary | null {
+  const runs = world.resources.get<RunRecords>(RUN_RESOURCE);
+  if (!runs || runs.hasEnded(player)) return null;
+
+  const summary = summarizeRun(world, player, outcome, killer);
+  runs.record(player, summary);
+  world.emit({ type: "run.ended", entity: player, outcome });
+  world.emit({
+    type: "message",
+    text:
+      outcome === "victory"
+        ? "You escape the dungeon with the amulet!"
+        : "You die...",
+  });
+  return summary;
+}
+
+export function getRunSummary(
+  world: World,
+  player: Entity,
+): RunSummary | undefined {
+  return world.resources.get<RunRecords>(RUN_RESOURCE)?.get(player);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Render a run summary as a morgue file.
+ */
+export function formatMorgue(summary: RunSummary): string {
+  const lines = [
+    "Rogue-III morgue file",
+    "",
+    `${
+      summary.outcome === "victory"
+        ? "Escaped with the amulet"
+        : capitalize(summary.cause ?? "died")
+    }, having reached depth ${summary.depth}.`,
+    "",
+    `Score:           ${summary.score}`,
+    `Character level: ${summary.level}`,
+    `Turns taken:     ${summary.turns}`,
+    `Gold:            ${summary.gold}`,
+  ];
+
+  const kills = Object.entries(summary.kills).sort(
+    ([a, m], [b, n]) => n - m || a.localeCompare(b),
+  );
+  const total = kills.reduce((sum, [, n]) => sum + n, 0);
+  lines.push("", `Kills (${total}):`);
+  if (kills.length === 0) lines.push("  none");
+  for (const [id, n] of kills) {
+    lines.push(`  ${n} ${templateName(id)}`);
+  }
+
+  lines.push("", "Equipment:");
+  if (Object.keys(summary.equipment).length === 0) lines.push("  none");
+  for (const slot of EQUIPMENT_SLOTS) {
+    const name = summary.equipment[slot];
+    if (name !== undefined) lines.push(`  ${slot}: ${name}`);
+  }
+
+  lines.push("", `Items found (${summary.items.length}):`);
+  if (summary.items.length === 0) lines.push("  none");
+  for (const name of summary.items) {
+    lines.push(`  ${name}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Render a run summary as a JSON morgue file.
+ */
+export function formatMorgueJson(summary: RunSummary): string {
+  return JSON.stringify(summary, null, 2);
+}
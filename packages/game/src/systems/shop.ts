@@ -0,0 +1,479 @@
+/**
+ * Shops
+ *
+ * A shop is a room kept by a Shopkeeper and stocked with ForSale items by
+ * content population. Stock can be picked up freely but stays unpaid
+ * until bought; leaving the shop room with unpaid items is theft.
+ * Stealing from the keeper, or hurting it, turns it Enemy and sets it
+ * hunting the culprit, and an angry keeper trades with nobody.
+ *
+ * Prices scale with the depth the shop was stocked for. The keeper buys
+ * carried items for SELL_RATIO of what it would sell them for, paying from
+ * its own Gold, appraises them (identifying them for the seller) and puts
+ * them up for sale. Offers below the asking price are haggling: offers
+ * under HAGGLE_FLOOR of it insult the keeper, better ones are accepted
+ * with a chance growing with the offer. Each refusal costs the keeper
+ * patience, and out of patience it stops haggling.
+ *
+ * Trading is a free action, resolved on the next world tick like dropping
+ * or equipping. Haggling rolls come from the "shop" random stream.
+ */
+
+import {
+  type ComponentClass,
+  Dead,
+  defineSystem,
+  Enemy,
+  type Entity,
+  Phase,
+  type World,
+} from "@rogue/ecs";
+import { AI, AIBehavior } from "../components/ai";
+import { Inventory, Item } from "../components/inventory";
+import { AwarenessState } from "../components/perception";
+import { Position } from "../components/position";
+import {
+  BuyRequest,
+  ForSale,
+  Gold,
+  HaggleRequest,
+  SellRequest,
+  Shopkeeper,
+} from "../components/shop";
+import { RANDOM_RESOURCE, type RandomStreams } from "../resources/random";
+import { getItemName, identifyItem } from "./identification";
+import { dropItem, getCarriedItems, isCarriedBy } from "./inventory";
+import { setAwareness } from "./perception";
+
+/** Price increase per content depth below the first */
+export const DEPTH_PRICE_SCALE = 0.1;
+/** Share of its own price a shop pays for an item */
+export const SELL_RATIO = 0.5;
+/** Share of the price below which offers insult the keeper */
+export const HAGGLE_FLOOR = 0.7;
+
+/**
+ * Why a trade was refused.
+ */
+export type TradeError =
+  | "no_shop"
+  | "invalid_item"
+  | "not_enough_gold"
+  | "worthless"
+  | "refused";
+
+export interface TradeFailure {
+  readonly error: TradeError;
+  readonly message: string;
+}
+
+/**
+ * Price of one unit of an item worth `value` in a shop stocked for
+ * `depth`. Worthless items have no price.
+ */
+export function shopPrice(value: number, depth: number): number {
+  if (value <= 0) return 0;
+  return Math.max(
+    1,
+    Math.round(value * (1 + (Math.max(1, depth) - 1) * DEPTH_PRICE_SCALE)),
+  );
+}
+
+function isOpen(world: World, shopkeeper: Entity): boolean {
+  return (
+    world.isAlive(shopkeeper) &&
+    !world.has(shopkeeper, Dead) &&
+    !world.has(shopkeeper, Enemy)
+  );
+}
+
+function inShop(world: World, shopkeeper: Entity, x: number, y: number) {
+  const shop = world.get(shopkeeper, Shopkeeper);
+  return (
+    shop !== null &&
+    x >= shop.x &&
+    x < shop.x + shop.width &&
+    y >= shop.y &&
+    y < shop.y + shop.height
+  );
+}
+
+/**
+ * Living keeper of the shop room containing tile (x, y), angry or not.
+ */
+export function findShopkeeper(
+  world: World,
+  x: number,
+  y: number,
+): Entity | null {
+  for (const keeper of world.query(Shopkeeper).not(Dead).iterDeterministic()) {
+    if (inShop(world, keeper, x, y)) return keeper;
+  }
+  return null;
+}
+
+/**
+ * Living keeper an item is still owed to, or null if it is not shop stock
+ * or its keeper is dead.
+ */
+export function getShopkeeperOf(world: World, item: Entity): Entity | null {
+  const keeper = world.getEntityRef(item, ForSale, "shopkeeper");
+  return keeper !== null && !world.has(keeper, Dead) ? keeper : null;
+}
+
+export function isUnpaid(world: World, item: Entity): boolean {
+  return getShopkeeperOf(world, item) !== null;
+}
+
+function quantity(world: World, item: Entity): number {
+  return world.get(item, Item)?.quantity ?? 1;
+}
+
+/**
+ * Asking price of a whole stack of shop stock, or 0 if it is not for sale.
+ */
+export function getPrice(world: World, item: Entity): number {
+  const forSale = world.get(item, ForSale);
+  return forSale ? forSale.price * quantity(world, item) : 0;
+}
+
+/**
+ * What a keeper pays for a whole stack.
+ */
+export function getSellPrice(
+  world: World,
+  shopkeeper: Entity,
+  item: Entity,
+): number {
+  const depth = world.get(shopkeeper, Shopkeeper)?.depth ?? 1;
+  const value = world.get(item, Item)?.value ?? 0;
+  return (
+    Math.floor(shopPrice(value, depth) * SELL_RATIO) * quantity(world, item)
+  );
+}
+
+export function getGold(world: World, entity: Entity): number {
+  return world.get(entity, Gold)?.amount ?? 0;
+}
+
+function pay(world: World, from: Entity, to: Entity, amount: number): void {
+  world.set(from, Gold, { amount: getGold(world, from) - amount });
+  if (world.has(to, Gold)) {
+    world.set(to, Gold, { amount: getGold(world, to) + amount });
+  }
+}
+
+/**
+ * Check that a buyer could pay `amount` (default: the asking price) for a
+ * carried unpaid item.
+ */
+export function validateBuy(
+  world: World,
+  buyer: Entity,
+  item: Entity,
+  amount = getPrice(world, item),
+): TradeFailure | null {
+  const keeper = getShopkeeperOf(world, item);
+  if (keeper === null || !isCarriedBy(world, buyer, item)) {
+    return { error: "invalid_item", message: "That is not for sale." };
+  }
+  if (!isOpen(world, keeper)) {
+    return {
+      error: "refused",
+      message: "The shopkeeper will not trade with you.",
+    };
+  }
+  if (getGold(world, buyer) < amount) {
+    return { error: "not_enough_gold", message: "You cannot afford that." };
+  }
+  return null;
+}
+
+/**
+ * Check that a seller could sell a carried item to the shop it stands in.
+ */
+export function validateSell(
+  world: World,
+  seller: Entity,
+  item: Entity,
+): TradeFailure | null {
+  if (!isCarriedBy(world, seller, item) || isUnpaid(world, item)) {
+    return { error: "invalid_item", message: "You cannot sell that." };
+  }
+  const pos = world.get(seller, Position);
+  const keeper = pos ? findShopkeeper(world, pos.x, pos.y) : null;
+  if (keeper === null) {
+    return { error: "no_shop", message: "There is no shop here." };
+  }
+  if (!isOpen(world, keeper)) {
+    return {
+      error: "refused",
+      message: "The shopkeeper will not trade with you.",
+    };
+  }
+  const price = getSellPrice(world, keeper, item);
+  if (price <= 0) {
+    return {
+      error: "worthless",
+      message: "The shopkeeper is not interested.",
+    };
+  }
+  if (getGold(world, keeper) < price) {
+    return {
+      error: "not_enough_gold",
+      message: "The shopkeeper cannot afford that.",
+    };
+  }
+  return null;
+}
+
+function completePurchase(
+  world: World,
+  buyer: Entity,
+  item: Entity,
+  price: number,
+): void {
+  const keeper = getShopkeeperOf(world, item)!;
+  pay(world, buyer, keeper, price);
+  world.remove(item, ForSale);
+
+  const itemName = getItemName(world, buyer, item);
+  world.emit({
+    type: "shop.trade",
+    entity: buyer,
+    shopkeeper: keeper,
+    item,
+    itemName,
+    price,
+    action: "buy",
+  });
+  world.emit({
+    type: "message",
+    text: `You buy the ${itemName} for ${price} gold.`,
+  });
+}
+
+function refuse(world: World, failure: TradeFailure): false {
+  world.emit({ type: "message", text: failure.message });
+  return false;
+}
+
+/**
+ * Pay the asking price for a carried unpaid item.
+ */
+export function buyItem(world: World, buyer: Entity, item: Entity): boolean {
+  const failure = validateBuy(world, buyer, item);
+  if (failure) return refuse(world, failure);
+
+  completePurchase(world, buyer, item, getPrice(world, item));
+  return true;
+}
+
+/**
+ * Sell a carried item to the shop the seller stands in. The item is
+ * dropped on the seller's tile as shop stock.
+ */
+export function sellItem(world: World, seller: Entity, item: Entity): boolean {
+  const failure = validateSell(world, seller, item);
+  if (failure) return refuse(world, failure);
+
+  const pos = world.get(seller, Position)!;
+  const keeper = findShopkeeper(world, pos.x, pos.y)!;
+  const price = getSellPrice(world, keeper, item);
+  pay(world, keeper, seller, price);
+  identifyItem(world, seller, item);
+  dropItem(world, seller, item);
+
+  const depth = world.get(keeper, Shopkeeper)!.depth;
+  world.add(item, ForSale, {
+    price: shopPrice(world.get(item, Item)?.value ?? 0, depth),
+  });
+  world.setEntityRef(item, ForSale, "shopkeeper", keeper);
+
+  const itemName = getItemName(world, seller, item);
+  world.emit({
+    type: "shop.trade",
+    entity: seller,
+    shopkeeper: keeper,
+    item,
+    itemName,
+    price,
+    action: "sell",
+  });
+  world.emit({
+    type: "message",
+    text: `You sell the ${itemName} for ${price} gold.`,
+  });
+  return true;
+}
+
+/**
+ * Offer gold for a carried unpaid item. Offers at or above the asking
+ * price buy it at that price.
+ *
+ * @returns whether the item was bought
+ */
+export function haggle(
+  world: World,
+  buyer: Entity,
+  item: Entity,
+  offer: number,
+): boolean {
+  const price = getPrice(world, item);
+  const failure = validateBuy(world, buyer, item, Math.min(offer, price));
+  if (failure) return refuse(world, failure);
+  if (offer >= price) {
+    completePurchase(world, buyer, item, price);
+    return true;
+  }
+
+  const keeper = getShopkeeperOf(world, item)!;
+  const { patience } = world.get(keeper, Shopkeeper)!;
+  if (patience === 0) {
+    world.emit({
+      type: "message",
+      text: "The shopkeeper will not haggle any more.",
+    });
+    return false;
+  }
+
+  const floor = Math.ceil(price * HAGGLE_FLOOR);
+  const rng = world.resources
+    .require<RandomStreams>(RANDOM_RESOURCE)
+    .get("shop");
+  if (
+    offer >= floor &&
+    rng.probability((offer - floor + 1) / (price - floor + 1))
+  ) {
+    world.emit({
+      type: "message",
+      text: "The shopkeeper accepts your offer.",
+    });
+    completePurchase(world, buyer, item, offer);
+    return true;
+  }
+
+  world.set(keeper, Shopkeeper, { patience: patience - 1 });
+  world.emit({
+    type: "message",
+    text:
+      offer < floor
+        ? "The shopkeeper is insulted by your offer."
+        : "The shopkeeper refuses your offer.",
+  });
+  return false;
+}
+
+/**
+ * Turn a shopkeeper on whoever robbed or hurt it.
+ *
+ * @returns false if it is not a shopkeeper or is already angry
+ */
+export function angerShopkeeper(
+  world: World,
+  shopkeeper: Entity,
+  culprit: Entity,
+): boolean {
+  if (!world.has(shopkeeper, Shopkeeper) || world.has(shopkeeper, Enemy)) {
+    return false;
+  }
+
+  world.add(shopkeeper, Enemy);
+  if (world.has(shopkeeper, AI)) {
+    world.set(shopkeeper, AI, { behavior: AIBehavior.Chase });
+  }
+  setAwareness(
+    world,
+    shopkeeper,
+    AwarenessState.Hunting,
+    world.get(culprit, Position) ?? undefined,
+  );
+  world.emit({ type: "message", text: "The shopkeeper is furious!" });
+  return true;
+}
+
+/**
+ * Anger the keepers an entity is carrying unpaid items of, if it has
+ * left their shops.
+ *
+ * @returns whether anything was stolen
+ */
+export function checkTheft(world: World, entity: Entity): boolean {
+  const pos = world.get(entity, Position);
+  if (!pos) return false;
+
+  let stolen = false;
+  for (const item of getCarriedItems(world, entity)) {
+    const keeper = getShopkeeperOf(world, item);
+    if (keeper === null || !isOpen(world, keeper)) continue;
+    if (inShop(world, keeper, pos.x, pos.y)) continue;
+
+    world.emit({ type: "shop.theft", entity, shopkeeper: keeper });
+    world.emit({ type: "message", text: "You leave without paying!" });
+    angerShopkeeper(world, keeper, entity);
+    stolen = true;
+  }
+  return stolen;
+}
+
+function setRequest<T>(
+  world: World,
+  entity: Entity,
+  request: ComponentClass<T>,
+  item: Entity,
+): void {
+  if (!world.has(entity, request)) {
+    world.add(entity, request);
+  }
+  world.setEntityRef(entity, request, "item" as keyof T & string, item);
+}
+
+export function requestBuy(world: World, entity: Entity, item: Entity): void {
+  setRequest(world, entity, BuyRequest, item);
+}
+
+export function requestSell(world: World, entity: Entity, item: Entity): void {
+  setRequest(world, entity, SellRequest, item);
+}
+
+export function requestHaggle(
+  world: World,
+  entity: Entity,
+  item: Entity,
+  offer: number,
+): void {
+  setRequest(world, entity, HaggleRequest, item);
+  world.set(entity, HaggleRequest, { offer });
+}
+
+/**
+ * Resolves trades, then catches anyone who walked out of a shop with
+ * unpaid items.
+ */
+export const ShopSystem = defineSystem("Shop")
+  .inPhase(Phase.Update)
+  .after("Movement")
+  .execute((world) => {
+    for (const entity of world.query(BuyRequest).not(Dead).collect()) {
+      const item = world.getEntityRef(entity, BuyRequest, "item");
+      world.remove(entity, BuyRequest);
+      if (item !== null) buyItem(world, entity, item);
+    }
+
+    for (const entity of world.query(SellRequest).not(Dead).collect()) {
+      const item = world.getEntityRef(entity, SellRequest, "item");
+      world.remove(entity, SellRequest);
+      if (item !== null) sellItem(world, entity, item);
+    }
+
+    for (const entity of world.query(HaggleRequest).not(Dead).collect()) {
+      const { offer } = world.get(entity, HaggleRequest)!;
+      const item = world.getEntityRef(entity, HaggleRequest, "item");
+      world.remove(entity, HaggleRequest);
+      if (item !== null) haggle(world, entity, item, offer);
+    }
+
+    for (const entity of world.query(Inventory, Position).not(Dead).collect()) {
+      checkTheft(world, entity);
+    }
+  });
@@ -0,0 +1,99 @@
+/**
+ * Built-in status definitions.
+ *
+ * Loaded into the StatusRegistry by `createGameWorld`; content packs can
+ * define more on the same registry.
+ */
+
+import { DIRECTION_TO_DELTA } from "@rogue/contracts";
+import { DEFAULT_FOV_RADIUS } from "../components/fov";
+import { RANDOM_RESOURCE, type RandomStreams } from "../resources/random";
+import type { StatusDefinition } from "../resources/statuses";
+import { applyDamage, heal } from "./combat";
+
+export const POISON_DAMAGE = 1;
+export const REGENERATION_HEAL = 1;
+/** Energy per tick gained or lost under haste/slow */
+export const HASTE_SPEED_BONUS = 5;
+/** Chance (0-1) that a confused entity stumbles in a random direction */
+export const CONFUSION_STUMBLE_CHANCE = 0.5;
+/** Attack and accuracy lost while weak from hunger */
+export const WEAKNESS_PENALTY = 2;
+/** Chance (0-1) that a fainting entity passes out for its turn */
+export const FAINT_CHANCE = 0.25;
+
+const STUMBLE_DIRECTIONS = Object.values(DIRECTION_TO_DELTA).filter(
+  ({ dx, dy }) => dx !== 0 || dy !== 0,
+);
+
+export const DEFAULT_STATUSES: readonly StatusDefinition[] = [
+  {
+    id: "poison",
+    stacking: "add",
+    maxDuration: 20,
+    onTurnStart: ({ world, entity, source }) => {
+      applyDamage(world, entity, POISON_DAMAGE, source ?? undefined);
+    },
+  },
+  {
+    id: "regeneration",
+    stacking: "refresh",
+    onTurnStart: ({ world, entity }) => {
+      heal(world, entity, REGENERATION_HEAL);
+    },
+  },
+  {
+    id: "haste",
+    stacking: "refresh",
+    modifiers: { speed: HASTE_SPEED_BONUS },
+  },
+  {
+    id: "slow",
+    stacking: "max",
+    modifiers: { speed: -HASTE_SPEED_BONUS },
+  },
+  {
+    id: "confusion",
+    stacking: "max",
+    onTurnStart: ({ world, entity, turn }) => {
+      const rng = world.resources
+        .require<RandomStreams>(RANDOM_RESOURCE)
+        .get("status");
+      if (!rng.probability(CONFUSION_STUMBLE_CHANCE)) return;
+
+      const step = rng.choice(STUMBLE_DIRECTIONS);
+      if (step) turn.setAction(entity, { type: "move", data: step });
+    },
+  },
+  {
+    id: "blind",
+    stacking: "max",
+    modifiers: { fovRadius: -DEFAULT_FOV_RADIUS, accuracy: -4 },
+  },
+  {
+    id: "paralysis",
+    stacking: "max",
+    maxDuration: 5,
+    onTurnStart: ({ entity, turn }) => {
+      turn.setAction(entity, { type: "wait" });
+    },
+  },
+  {
+    id: "weak",
+    stacking: "max",
+    modifiers: { attack: -WEAKNESS_PENALTY, accuracy: -WEAKNESS_PENALTY },
+  },
+  {
+    id: "fainting",
+    stacking: "max",
+    onTurnStart: ({ world, entity, turn }) => {
+      const rng = world.resources
+        .require<RandomStreams>(RANDOM_RESOURCE)
+        .get("status");
+      if (!rng.probability(FAINT_CHANCE)) return;
+
+      world.emit({ type: "message", text: "You faint from hunger." });
+      turn.setAction(entity, { type: "wait" });
+    },
+  },
+];
@@ -0,0 +1,212 @@
+/**
+ * Status Effects
+ *
+ * Timed status effects attached to entities as `ChildOf` children, so
+ * they disappear with the entity. Behaviour comes from the
+ * {@link StatusRegistry}: stacking policy, stat modifiers and per-turn
+ * hooks. Statuses without a definition are plain timers.
+ *
+ * The turn system drives statuses: `onTurnStart` hooks run when the
+ * affected entity is scheduled, and durations count down after its action
+ * resolves. A status applied for 3 turns therefore expires at the end of
+ * the affected entity's third turn.
+ */
+
+import { ChildOf, type Entity, NULL_ENTITY, type World } from "@rogue/ecs";
+import { FOV } from "../components/fov";
+import { Status } from "../components/status";
+import {
+  type ModifiedStat,
+  STATUSES_RESOURCE,
+  type StatusDefinition,
+  type StatusHook,
+  type StatusRegistry,
+} from "../resources/statuses";
+import {
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+
+function getDefinition(
+  world: World,
+  name: string,
+): StatusDefinition | undefined {
+  return world.resources.get<StatusRegistry>(STATUSES_RESOURCE)?.get(name);
+}
+
+function statusName(world: World, status: Entity): string {
+  return world.getString(status, Status, "name") ?? "";
+}
+
+/**
+ * Status entities attached to an entity.
+ */
+export function getStatuses(world: World, entity: Entity): Entity[] {
+  return world.getSources(entity, ChildOf).filter((e) => world.has(e, Status));
+}
+
+export function findStatus(
+  world: World,
+  entity: Entity,
+  name: string,
+): Entity | null {
+  for (const status of getStatuses(world, entity)) {
+    if (statusName(world, status) === name) return status;
+  }
+  return null;
+}
+
+export function hasStatus(world: World, entity: Entity, name: string): boolean {
+  return findStatus(world, entity, name) !== null;
+}
+
+/**
+ * Sum of one stat modifier over the entity's active statuses.
+ */
+export function getStatusModifier(
+  world: World,
+  entity: Entity,
+  stat: ModifiedStat,
+): number {
+  let total = 0;
+  for (const status of getStatuses(world, entity)) {
+    total +=
+      getDefinition(world, statusName(world, status))?.modifiers?.[stat] ?? 0;
+  }
+  return total;
+}
+
+/**
+ * Statuses that change sight must trigger a FOV recompute.
+ */
+function invalidateSight(
+  world: World,
+  entity: Entity,
+  definition: StatusDefinition | undefined,
+): void {
+  if (definition?.modifiers?.fovRadius && world.has(entity, FOV)) {
+    world.set(entity, FOV, { dirty: 1 });
+  }
+}
+
+/**
+ * Apply a status for `duration` turns, following its stacking policy if
+ * it is already active.
+ *
+ * @returns the status entity, or null if the target is gone
+ */
+export function applyStatus(
+  world: World,
+  target: Entity,
+  name: string,
+  duration: number,
+  source?: Entity,
+): Entity | null {
+  if (!world.isAlive(target) || duration <= 0) return null;
+
+  const definition = getDefinition(world, name);
+  const cap = definition?.maxDuration ?? Number.POSITIVE_INFINITY;
+
+  let status = findStatus(world, target, name);
+  if (status !== null) {
+    const current = world.get(status, Status)!.duration;
+    let next: number;
+    switch (definition?.stacking ?? "max") {
+      case "refresh":
+        next = duration;
+        break;
+      case "add":
+        next = current + duration;
+        break;
+      case "max":
+        next = Math.max(current, duration);
+        break;
+    }
+    duration = Math.min(next, cap);
+    world.set(status, Status, { duration });
+  } else {
+    duration = Math.min(duration, cap);
+    status = world.spawn(Status);
+    world.setString(status, Status, "name", name);
+    world.set(status, Status, { duration });
+    world.setEntityRef(status, Status, "source", source ?? NULL_ENTITY);
+    world.relate(status, ChildOf, target);
+    invalidateSight(world, target, definition);
+  }
+
+  world.emit({
+    type: "status.applied",
+    entity: target,
+    status: name,
+    duration,
+  });
+  return status;
+}
+
+function expire(world: World, entity: Entity, status: Entity): void {
+  const name = statusName(world, status);
+  world.despawn(status);
+  invalidateSight(world, entity, getDefinition(world, name));
+  world.emit({ type: "status.removed", entity, status: name });
+}
+
+export function removeStatus(
+  world: World,
+  target: Entity,
+  name: string,
+): boolean {
+  const status = findStatus(world, target, name);
+  if (status === null) return false;
+
+  expire(world, target, status);
+  return true;
+}
+
+function runHooks(
+  world: World,
+  entity: Entity,
+  hook: "onTurnStart" | "onTurnEnd",
+): void {
+  const turn = world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+  if (!turn) return;
+
+  for (const status of getStatuses(world, entity)) {
+    if (!world.isAlive(status)) continue;
+    const fn: StatusHook | undefined = getDefinition(
+      world,
+      statusName(world, status),
+    )?.[hook];
+    fn?.({
+      world,
+      entity,
+      status,
+      source: world.getEntityRef(status, Status, "source"),
+      turn,
+    });
+  }
+}
+
+/**
+ * Run `onTurnStart` hooks of an entity that was just scheduled to act.
+ * Called by the turn system.
+ */
+export function startStatusTurn(world: World, entity: Entity): void {
+  runHooks(world, entity, "onTurnStart");
+}
+
+/**
+ * Run `onTurnEnd` hooks, then count down and expire the entity's
+ * statuses. Called by the turn system once the entity's action resolved.
+ */
+export function endStatusTurn(world: World, entity: Entity): void {
+  runHooks(world, entity, "onTurnEnd");
+
+  for (const status of getStatuses(world, entity)) {
+    const duration = world.get(status, Status)!.duration - 1;
+    if (duration > 0) {
+      world.set(status, Status, { duration });
+    } else {
+      expire(world, entity, status);
+    }
+  }
+}
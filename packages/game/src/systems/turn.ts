@@ -0,0 +1,220 @@
+/**
+ * Turn System
+ *
+ * Energy-accumulation turn scheduler. Each game tick every actor gains
+ * its speed (`Energy.speed` plus status modifiers); actors at or above
+ * ENERGY_PER_ACTION act. Ticks where
+ * nobody would act are skipped in one step (fast-forward), and the world
+ * blocks while a scheduled player has not submitted an action.
+ *
+ * One world tick resolves one scheduling round:
+ * - PreUpdate `Turn` schedules actors, runs their status `onTurnStart`
+ *   hooks, then keeps waiting for player input.
+ * - Update systems apply the committed actions (gated by `turnResolving`).
+ * - PostUpdate `TurnEnd` spends energy, counts down statuses and ability
+ *   cooldowns, regenerates mana, burns satiety and emits `turn.ended`.
+ */
+
+import {
+  condition,
+  Dead,
+  defineSystem,
+  type Entity,
+  Phase,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import { ENERGY_PER_ACTION, Energy } from "../components/turn";
+import {
+  type ActionRequest,
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../resources/turn-state";
+import { endAbilityTurn } from "./abilities";
+import { endHungerTurn } from "./hunger";
+import { trackTurn } from "./run";
+import { endStatusTurn, getStatusModifier, startStatusTurn } from "./status";
+
+export type { ActionRequest } from "../resources/turn-state";
+
+function getTurnState(world: World): TurnStateManager | undefined {
+  return world.resources.get<TurnStateManager>(TURN_STATE_RESOURCE);
+}
+
+/**
+ * Run condition: true while scheduled actions are being applied.
+ */
+export const turnResolving = condition(
+  (world) => getTurnState(world)?.isResolving() ?? false,
+);
+
+/**
+ * Submit a player's action for the current turn.
+ *
+ * @returns false if the entity is not waiting for input this turn
+ * or has already submitted
+ */
+export function submitAction(
+  world: World,
+  entity: Entity,
+  action: ActionRequest,
+): boolean {
+  const turn = getTurnState(world);
+  if (!turn || turn.getPhase() !== "acting") return false;
+  return turn.setAction(entity, action);
+}
+
+/**
+ * Commit an action on behalf of a non-player actor (used by AI).
+ * Equivalent to {@link submitAction} but also valid while resolving.
+ */
+export function commitAction(
+  world: World,
+  entity: Entity,
+  action: ActionRequest,
+): boolean {
+  return getTurnState(world)?.setAction(entity, action) ?? false;
+}
+
+/**
+ * Energy gained per tick after status modifiers. Entities that can act at
+ * all never drop below 1.
+ */
+export function getSpeed(world: World, entity: Entity): number {
+  const base = world.get(entity, Energy)?.speed ?? 0;
+  if (base <= 0) return 0;
+  return Math.max(1, base + getStatusModifier(world, entity, "speed"));
+}
+
+/**
+ * Grant energy until at least one actor is ready, skipping idle ticks.
+ * Returns ready actors sorted by energy (highest first), ties by entity index.
+ */
+function scheduleActors(world: World, turn: TurnStateManager): Entity[] {
+  const actors: Entity[] = [];
+  let wait = Number.POSITIVE_INFINITY;
+
+  const speeds: number[] = [];
+
+  for (const entity of world.query(Energy).not(Dead).iterDeterministic()) {
+    const energy = world.get(entity, Energy)!;
+    const speed = getSpeed(world, entity);
+    const missing = ENERGY_PER_ACTION - energy.current;
+    if (missing <= 0) {
+      wait = 0;
+    } else if (speed > 0) {
+      wait = Math.min(wait, Math.ceil(missing / speed));
+    }
+    actors.push(entity);
+    speeds.push(speed);
+  }
+
+  if (wait === Number.POSITIVE_INFINITY) return [];
+
+  const ready: { entity: Entity; energy: number }[] = [];
+  for (let i = 0; i < actors.length; i++) {
+    const entity = actors[i]!;
+    const energy = world.get(entity, Energy)!;
+    const current = energy.current + speeds[i]! * wait;
+    if (wait > 0) {
+      world.set(entity, Energy, { current });
+    }
+    if (current >= ENERGY_PER_ACTION) {
+      ready.push({ entity, energy: current });
+    }
+  }
+
+  turn.advance(wait);
+
+  // Stable sort keeps entity-index order among equal energies
+  ready.sort((a, b) => b.energy - a.energy);
+  return ready.map((r) => r.entity);
+}
+
+/**
+ * Schedules the next actors, or holds the world while players decide.
+ */
+export const TurnSystem = defineSystem("Turn")
+  .inPhase(Phase.PreUpdate)
+  .execute((world) => {
+    const turn = getTurnState(world);
+    if (!turn) return;
+
+    if (turn.getPhase() === "idle") {
+      const actors = scheduleActors(world, turn);
+      if (actors.length === 0) return;
+
+      const players = actors.filter((e) => world.has(e, Player));
+      turn.begin(actors, players);
+
+      const tick = turn.getCurrentTick();
+      for (const entity of actors) {
+        world.emit({ type: "turn.started", entity, tick });
+      }
+
+      // Status hooks may take the turn away (paralysis) or kill the actor
+      for (const entity of actors) {
+        startStatusTurn(world, entity);
+        if (world.has(entity, Dead)) {
+          turn.setAction(entity, { type: "wait" });
+        }
+      }
+    }
+
+    const waiting = turn.nextAwaitingInput();
+    if (waiting !== null) {
+      turn.awaitInput(waiting);
+      return;
+    }
+
+    turn.resolve();
+  });
+
+/**
+ * Spends energy for every actor that acted and closes the round.
+ */
+export const TurnEndSystem = defineSystem("TurnEnd")
+  .inPhase(Phase.PostUpdate)
+  .runIf(turnResolving)
+  .execute((world) => {
+    const turn = getTurnState(world);
+    if (!turn) return;
+
+    const tick = turn.getCurrentTick();
+    for (const entity of turn.getActors()) {
+      const energy = world.get(entity, Energy);
+      if (!energy) continue;
+
+      world.set(entity, Energy, {
+        current: energy.current - ENERGY_PER_ACTION,
+      });
+      endStatusTurn(world, entity);
+      endAbilityTurn(world, entity);
+      endHungerTurn(world, entity);
+      trackTurn(world, entity);
+      world.emit({ type: "turn.ended", entity, tick });
+    }
+
+    turn.finish();
+  });
+
+/**
+ * Run world ticks until a player must act (or nothing can act).
+ *
+ * @param maxTicks - Safety bound on world ticks
+ * @returns number of world ticks run
+ */
+export function runUntilPlayerTurn(world: World, maxTicks = 1000): number {
+  const turn = getTurnState(world);
+  if (!turn) return 0;
+
+  for (let i = 0; i < maxTicks; i++) {
+    const wasIdle = turn.getPhase() === "idle";
+    const round = turn.getRound();
+    world.runTick();
+    if (turn.getPhase() === "acting") return i + 1;
+    // Nothing could be scheduled: no actors, or none can gain energy
+    if (wasIdle && turn.getRound() === round) return i + 1;
+  }
+  return maxTicks;
+}
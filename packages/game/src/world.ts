@@ -1,4 +1,64 @@
 import { World } from "@rogue/ecs";
+import type { DungeonArtifact } from "@rogue/procgen";
+import {
+  DEFAULT_TEMPLATES,
+  EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "./prefabs";
+import { ABILITIES_RESOURCE, AbilityRegistry } from "./resources/abilities";
+import { AI_MAPS_RESOURCE, AIMaps } from "./resources/ai-maps";
+import {
+  IDENTIFICATION_RESOURCE,
+  IdentificationStore,
+} from "./resources/identification";
+import {
+  ITEM_EFFECTS_RESOURCE,
+  ItemEffectRegistry,
+} from "./resources/item-effects";
+import {
+  LEVELS_RESOURCE,
+  LevelManager,
+  type LevelOptions,
+} from "./resources/levels";
+import { PERKS_RESOURCE, PerkRegistry } from "./resources/perks";
+import {
+  PROGRESSION_RESOURCE,
+  type ProgressionOptions,
+  ProgressionRules,
+} from "./resources/progression";
+import { RANDOM_RESOURCE, RandomStreams } from "./resources/random";
+import { RUN_RESOURCE, RunRecords } from "./resources/run";
+import { STATUSES_RESOURCE, StatusRegistry } from "./resources/statuses";
+import { TURN_STATE_RESOURCE, TurnStateManager } from "./resources/turn-state";
+import { VISIBILITY_RESOURCE, VisibilityStore } from "./resources/visibility";
+import { AbilitySystem } from "./systems/abilities";
+import { AIMapSystem, AISystem } from "./systems/ai";
+import { CombatSystem, DeathSystem } from "./systems/combat";
+import { FOVSystem } from "./systems/fov";
+import { assignAppearances } from "./systems/identification";
+import { InteractionSystem } from "./systems/interaction";
+import { InventorySystem, ItemActionSystem } from "./systems/inventory";
+import { enterLevel, LevelSystem } from "./systems/levels";
+import { MovementSystem } from "./systems/movement";
+import { PerceptionSystem } from "./systems/perception";
+import { RangedSystem } from "./systems/ranged";
+import { ShopSystem } from "./systems/shop";
+import { DEFAULT_STATUSES } from "./systems/status-definitions";
+import { TurnEndSystem, TurnSystem } from "./systems/turn";
+
+export interface GameWorldOptions {
+  /** Dungeon to use as the first level; entered immediately */
+  readonly dungeon?: DungeonArtifact;
+  /**
+   * Run seed for gameplay RNG streams and level generation (defaults to
+   * the dungeon's seed)
+   */
+  readonly seed?: number;
+  /** Size and algorithm of generated levels */
+  readonly levels?: LevelOptions;
+  /** Level curve, stat growth and perk frequency */
+  readonly progression?: ProgressionOptions;
+}
 
 /**
  * Create and configure a new game world.
@@ -8,25 +68,69 @@ import { World } from "@rogue/ecs";
  *
  * @example
  * ```typescript
- * const world = createGameWorld();
+ * const world = createGameWorld({ dungeon: result.artifact });
+ * // or generate the first floor from the run seed:
+ * // const world = createGameWorld({ seed }); enterLevel(world, 1);
  *
  * // Spawn entities
- * const player = world.spawn(Position, Health, Player);
+ * const player = world.spawn(Position, Energy, Player);
  *
  * // Run game loop
- * world.runTick();
+ * runUntilPlayerTurn(world);
+ * submitAction(world, player, { type: "wait" });
  * ```
  */
-export function createGameWorld(): World {
+export function createGameWorld(options: GameWorldOptions = {}): World {
   const world = new World();
 
   // Register systems
-  // world.addSystem(MovementSystem);
-  // world.addSystem(CombatSystem);
-  // world.addSystem(AISystem);
+  world.addSystem(DeathSystem);
+  world.addSystem(TurnSystem);
+  world.addSystem(PerceptionSystem);
+  world.addSystem(AISystem);
+  world.addSystem(CombatSystem);
+  world.addSystem(RangedSystem);
+  world.addSystem(AbilitySystem);
+  world.addSystem(MovementSystem);
+  world.addSystem(InteractionSystem);
+  world.addSystem(ItemActionSystem);
+  world.addSystem(InventorySystem);
+  world.addSystem(ShopSystem);
+  world.addSystem(TurnEndSystem);
+  world.addSystem(LevelSystem);
+  world.addSystem(FOVSystem);
+  world.addSystem(AIMapSystem);
 
   // Set up resources
-  // world.resources.set("turnNumber", 0);
+  world.resources.set(TURN_STATE_RESOURCE, new TurnStateManager());
+  world.resources.set(VISIBILITY_RESOURCE, new VisibilityStore());
+  world.resources.set(AI_MAPS_RESOURCE, new AIMaps());
+  world.resources.set(ITEM_EFFECTS_RESOURCE, new ItemEffectRegistry());
+  world.resources.set(ABILITIES_RESOURCE, new AbilityRegistry());
+  world.resources.set(STATUSES_RESOURCE, new StatusRegistry(DEFAULT_STATUSES));
+  world.resources.set(
+    PROGRESSION_RESOURCE,
+    new ProgressionRules(options.progression),
+  );
+  world.resources.set(PERKS_RESOURCE, new PerkRegistry());
+  world.resources.set(RUN_RESOURCE, new RunRecords());
+  const templates = new EntityTemplateRegistry(DEFAULT_TEMPLATES);
+  world.resources.set(TEMPLATES_RESOURCE, templates);
+  const seed = options.seed ?? options.dungeon?.seed.primary ?? 0;
+  const levels = new LevelManager(seed, options.levels);
+  const random = new RandomStreams(seed);
+  world.resources.set(RANDOM_RESOURCE, random);
+  world.resources.set(LEVELS_RESOURCE, levels);
+  world.resources.set(
+    IDENTIFICATION_RESOURCE,
+    new IdentificationStore(
+      assignAppearances(templates, random.get("appearances")),
+    ),
+  );
+  if (options.dungeon) {
+    levels.addLevel(1, options.dungeon);
+    enterLevel(world, 1);
+  }
 
   return world;
 }
@@ -0,0 +1,241 @@
+/**
+ * Ability tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Enemy, type Entity, Player, type World } from "@rogue/ecs";
+import {
+  Ability,
+  Ally,
+  CombatStats,
+  Energy,
+  Health,
+  Mana,
+  Position,
+  Summoned,
+} from "../src/components";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../src/prefabs";
+import {
+  ABILITIES_RESOURCE,
+  type AbilityRegistry,
+  GAME_MAP_RESOURCE,
+  type GameMap,
+} from "../src/resources";
+import {
+  castAbility,
+  findAbility,
+  getAbilityArea,
+  isHostile,
+  learnAbility,
+  requestCast,
+  runUntilPlayerTurn,
+  submitAction,
+  validateCast,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = [
+  "############",
+  "#..........#",
+  "#..........#",
+  "#......#...#",
+  "#..........#",
+  "############",
+];
+
+const newWorld = () =>
+  createGameWorld({ dungeon: artifactFromAscii(LAYOUT), seed: 7 });
+
+function spawnCreature(
+  world: World,
+  x: number,
+  y: number,
+  marker: typeof Player | typeof Enemy,
+  hp = 20,
+): Entity {
+  const entity = world.spawn(Position, Energy, Health, CombatStats, marker);
+  world.set(entity, Position, { x, y });
+  world.set(entity, Health, { current: hp, max: hp });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, entity, true);
+  return entity;
+}
+
+function caster(world: World, mana = 20, ...abilities: string[]): Entity {
+  const player = spawnCreature(world, 1, 2, Player);
+  world.add(player, Mana, { current: mana, max: 20, regen: 1 });
+  for (const id of abilities) learnAbility(world, player, id);
+  return player;
+}
+
+function definition(world: World, id: string) {
+  return world.resources.require<AbilityRegistry>(ABILITIES_RESOURCE).get(id)!;
+}
+
+describe("castAbility", () => {
+  it("damages every creature in the area and starts the cooldown", () => {
+    const world = newWorld();
+    const player = caster(world, 20, "fireball");
+    const fireball = findAbility(world, player, "fireball")!;
+    const a = spawnCreature(world, 5, 2, Enemy);
+    const b = spawnCreature(world, 6, 3, Enemy);
+    const far = spawnCreature(world, 8, 2, Enemy);
+
+    expect(castAbility(world, player, fireball, 5, 2)).toBe(true);
+
+    expect(world.get(a, Health)!.current).toBe(12);
+    expect(world.get(b, Health)!.current).toBe(12);
+    expect(world.get(far, Health)!.current).toBe(20);
+    expect(world.get(player, Mana)!.current).toBe(12);
+    expect(world.get(fireball, Ability)!.cooldown).toBe(5);
+    expect(validateCast(world, player, fireball, 5, 2)?.error).toBe(
+      "on_cooldown",
+    );
+  });
+
+  it("refuses casts it cannot afford, reach or see", () => {
+    const world = newWorld();
+    const player = caster(world, 3, "fireball", "blink", "heal_ally");
+    const fireball = findAbility(world, player, "fireball")!;
+    const blink = findAbility(world, player, "blink")!;
+    const healAlly = findAbility(world, player, "heal_ally")!;
+
+    expect(validateCast(world, player, fireball, 4, 2)?.error).toBe(
+      "not_enough_mana",
+    );
+
+    world.set(player, Mana, { current: 20 });
+    expect(validateCast(world, player, blink, 9, 2)?.error).toBe(
+      "out_of_range",
+    );
+    expect(validateCast(world, player, fireball, 10, 3)?.error).toBe(
+      "out_of_range",
+    );
+    expect(validateCast(world, player, blink, 0, 2)?.error).toBe(
+      "no_line_of_sight",
+    );
+    expect(validateCast(world, player, healAlly, 3, 2)?.error).toBe(
+      "invalid_target",
+    );
+    expect(validateCast(world, player, healAlly, 1, 2)).toBeNull();
+
+    const other = spawnCreature(world, 5, 4, Player);
+    const unknown = learnAbility(world, other, "blink");
+    expect(validateCast(world, player, unknown, 3, 2)?.error).toBe(
+      "unknown_ability",
+    );
+  });
+
+  it("blinks the caster to the aimed tile", () => {
+    const world = newWorld();
+    const player = caster(world, 20, "blink");
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+
+    castAbility(world, player, findAbility(world, player, "blink")!, 5, 1);
+
+    expect(world.get(player, Position)).toEqual({ x: 5, y: 1 });
+    expect(map.getBlocker(5, 1)).toBe(player);
+    expect(map.getBlocker(1, 2)).toBeNull();
+  });
+
+  it("summons creatures on the caster's side", () => {
+    const world = newWorld();
+    const player = caster(world, 20, "summon_skeleton");
+    const enemy = spawnCreature(world, 8, 2, Enemy);
+
+    castAbility(
+      world,
+      player,
+      findAbility(world, player, "summon_skeleton")!,
+      2,
+      2,
+    );
+
+    const skeleton = world.resources
+      .require<GameMap>(GAME_MAP_RESOURCE)
+      .getBlocker(2, 2)!;
+    expect(world.has(skeleton, Ally)).toBe(true);
+    expect(world.has(skeleton, Enemy)).toBe(false);
+    expect(world.getEntityRef(skeleton, Summoned, "owner")).toBe(player);
+    expect(isHostile(world, skeleton, enemy)).toBe(true);
+    expect(isHostile(world, skeleton, player)).toBe(false);
+  });
+});
+
+describe("getAbilityArea", () => {
+  it("keeps circles out of tiles hidden behind walls", () => {
+    const world = newWorld();
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+    const area = getAbilityArea(
+      map,
+      { ...definition(world, "fireball"), radius: 2 },
+      { x: 1, y: 1 },
+      { x: 6, y: 3 },
+    );
+
+    expect(area).toContainEqual({ x: 6, y: 3 });
+    expect(area).not.toContainEqual({ x: 7, y: 3 });
+    expect(area).not.toContainEqual({ x: 8, y: 3 });
+  });
+
+  it("spreads cones toward the aim", () => {
+    const world = newWorld();
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+    const area = getAbilityArea(
+      map,
+      definition(world, "frost_cone"),
+      { x: 2, y: 2 },
+      { x: 5, y: 2 },
+    );
+
+    expect(area).toContainEqual({ x: 3, y: 2 });
+    expect(area).toContainEqual({ x: 4, y: 3 });
+    expect(area).not.toContainEqual({ x: 1, y: 2 });
+    expect(area).not.toContainEqual({ x: 2, y: 3 });
+  });
+});
+
+describe("AbilitySystem", () => {
+  it("resolves casts on the caster's turn and recovers over turns", () => {
+    const world = newWorld();
+    const player = caster(world, 10, "blink");
+    const blink = findAbility(world, player, "blink")!;
+
+    runUntilPlayerTurn(world);
+    requestCast(world, player, blink, 4, 1);
+    submitAction(world, player, {
+      type: "cast",
+      data: { ability: blink, x: 4, y: 1 },
+    });
+    world.runTick();
+
+    expect(world.get(player, Position)).toEqual({ x: 4, y: 1 });
+    // Spent 4, regenerated 1 at the end of the turn
+    expect(world.get(player, Mana)!.current).toBe(7);
+    expect(world.get(blink, Ability)!.cooldown).toBe(7);
+
+    for (let turn = 0; turn < 7; turn++) {
+      runUntilPlayerTurn(world);
+      submitAction(world, player, { type: "wait" });
+      world.runTick();
+    }
+    expect(world.get(blink, Ability)!.cooldown).toBe(0);
+    expect(world.get(player, Mana)!.current).toBe(14);
+  });
+
+  it("gives class templates their starting abilities", () => {
+    const world = newWorld();
+    const mage = world.resources
+      .require<EntityTemplateRegistry>(TEMPLATES_RESOURCE)
+      .instantiate(world, "mage");
+
+    expect(findAbility(world, mage, "fireball")).not.toBeNull();
+    expect(findAbility(world, mage, "blink")).not.toBeNull();
+    expect(world.get(mage, Mana)!.current).toBe(20);
+  });
+});
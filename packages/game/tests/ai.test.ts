@@ -0,0 +1,218 @@
+/**
+ * Monster AI tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Enemy, type Entity, Player, type World } from "@rogue/ecs";
+import {
+  AI,
+  AIBehavior,
+  CombatStats,
+  Energy,
+  Health,
+  Position,
+} from "../src/components";
+import {
+  AI_MAPS_RESOURCE,
+  type AIMaps,
+  GAME_MAP_RESOURCE,
+  type GameMap,
+} from "../src/resources";
+import { decideAction, updateAIMaps } from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const CORRIDOR = ["############", "#..........#", "############"];
+
+const ROOM = ["#########", "#.......#", "#.......#", "#.......#", "#########"];
+
+function spawnPlayer(world: World, x: number, y: number): Entity {
+  const player = world.spawn(Position, Energy, Health, Player);
+  world.set(player, Position, { x, y });
+  // Never scheduled: monsters act every tick without waiting for input
+  world.set(player, Energy, { speed: 0 });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, player, true);
+  return player;
+}
+
+function spawnMonster(
+  world: World,
+  x: number,
+  y: number,
+  ai: Partial<Record<keyof AI, number>> = {},
+): Entity {
+  const monster = world.spawn(Position, Energy, Health, CombatStats, AI, Enemy);
+  world.set(monster, Position, { x, y });
+  world.set(monster, CombatStats, { accuracy: 100 });
+  world.set(monster, AI, ai);
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, monster, true);
+  return monster;
+}
+
+function aiMaps(world: World): AIMaps {
+  return world.resources.require<AIMaps>(AI_MAPS_RESOURCE);
+}
+
+describe("chase", () => {
+  it("walks toward the player and attacks when adjacent", () => {
+    // Seed whose first combat roll hits
+    const world = createGameWorld({
+      dungeon: artifactFromAscii(CORRIDOR),
+      seed: 7,
+    });
+    const player = spawnPlayer(world, 1, 1);
+    const monster = spawnMonster(world, 5, 1);
+
+    for (let i = 0; i < 3; i++) world.runTick();
+    expect(world.get(monster, Position)).toEqual({ x: 2, y: 1 });
+
+    world.runTick();
+    expect(world.get(player, Health)!.current).toBeLessThan(10);
+    expect(world.get(monster, Position)).toEqual({ x: 2, y: 1 });
+  });
+
+  it("ignores players beyond the aggro range", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(CORRIDOR) });
+    spawnPlayer(world, 1, 1);
+    const monster = spawnMonster(world, 10, 1, { aggroRange: 5 });
+
+    world.runTick();
+    expect(world.get(monster, Position)).toEqual({ x: 10, y: 1 });
+  });
+
+  it("routes around actors blocking the direct path", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(ROOM) });
+    spawnPlayer(world, 1, 2);
+    spawnMonster(world, 3, 2, { behavior: AIBehavior.Wander });
+    const chaser = spawnMonster(world, 4, 2);
+    updateAIMaps(world);
+
+    const action = decideAction(world, chaser);
+    expect(action.type).toBe("move");
+    expect(action.data?.dx).toBe(-1);
+    expect(action.data?.dy).not.toBe(0);
+  });
+});
+
+describe("flee", () => {
+  it("runs away below the health threshold", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(CORRIDOR) });
+    spawnPlayer(world, 1, 1);
+    const monster = spawnMonster(world, 3, 1, { fleeThreshold: 50 });
+    world.set(monster, Health, { current: 2 });
+
+    world.runTick();
+    expect(world.get(monster, Position)).toEqual({ x: 4, y: 1 });
+  });
+
+  it("fights back when cornered", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(CORRIDOR) });
+    const player = spawnPlayer(world, 9, 1);
+    const monster = spawnMonster(world, 10, 1, { fleeThreshold: 50 });
+    world.set(monster, Health, { current: 2 });
+    updateAIMaps(world);
+
+    expect(decideAction(world, monster)).toEqual({
+      type: "attack",
+      data: { target: player },
+    });
+  });
+});
+
+describe("keep distance", () => {
+  it("holds the preferred range", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(CORRIDOR) });
+    spawnPlayer(world, 1, 1);
+    const close = spawnMonster(world, 3, 1, {
+      behavior: AIBehavior.KeepDistance,
+      preferredRange: 4,
+    });
+    const far = spawnMonster(world, 10, 1, {
+      behavior: AIBehavior.KeepDistance,
+      preferredRange: 4,
+    });
+
+    for (let i = 0; i < 6; i++) world.runTick();
+
+    expect(world.get(close, Position)).toEqual({ x: 5, y: 1 });
+    expect(world.get(far, Position)).toEqual({ x: 6, y: 1 });
+  });
+});
+
+describe("guard", () => {
+  it("returns to its post when no intruder is near", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(CORRIDOR) });
+    spawnPlayer(world, 1, 1);
+    const guard = spawnMonster(world, 6, 1, {
+      behavior: AIBehavior.Guard,
+      homeX: 9,
+      homeY: 1,
+      guardRadius: 2,
+    });
+
+    for (let i = 0; i < 5; i++) world.runTick();
+    expect(world.get(guard, Position)).toEqual({ x: 9, y: 1 });
+  });
+
+  it("engages intruders inside its radius", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(CORRIDOR) });
+    spawnPlayer(world, 7, 1);
+    const guard = spawnMonster(world, 10, 1, {
+      behavior: AIBehavior.Guard,
+      homeX: 9,
+      homeY: 1,
+      guardRadius: 2,
+    });
+
+    world.runTick();
+    expect(world.get(guard, Position)).toEqual({ x: 9, y: 1 });
+    world.runTick();
+    expect(world.get(guard, Position)).toEqual({ x: 8, y: 1 });
+  });
+});
+
+describe("wander", () => {
+  it("is deterministic for a given seed", () => {
+    const run = () => {
+      const world = createGameWorld({
+        dungeon: artifactFromAscii(ROOM),
+        seed: 99,
+      });
+      spawnPlayer(world, 1, 1);
+      const monster = spawnMonster(world, 5, 2, {
+        behavior: AIBehavior.Wander,
+      });
+      const path: unknown[] = [];
+      for (let i = 0; i < 10; i++) {
+        world.runTick();
+        path.push(world.get(monster, Position));
+      }
+      return path;
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
+
+describe("AIMaps", () => {
+  it("recomputes only when a player moves", () => {
+    const world = createGameWorld({ dungeon: artifactFromAscii(CORRIDOR) });
+    const player = spawnPlayer(world, 1, 1);
+    spawnMonster(world, 10, 1, { aggroRange: 0 });
+
+    world.runTick();
+    const version = aiMaps(world).getVersion();
+    world.runTick();
+    world.runTick();
+    expect(aiMaps(world).getVersion()).toBe(version);
+
+    world.set(player, Position, { x: 2, y: 1 });
+    world.runTick();
+    expect(aiMaps(world).getVersion()).toBe(version + 1);
+    expect(aiMaps(world).getChaseMap()?.get(2, 1)).toBe(0);
+  });
+});
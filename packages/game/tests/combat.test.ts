@@ -0,0 +1,207 @@
+/**
+ * Melee combat tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  Contains,
+  Dead,
+  Enemy,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  CombatStats,
+  Corpse,
+  Energy,
+  Health,
+  Position,
+} from "../src/components";
+import { GAME_MAP_RESOURCE, type GameMap } from "../src/resources";
+import {
+  applyDamage,
+  hitChance,
+  requestAttack,
+  resolveAttack,
+  runUntilPlayerTurn,
+  submitAction,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = ["#####", "#...#", "#...#", "#####"];
+
+/** Seed whose first combat rolls hit at 95% */
+const newWorld = () =>
+  createGameWorld({ dungeon: artifactFromAscii(LAYOUT), seed: 7 });
+
+function spawnFighter(
+  world: World,
+  x: number,
+  y: number,
+  marker: typeof Player | typeof Enemy,
+  stats: { hp?: number; attack?: number; armor?: number; accuracy?: number },
+): Entity {
+  const entity = world.spawn(Position, Energy, Health, CombatStats, marker);
+  const hp = stats.hp ?? 10;
+  world.set(entity, Position, { x, y });
+  world.set(entity, Health, { current: hp, max: hp });
+  world.set(entity, CombatStats, {
+    attack: stats.attack ?? 2,
+    armor: stats.armor ?? 0,
+    accuracy: stats.accuracy ?? 0,
+    critChance: 0,
+  });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, entity, true);
+  return entity;
+}
+
+function collect(world: World, ...types: GameEvent["type"][]): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of types) {
+    world.events.on(type, (e) => events.push(e));
+  }
+  return events;
+}
+
+describe("hitChance", () => {
+  it("clamps between the minimum and maximum", () => {
+    const base = {
+      attack: 1,
+      defense: 0,
+      accuracy: 0,
+      armor: 0,
+      critChance: 0,
+    };
+    expect(hitChance(base, base)).toBe(80);
+    expect(hitChance({ ...base, accuracy: 100 }, base)).toBe(95);
+    expect(hitChance(base, { ...base, defense: 100 })).toBe(5);
+  });
+});
+
+describe("resolveAttack", () => {
+  it("reduces damage by armor but always deals at least 1", () => {
+    const world = newWorld();
+    const attacker = spawnFighter(world, 1, 1, Player, {
+      attack: 3,
+      accuracy: 100,
+    });
+    const target = spawnFighter(world, 2, 1, Enemy, { hp: 50, armor: 10 });
+
+    const outcome = resolveAttack(world, attacker, target);
+
+    expect(outcome.hit).toBe(true);
+    expect(outcome.damage).toBe(1);
+    expect(world.get(target, Health)?.current).toBe(49);
+  });
+
+  it("is deterministic for a given seed", () => {
+    const run = () => {
+      const world = createGameWorld({
+        dungeon: artifactFromAscii(LAYOUT),
+        seed: 1234,
+      });
+      const a = spawnFighter(world, 1, 1, Player, { attack: 6 });
+      const b = spawnFighter(world, 2, 1, Enemy, { hp: 1000 });
+      world.set(a, CombatStats, { critChance: 20 });
+      return Array.from({ length: 20 }, () => resolveAttack(world, a, b));
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
+
+describe("CombatSystem", () => {
+  it("resolves requested attacks on the attacker's turn", () => {
+    const world = newWorld();
+    const player = spawnFighter(world, 1, 1, Player, {
+      attack: 4,
+      accuracy: 100,
+    });
+    const monster = spawnFighter(world, 2, 1, Enemy, { hp: 20 });
+    world.set(monster, Energy, { speed: 0 });
+    const events = collect(world, "combat.damage");
+
+    runUntilPlayerTurn(world);
+    expect(requestAttack(world, player, monster)).toBe(true);
+    submitAction(world, player, { type: "attack", data: { target: monster } });
+    world.runTick();
+
+    expect(events.length).toBe(1);
+    expect(world.get(monster, Health)!.current).toBeLessThan(20);
+  });
+
+  it("attacks hostile blockers on bump", () => {
+    const world = newWorld();
+    const player = spawnFighter(world, 1, 1, Player, { accuracy: 100 });
+    const monster = spawnFighter(world, 2, 1, Enemy, { hp: 20 });
+    world.set(monster, Energy, { speed: 0 });
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "move", data: { dx: 1, dy: 0 } });
+    world.runTick();
+
+    expect(world.get(player, Position)).toEqual({ x: 1, y: 1 });
+    expect(world.get(monster, Health)!.current).toBeLessThan(20);
+  });
+});
+
+describe("death", () => {
+  it("attributes kills and leaves a corpse with the loot", () => {
+    const world = newWorld();
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+    const player = spawnFighter(world, 1, 1, Player, {});
+    const monster = spawnFighter(world, 2, 1, Enemy, { hp: 3 });
+    const loot = world.spawn();
+    world.relate(monster, Contains, loot);
+    const deaths = collect(world, "combat.death");
+
+    expect(applyDamage(world, monster, 5, player)).toBe(true);
+    expect(world.has(monster, Dead)).toBe(true);
+    expect(map.hasBlocker(2, 1)).toBe(false);
+
+    world.runTick(); // flushes combat.death
+    expect(deaths).toEqual([
+      { type: "combat.death", entity: monster, killer: player },
+    ]);
+
+    world.runTick(); // death cleanup
+    expect(world.isAlive(monster)).toBe(false);
+    expect(world.get(loot, Position)).toEqual({ x: 2, y: 1 });
+
+    const onTile = map.getEntitiesAt(2, 1);
+    expect(onTile).toContain(loot);
+    expect(onTile.some((e) => world.has(e, Corpse))).toBe(true);
+  });
+
+  it("credits the last attacker for damage without a source", () => {
+    const world = newWorld();
+    const player = spawnFighter(world, 1, 1, Player, {});
+    const monster = spawnFighter(world, 2, 1, Enemy, { hp: 3 });
+    const deaths = collect(world, "combat.death");
+
+    applyDamage(world, monster, 1, player);
+    applyDamage(world, monster, 5);
+    world.runTick();
+
+    expect(deaths).toEqual([
+      { type: "combat.death", entity: monster, killer: player },
+    ]);
+  });
+
+  it("keeps dead players in the world", () => {
+    const world = newWorld();
+    const player = spawnFighter(world, 1, 1, Player, { hp: 1 });
+
+    applyDamage(world, player, 5);
+    world.runTick();
+    world.runTick();
+
+    expect(world.isAlive(player)).toBe(true);
+    expect(world.has(player, Dead)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Shadowcasting FOV tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { type Entity, type GameEvent, Player, type World } from "@rogue/ecs";
+import { createSeed, generate } from "@rogue/procgen";
+import {
+  Energy,
+  FOV,
+  Position,
+  packCoords,
+  VisibleCells,
+} from "../src/components";
+import {
+  GAME_MAP_RESOURCE,
+  GameMap,
+  VISIBILITY_RESOURCE,
+  type VisibilityStore,
+} from "../src/resources";
+import {
+  computeVisibleCells,
+  runUntilPlayerTurn,
+  submitAction,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+function visibleSet(map: GameMap, x: number, y: number, radius: number) {
+  return new Set(computeVisibleCells(map, x, y, radius));
+}
+
+describe("computeVisibleCells", () => {
+  it("sees the whole of an open room", () => {
+    const map = new GameMap(
+      artifactFromAscii([
+        "#######",
+        "#.....#",
+        "#.....#",
+        "#.....#",
+        "#######",
+      ]),
+    );
+    const seen = visibleSet(map, 3, 2, 8);
+
+    for (let y = 0; y < 5; y++) {
+      for (let x = 0; x < 7; x++) {
+        expect(seen.has(packCoords(x, y))).toBe(true);
+      }
+    }
+  });
+
+  it("hides tiles behind walls and closed doors", () => {
+    const map = new GameMap(
+      artifactFromAscii(["#########", "#...#...#", "#...+...#", "#########"]),
+    );
+
+    const closed = visibleSet(map, 1, 2, 10);
+    expect(closed.has(packCoords(4, 2))).toBe(true); // the door itself
+    expect(closed.has(packCoords(6, 2))).toBe(false);
+
+    map.setDoorOpen(4, 2, true);
+    const open = visibleSet(map, 1, 2, 10);
+    expect(open.has(packCoords(6, 2))).toBe(true);
+  });
+
+  it("respects the radius", () => {
+    const map = new GameMap(artifactFromAscii([".".repeat(21)]));
+    const seen = visibleSet(map, 10, 0, 3);
+
+    expect(seen.has(packCoords(13, 0))).toBe(true);
+    expect(seen.has(packCoords(14, 0))).toBe(false);
+  });
+
+  it("is symmetric between floor tiles", () => {
+    const result = generate({ width: 40, height: 25, seed: createSeed(7) });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const map = new GameMap(result.artifact);
+    const floors: { x: number; y: number }[] = [];
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        if (!map.isOpaque(x, y)) floors.push({ x, y });
+      }
+    }
+
+    const sample = floors.filter((_, i) => i % 7 === 0);
+    const views = new Map(
+      sample.map((p) => [packCoords(p.x, p.y), visibleSet(map, p.x, p.y, 12)]),
+    );
+
+    for (const a of sample) {
+      const aKey = packCoords(a.x, a.y);
+      for (const b of sample) {
+        const bKey = packCoords(b.x, b.y);
+        if (views.get(aKey)?.has(bKey)) {
+          expect(views.get(bKey)?.has(aKey)).toBe(true);
+        }
+      }
+    }
+  });
+});
+
+describe("FOVSystem", () => {
+  const layout = ["##########", "#........#", "#....#...#", "##########"];
+
+  function setup(): { world: World; player: Entity; map: GameMap } {
+    const world = createGameWorld({ dungeon: artifactFromAscii(layout) });
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+    const player = world.spawn(Position, Energy, FOV, VisibleCells, Player);
+    world.set(player, Position, { x: 1, y: 2 });
+    world.set(player, FOV, { radius: 8, dirty: 0 });
+    map.addEntity(1, 2, player, true);
+    return { world, player, map };
+  }
+
+  function countUpdates(world: World): GameEvent[] {
+    const events: GameEvent[] = [];
+    world.events.on("fov.updated", (e) => events.push(e));
+    return events;
+  }
+
+  it("computes visibility for newly placed viewers", () => {
+    const { world, player, map } = setup();
+    const updates = countUpdates(world);
+
+    runUntilPlayerTurn(world);
+
+    const store = world.resources.require<VisibilityStore>(VISIBILITY_RESOURCE);
+    expect(updates.length).toBe(1);
+    expect(store.get(player).count).toBeGreaterThan(0);
+    expect(world.get(player, VisibleCells)?.count).toBe(
+      store.get(player).count,
+    );
+    expect(map.isVisible(4, 2)).toBe(true);
+    expect(map.isVisible(8, 2)).toBe(false);
+  });
+
+  it("only recomputes when the position changes", () => {
+    const { world, player, map } = setup();
+    const updates = countUpdates(world);
+    runUntilPlayerTurn(world);
+
+    submitAction(world, player, { type: "wait" });
+    runUntilPlayerTurn(world);
+    expect(updates.length).toBe(1);
+
+    submitAction(world, player, { type: "move", data: { dx: 1, dy: -1 } });
+    runUntilPlayerTurn(world);
+    expect(updates.length).toBe(2);
+    expect(map.isVisible(8, 2)).toBe(true);
+  });
+
+  it("keeps explored tiles after they leave view", () => {
+    const { world, player, map } = setup();
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "move", data: { dx: 1, dy: -1 } });
+    runUntilPlayerTurn(world);
+    expect(map.isVisible(8, 2)).toBe(true);
+
+    world.set(player, FOV, { radius: 1, dirty: 1 });
+    submitAction(world, player, { type: "wait" });
+    runUntilPlayerTurn(world);
+
+    expect(map.isVisible(8, 2)).toBe(false);
+    expect(map.isExplored(8, 2)).toBe(true);
+  });
+});
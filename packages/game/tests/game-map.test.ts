@@ -0,0 +1,139 @@
+/**
+ * GameMap resource tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Entity } from "@rogue/ecs";
+import { CellType, createSeed, generate } from "@rogue/procgen";
+import { GameMap } from "../src/resources";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = [
+  "#######", //
+  "#..+..#",
+  "#.~#^.#",
+  "#######",
+];
+
+describe("GameMap", () => {
+  it("shares the artifact terrain buffer", () => {
+    const artifact = artifactFromAscii(LAYOUT);
+    const map = new GameMap(artifact);
+
+    map.setCell(1, 1, CellType.WALL);
+
+    expect(artifact.terrain[1 * artifact.width + 1]).toBe(CellType.WALL);
+    expect(map.getCell(1, 1)).toBe(CellType.WALL);
+  });
+
+  it("rejects terrain that does not match the dimensions", () => {
+    const artifact = { ...artifactFromAscii(LAYOUT), width: 3 };
+    expect(() => new GameMap(artifact)).toThrow();
+  });
+
+  it("maps procgen cells to wire tile types", () => {
+    const map = new GameMap(artifactFromAscii(LAYOUT));
+
+    expect(map.getTile(0, 0)).toBe(0); // Wall
+    expect(map.getTile(1, 1)).toBe(1); // Floor
+    expect(map.getTile(3, 1)).toBe(2); // Door
+    expect(map.getTile(2, 2)).toBe(3); // Water
+    expect(map.getTile(4, 2)).toBe(4); // Lava
+    expect(map.getTile(-1, 0)).toBe(0);
+  });
+
+  it("reports walkability and opacity", () => {
+    const map = new GameMap(artifactFromAscii(LAYOUT));
+
+    expect(map.isWalkable(1, 1)).toBe(true);
+    expect(map.isWalkable(2, 2)).toBe(true);
+    expect(map.isWalkable(4, 2)).toBe(false);
+    expect(map.isWalkable(0, 0)).toBe(false);
+    expect(map.isWalkable(99, 99)).toBe(false);
+
+    expect(map.isOpaque(0, 0)).toBe(true);
+    expect(map.isOpaque(1, 1)).toBe(false);
+    expect(map.isOpaque(3, 1)).toBe(true);
+
+    map.setDoorOpen(3, 1, true);
+    expect(map.isDoorOpen(3, 1)).toBe(true);
+    expect(map.isOpaque(3, 1)).toBe(false);
+  });
+
+  it("treats locked doors as walls for walking and pathing", () => {
+    const map = new GameMap(artifactFromAscii(LAYOUT));
+
+    map.setDoorLocked(3, 1, true);
+    map.setDoorLocked(1, 1, true); // not a door
+
+    expect(map.isDoorLocked(3, 1)).toBe(true);
+    expect(map.isWalkable(3, 1)).toBe(false);
+    expect(map.isDoorLocked(1, 1)).toBe(false);
+    expect(map.toGrid().get(3, 1)).toBe(CellType.WALL);
+    expect(map.getCell(3, 1)).toBe(CellType.DOOR);
+  });
+
+  it("tracks explored and visible tiles separately", () => {
+    const map = new GameMap(artifactFromAscii(LAYOUT));
+
+    map.setVisible(1, 1);
+    map.setExplored(5, 1);
+
+    expect(map.isVisible(1, 1)).toBe(true);
+    expect(map.isExplored(1, 1)).toBe(true);
+    expect(map.isVisible(5, 1)).toBe(false);
+    expect(map.isExplored(5, 1)).toBe(true);
+
+    map.clearVisible();
+    expect(map.isVisible(1, 1)).toBe(false);
+    expect(map.isExplored(1, 1)).toBe(true);
+    expect(map.exploredCount()).toBe(2);
+  });
+
+  it("indexes entities by tile", () => {
+    const map = new GameMap(artifactFromAscii(LAYOUT));
+    const player = 1 as Entity;
+    const potion = 2 as Entity;
+
+    map.addEntity(1, 1, player, true);
+    map.addEntity(1, 1, potion);
+
+    expect(map.getEntitiesAt(1, 1)).toEqual([player, potion]);
+    expect(map.getBlocker(1, 1)).toBe(player);
+    expect(map.isPassable(1, 1)).toBe(false);
+
+    map.moveEntity(1, 1, 2, 1, player);
+
+    expect(map.getEntitiesAt(1, 1)).toEqual([potion]);
+    expect(map.getEntitiesAt(2, 1)).toEqual([player]);
+    expect(map.getBlocker(2, 1)).toBe(player);
+    expect(map.isPassable(1, 1)).toBe(true);
+
+    expect(map.removeEntity(1, 1, potion)).toBe(true);
+    expect(map.hasEntities(1, 1)).toBe(false);
+    expect(map.removeEntity(1, 1, potion)).toBe(false);
+  });
+
+  it("rejects out-of-bounds placement", () => {
+    const map = new GameMap(artifactFromAscii(LAYOUT));
+    expect(() => map.addEntity(50, 50, 1 as Entity)).toThrow();
+  });
+
+  it("loads a generated dungeon", () => {
+    const result = generate({ width: 60, height: 30, seed: createSeed(42) });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const map = new GameMap(result.artifact);
+    const entrance = result.artifact.spawns.find((s) => s.type === "entrance");
+
+    expect(map.width).toBe(60);
+    expect(map.height).toBe(30);
+    expect(entrance).toBeDefined();
+    if (entrance) {
+      expect(map.isWalkable(entrance.position.x, entrance.position.y)).toBe(
+        true,
+      );
+    }
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Shared test fixtures for @rogue/game
+ */
+
+import { CellType, createSeed, type DungeonArtifact } from "@rogue/procgen";
+
+const CHAR_TO_CELL: Record<string, CellType> = {
+  "#": CellType.WALL,
+  ".": CellType.FLOOR,
+  "+": CellType.DOOR,
+  "~": CellType.WATER,
+  "^": CellType.LAVA,
+};
+
+/**
+ * Build a minimal DungeonArtifact from an ASCII layout.
+ * Unknown characters are treated as floor.
+ */
+export function artifactFromAscii(
+  rows: readonly string[],
+  seed = 1,
+): DungeonArtifact {
+  const height = rows.length;
+  const width = rows[0]?.length ?? 0;
+  const terrain = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const row = rows[y] ?? "";
+    for (let x = 0; x < width; x++) {
+      terrain[y * width + x] = CHAR_TO_CELL[row[x] ?? "."] ?? CellType.FLOOR;
+    }
+  }
+
+  return {
+    type: "dungeon",
+    id: "test-dungeon",
+    width,
+    height,
+    terrain,
+    rooms: [],
+    connections: [],
+    spawns: [],
+    checksum: "test",
+    seed: createSeed(seed),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Hunger tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { type Entity, Player, type World } from "@rogue/ecs";
+import {
+  CombatStats,
+  Energy,
+  Health,
+  Inventory,
+  Position,
+  Satiety,
+} from "../src/components";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../src/prefabs";
+import { GAME_MAP_RESOURCE, type GameMap } from "../src/resources";
+import {
+  addToInventory,
+  endHungerTurn,
+  FAINTING_SATIETY,
+  getCombatStats,
+  getHungerLevel,
+  HUNGRY_SATIETY,
+  hasStatus,
+  runUntilPlayerTurn,
+  submitAction,
+  useItem,
+  WEAK_SATIETY,
+  WEAKNESS_PENALTY,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = ["#####", "#...#", "#...#", "#####"];
+
+function setup(satiety: number): { world: World; player: Entity } {
+  const world = createGameWorld({ dungeon: artifactFromAscii(LAYOUT) });
+  const player = world.spawn(
+    Position,
+    Energy,
+    Health,
+    CombatStats,
+    Inventory,
+    Player,
+  );
+  world.set(player, Position, { x: 1, y: 1 });
+  world.set(player, Health, { current: 10, max: 10 });
+  world.add(player, Satiety, { current: satiety, max: 2000, rate: 1 });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(1, 1, player, true);
+  return { world, player };
+}
+
+function giveFood(world: World, owner: Entity, name: string): Entity {
+  const item = world.resources
+    .require<EntityTemplateRegistry>(TEMPLATES_RESOURCE)
+    .instantiate(world, name);
+  addToInventory(world, owner, item);
+  return item;
+}
+
+describe("getHungerLevel", () => {
+  it("maps satiety to thresholds", () => {
+    expect(getHungerLevel(HUNGRY_SATIETY)).toBe("fed");
+    expect(getHungerLevel(HUNGRY_SATIETY - 1)).toBe("hungry");
+    expect(getHungerLevel(WEAK_SATIETY - 1)).toBe("weak");
+    expect(getHungerLevel(FAINTING_SATIETY - 1)).toBe("fainting");
+    expect(getHungerLevel(0)).toBe("starving");
+  });
+});
+
+describe("endHungerTurn", () => {
+  it("burns satiety on every turn the entity takes", () => {
+    const { world, player } = setup(100);
+
+    for (let turn = 0; turn < 3; turn++) {
+      runUntilPlayerTurn(world);
+      submitAction(world, player, { type: "wait" });
+      world.runTick();
+    }
+
+    expect(world.get(player, Satiety)!.current).toBe(97);
+  });
+
+  it("weakens, then makes the entity faint, past the thresholds", () => {
+    const { world, player } = setup(WEAK_SATIETY);
+    const attack = getCombatStats(world, player).attack;
+
+    endHungerTurn(world, player);
+    expect(hasStatus(world, player, "weak")).toBe(true);
+    expect(hasStatus(world, player, "fainting")).toBe(false);
+    expect(getCombatStats(world, player).attack).toBe(
+      attack - WEAKNESS_PENALTY,
+    );
+
+    world.set(player, Satiety, { current: FAINTING_SATIETY });
+    endHungerTurn(world, player);
+    expect(hasStatus(world, player, "fainting")).toBe(true);
+  });
+
+  it("starves at zero satiety", () => {
+    const { world, player } = setup(1);
+
+    endHungerTurn(world, player);
+    endHungerTurn(world, player);
+
+    expect(world.get(player, Satiety)!.current).toBe(0);
+    expect(world.get(player, Health)!.current).toBe(8);
+  });
+});
+
+describe("food", () => {
+  it("restores satiety and lifts hunger statuses", () => {
+    const { world, player } = setup(FAINTING_SATIETY);
+    endHungerTurn(world, player);
+
+    expect(useItem(world, player, giveFood(world, player, "ration"))).toBe(
+      true,
+    );
+
+    expect(world.get(player, Satiety)!.current).toBe(FAINTING_SATIETY + 799);
+    expect(hasStatus(world, player, "weak")).toBe(false);
+    expect(hasStatus(world, player, "fainting")).toBe(false);
+  });
+
+  it("does not overfill", () => {
+    const { world, player } = setup(1900);
+
+    useItem(world, player, giveFood(world, player, "apple"));
+
+    expect(world.get(player, Satiety)!.current).toBe(2000);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Identification tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { type Entity, type GameEvent, Player, type World } from "@rogue/ecs";
+import {
+  Energy,
+  Health,
+  Inventory,
+  Position,
+  Unidentified,
+} from "../src/components";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../src/prefabs";
+import {
+  APPEARANCE_POOLS,
+  IDENTIFICATION_RESOURCE,
+  type IdentificationStore,
+} from "../src/resources";
+import {
+  addToInventory,
+  getInventoryItems,
+  getItemName,
+  identifyItem,
+  isIdentified,
+  useItem,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = ["#####", "#...#", "#...#", "#####"];
+
+const newWorld = (seed = 5) =>
+  createGameWorld({ dungeon: artifactFromAscii(LAYOUT), seed });
+
+function spawnPlayer(world: World, x: number): Entity {
+  const player = world.spawn(Position, Energy, Health, Inventory, Player);
+  world.set(player, Position, { x, y: 1 });
+  return player;
+}
+
+function give(world: World, owner: Entity, name: string): Entity {
+  const item = world.resources
+    .require<EntityTemplateRegistry>(TEMPLATES_RESOURCE)
+    .instantiate(world, name);
+  addToInventory(world, owner, item);
+  return item;
+}
+
+const appearanceOf = (world: World, kind: string) =>
+  world.resources
+    .require<IdentificationStore>(IDENTIFICATION_RESOURCE)
+    .appearance(kind);
+
+describe("appearances", () => {
+  it("are shuffled per run, deterministically from the seed", () => {
+    const kinds = [
+      "potion_of_healing",
+      "potion_of_poison",
+      "scroll_of_identify",
+      "scroll_of_teleportation",
+      "wand_of_slowness",
+    ];
+    const run = (seed: number) =>
+      kinds.map((kind) => appearanceOf(newWorld(seed), kind));
+
+    expect(run(5)).toEqual(run(5));
+    expect(
+      [1, 2, 3, 4].some((seed) => run(seed).join() !== run(5).join()),
+    ).toBe(true);
+
+    const world = newWorld();
+    expect(appearanceOf(world, "potion_of_healing")).not.toBe(
+      appearanceOf(world, "potion_of_poison"),
+    );
+    expect(appearanceOf(world, "potion_of_healing")).toEndWith(" potion");
+    expect(appearanceOf(world, "dagger")).toBeUndefined();
+  });
+
+  it("give every potion kind its own appearance", () => {
+    const world = newWorld();
+    const templates =
+      world.resources.require<EntityTemplateRegistry>(TEMPLATES_RESOURCE);
+    const potions = templates
+      .names()
+      .filter(
+        (name) => name !== "potion" && templates.tagsOf(name).has("potion"),
+      )
+      .map((name) => appearanceOf(world, name));
+
+    expect(potions.length).toBeGreaterThan(1);
+    expect(new Set(potions).size).toBe(potions.length);
+    expect(potions.length).toBeLessThanOrEqual(
+      APPEARANCE_POOLS.potion!.words.length,
+    );
+  });
+});
+
+describe("getItemName", () => {
+  it("shows the appearance until the kind is identified by use", () => {
+    const world = newWorld();
+    const player = spawnPlayer(world, 1);
+    const first = give(world, player, "potion_of_healing");
+    const appearance = appearanceOf(world, "potion_of_healing")!;
+
+    expect(getItemName(world, player, first)).toBe(appearance);
+    expect(getInventoryItems(world, player)[0]!.n).toBe(appearance);
+
+    useItem(world, player, first);
+    const second = give(world, player, "potion_of_healing");
+
+    expect(isIdentified(world, player, second)).toBe(true);
+    expect(getItemName(world, player, second)).toBe("potion of healing");
+    expect(getInventoryItems(world, player)[0]!.n).toBe("potion of healing");
+  });
+
+  it("keeps knowledge per player", () => {
+    const world = newWorld();
+    const reader = spawnPlayer(world, 1);
+    const other = spawnPlayer(world, 2);
+    const mine = give(world, reader, "potion_of_poison");
+    const theirs = give(world, other, "potion_of_poison");
+
+    identifyItem(world, reader, mine);
+
+    expect(getItemName(world, reader, mine)).toBe("potion of poison");
+    expect(getItemName(world, other, theirs)).toBe(
+      appearanceOf(world, "potion_of_poison")!,
+    );
+    expect(world.has(theirs, Unidentified)).toBe(true);
+  });
+});
+
+describe("identifyItem", () => {
+  it("is what a scroll of identify does to an unknown carried item", () => {
+    const world = newWorld();
+    const player = spawnPlayer(world, 1);
+    const wand = give(world, player, "wand_of_slowness");
+    const scroll = give(world, player, "scroll_of_identify");
+    const events: GameEvent[] = [];
+    world.events.on("item.identified", (e) => events.push(e));
+
+    expect(useItem(world, player, scroll)).toBe(true);
+    world.events.flush();
+
+    expect(getItemName(world, player, wand)).toBe("wand of slowness");
+    expect(events).toContainEqual({
+      type: "item.identified",
+      entity: player,
+      item: wand,
+      itemName: "wand of slowness",
+    });
+    expect(identifyItem(world, player, wand)).toBe(false);
+  });
+});
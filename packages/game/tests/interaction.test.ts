@@ -0,0 +1,234 @@
+/**
+ * Door, trap and container tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  Contains,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  Door,
+  Energy,
+  FOV,
+  Health,
+  Inventory,
+  Item,
+  Key,
+  Position,
+  Trap,
+  VisibleCells,
+} from "../src/components";
+import { GAME_MAP_RESOURCE, type GameMap } from "../src/resources";
+import {
+  getCarriedItems,
+  getContainerContents,
+  getDoorAt,
+  hasStatus,
+  requestInteract,
+  requestInteractWith,
+  runUntilPlayerTurn,
+  setDoorLocked,
+  spawnContainer,
+  spawnTrap,
+  submitAction,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const CORRIDOR = [
+  "#########", //
+  "#...+...#",
+  "#########",
+];
+
+function setup(rows: readonly string[] = CORRIDOR): {
+  world: World;
+  player: Entity;
+  map: GameMap;
+} {
+  const world = createGameWorld({ dungeon: artifactFromAscii(rows) });
+  const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+  const player = world.spawn(
+    Position,
+    Energy,
+    Health,
+    Inventory,
+    FOV,
+    VisibleCells,
+    Player,
+  );
+  world.set(player, Position, { x: 3, y: 1 });
+  map.addEntity(3, 1, player, true);
+  return { world, player, map };
+}
+
+function item(world: World, name: string): Entity {
+  const entity = world.spawn(Item);
+  world.setString(entity, Item, "name", name);
+  return entity;
+}
+
+function act(world: World, player: Entity, request: () => boolean): void {
+  runUntilPlayerTurn(world);
+  expect(request()).toBe(true);
+  submitAction(world, player, { type: "interact" });
+  world.runTick();
+}
+
+function collect(world: World, ...types: GameEvent["type"][]): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of types) {
+    world.events.on(type, (e) => events.push(e));
+  }
+  return events;
+}
+
+describe("doors", () => {
+  it("spawns a door entity on every DOOR cell", () => {
+    const { world, map } = setup();
+    const door = getDoorAt(world, 4, 1);
+
+    expect(door).not.toBeNull();
+    expect(world.get(door!, Door)!.open).toBe(0);
+    expect(map.getBlocker(4, 1)).toBeNull();
+  });
+
+  it("opens and closes through interaction, updating sight", () => {
+    const { world, player, map } = setup();
+    const door = getDoorAt(world, 4, 1)!;
+    const events = collect(world, "interaction.door");
+
+    act(world, player, () => requestInteract(world, player, 6));
+    expect(map.isDoorOpen(4, 1)).toBe(true);
+    expect(world.get(door, Door)!.open).toBe(1);
+    expect(map.isVisible(6, 1)).toBe(true);
+
+    act(world, player, () => requestInteractWith(world, player, door));
+    expect(map.isOpaque(4, 1)).toBe(true);
+    expect(map.isVisible(6, 1)).toBe(false);
+    expect(events).toEqual([
+      { type: "interaction.door", entity: player, door, opened: true },
+      { type: "interaction.door", entity: player, door, opened: false },
+    ]);
+  });
+
+  it("stays shut when locked until its key is carried", () => {
+    const { world, player, map } = setup();
+    const door = getDoorAt(world, 4, 1)!;
+    setDoorLocked(world, door, true, "brass");
+    expect(map.isWalkable(4, 1)).toBe(false);
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "move", data: { dx: 1, dy: 0 } });
+    world.runTick();
+    expect(world.get(player, Position)).toEqual({ x: 3, y: 1 });
+    expect(map.isDoorOpen(4, 1)).toBe(false);
+
+    const key = item(world, "brass key");
+    world.add(key, Key);
+    world.setString(key, Key, "keyId", "brass");
+    world.relate(player, Contains, key);
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "move", data: { dx: 1, dy: 0 } });
+    world.runTick();
+    expect(world.get(player, Position)).toEqual({ x: 4, y: 1 });
+    expect(world.get(door, Door)).toMatchObject({ open: 1, locked: 0 });
+  });
+
+  it("cannot be closed while something stands in the doorway", () => {
+    const { world, player, map } = setup();
+    const door = getDoorAt(world, 4, 1)!;
+    act(world, player, () => requestInteractWith(world, player, door));
+
+    const box = item(world, "box");
+    world.add(box, Position, { x: 4, y: 1 });
+    map.addEntity(4, 1, box);
+    act(world, player, () => requestInteractWith(world, player, door));
+
+    expect(map.isDoorOpen(4, 1)).toBe(true);
+  });
+});
+
+describe("traps", () => {
+  it("fires on whoever steps on it and reveals itself", () => {
+    const { world, player } = setup();
+    const trap = spawnTrap(world, 2, 1, {
+      damage: 3,
+      status: "poison",
+      duration: 2,
+      detectChance: 0,
+    });
+    const events = collect(world, "interaction.trap");
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "move", data: { dx: -1, dy: 0 } });
+    world.runTick();
+
+    expect(events).toEqual([
+      { type: "interaction.trap", entity: player, trap, damage: 3 },
+    ]);
+    expect(world.get(player, Health)!.current).toBe(7);
+    expect(hasStatus(world, player, "poison")).toBe(true);
+    expect(world.get(trap, Trap)!.hidden).toBe(0);
+  });
+
+  it("is spotted by players standing next to it", () => {
+    const { world, player } = setup();
+    const sure = spawnTrap(world, 2, 1, { detectChance: 100 });
+    const far = spawnTrap(world, 6, 1, { detectChance: 100 });
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "wait" });
+    world.runTick();
+
+    expect(world.get(sure, Trap)!.hidden).toBe(0);
+    expect(world.get(far, Trap)!.hidden).toBe(1);
+  });
+
+  it("is found by searching one's own tile", () => {
+    const { world, player } = setup();
+    const trap = spawnTrap(world, 2, 1, { detectChance: 0 });
+
+    act(world, player, () => requestInteract(world, player, 0));
+
+    expect(world.get(trap, Trap)!.hidden).toBe(0);
+  });
+});
+
+describe("containers", () => {
+  it("moves their contents into the looter's inventory", () => {
+    const { world, player } = setup();
+    const gem = item(world, "gem");
+    const coin = item(world, "coin");
+    const chest = spawnContainer(world, 2, 1, [gem, coin]);
+    const events = collect(world, "interaction.container", "item.pickup");
+
+    act(world, player, () => requestInteract(world, player, 4));
+
+    expect(getCarriedItems(world, player)).toEqual([gem, coin]);
+    expect(getContainerContents(world, chest)).toEqual([]);
+    expect(events.map((e) => e.type).sort()).toEqual([
+      "interaction.container",
+      "item.pickup",
+      "item.pickup",
+    ]);
+  });
+
+  it("keeps what does not fit", () => {
+    const { world, player } = setup();
+    world.set(player, Inventory, { capacity: 1 });
+    const gem = item(world, "gem");
+    const coin = item(world, "coin");
+    const chest = spawnContainer(world, 2, 1, [gem, coin]);
+
+    act(world, player, () => requestInteractWith(world, player, chest));
+
+    expect(getCarriedItems(world, player)).toEqual([gem]);
+    expect(getContainerContents(world, chest)).toEqual([coin]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Inventory and equipment tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { toWireEntity } from "@rogue/contracts";
+import {
+  Contains,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  CombatStats,
+  Consumable,
+  Energy,
+  Equippable,
+  Inventory,
+  Item,
+  Position,
+  StatModifiers,
+} from "../src/components";
+import { GAME_MAP_RESOURCE, type GameMap } from "../src/resources";
+import {
+  addToInventory,
+  equipItem,
+  getCarriedItems,
+  getCombatStats,
+  getEquipmentState,
+  getInventoryItems,
+  requestDrop,
+  requestEquip,
+  requestPickup,
+  requestUnequip,
+  requestUseItem,
+  runUntilPlayerTurn,
+  submitAction,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const ROOM = ["#####", "#...#", "#...#", "#####"];
+
+function setup(capacity = 20): { world: World; player: Entity; map: GameMap } {
+  const world = createGameWorld({ dungeon: artifactFromAscii(ROOM) });
+  const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+  const player = world.spawn(Position, Energy, Inventory, CombatStats, Player);
+  world.set(player, Position, { x: 1, y: 1 });
+  world.set(player, Inventory, { capacity });
+  world.set(player, CombatStats, { attack: 2, armor: 0 });
+  map.addEntity(1, 1, player, true);
+  return { world, player, map };
+}
+
+interface ItemOptions {
+  name?: string;
+  kind?: string;
+  quantity?: number;
+  maxStack?: number;
+}
+
+function floorItem(
+  world: World,
+  x: number,
+  y: number,
+  options: ItemOptions = {},
+): Entity {
+  const item = world.spawn(Item, Position);
+  world.set(item, Position, { x, y });
+  world.set(item, Item, {
+    quantity: options.quantity ?? 1,
+    maxStack: options.maxStack ?? 1,
+  });
+  world.setString(item, Item, "name", options.name ?? "thing");
+  world.setString(item, Item, "kind", options.kind ?? "");
+  world.resources.require<GameMap>(GAME_MAP_RESOURCE).addEntity(x, y, item);
+  return item;
+}
+
+function carriedItem(
+  world: World,
+  owner: Entity,
+  options: ItemOptions = {},
+): Entity {
+  const item = world.spawn(Item);
+  world.set(item, Item, {
+    quantity: options.quantity ?? 1,
+    maxStack: options.maxStack ?? 1,
+  });
+  world.setString(item, Item, "name", options.name ?? "thing");
+  world.setString(item, Item, "kind", options.kind ?? "");
+  world.relate(owner, Contains, item);
+  return item;
+}
+
+function weapon(world: World, owner: Entity, attack: number): Entity {
+  const item = carriedItem(world, owner, { name: "sword" });
+  world.add(item, Equippable, { slot: 0 });
+  world.add(item, StatModifiers, { attack });
+  return item;
+}
+
+function collect(world: World, ...types: GameEvent["type"][]): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of types) {
+    world.events.on(type, (e) => events.push(e));
+  }
+  return events;
+}
+
+describe("pickup", () => {
+  it("moves the item from the floor into the inventory on the actor's turn", () => {
+    const { world, player, map } = setup();
+    const item = floorItem(world, 1, 1, { name: "gem" });
+    const events = collect(world, "item.pickup");
+
+    runUntilPlayerTurn(world);
+    expect(requestPickup(world, player)).toBe(true);
+    submitAction(world, player, { type: "interact", data: { target: item } });
+    world.runTick();
+
+    expect(getCarriedItems(world, player)).toEqual([item]);
+    expect(world.has(item, Position)).toBe(false);
+    expect(map.getEntitiesAt(1, 1)).toEqual([player]);
+    expect(events).toEqual([
+      { type: "item.pickup", entity: player, item, itemName: "gem" },
+    ]);
+  });
+
+  it("merges stacks of the same kind", () => {
+    const { world, player } = setup();
+    const stack = carriedItem(world, player, {
+      kind: "arrow",
+      quantity: 8,
+      maxStack: 10,
+    });
+    const more = world.spawn(Item);
+    world.set(more, Item, { quantity: 5, maxStack: 10 });
+    world.setString(more, Item, "kind", "arrow");
+
+    expect(addToInventory(world, player, more)).toBe(0);
+
+    const items = getInventoryItems(world, player);
+    expect(items.map((i) => i.qty)).toEqual([10, 3]);
+    expect(items[1]?.id).toBe(toWireEntity(more));
+    expect(world.get(stack, Item)?.quantity).toBe(10);
+  });
+
+  it("leaves items on the floor when the pack is full", () => {
+    const { world, player, map } = setup(1);
+    carriedItem(world, player);
+    const item = floorItem(world, 1, 1);
+    const messages = collect(world, "message");
+
+    runUntilPlayerTurn(world);
+    requestPickup(world, player, item);
+    submitAction(world, player, { type: "interact", data: { target: item } });
+    world.runTick();
+
+    expect(getCarriedItems(world, player).length).toBe(1);
+    expect(world.get(item, Position)).toEqual({ x: 1, y: 1 });
+    expect(map.getEntitiesAt(1, 1)).toContain(item);
+    expect(messages.length).toBe(1);
+  });
+});
+
+describe("equipment", () => {
+  it("adds stat modifiers of equipped items", () => {
+    const { world, player } = setup();
+    const sword = weapon(world, player, 3);
+
+    expect(getCombatStats(world, player).attack).toBe(2);
+    requestEquip(world, player, sword);
+    world.runTick();
+
+    expect(getCombatStats(world, player).attack).toBe(5);
+    expect(getEquipmentState(world, player)).toEqual({
+      weapon: toWireEntity(sword),
+    });
+  });
+
+  it("swaps the item in an occupied slot", () => {
+    const { world, player } = setup();
+    const dagger = weapon(world, player, 1);
+    const axe = weapon(world, player, 4);
+    const events = collect(world, "item.unequip");
+
+    equipItem(world, player, dagger);
+    equipItem(world, player, axe);
+    world.runTick();
+
+    expect(getCombatStats(world, player).attack).toBe(6);
+    expect(events).toEqual([
+      { type: "item.unequip", entity: player, slot: "weapon" },
+    ]);
+  });
+
+  it("validates slots", () => {
+    const { world, player } = setup();
+    const sword = weapon(world, player, 3);
+
+    expect(equipItem(world, player, sword, "helmet")).toBe(false);
+    expect(requestUnequip(world, player, "tail")).toBe(false);
+
+    equipItem(world, player, sword, "weapon");
+    expect(requestUnequip(world, player, "weapon")).toBe(true);
+    world.runTick();
+    expect(getCombatStats(world, player).attack).toBe(2);
+  });
+
+  it("unequips dropped items", () => {
+    const { world, player, map } = setup();
+    const sword = weapon(world, player, 3);
+    equipItem(world, player, sword);
+
+    expect(requestDrop(world, player, sword)).toBe(true);
+    world.runTick();
+
+    expect(getCombatStats(world, player).attack).toBe(2);
+    expect(getCarriedItems(world, player)).toEqual([]);
+    expect(world.get(sword, Position)).toEqual({ x: 1, y: 1 });
+    expect(map.getEntitiesAt(1, 1)).toContain(sword);
+  });
+});
+
+describe("use", () => {
+  it("spends stacks first, then charges", () => {
+    const { world, player } = setup();
+    const potions = carriedItem(world, player, {
+      kind: "potion",
+      quantity: 2,
+      maxStack: 5,
+    });
+    world.add(potions, Consumable);
+    const wand = carriedItem(world, player);
+    world.add(wand, Consumable, { charges: 2 });
+
+    const useOnTurn = (item: Entity) => {
+      runUntilPlayerTurn(world);
+      expect(requestUseItem(world, player, item)).toBe(true);
+      submitAction(world, player, { type: "use_item", data: { item } });
+      world.runTick();
+    };
+
+    useOnTurn(potions);
+    expect(world.get(potions, Item)?.quantity).toBe(1);
+    useOnTurn(potions);
+    expect(world.isAlive(potions)).toBe(false);
+
+    useOnTurn(wand);
+    expect(world.get(wand, Consumable)?.charges).toBe(1);
+    useOnTurn(wand);
+    expect(getCarriedItems(world, player)).toEqual([]);
+  });
+});
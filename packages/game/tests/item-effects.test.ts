@@ -0,0 +1,234 @@
+/**
+ * Item effect tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  ChildOf,
+  Contains,
+  Enemy,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  Consumable,
+  Energy,
+  Health,
+  Inventory,
+  Item,
+  ItemEffect,
+  Position,
+  Status,
+  Unidentified,
+} from "../src/components";
+import {
+  GAME_MAP_RESOURCE,
+  type GameMap,
+  ITEM_EFFECTS_RESOURCE,
+  type ItemEffectRegistry,
+} from "../src/resources";
+import {
+  getCarriedItems,
+  hasStatus,
+  requestUseItem,
+  runUntilPlayerTurn,
+  submitAction,
+  useItem,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = [
+  "##########",
+  "#........#",
+  "#........#",
+  "#....#...#",
+  "##########",
+];
+
+function setup(): { world: World; player: Entity; map: GameMap } {
+  const world = createGameWorld({ dungeon: artifactFromAscii(LAYOUT) });
+  const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+  const player = world.spawn(Position, Energy, Health, Inventory, Player);
+  world.set(player, Position, { x: 1, y: 1 });
+  map.addEntity(1, 1, player, true);
+  return { world, player, map };
+}
+
+function spawnMonster(world: World, x: number, y: number): Entity {
+  const monster = world.spawn(Position, Health, Enemy);
+  world.set(monster, Position, { x, y });
+  world.set(monster, Health, { current: 20, max: 20 });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, monster, true);
+  return monster;
+}
+
+function giveItem(world: World, owner: Entity, effect: string): Entity {
+  const item = world.spawn(Item, Consumable, ItemEffect);
+  world.setString(item, Item, "name", effect);
+  world.setString(item, ItemEffect, "effect", effect);
+  world.relate(owner, Contains, item);
+  return item;
+}
+
+function collect(world: World, ...types: GameEvent["type"][]): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of types) {
+    world.events.on(type, (e) => events.push(e));
+  }
+  return events;
+}
+
+describe("ItemEffectRegistry", () => {
+  it("rejects duplicate ids", () => {
+    const { world } = setup();
+    const effects = world.resources.require<ItemEffectRegistry>(
+      ITEM_EFFECTS_RESOURCE,
+    );
+
+    expect(effects.has("healing")).toBe(true);
+    expect(() =>
+      effects.define({ id: "healing", kind: "heal", targeting: "self" }),
+    ).toThrow();
+  });
+});
+
+describe("self effects", () => {
+  it("heals the user and consumes the potion on the user's turn", () => {
+    const { world, player } = setup();
+    world.set(player, Health, { current: 3 });
+    const potion = giveItem(world, player, "healing");
+    const events = collect(world, "combat.heal", "item.use");
+
+    runUntilPlayerTurn(world);
+    requestUseItem(world, player, potion);
+    submitAction(world, player, { type: "use_item", data: { item: potion } });
+    world.runTick();
+
+    expect(world.get(player, Health)?.current).toBe(10);
+    expect(world.isAlive(potion)).toBe(false);
+    expect(events.map((e) => e.type).sort()).toEqual([
+      "combat.heal",
+      "item.use",
+    ]);
+  });
+
+  it("teleports to a random free tile, deterministically", () => {
+    const destination = () => {
+      const { world, player, map } = setup();
+      useItem(world, player, giveItem(world, player, "teleportation"));
+      const pos = world.get(player, Position)!;
+      expect(map.isWalkable(pos.x, pos.y)).toBe(true);
+      expect(map.getEntitiesAt(pos.x, pos.y)).toContain(player);
+      return pos;
+    };
+
+    expect(destination()).toEqual(destination());
+  });
+
+  it("reveals the level with magic mapping", () => {
+    const { world, player, map } = setup();
+    useItem(world, player, giveItem(world, player, "magic_mapping"));
+
+    expect(map.exploredCount()).toBe(map.width * map.height);
+  });
+
+  it("identifies an unidentified item through the command buffer", () => {
+    const { world, player } = setup();
+    const mystery = giveItem(world, player, "poison");
+    world.add(mystery, Unidentified);
+    const scroll = giveItem(world, player, "identify");
+
+    expect(useItem(world, player, scroll)).toBe(true);
+    expect(world.has(mystery, Unidentified)).toBe(false);
+    expect(world.isAlive(scroll)).toBe(false);
+  });
+});
+
+describe("targeted effects", () => {
+  it("damages every creature in the area", () => {
+    const { world, player } = setup();
+    const inside = spawnMonster(world, 5, 2);
+    const edge = spawnMonster(world, 6, 1);
+    const outside = spawnMonster(world, 8, 2);
+
+    useItem(world, player, giveItem(world, player, "fireball"), { x: 5, y: 1 });
+
+    expect(world.get(inside, Health)?.current).toBe(12);
+    expect(world.get(edge, Health)?.current).toBe(12);
+    expect(world.get(outside, Health)?.current).toBe(20);
+  });
+
+  it("refuses out-of-range aims without consuming the item", () => {
+    const { world, player } = setup();
+    const scroll = giveItem(world, player, "lightning");
+
+    expect(useItem(world, player, scroll, { x: 1, y: 1 })).toBe(false);
+    expect(getCarriedItems(world, player)).toEqual([scroll]);
+  });
+
+  it("hits only the first creature along a line", () => {
+    const { world, player } = setup();
+    const first = spawnMonster(world, 3, 1);
+    const second = spawnMonster(world, 5, 1);
+
+    useItem(world, player, giveItem(world, player, "lightning"), {
+      x: 8,
+      y: 1,
+    });
+
+    expect(world.get(first, Health)?.current).toBe(8);
+    expect(world.get(second, Health)?.current).toBe(20);
+  });
+
+  it("is stopped by walls", () => {
+    const { world, player } = setup();
+    world.set(player, Position, { x: 3, y: 3 });
+    const behind = spawnMonster(world, 7, 3);
+
+    useItem(world, player, giveItem(world, player, "lightning"), {
+      x: 8,
+      y: 3,
+    });
+
+    expect(world.get(behind, Health)?.current).toBe(20);
+  });
+
+  it("requires a creature on the tile for adjacent effects", () => {
+    const { world, player } = setup();
+    const item = giveItem(world, player, "paralysis");
+
+    expect(useItem(world, player, item, { x: 2, y: 1 })).toBe(false);
+
+    const monster = spawnMonster(world, 2, 1);
+    expect(useItem(world, player, item, { x: 2, y: 1 })).toBe(true);
+    expect(hasStatus(world, monster, "paralysis")).toBe(true);
+  });
+});
+
+describe("statuses", () => {
+  it("attaches statuses as children and expires them", () => {
+    const { world, player } = setup();
+    const events = collect(world, "status.applied", "status.removed");
+
+    useItem(world, player, giveItem(world, player, "poison"));
+    const [status] = world.getSources(player, ChildOf);
+    expect(world.getString(status!, Status, "name")).toBe("poison");
+
+    for (let i = 0; i < 5; i++) {
+      runUntilPlayerTurn(world);
+      submitAction(world, player, { type: "wait" });
+    }
+    world.runTick();
+
+    expect(hasStatus(world, player, "poison")).toBe(false);
+    expect(events).toEqual([
+      { type: "status.applied", entity: player, status: "poison", duration: 5 },
+      { type: "status.removed", entity: player, status: "poison" },
+    ]);
+  });
+});
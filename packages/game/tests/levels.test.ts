@@ -0,0 +1,187 @@
+/**
+ * Level manager and stairs travel tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  Enemy,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  Energy,
+  Health,
+  Item,
+  Position,
+  Stairs,
+  Status,
+} from "../src/components";
+import {
+  deriveLevelSeed,
+  GAME_MAP_RESOURCE,
+  type GameMap,
+  LEVELS_RESOURCE,
+  LevelManager,
+} from "../src/resources";
+import {
+  applyStatus,
+  enterLevel,
+  findStatus,
+  requestInteract,
+  runUntilPlayerTurn,
+  submitAction,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+
+const SIZE = { width: 60, height: 30 };
+// Unpopulated levels, so tests control every entity
+const EMPTY = {
+  enemyDensity: 0,
+  itemDensity: 0,
+  enableTraps: false,
+  enableTreasureRooms: false,
+  enableShops: false,
+};
+
+function setup(): { world: World; player: Entity } {
+  const world = createGameWorld({
+    seed: 42,
+    levels: { ...SIZE, content: EMPTY },
+  });
+  const player = world.spawn(Position, Energy, Health, Player);
+  enterLevel(world, 1);
+  return { world, player };
+}
+
+function gameMap(world: World): GameMap {
+  return world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+}
+
+function depth(world: World): number {
+  return world.resources.require<LevelManager>(LEVELS_RESOURCE).depth;
+}
+
+function stairs(world: World, down: boolean): { x: number; y: number } {
+  for (const entity of world.query(Stairs, Position).collect()) {
+    if (world.get(entity, Stairs)!.down === (down ? 1 : 0)) {
+      return world.get(entity, Position)!;
+    }
+  }
+  throw new Error("no stairs");
+}
+
+function moveTo(world: World, entity: Entity, x: number, y: number): void {
+  const pos = world.get(entity, Position)!;
+  gameMap(world).moveEntity(pos.x, pos.y, x, y, entity);
+  world.set(entity, Position, { x, y });
+}
+
+function takeStairs(world: World, player: Entity, down: boolean): void {
+  const { x, y } = stairs(world, down);
+  moveTo(world, player, x, y);
+  runUntilPlayerTurn(world);
+  expect(requestInteract(world, player, 0)).toBe(true);
+  submitAction(world, player, { type: "interact" });
+  world.runTick();
+}
+
+describe("LevelManager", () => {
+  it("derives a distinct, stable seed per depth", () => {
+    const levels = new LevelManager(42, SIZE);
+
+    expect(deriveLevelSeed(42, 1)).toBe(deriveLevelSeed(42, 1));
+    expect(deriveLevelSeed(42, 1)).not.toBe(deriveLevelSeed(42, 2));
+    expect(deriveLevelSeed(42, 1)).not.toBe(deriveLevelSeed(43, 1));
+    expect(levels.getSeed(2).primary).toBe(deriveLevelSeed(42, 2));
+  });
+
+  it("generates levels lazily and reproducibly", () => {
+    const levels = new LevelManager(42, SIZE);
+    expect(levels.hasLevel(3)).toBe(false);
+
+    const level = levels.getLevel(3);
+
+    expect(levels.hasLevel(3)).toBe(true);
+    expect(levels.getLevel(3)).toBe(level);
+    expect(new LevelManager(42, SIZE).getLevel(3).artifact.checksum).toBe(
+      level.artifact.checksum,
+    );
+    expect(() => levels.getLevel(0)).toThrow();
+  });
+});
+
+describe("travel", () => {
+  it("places players on the up stairs of a new level", () => {
+    const { world, player } = setup();
+
+    expect(depth(world)).toBe(1);
+    expect(world.get(player, Position)).toEqual(stairs(world, false));
+    expect(gameMap(world).getBlocker(...xy(world, player))).toBe(player);
+  });
+
+  it("descends and climbs back onto the matching stairs", () => {
+    const { world, player } = setup();
+    const events: GameEvent[] = [];
+    world.events.on("level.entered", (e) => events.push(e));
+
+    takeStairs(world, player, true);
+    expect(depth(world)).toBe(2);
+    expect(world.get(player, Position)).toEqual(stairs(world, false));
+
+    takeStairs(world, player, false);
+    expect(depth(world)).toBe(1);
+    expect(world.get(player, Position)).toEqual(stairs(world, true));
+    expect(events).toEqual([
+      { type: "level.entered", level: 1, direction: "down" },
+      { type: "level.entered", level: 2, direction: "down" },
+      { type: "level.entered", level: 1, direction: "up" },
+    ]);
+  });
+
+  it("refuses to leave the dungeon from the first level", () => {
+    const { world, player } = setup();
+
+    takeStairs(world, player, false);
+
+    expect(depth(world)).toBe(1);
+  });
+
+  it("restores the entities of a level the players come back to", () => {
+    const { world, player } = setup();
+    const [x, y] = xy(world, player);
+    const monster = world.spawn(Position, Health, Enemy);
+    world.set(monster, Position, { x: x + 1, y });
+    world.set(monster, Health, { current: 3, max: 10 });
+    gameMap(world).addEntity(x + 1, y, monster, true);
+    applyStatus(world, monster, "slow", 4, player);
+    const gem = world.spawn(Position, Item);
+    world.set(gem, Position, { x, y });
+    world.setString(gem, Item, "name", "gem");
+    gameMap(world).addEntity(x, y, gem);
+
+    takeStairs(world, player, true);
+    expect(world.isAlive(monster)).toBe(false);
+    expect(world.query(Enemy).count()).toBe(0);
+
+    takeStairs(world, player, false);
+    const restored = world.query(Enemy, Health).first()!;
+    expect(world.get(restored, Health)).toEqual({ current: 3, max: 10 });
+    expect(world.get(restored, Position)).toEqual({ x: x + 1, y });
+    expect(gameMap(world).getBlocker(x + 1, y)).toBe(restored);
+
+    const status = findStatus(world, restored, "slow")!;
+    expect(world.get(status, Status)!.duration).toBe(4);
+    expect(world.getEntityRef(status, Status, "source")).toBe(player);
+
+    const item = world.query(Item).first()!;
+    expect(world.getString(item, Item, "name")).toBe("gem");
+    expect(gameMap(world).getEntitiesAt(x, y)).toContain(item);
+  });
+});
+
+function xy(world: World, entity: Entity): [number, number] {
+  const { x, y } = world.get(entity, Position)!;
+  return [x, y];
+}
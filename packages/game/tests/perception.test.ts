@@ -0,0 +1,183 @@
+/**
+ * Noise and perception tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Enemy, type Entity, Player, type World } from "@rogue/ecs";
+import {
+  AI,
+  AIBehavior,
+  Awareness,
+  AwarenessState,
+  Energy,
+  Health,
+  Position,
+  Stealth,
+} from "../src/components";
+import { GAME_MAP_RESOURCE, type GameMap } from "../src/resources";
+import {
+  decideAction,
+  makeNoise,
+  NOISE_VOLUME,
+  propagateNoise,
+  updateAwareness,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+// Two rooms joined along the bottom row
+const LAYOUT = [
+  "###########",
+  "#....#....#",
+  "#....#....#",
+  "#....#....#",
+  "#.........#",
+  "###########",
+];
+
+const newWorld = () =>
+  createGameWorld({ dungeon: artifactFromAscii(LAYOUT), seed: 3 });
+
+function spawn(
+  world: World,
+  x: number,
+  y: number,
+  marker: typeof Player | typeof Enemy,
+): Entity {
+  const entity = world.spawn(Position, Energy, Health, marker);
+  world.set(entity, Position, { x, y });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, entity, true);
+  return entity;
+}
+
+function monster(
+  world: World,
+  x: number,
+  y: number,
+  state: AwarenessState = AwarenessState.Wandering,
+): Entity {
+  const entity = spawn(world, x, y, Enemy);
+  world.add(entity, AI, { behavior: AIBehavior.Chase });
+  world.add(entity, Awareness, { state, sight: 6 });
+  return entity;
+}
+
+const stateOf = (world: World, entity: Entity) =>
+  world.get(entity, Awareness)!.state;
+
+describe("propagateNoise", () => {
+  it("fades with walking distance and goes around walls", () => {
+    const world = newWorld();
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+    const at = (x: number, y: number) => y * map.width + x;
+
+    const heard = propagateNoise(map, 3, 1, 8);
+
+    expect(heard.get(at(3, 1))).toBe(8);
+    expect(heard.get(at(4, 1))).toBe(7);
+    // (6, 1) is 3 tiles away in a straight line but 6 steps around the wall
+    expect(heard.get(at(6, 1))).toBe(2);
+    expect(heard.has(at(5, 1))).toBe(false);
+    expect(propagateNoise(map, 3, 1, 5).has(at(6, 1))).toBe(false);
+  });
+});
+
+describe("makeNoise", () => {
+  it("sends awake hostiles to investigate the noise", () => {
+    const world = newWorld();
+    const player = spawn(world, 2, 2, Player);
+    const near = monster(world, 4, 3);
+    const far = monster(world, 9, 1);
+
+    const reacted = makeNoise(world, player, NOISE_VOLUME.move);
+
+    expect(reacted).toEqual([near]);
+    expect(stateOf(world, near)).toBe(AwarenessState.Investigating);
+    expect(world.get(near, Awareness)).toMatchObject({
+      targetX: 2,
+      targetY: 2,
+    });
+    expect(stateOf(world, far)).toBe(AwarenessState.Wandering);
+  });
+
+  it("only wakes sleepers with loud noises", () => {
+    const world = newWorld();
+    const player = spawn(world, 2, 2, Player);
+    const sleeper = monster(world, 4, 2, AwarenessState.Sleeping);
+
+    makeNoise(world, player, NOISE_VOLUME.move);
+    expect(stateOf(world, sleeper)).toBe(AwarenessState.Sleeping);
+
+    makeNoise(world, player, NOISE_VOLUME.combat);
+    expect(stateOf(world, sleeper)).toBe(AwarenessState.Investigating);
+  });
+
+  it("is muffled by stealth and ignored by friends", () => {
+    const world = newWorld();
+    const player = spawn(world, 2, 2, Player);
+    world.add(player, Stealth, { value: 3 });
+    const listener = monster(world, 4, 2);
+    const friend = monster(world, 1, 1);
+
+    expect(makeNoise(world, player, NOISE_VOLUME.move)).toEqual([]);
+    expect(makeNoise(world, friend, NOISE_VOLUME.combat)).toEqual([]);
+    expect(stateOf(world, listener)).toBe(AwarenessState.Wandering);
+  });
+});
+
+describe("updateAwareness", () => {
+  it("hunts what it sees and investigates where it was lost", () => {
+    const world = newWorld();
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+    const player = spawn(world, 2, 2, Player);
+    const watcher = monster(world, 4, 4);
+
+    updateAwareness(world, watcher);
+    expect(stateOf(world, watcher)).toBe(AwarenessState.Hunting);
+
+    // Step behind the wall, out of sight
+    map.moveEntity(2, 2, 7, 1, player);
+    world.set(player, Position, { x: 7, y: 1 });
+    map.moveEntity(4, 4, 1, 4, watcher);
+    world.set(watcher, Position, { x: 1, y: 4 });
+    updateAwareness(world, watcher);
+
+    expect(world.get(watcher, Awareness)).toMatchObject({
+      state: AwarenessState.Investigating,
+      targetX: 2,
+      targetY: 2,
+    });
+  });
+
+  it("gives up investigating on arrival", () => {
+    const world = newWorld();
+    const watcher = monster(world, 3, 3);
+    world.set(watcher, Awareness, {
+      state: AwarenessState.Investigating,
+      targetX: 3,
+      targetY: 3,
+    });
+
+    updateAwareness(world, watcher);
+
+    expect(stateOf(world, watcher)).toBe(AwarenessState.Wandering);
+  });
+});
+
+describe("decideAction with awareness", () => {
+  it("sleeps, or walks toward what it investigates", () => {
+    const world = newWorld();
+    spawn(world, 1, 1, Player);
+    const sleeper = monster(world, 4, 4, AwarenessState.Sleeping);
+    const seeker = monster(world, 8, 4, AwarenessState.Investigating);
+    world.set(seeker, Awareness, { targetX: 8, targetY: 1 });
+
+    expect(decideAction(world, sleeper)).toEqual({ type: "wait" });
+    expect(decideAction(world, seeker)).toEqual({
+      type: "move",
+      data: { dx: 0, dy: -1 },
+    });
+  });
+});
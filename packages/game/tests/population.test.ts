@@ -0,0 +1,147 @@
+/**
+ * Content population tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Contains, Enemy, type Entity, type World } from "@rogue/ecs";
+import {
+  ForSale,
+  GoalItem,
+  Position,
+  Shopkeeper,
+  Template,
+  Trap,
+} from "../src/components";
+import {
+  type ContentOptions,
+  LEVELS_RESOURCE,
+  type LevelManager,
+} from "../src/resources";
+import { contentDepth, enterLevel } from "../src/systems";
+import { createGameWorld } from "../src/world";
+
+const SIZE = { width: 60, height: 30 };
+
+function level(depth: number, content: ContentOptions = {}): World {
+  const world = createGameWorld({ seed: 42, levels: { ...SIZE, content } });
+  enterLevel(world, depth);
+  return world;
+}
+
+function placed(world: World): string[] {
+  return world
+    .query(Template, Position)
+    .collect()
+    .map((e) => {
+      const { x, y } = world.get(e, Position)!;
+      return `${world.getString(e, Template, "id")}@${x},${y}`;
+    });
+}
+
+describe("populateLevel", () => {
+  it("populates a level the same way every time", () => {
+    const first = placed(level(2));
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(placed(level(2))).toEqual(first);
+  });
+
+  it("keeps monsters out of the entrance room", () => {
+    const world = level(3);
+    const { artifact } = world.resources
+      .require<LevelManager>(LEVELS_RESOURCE)
+      .getLevel(3);
+    const entrance = artifact.spawns.find((s) => s.type === "entrance")!;
+    const room = artifact.rooms.find((r) => r.id === entrance.roomId)!;
+
+    expect(world.query(Enemy).count()).toBeGreaterThan(0);
+    for (const monster of world.query(Enemy, Position).collect()) {
+      const { x, y } = world.get(monster, Position)!;
+      const inside =
+        x >= room.x &&
+        x < room.x + room.width &&
+        y >= room.y &&
+        y < room.y + room.height;
+      expect(inside).toBe(false);
+    }
+  });
+
+  it("only picks monsters allowed at the level's depth", () => {
+    const shallow = level(1);
+    const ids = shallow
+      .query(Enemy, Template)
+      .collect()
+      .map((e) => shallow.getString(e, Template, "id"));
+
+    expect(ids.length).toBeGreaterThan(0);
+    expect(ids).not.toContain("troll");
+    expect(ids).not.toContain("wraith");
+  });
+
+  it("respects densities and disabled features", () => {
+    const world = level(4, {
+      enemyDensity: 0,
+      itemDensity: 0,
+      enableTraps: false,
+      enableTreasureRooms: false,
+      enableShops: false,
+    });
+
+    expect(placed(world)).toEqual([]);
+    expect(world.query(Trap).count()).toBe(0);
+  });
+
+  it("fills treasure chests", () => {
+    const world = level(5, { enemyDensity: 0, itemDensity: 0 });
+    const chests = world
+      .query(Template)
+      .collect()
+      .filter((e) => world.getString(e, Template, "id") === "chest");
+
+    expect(chests.length).toBeGreaterThan(0);
+    for (const chest of chests) {
+      expect(world.getTargets(chest, Contains).length).toBeGreaterThan(0);
+    }
+  });
+
+  it("stocks shops with priced items and nothing else", () => {
+    const world = level(1);
+    const [keeper] = world.query(Shopkeeper).collect();
+    expect(keeper).toBeDefined();
+
+    const shop = world.get(keeper!, Shopkeeper)!;
+    const inShop = (e: Entity) => {
+      const { x, y } = world.get(e, Position)!;
+      return (
+        x >= shop.x &&
+        x < shop.x + shop.width &&
+        y >= shop.y &&
+        y < shop.y + shop.height
+      );
+    };
+
+    const stock = world.query(ForSale, Position).collect();
+    expect(stock.length).toBeGreaterThan(0);
+    for (const item of stock) {
+      expect(inShop(item)).toBe(true);
+      expect(world.get(item, ForSale)!.price).toBeGreaterThan(0);
+      expect(world.getEntityRef(item, ForSale, "shopkeeper")).toBe(keeper!);
+    }
+    const others = world
+      .query(Position, Template)
+      .collect()
+      .filter((e) => e !== keeper && !world.has(e, ForSale));
+    expect(others.filter(inShop)).toEqual([]);
+  });
+
+  it("places the goal item on the goal depth only", () => {
+    expect(level(2, { goalDepth: 2 }).query(GoalItem).count()).toBe(1);
+    expect(level(2, { goalDepth: 3 }).query(GoalItem).count()).toBe(0);
+  });
+
+  it("shifts content depth with difficulty", () => {
+    expect(contentDepth(3)).toBe(3);
+    expect(contentDepth(3, 10)).toBe(6);
+    expect(contentDepth(3, 1)).toBe(1);
+  });
+});
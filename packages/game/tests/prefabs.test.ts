@@ -0,0 +1,127 @@
+/**
+ * Entity template tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { SeededRandom } from "@rogue/contracts";
+import { Enemy, Player, type World } from "@rogue/ecs";
+import {
+  AI,
+  AIBehavior,
+  CombatStats,
+  Consumable,
+  Health,
+  Item,
+  ItemEffect,
+  Position,
+  Template,
+  Unidentified,
+} from "../src/components";
+import {
+  DEFAULT_TEMPLATES,
+  EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+  template,
+} from "../src/prefabs";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+function setup(): { world: World; templates: EntityTemplateRegistry } {
+  const world = createGameWorld({
+    dungeon: artifactFromAscii(["#####", "#...#", "#####"]),
+  });
+  const templates =
+    world.resources.require<EntityTemplateRegistry>(TEMPLATES_RESOURCE);
+  return { world, templates };
+}
+
+describe("EntityTemplateRegistry", () => {
+  it("instantiates inherited components with overrides by name", () => {
+    const { world, templates } = setup();
+
+    const archer = templates.instantiate(world, "goblin_archer", {
+      Position: { x: 3, y: 1 },
+    });
+
+    expect(world.has(archer, Enemy)).toBe(true);
+    expect(world.get(archer, Position)).toEqual({ x: 3, y: 1 });
+    expect(world.get(archer, Health)).toEqual({ current: 7, max: 7 });
+    expect(world.get(archer, CombatStats)!.attack).toBe(3);
+    expect(world.get(archer, AI)!.behavior).toBe(AIBehavior.KeepDistance);
+    expect(world.getString(archer, Template, "id")).toBe("goblin_archer");
+  });
+
+  it("applies string defaults from every level of the template", () => {
+    const { world, templates } = setup();
+
+    const potion = templates.instantiate(world, "potion_of_healing");
+
+    expect(world.getString(potion, Item, "name")).toBe("potion of healing");
+    expect(world.getString(potion, Item, "glyph")).toBe("!");
+    expect(world.getString(potion, Item, "kind")).toBe("potion_of_healing");
+    expect(world.getString(potion, ItemEffect, "effect")).toBe("healing");
+    expect(world.has(potion, Consumable)).toBe(true);
+    expect(world.has(potion, Unidentified)).toBe(true);
+    expect(world.has(potion, Position)).toBe(false);
+  });
+
+  it("spawns player classes on the shared player template", () => {
+    const { world, templates } = setup();
+
+    const warrior = templates.instantiate(world, "warrior");
+
+    expect(world.has(warrior, Player)).toBe(true);
+    expect(world.get(warrior, Health)!.max).toBe(40);
+    expect(templates.tagsOf("warrior").has("class")).toBe(true);
+  });
+
+  it("rejects overrides for components the template lacks", () => {
+    const { world, templates } = setup();
+
+    expect(() =>
+      templates.instantiate(world, "chest", { Health: { current: 1 } }),
+    ).toThrow('Template "chest" has no Health component');
+    expect(() => templates.instantiate(world, "dragon")).toThrow();
+  });
+
+  it("filters candidates by tags and depth", () => {
+    const templates = new EntityTemplateRegistry(DEFAULT_TEMPLATES);
+
+    const shallow = templates
+      .candidates({ depth: 1, tags: { monster: 1 } })
+      .map((c) => c.name);
+    expect(shallow).toContain("rat");
+    expect(shallow).not.toContain("troll");
+    // Abstract bases have no weight
+    expect(shallow).not.toContain("monster");
+
+    const undead = templates
+      .candidates({ depth: 20, tags: { undead: 1 } })
+      .map((c) => c.name);
+    expect(undead.sort()).toEqual(["wraith"]);
+
+    expect(templates.candidates({ depth: 1, tags: { dragon: 1 } })).toEqual([]);
+  });
+
+  it("picks by weight times matching tag weights", () => {
+    const templates = new EntityTemplateRegistry([
+      template("a").tags("common").weight(1).build(),
+      template("b").tags("rare").weight(1).build(),
+      template("c").tags("common", "rare").weight(0).build(),
+    ]);
+    const query = { depth: 1, tags: { common: 3, rare: 1 } };
+
+    expect(templates.candidates(query)).toEqual([
+      { name: "a", weight: 3 },
+      { name: "b", weight: 1 },
+    ]);
+
+    const rng = new SeededRandom(7);
+    const counts: Record<string, number> = { a: 0, b: 0 };
+    for (let i = 0; i < 400; i++) {
+      counts[templates.pick(rng, query)!]!++;
+    }
+    expect(counts.a).toBeGreaterThan(counts.b! * 2);
+    expect(templates.pick(rng, { depth: 1, tags: { none: 1 } })).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Experience and perk tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  Enemy,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  CombatStats,
+  Energy,
+  Experience,
+  ExperienceReward,
+  Health,
+  PerkPoints,
+  Position,
+  Toughness,
+} from "../src/components";
+import { PROGRESSION_RESOURCE, ProgressionRules } from "../src/resources";
+import {
+  applyDamage,
+  choosePerk,
+  getAvailablePerks,
+  getExperience,
+  grantExperience,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const ROOM = ["#######", "#.....#", "#.....#", "#######"];
+
+function setup(): { world: World; player: Entity } {
+  const world = createGameWorld({ dungeon: artifactFromAscii(ROOM) });
+  const player = world.spawn(
+    Position,
+    Energy,
+    Health,
+    CombatStats,
+    Experience,
+    Player,
+  );
+  world.set(player, Position, { x: 1, y: 1 });
+  return { world, player };
+}
+
+function spawnEnemy(world: World, reward: number): Entity {
+  const enemy = world.spawn(Position, Health, ExperienceReward, Enemy);
+  world.set(enemy, Position, { x: 2, y: 1 });
+  world.set(enemy, Health, { current: 5, max: 5 });
+  world.set(enemy, ExperienceReward, { amount: reward });
+  return enemy;
+}
+
+function messages(world: World): string[] {
+  const texts: string[] = [];
+  world.events.on("message", (e: GameEvent) => {
+    if (e.type === "message") texts.push(e.text);
+  });
+  return texts;
+}
+
+describe("Experience", () => {
+  it("awards the victim's reward to its killer", () => {
+    const { world, player } = setup();
+    const enemy = spawnEnemy(world, 30);
+
+    applyDamage(world, enemy, 10, player);
+
+    expect(getExperience(world, player)).toEqual({
+      lv: 1,
+      cur: 30,
+      next: 100,
+    });
+  });
+
+  it("credits the last attacker for damage without a source", () => {
+    const { world, player } = setup();
+    const enemy = spawnEnemy(world, 30);
+
+    applyDamage(world, enemy, 2, player);
+    applyDamage(world, enemy, 10);
+
+    expect(world.get(player, Experience)!.current).toBe(30);
+  });
+
+  it("levels up several times and applies stat growth", () => {
+    const { world, player } = setup();
+    const text = messages(world);
+    const health = world.get(player, Health)!;
+    const attack = world.get(player, CombatStats)!.attack;
+
+    // 100 for level 2, 150 for level 3
+    expect(grantExperience(world, player, 260)).toBe(2);
+    world.events.flush();
+
+    expect(getExperience(world, player)).toEqual({
+      lv: 3,
+      cur: 10,
+      next: 225,
+    });
+    expect(world.get(player, Health)!.max).toBe(health.max + 8);
+    expect(world.get(player, CombatStats)!.attack).toBe(attack + 2);
+    expect(world.get(player, PerkPoints)!.available).toBe(1);
+    expect(text).toEqual(["Welcome to level 3!", "You may choose a new perk."]);
+  });
+
+  it("uses the configured curve and stops at the maximum level", () => {
+    const { world, player } = setup();
+    world.resources.set(
+      PROGRESSION_RESOURCE,
+      new ProgressionRules({ curve: (level) => level * 10, maxLevel: 3 }),
+    );
+
+    expect(grantExperience(world, player, 1000)).toBe(2);
+    expect(getExperience(world, player)).toEqual({ lv: 3, cur: 0, next: 0 });
+    expect(grantExperience(world, player, 1000)).toBe(0);
+  });
+});
+
+describe("Perks", () => {
+  it("spends a point to raise a perk's rank", () => {
+    const { world, player } = setup();
+    world.add(player, PerkPoints);
+    world.set(player, PerkPoints, { available: 2 });
+    const max = world.get(player, Health)!.max;
+
+    expect(choosePerk(world, player, "toughness")).toBe(true);
+    expect(choosePerk(world, player, "toughness")).toBe(true);
+
+    expect(world.get(player, Toughness)!.rank).toBe(2);
+    expect(world.get(player, Health)!.max).toBe(max + 10);
+    expect(world.get(player, PerkPoints)!.available).toBe(0);
+  });
+
+  it("refuses without points, for unknown perks and at max rank", () => {
+    const { world, player } = setup();
+    expect(choosePerk(world, player, "swiftness")).toBe(false);
+
+    world.add(player, PerkPoints);
+    world.set(player, PerkPoints, { available: 3 });
+    expect(choosePerk(world, player, "flight")).toBe(false);
+    expect(choosePerk(world, player, "swiftness")).toBe(true);
+    expect(choosePerk(world, player, "swiftness")).toBe(false);
+
+    expect(world.get(player, PerkPoints)!.available).toBe(2);
+    expect(
+      getAvailablePerks(world, player).map((perk) => perk.id),
+    ).not.toContain("swiftness");
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Ranged combat tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  Enemy,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  CombatStats,
+  Energy,
+  Health,
+  Inventory,
+  Item,
+  Position,
+} from "../src/components";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../src/prefabs";
+import { GAME_MAP_RESOURCE, type GameMap } from "../src/resources";
+import {
+  addToInventory,
+  equipItem,
+  fire,
+  getCarriedItems,
+  requestFire,
+  runUntilPlayerTurn,
+  submitAction,
+  throwItem,
+  traceLineOfFire,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = ["##########", "#........#", "#....#...#", "##########"];
+
+const newWorld = () =>
+  createGameWorld({ dungeon: artifactFromAscii(LAYOUT), seed: 7 });
+
+function spawnFighter(
+  world: World,
+  x: number,
+  y: number,
+  marker: typeof Player | typeof Enemy,
+  hp = 10,
+): Entity {
+  const entity = world.spawn(
+    Position,
+    Energy,
+    Health,
+    CombatStats,
+    Inventory,
+    marker,
+  );
+  world.set(entity, Position, { x, y });
+  world.set(entity, Health, { current: hp, max: hp });
+  world.set(entity, CombatStats, { attack: 2, accuracy: 100, critChance: 0 });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, entity, true);
+  return entity;
+}
+
+function give(world: World, owner: Entity, name: string, quantity = 1): Entity {
+  const item = world.resources
+    .require<EntityTemplateRegistry>(TEMPLATES_RESOURCE)
+    .instantiate(world, name, { Item: { quantity } });
+  addToInventory(world, owner, item);
+  return item;
+}
+
+function archer(world: World, arrows: number): Entity {
+  const player = spawnFighter(world, 1, 1, Player);
+  equipItem(world, player, give(world, player, "shortbow"));
+  if (arrows > 0) give(world, player, "arrow", arrows);
+  return player;
+}
+
+function quantityOf(world: World, owner: Entity, kind: string): number {
+  return getCarriedItems(world, owner)
+    .filter((item) => world.getString(item, Item, "kind") === kind)
+    .reduce((sum, item) => sum + world.get(item, Item)!.quantity, 0);
+}
+
+function collect(world: World, ...types: GameEvent["type"][]): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of types) {
+    world.events.on(type, (e) => events.push(e));
+  }
+  return events;
+}
+
+describe("traceLineOfFire", () => {
+  it("stops at the first blocking entity", () => {
+    const world = newWorld();
+    const near = spawnFighter(world, 3, 1, Enemy);
+    spawnFighter(world, 5, 1, Enemy);
+
+    const shot = traceLineOfFire(world, { x: 1, y: 1 }, { x: 8, y: 1 }, 8);
+
+    expect(shot.target).toBe(near);
+    expect(shot.path).toEqual([
+      { x: 2, y: 1 },
+      { x: 3, y: 1 },
+    ]);
+  });
+
+  it("stops before walls and at the range limit", () => {
+    const world = newWorld();
+
+    const walled = traceLineOfFire(world, { x: 1, y: 2 }, { x: 8, y: 2 }, 8);
+    expect(walled.target).toBeNull();
+    expect(walled.path.at(-1)).toEqual({ x: 4, y: 2 });
+
+    const short = traceLineOfFire(world, { x: 1, y: 1 }, { x: 8, y: 1 }, 3);
+    expect(short.path.length).toBe(3);
+  });
+});
+
+describe("fire", () => {
+  it("spends one arrow and strikes the target", () => {
+    const world = newWorld();
+    const player = archer(world, 3);
+    const monster = spawnFighter(world, 6, 1, Enemy, 20);
+    const events = collect(world, "combat.projectile", "combat.damage");
+
+    expect(fire(world, player, 6, 1)).toBe(true);
+    world.events.flush();
+
+    expect(quantityOf(world, player, "arrow")).toBe(2);
+    expect(world.get(monster, Health)!.current).toBeLessThan(20);
+    expect(events.map((e) => e.type).sort()).toEqual([
+      "combat.damage",
+      "combat.projectile",
+    ]);
+    const projectile = events.find(
+      (e) => e.type === "combat.projectile",
+    ) as Extract<GameEvent, { type: "combat.projectile" }>;
+    expect(projectile.target).toBe(monster);
+    expect(projectile.path.length).toBe(5);
+  });
+
+  it("refuses without ammunition or out of range", () => {
+    const world = newWorld();
+    const player = archer(world, 0);
+
+    expect(fire(world, player, 4, 1)).toBe(false);
+
+    give(world, player, "arrow", 1);
+    expect(fire(world, player, 1, 1)).toBe(false);
+    expect(quantityOf(world, player, "arrow")).toBe(1);
+
+    expect(fire(world, player, 4, 1)).toBe(true);
+    expect(quantityOf(world, player, "arrow")).toBe(0);
+    expect(fire(world, player, 4, 1)).toBe(false);
+  });
+
+  it("resolves requested shots on the shooter's turn", () => {
+    const world = newWorld();
+    const player = archer(world, 5);
+    const monster = spawnFighter(world, 4, 1, Enemy, 20);
+    world.set(monster, Energy, { speed: 0 });
+
+    runUntilPlayerTurn(world);
+    requestFire(world, player, 4, 1);
+    submitAction(world, player, { type: "fire", data: { x: 4, y: 1 } });
+    world.runTick();
+
+    expect(quantityOf(world, player, "arrow")).toBe(4);
+    expect(world.get(monster, Health)!.current).toBeLessThan(20);
+  });
+});
+
+describe("throwItem", () => {
+  it("throws one item off a stack and drops it where it lands", () => {
+    const world = newWorld();
+    const player = spawnFighter(world, 1, 1, Player);
+    const knives = give(world, player, "throwing_knife", 3);
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+
+    expect(throwItem(world, player, knives, 1, 2)).toBe(true);
+    expect(throwItem(world, player, knives, 6, 1)).toBe(true);
+
+    expect(world.get(knives, Item)!.quantity).toBe(1);
+    const landed = map.getEntitiesAt(6, 1);
+    expect(landed.length).toBe(1);
+    expect(world.getString(landed[0]!, Item, "kind")).toBe("throwing_knife");
+    expect(world.get(landed[0]!, Item)!.quantity).toBe(1);
+    expect(map.getEntitiesAt(1, 2).length).toBe(1);
+  });
+
+  it("refuses items that cannot be thrown", () => {
+    const world = newWorld();
+    const player = spawnFighter(world, 1, 1, Player);
+    const potion = give(world, player, "potion_of_healing");
+
+    expect(throwItem(world, player, potion, 3, 1)).toBe(false);
+    expect(getCarriedItems(world, player)).toEqual([potion]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Run lifecycle tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { type Entity, type GameEvent, Player, type World } from "@rogue/ecs";
+import {
+  CombatStats,
+  Energy,
+  GoalItem,
+  Health,
+  Inventory,
+  Position,
+  Stairs,
+} from "../src/components";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../src/prefabs";
+import {
+  addToInventory,
+  applyDamage,
+  computeScore,
+  equipItem,
+  formatMorgue,
+  formatMorgueJson,
+  getRunSummary,
+  runUntilPlayerTurn,
+  SCORE_PER_DEPTH,
+  SCORE_PER_KILL,
+  SCORE_PER_LEVEL,
+  submitAction,
+  takeStairs,
+  VICTORY_BONUS,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const LAYOUT = ["######", "#....#", "#....#", "######"];
+
+function setup(): { world: World; player: Entity } {
+  const world = createGameWorld({ dungeon: artifactFromAscii(LAYOUT) });
+  const player = world.spawn(
+    Position,
+    Energy,
+    Health,
+    CombatStats,
+    Inventory,
+    Player,
+  );
+  world.set(player, Position, { x: 1, y: 1 });
+  world.set(player, Health, { current: 10, max: 10 });
+  return { world, player };
+}
+
+function spawn(world: World, name: string, x: number): Entity {
+  const entity = world.resources
+    .require<EntityTemplateRegistry>(TEMPLATES_RESOURCE)
+    .instantiate(world, name);
+  world.set(entity, Position, { x, y: 2 });
+  return entity;
+}
+
+function give(world: World, owner: Entity, name: string): Entity {
+  const item = world.resources
+    .require<EntityTemplateRegistry>(TEMPLATES_RESOURCE)
+    .instantiate(world, name);
+  addToInventory(world, owner, item);
+  return item;
+}
+
+describe("death", () => {
+  it("ends the run with what the player did", () => {
+    const { world, player } = setup();
+    const events: GameEvent[] = [];
+    world.events.on("run.ended", (e) => events.push(e));
+
+    for (let turn = 0; turn < 2; turn++) {
+      runUntilPlayerTurn(world);
+      submitAction(world, player, { type: "wait" });
+      world.runTick();
+    }
+    applyDamage(world, spawn(world, "rat", 3), 99, player);
+    applyDamage(world, spawn(world, "rat", 4), 99, player);
+    equipItem(world, player, give(world, player, "dagger"));
+    applyDamage(world, player, 99, spawn(world, "goblin", 2));
+    world.events.flush();
+
+    const summary = getRunSummary(world, player)!;
+    expect(summary).toEqual({
+      outcome: "death",
+      cause: "killed by a goblin",
+      depth: 1,
+      turns: 2,
+      kills: { rat: 2 },
+      items: [],
+      equipment: { weapon: "dagger" },
+      level: 1,
+      gold: 0,
+      score: SCORE_PER_DEPTH + 2 * SCORE_PER_KILL + SCORE_PER_LEVEL,
+    });
+    expect(events).toEqual([
+      { type: "run.ended", entity: player, outcome: "death" },
+    ]);
+  });
+
+  it("counts only the player's progress, without recording events", () => {
+    const { world, player } = setup();
+    const goblin = spawn(world, "goblin", 2);
+    applyDamage(world, spawn(world, "rat", 3), 99, goblin);
+    applyDamage(world, spawn(world, "rat", 4), 99, player);
+    applyDamage(world, player, 99, goblin);
+
+    expect(world.events.isRecording()).toBe(false);
+    expect(getRunSummary(world, player)!.kills).toEqual({ rat: 1 });
+  });
+});
+
+describe("victory", () => {
+  it("is climbing out of the first level with the goal item", () => {
+    const { world, player } = setup();
+    const stairs = world.spawn(Position, Stairs);
+    world.set(stairs, Position, { x: 1, y: 1 });
+    world.set(stairs, Stairs, { down: false });
+
+    expect(takeStairs(world, player, stairs)).toBe(false);
+    expect(getRunSummary(world, player)).toBeUndefined();
+
+    const amulet = give(world, player, "amulet");
+    expect(world.has(amulet, GoalItem)).toBe(true);
+    expect(takeStairs(world, player, stairs)).toBe(true);
+
+    const summary = getRunSummary(world, player)!;
+    expect(summary.outcome).toBe("victory");
+    expect(summary.cause).toBeUndefined();
+    expect(summary.score).toBe(
+      SCORE_PER_DEPTH + SCORE_PER_LEVEL + VICTORY_BONUS,
+    );
+  });
+});
+
+describe("morgue", () => {
+  const summary = {
+    outcome: "death" as const,
+    cause: "killed by a giant spider",
+    depth: 4,
+    turns: 812,
+    kills: { rat: 3, giant_spider: 1 },
+    items: ["potion of healing", "short sword"],
+    equipment: { weapon: "short sword" },
+    level: 3,
+    gold: 42,
+  };
+  const scored = { ...summary, score: computeScore(summary) };
+
+  it("renders as text", () => {
+    const text = formatMorgue(scored);
+
+    expect(text).toContain("Killed by a giant spider, having reached depth 4.");
+    expect(text).toContain(`Score:           ${scored.score}`);
+    expect(text).toContain("Kills (4):\n  3 rat\n  1 giant spider\n");
+    expect(text).toContain("  weapon: short sword");
+    expect(text).toContain("Items found (2):\n  potion of healing\n");
+  });
+
+  it("renders as JSON", () => {
+    expect(JSON.parse(formatMorgueJson(scored))).toEqual(scored);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Shop tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  Enemy,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  AI,
+  AIBehavior,
+  Energy,
+  ForSale,
+  Gold,
+  Health,
+  Inventory,
+  Position,
+  Shopkeeper,
+} from "../src/components";
+import {
+  type EntityTemplateRegistry,
+  TEMPLATES_RESOURCE,
+} from "../src/prefabs";
+import { GAME_MAP_RESOURCE, type GameMap } from "../src/resources";
+import {
+  addToInventory,
+  applyDamage,
+  buyItem,
+  getInventoryItems,
+  getItemName,
+  haggle,
+  isIdentified,
+  isUnpaid,
+  requestBuy,
+  sellItem,
+  shopPrice,
+  validateBuy,
+  validateSell,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+// The shop is the left half of the room
+const LAYOUT = ["##########", "#........#", "#........#", "##########"];
+
+interface Shop {
+  world: World;
+  player: Entity;
+  keeper: Entity;
+}
+
+function spawn(world: World, name: string): Entity {
+  return world.resources
+    .require<EntityTemplateRegistry>(TEMPLATES_RESOURCE)
+    .instantiate(world, name);
+}
+
+function setup(gold = 100): Shop {
+  const world = createGameWorld({ dungeon: artifactFromAscii(LAYOUT) });
+  const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+
+  const keeper = spawn(world, "shopkeeper");
+  world.set(keeper, Position, { x: 1, y: 1 });
+  world.set(keeper, Shopkeeper, { x: 1, y: 1, width: 4, height: 2, depth: 1 });
+  map.addEntity(1, 1, keeper, true);
+
+  const player = world.spawn(Position, Energy, Health, Inventory, Player);
+  world.set(player, Position, { x: 2, y: 1 });
+  world.add(player, Gold, { amount: gold });
+  map.addEntity(2, 1, player, true);
+  return { world, player, keeper };
+}
+
+/** Hand the player a piece of the keeper's stock. */
+function pickStock({ world, player, keeper }: Shop, name: string): Entity {
+  const item = spawn(world, name);
+  world.add(item, ForSale, { price: 40 });
+  world.setEntityRef(item, ForSale, "shopkeeper", keeper);
+  addToInventory(world, player, item);
+  return item;
+}
+
+const gold = (world: World, entity: Entity) => world.get(entity, Gold)!.amount;
+
+describe("shopPrice", () => {
+  it("scales with depth", () => {
+    expect(shopPrice(40, 1)).toBe(40);
+    expect(shopPrice(40, 6)).toBe(60);
+    expect(shopPrice(1, 1)).toBe(1);
+    expect(shopPrice(0, 5)).toBe(0);
+  });
+});
+
+describe("buying", () => {
+  it("pays the keeper and clears the price tag", () => {
+    const shop = setup();
+    const { world, player, keeper } = shop;
+    const item = pickStock(shop, "potion_of_healing");
+    const events: GameEvent[] = [];
+    world.events.on("shop.trade", (e) => events.push(e));
+
+    expect(getInventoryItems(world, player)[0]!.pr).toBe(40);
+    expect(buyItem(world, player, item)).toBe(true);
+    world.events.flush();
+
+    expect(gold(world, player)).toBe(60);
+    expect(gold(world, keeper)).toBe(340);
+    expect(isUnpaid(world, item)).toBe(false);
+    expect(getInventoryItems(world, player)[0]!.pr).toBeUndefined();
+    expect(events).toContainEqual({
+      type: "shop.trade",
+      entity: player,
+      shopkeeper: keeper,
+      item,
+      itemName: getItemName(world, player, item),
+      price: 40,
+      action: "buy",
+    });
+  });
+
+  it("refuses buyers who cannot pay", () => {
+    const shop = setup(10);
+    const item = pickStock(shop, "potion_of_healing");
+
+    expect(validateBuy(shop.world, shop.player, item)?.error).toBe(
+      "not_enough_gold",
+    );
+    requestBuy(shop.world, shop.player, item);
+    shop.world.runTick();
+
+    expect(gold(shop.world, shop.player)).toBe(10);
+    expect(isUnpaid(shop.world, item)).toBe(true);
+  });
+});
+
+describe("selling", () => {
+  it("appraises the item and puts it up for sale", () => {
+    const { world, player, keeper } = setup();
+    const potion = spawn(world, "potion_of_healing");
+    addToInventory(world, player, potion);
+
+    expect(sellItem(world, player, potion)).toBe(true);
+
+    expect(gold(world, player)).toBe(120);
+    expect(gold(world, keeper)).toBe(280);
+    expect(isIdentified(world, player, potion)).toBe(true);
+    expect(world.get(potion, Position)).toEqual({ x: 2, y: 1 });
+    expect(world.get(potion, ForSale)!.price).toBe(40);
+    expect(world.getEntityRef(potion, ForSale, "shopkeeper")).toBe(keeper);
+  });
+
+  it("needs a shop", () => {
+    const { world, player } = setup();
+    const potion = spawn(world, "potion_of_healing");
+    addToInventory(world, player, potion);
+    world.set(player, Position, { x: 7, y: 1 });
+
+    expect(validateSell(world, player, potion)?.error).toBe("no_shop");
+  });
+});
+
+describe("haggle", () => {
+  it("loses the keeper's patience on lowball offers", () => {
+    const shop = setup();
+    const { world, player, keeper } = shop;
+    const item = pickStock(shop, "potion_of_healing");
+    const { patience } = world.get(keeper, Shopkeeper)!;
+
+    for (let i = 0; i < patience; i++) {
+      expect(haggle(world, player, item, 1)).toBe(false);
+    }
+    expect(world.get(keeper, Shopkeeper)!.patience).toBe(0);
+    expect(haggle(world, player, item, 39)).toBe(false);
+    expect(gold(world, player)).toBe(100);
+
+    expect(haggle(world, player, item, 50)).toBe(true);
+    expect(gold(world, player)).toBe(60);
+  });
+});
+
+describe("theft", () => {
+  it("turns the keeper hostile when unpaid items leave the shop", () => {
+    const shop = setup();
+    const { world, player, keeper } = shop;
+    const item = pickStock(shop, "potion_of_healing");
+    const events: GameEvent[] = [];
+    world.events.on("shop.theft", (e) => events.push(e));
+
+    world.runTick();
+    expect(world.has(keeper, Enemy)).toBe(false);
+
+    world.set(player, Position, { x: 6, y: 1 });
+    world.runTick();
+    world.events.flush();
+
+    expect(events).toEqual([
+      { type: "shop.theft", entity: player, shopkeeper: keeper },
+    ]);
+    expect(world.has(keeper, Enemy)).toBe(true);
+    expect(world.get(keeper, AI)!.behavior).toBe(AIBehavior.Chase);
+    expect(validateBuy(world, player, item)?.error).toBe("refused");
+  });
+
+  it("is what hurting the keeper counts as, too", () => {
+    const { world, player, keeper } = setup();
+
+    applyDamage(world, keeper, 1, player);
+
+    expect(world.has(keeper, Enemy)).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Status effect tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  Enemy,
+  type Entity,
+  type GameEvent,
+  Player,
+  type World,
+} from "@rogue/ecs";
+import {
+  CombatStats,
+  Energy,
+  FOV,
+  Health,
+  Position,
+  Status,
+  VisibleCells,
+} from "../src/components";
+import {
+  GAME_MAP_RESOURCE,
+  type GameMap,
+  STATUSES_RESOURCE,
+  type StatusRegistry,
+} from "../src/resources";
+import {
+  applyStatus,
+  findStatus,
+  getCombatStats,
+  getSpeed,
+  hasStatus,
+  POISON_DAMAGE,
+  runUntilPlayerTurn,
+  submitAction,
+} from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+const ROOM = [
+  "###########",
+  "#.........#",
+  "#.........#",
+  "#.........#",
+  "#.........#",
+  "#.........#",
+  "###########",
+];
+
+function setup(): { world: World; player: Entity } {
+  const world = createGameWorld({ dungeon: artifactFromAscii(ROOM) });
+  const player = world.spawn(
+    Position,
+    Energy,
+    Health,
+    CombatStats,
+    FOV,
+    VisibleCells,
+    Player,
+  );
+  world.set(player, Position, { x: 5, y: 3 });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(5, 3, player, true);
+  return { world, player };
+}
+
+function duration(world: World, entity: Entity, name: string): number {
+  const status = findStatus(world, entity, name);
+  return status === null ? 0 : world.get(status, Status)!.duration;
+}
+
+function collect(world: World, ...types: GameEvent["type"][]): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of types) {
+    world.events.on(type, (e) => events.push(e));
+  }
+  return events;
+}
+
+describe("stacking", () => {
+  it("applies the definition's policy to re-applications", () => {
+    const { world, player } = setup();
+
+    applyStatus(world, player, "regeneration", 5);
+    applyStatus(world, player, "regeneration", 2);
+    expect(duration(world, player, "regeneration")).toBe(2);
+
+    applyStatus(world, player, "poison", 5);
+    applyStatus(world, player, "poison", 4);
+    expect(duration(world, player, "poison")).toBe(9);
+    applyStatus(world, player, "poison", 50);
+    expect(duration(world, player, "poison")).toBe(20);
+
+    applyStatus(world, player, "slow", 5);
+    applyStatus(world, player, "slow", 3);
+    expect(duration(world, player, "slow")).toBe(5);
+  });
+});
+
+describe("hooks", () => {
+  it("poisons on each of the victim's turns and credits the source", () => {
+    const { world, player } = setup();
+    const monster = world.spawn(Position, Health, Enemy);
+    world.set(monster, Health, { current: POISON_DAMAGE, max: 1 });
+    world.set(monster, Position, { x: 1, y: 1 });
+    world.add(monster, Energy);
+    world.set(player, Energy, { speed: 0 });
+    const deaths = collect(world, "combat.death");
+
+    applyStatus(world, monster, "poison", 3, player);
+    world.runTick();
+    world.runTick();
+
+    expect(deaths).toEqual([
+      { type: "combat.death", entity: monster, killer: player },
+    ]);
+  });
+
+  it("skips paralysed players' turns without waiting for input", () => {
+    const { world, player } = setup();
+    const ended = collect(world, "turn.ended");
+
+    applyStatus(world, player, "paralysis", 2);
+    runUntilPlayerTurn(world);
+
+    expect(ended.length).toBe(2);
+    expect(hasStatus(world, player, "paralysis")).toBe(false);
+    expect(submitAction(world, player, { type: "wait" })).toBe(true);
+  });
+});
+
+describe("modifiers", () => {
+  it("changes speed under haste and slow", () => {
+    const { world, player } = setup();
+    expect(getSpeed(world, player)).toBe(10);
+
+    applyStatus(world, player, "haste", 3);
+    expect(getSpeed(world, player)).toBe(15);
+
+    applyStatus(world, player, "slow", 3);
+    expect(getSpeed(world, player)).toBe(10);
+  });
+
+  it("feeds combat stats", () => {
+    const { world, player } = setup();
+    world.resources.require<StatusRegistry>(STATUSES_RESOURCE).define({
+      id: "rage",
+      stacking: "refresh",
+      modifiers: { attack: 3, defense: -2 },
+    });
+
+    applyStatus(world, player, "rage", 3);
+    const stats = getCombatStats(world, player);
+
+    expect(stats.attack).toBe(5);
+    expect(stats.defense).toBe(-2);
+  });
+
+  it("shrinks sight while blind and restores it afterwards", () => {
+    const { world, player } = setup();
+    world.set(player, Energy, { speed: 0 });
+    world.runTick();
+    const full = world.get(player, VisibleCells)!.count;
+
+    applyStatus(world, player, "blind", 1);
+    world.runTick();
+    expect(world.get(player, VisibleCells)!.count).toBe(9);
+
+    world.set(player, Energy, { current: 100 });
+    world.runTick();
+    submitAction(world, player, { type: "wait" });
+    world.runTick();
+    expect(hasStatus(world, player, "blind")).toBe(false);
+    expect(world.get(player, VisibleCells)!.count).toBe(full);
+  });
+});
+
+describe("StatusRegistry", () => {
+  it("rejects duplicate ids", () => {
+    const { world } = setup();
+    const registry = world.resources.require<StatusRegistry>(STATUSES_RESOURCE);
+
+    expect(() => registry.define({ id: "poison", stacking: "add" })).toThrow();
+  });
+});
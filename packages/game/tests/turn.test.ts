@@ -0,0 +1,157 @@
+/**
+ * Energy-based turn scheduler tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { type Entity, type GameEvent, Player, type World } from "@rogue/ecs";
+import { Energy, Position } from "../src/components";
+import {
+  GAME_MAP_RESOURCE,
+  type GameMap,
+  TURN_STATE_RESOURCE,
+  type TurnStateManager,
+} from "../src/resources";
+import { runUntilPlayerTurn, submitAction } from "../src/systems";
+import { createGameWorld } from "../src/world";
+import { artifactFromAscii } from "./helpers";
+
+function turnState(world: World): TurnStateManager {
+  return world.resources.require<TurnStateManager>(TURN_STATE_RESOURCE);
+}
+
+function spawnActor(
+  world: World,
+  x: number,
+  y: number,
+  speed: number,
+  player = false,
+): Entity {
+  const entity = player
+    ? world.spawn(Position, Energy, Player)
+    : world.spawn(Position, Energy);
+  world.set(entity, Position, { x, y });
+  world.set(entity, Energy, { current: 0, speed });
+  world.resources
+    .require<GameMap>(GAME_MAP_RESOURCE)
+    .addEntity(x, y, entity, true);
+  return entity;
+}
+
+function recordTurns(world: World): GameEvent[] {
+  const events: GameEvent[] = [];
+  world.events.on("turn.started", (e) => events.push(e));
+  world.events.on("turn.ended", (e) => events.push(e));
+  return events;
+}
+
+describe("TurnSystem", () => {
+  const dungeon = () => artifactFromAscii(["#####", "#...#", "#...#", "#####"]);
+
+  it("fast-forwards idle ticks until the player is ready", () => {
+    const world = createGameWorld({ dungeon: dungeon() });
+    const player = spawnActor(world, 1, 1, 10, true);
+
+    runUntilPlayerTurn(world);
+
+    const state = turnState(world).getState();
+    expect(state.activeEntity).toBe(player);
+    expect(state.turnPhase).toBe("acting");
+    expect(state.currentTick).toBe(10);
+  });
+
+  it("blocks until the player submits an action", () => {
+    const world = createGameWorld({ dungeon: dungeon() });
+    const player = spawnActor(world, 1, 1, 10, true);
+    runUntilPlayerTurn(world);
+
+    world.runTick();
+    world.runTick();
+    expect(turnState(world).getCurrentTick()).toBe(10);
+    expect(turnState(world).getPhase()).toBe("acting");
+
+    expect(submitAction(world, player, { type: "wait" })).toBe(true);
+    expect(submitAction(world, player, { type: "wait" })).toBe(false);
+
+    world.runTick();
+    expect(world.get(player, Energy)?.current).toBe(0);
+
+    runUntilPlayerTurn(world);
+    expect(turnState(world).getCurrentTick()).toBe(20);
+  });
+
+  it("rejects actions from entities that are not acting", () => {
+    const world = createGameWorld({ dungeon: dungeon() });
+    spawnActor(world, 1, 1, 10, true);
+    const monster = spawnActor(world, 3, 2, 5);
+
+    runUntilPlayerTurn(world);
+
+    expect(submitAction(world, monster, { type: "wait" })).toBe(false);
+  });
+
+  it("lets faster actors act more often", () => {
+    const world = createGameWorld({ dungeon: dungeon() });
+    const player = spawnActor(world, 1, 1, 10, true);
+    const fast = spawnActor(world, 3, 2, 20);
+    const events = recordTurns(world);
+
+    for (let i = 0; i < 3; i++) {
+      runUntilPlayerTurn(world);
+      submitAction(world, player, { type: "wait" });
+      world.runTick();
+    }
+
+    const started = events.filter((e) => e.type === "turn.started");
+    const fastTurns = started.filter(
+      (e) => e.type === "turn.started" && e.entity === fast,
+    );
+    const playerTurns = started.filter(
+      (e) => e.type === "turn.started" && e.entity === player,
+    );
+
+    expect(playerTurns.length).toBe(3);
+    expect(fastTurns.length).toBe(6);
+  });
+
+  it("emits turn.started and turn.ended with the game tick", () => {
+    const world = createGameWorld({ dungeon: dungeon() });
+    const player = spawnActor(world, 1, 1, 25, true);
+    const events = recordTurns(world);
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "wait" });
+    world.runTick();
+
+    expect(events).toEqual([
+      { type: "turn.started", entity: player, tick: 4 },
+      { type: "turn.ended", entity: player, tick: 4 },
+    ]);
+  });
+
+  it("resolves move actions through the game map", () => {
+    const world = createGameWorld({ dungeon: dungeon() });
+    const map = world.resources.require<GameMap>(GAME_MAP_RESOURCE);
+    const player = spawnActor(world, 1, 1, 10, true);
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "move", data: { dx: 1, dy: 0 } });
+    world.runTick();
+
+    expect(world.get(player, Position)).toEqual({ x: 2, y: 1 });
+    expect(map.getEntitiesAt(2, 1)).toEqual([player]);
+    expect(map.hasEntities(1, 1)).toBe(false);
+
+    runUntilPlayerTurn(world);
+    submitAction(world, player, { type: "move", data: { dx: 0, dy: -1 } });
+    world.runTick();
+
+    expect(world.get(player, Position)).toEqual({ x: 2, y: 1 });
+  });
+
+  it("returns when nothing can act", () => {
+    const world = createGameWorld({ dungeon: dungeon() });
+    spawnActor(world, 1, 1, 0);
+
+    expect(runUntilPlayerTurn(world, 50)).toBe(1);
+  });
+});